@@ -54,7 +54,11 @@ export type {
   PersistorStatus,
   PersistSignalsOptions,
   PersistSignalsResult,
+  PersistEnvelope,
+  PersistMigration,
+  SavedValues,
 } from "./persistSignals";
+export { MigrationError } from "./persistSignals";
 
 // Re-export LOADABLE_TYPE constant
 export { LOADABLE_TYPE } from "./types";
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi } from "vitest";
 import { signal } from "./signal";
-import { persistSignals } from "./persistSignals";
+import { persistSignals, MigrationError } from "./persistSignals";
 
 describe("persistSignals", () => {
   describe("basic functionality", () => {
@@ -516,5 +516,126 @@ describe("persistSignals", () => {
     });
 
   });
-});
 
+  describe("versioning", () => {
+    const migrate = [
+      // v0 -> v1: todos were plain strings
+      (v0: { todos: string[] }) => ({
+        todos: v0.todos.map((text) => ({ text, done: false })),
+      }),
+    ];
+
+    it("should save values in an envelope with the current version", () => {
+      const todos = signal<{ text: string; done: boolean }[]>([]);
+      const save = vi.fn();
+
+      persistSignals({ todos }, { save, migrate });
+      todos.set([{ text: "a", done: false }]);
+
+      expect(save).toHaveBeenCalledWith({
+        version: 1,
+        value: { todos: [{ text: "a", done: false }] },
+      });
+    });
+
+    it("should migrate values saved without envelope", () => {
+      const todos = signal<{ text: string; done: boolean }[]>([]);
+
+      persistSignals(
+        { todos },
+        { load: () => ({ todos: ["a"] }), migrate }
+      );
+
+      expect(todos.get()).toEqual([{ text: "a", done: false }]);
+    });
+
+    it("should load current envelopes without migrating", async () => {
+      const count = signal(0);
+      const migration = vi.fn();
+
+      persistSignals(
+        { count },
+        {
+          load: async () => ({ version: 2, value: { count: 5 } }),
+          migrate: [migration],
+          version: 2,
+        }
+      );
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(count.get()).toBe(5);
+      expect(migration).not.toHaveBeenCalled();
+    });
+
+    it("should report failed migrations as load errors", () => {
+      const count = signal(0);
+      const onError = vi.fn();
+      const cause = new Error("bad data");
+
+      const result = persistSignals(
+        { count },
+        {
+          load: () => ({ version: 0, value: { count: "x" } }),
+          migrate: [
+            () => {
+              throw cause;
+            },
+          ],
+          onError,
+        }
+      );
+
+      expect(count.get()).toBe(0);
+      expect(result.status()).toBe("watching");
+      expect(onError).toHaveBeenCalledWith(expect.any(MigrationError), "load");
+      expect(onError.mock.calls[0][0]).toMatchObject({
+        fromVersion: 0,
+        toVersion: 1,
+        cause,
+      });
+    });
+
+    it("should report values from newer versions", () => {
+      const onError = vi.fn();
+
+      persistSignals(
+        { count: signal(0) },
+        { load: () => ({ version: 3, value: { count: 1 } }), migrate: [], onError }
+      );
+
+      expect(onError).toHaveBeenCalledWith(expect.any(MigrationError), "load");
+    });
+
+    it("should discard values that can't be migrated", () => {
+      const count = signal(0);
+      const onError = vi.fn();
+
+      persistSignals(
+        { count },
+        {
+          load: () => ({ version: 0, value: { count: "x" } }),
+          migrate: [
+            () => {
+              throw new Error("bad data");
+            },
+          ],
+          discard: true,
+          onError,
+        }
+      );
+
+      expect(count.get()).toBe(0);
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it("should ignore empty storage", () => {
+      const count = signal(0);
+      const onError = vi.fn();
+
+      persistSignals({ count }, { load: () => null, migrate: [], onError });
+
+      expect(count.get()).toBe(0);
+      expect(onError).not.toHaveBeenCalled();
+    });
+  });
+});
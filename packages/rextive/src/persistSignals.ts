@@ -12,25 +12,68 @@ export type PersistorStatus =
   | "watching" // Actively saving changes
   | "paused"; // Temporarily not saving (but subscribed)
 
-export type PersistSignalsOptions<TSignals extends SignalMap> = {
-  // Load persisted values
-  // Returns partial map of signal values (only loaded signals included)
-  load?: () => PersistedValues<TSignals> | Promise<PersistedValues<TSignals>>;
+export type SavedValues<TSignals extends SignalMap> = {
+  [K in keyof TSignals]: TSignals[K] extends Signal<infer T> ? T : never;
+};
 
-  // Save current values
-  // Called whenever any signal changes (calling site handles debouncing)
-  save?: (values: {
-    [K in keyof TSignals]: TSignals[K] extends Signal<infer T> ? T : never;
-  }) => void;
+// Shape of versioned values in storage
+export type PersistEnvelope<T = unknown> = {
+  version: number;
+  value: T;
+};
 
+// Upgrades persisted values by one version
+export type PersistMigration = (value: any) => unknown;
+
+type PersistSignalsBaseOptions = {
   // Error handling - fires for both load and save errors
   // Use `type` to determine which operation failed
+  // (failed migrations are reported as "load" errors with a MigrationError)
   onError?: (error: unknown, type: "load" | "save") => void;
 
   // Behavior options
   autoStart?: boolean; // default: true - start persistence immediately
 };
 
+type UnversionedPersistOptions<TSignals extends SignalMap> = {
+  // Load persisted values
+  // Returns partial map of signal values (only loaded signals included)
+  load?: () => PersistedValues<TSignals> | Promise<PersistedValues<TSignals>>;
+
+  // Save current values
+  // Called whenever any signal changes (calling site handles debouncing)
+  save?: (values: SavedValues<TSignals>) => void;
+
+  migrate?: undefined;
+  version?: undefined;
+  discard?: undefined;
+};
+
+type VersionedPersistOptions<TSignals extends SignalMap> = {
+  // Load the stored envelope ({ version, value })
+  // Data stored without envelope (before versioning was enabled) is version 0
+  load?: () => unknown;
+
+  // Save the envelope of the current values
+  save?: (envelope: PersistEnvelope<SavedValues<TSignals>>) => void;
+
+  // Ordered migrations: migrate[n] upgrades loaded values from version n to n + 1
+  // The result of the pipeline is the partial map of signal values
+  migrate: readonly PersistMigration[];
+
+  // Current version - default: migrate.length
+  version?: number;
+
+  // When loaded values can't be migrated:
+  // - false (default): report a MigrationError to onError(error, "load")
+  // - true: ignore them silently (signals keep their initial values)
+  discard?: boolean;
+};
+
+export type PersistSignalsOptions<TSignals extends SignalMap> =
+  PersistSignalsBaseOptions &
+    (UnversionedPersistOptions<TSignals> | VersionedPersistOptions<TSignals>);
+
 export type PersistSignalsResult<TSignals extends SignalMap> = {
   // The signals themselves (same reference)
   signals: TSignals;
@@ -45,6 +88,80 @@ export type PersistSignalsResult<TSignals extends SignalMap> = {
   status: () => PersistorStatus;
 };
 
+/**
+ * Error reported when loaded values can't be migrated.
+ */
+export class MigrationError extends Error {
+  /** Version of the loaded values */
+  readonly fromVersion: number;
+  /** Version the values had to be migrated to */
+  readonly toVersion: number;
+  /** Error thrown by the failed migration (if any) */
+  readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    fromVersion: number,
+    toVersion: number,
+    cause?: unknown
+  ) {
+    super(message);
+    this.name = "MigrationError";
+    this.fromVersion = fromVersion;
+    this.toVersion = toVersion;
+    this.cause = cause;
+  }
+}
+
+const isPersistEnvelope = (data: unknown): data is PersistEnvelope =>
+  typeof data === "object" &&
+  data !== null &&
+  typeof (data as PersistEnvelope).version === "number" &&
+  "value" in data &&
+  Object.keys(data).length === 2;
+
+// Brings loaded data (envelope or bare values) to the current version
+const migrateLoaded = (
+  data: unknown,
+  version: number,
+  migrations: readonly PersistMigration[]
+) => {
+  const envelope = isPersistEnvelope(data) ? data : { version: 0, value: data };
+  let value = envelope.value;
+
+  if (envelope.version > version) {
+    throw new MigrationError(
+      `Persisted version ${envelope.version} is newer than version ${version}`,
+      envelope.version,
+      version
+    );
+  }
+
+  for (let from = envelope.version; from < version; from++) {
+    const migration = migrations[from];
+    if (!migration) {
+      throw new MigrationError(
+        `No migration from version ${from} to ${from + 1}`,
+        envelope.version,
+        version
+      );
+    }
+
+    try {
+      value = migration(value);
+    } catch (error) {
+      throw new MigrationError(
+        `Migration from version ${from} to ${from + 1} failed`,
+        envelope.version,
+        version,
+        error
+      );
+    }
+  }
+
+  return value;
+};
+
 /**
  * Persist multiple signals with centralized load/save operations.
  *
@@ -58,12 +175,39 @@ export type PersistSignalsResult<TSignals extends SignalMap> = {
  *   }
  * );
  * ```
+ *
+ * @example
+ * ```ts
+ * // Versioned: save receives { version, value } envelopes,
+ * // older loaded data goes through the migrate pipeline
+ * persistSignals(
+ *   { todos: signal<Todo[]>([]) },
+ *   {
+ *     load: () => JSON.parse(localStorage.getItem("state") || "null"),
+ *     save: (envelope) => localStorage.setItem("state", JSON.stringify(envelope)),
+ *     migrate: [
+ *       // v0 -> v1: todos were plain strings
+ *       (v0) => ({ todos: v0.todos.map((text: string) => ({ text, done: false })) }),
+ *     ],
+ *   }
+ * );
+ * ```
  */
 export function persistSignals<TSignals extends SignalMap>(
   signals: TSignals,
   options: PersistSignalsOptions<TSignals> = {}
 ): PersistSignalsResult<TSignals> {
-  const { load, save, onError, autoStart = true } = options;
+  const { onError, autoStart = true } = options;
+  const load = options.load as (() => unknown) | undefined;
+  const versioned = options.migrate !== undefined;
+  const migrations = options.migrate ?? [];
+  const version = options.version ?? migrations.length;
+  const save = options.save as ((data: unknown) => void) | undefined;
+
+  // Write values, wrapped in an envelope when versioned
+  const write = (values: Record<keyof TSignals, any>) => {
+    save?.(versioned ? { version, value: values } : values);
+  };
 
   let currentStatus: PersistorStatus = "idle";
   const onCleanup = emitter<void>();
@@ -84,7 +228,7 @@ export function persistSignals<TSignals extends SignalMap>(
 
     try {
       const values = getCurrentValues();
-      save(values);
+      write(values);
     } catch (error) {
       if (onError) {
         onError(error, "save");
@@ -122,7 +266,24 @@ export function persistSignals<TSignals extends SignalMap>(
   };
 
   // Apply loaded values to signals
-  const applyLoadedValues = (loaded: PersistedValues<TSignals>) => {
+  const applyLoadedValues = (data: unknown) => {
+    let loaded: PersistedValues<TSignals>;
+
+    if (versioned) {
+      if (data === null || data === undefined) return;
+
+      try {
+        loaded = migrateLoaded(data, version, migrations) as any;
+      } catch (error) {
+        if (!options.discard && onError) {
+          onError(error, "load");
+        }
+        return;
+      }
+    } else {
+      loaded = data as PersistedValues<TSignals>;
+    }
+
     for (const key in loaded) {
       if (key in signals) {
         const signal = signals[key] as MutableSignal<any>;
@@ -152,7 +313,7 @@ export function persistSignals<TSignals extends SignalMap>(
         // Async load - set to loading and wait
         currentStatus = "loading";
 
-        result
+        Promise.resolve(result)
           .then((loaded) => {
             if (currentStatus === "loading") {
               applyLoadedValues(loaded);
@@ -218,7 +379,7 @@ export function persistSignals<TSignals extends SignalMap>(
     // Save the paused values if any
     if (pausedValues && save) {
       try {
-        save(pausedValues);
+        write(pausedValues);
       } catch (error) {
         if (onError) {
           onError(error, "save");
@@ -0,0 +1,101 @@
+import { createElement, type ReactNode } from "react";
+import type { ComponentState, HookCollector, RxContext, Store } from "./types";
+import { createSignal } from "./signal";
+import { bindStore, isStore } from "./store";
+import { Part } from "./part";
+
+/**
+ * Creates an empty component state for a new setup run.
+ */
+export function createComponentState(): ComponentState {
+  return {
+    status: "pending",
+    hooks: [],
+    cleanupCallbacks: [],
+    disposed: false,
+  };
+}
+
+/**
+ * Runs every registered cleanup callback once and marks the state disposed.
+ * Callbacks registered afterwards (e.g. by a setup that resolves after
+ * unmount) are executed immediately by `ctx.on()`.
+ *
+ * @param state Component state to dispose
+ */
+export function disposeComponentState(state: ComponentState) {
+  state.disposed = true;
+  runCleanups(state);
+}
+
+/**
+ * Runs and forgets all cleanup callbacks collected so far.
+ */
+export function runCleanups(state: ComponentState) {
+  const callbacks = state.cleanupCallbacks;
+  state.cleanupCallbacks = [];
+  callbacks.forEach((callback) => callback());
+}
+
+/**
+ * Creates the RxContext passed to render functions and logic.
+ *
+ * @param state Component state that collects hooks and cleanups
+ * @returns Context instance bound to the given state
+ */
+export function createRxContext(state: ComponentState): RxContext {
+  const context: RxContext = {
+    state(initOrStore: any, key?: any): any {
+      if (isStore(initOrStore)) {
+        return bindStore(initOrStore as Store<any>, key);
+      }
+
+      const signal = createSignal(initOrStore);
+      return [() => signal(), (value: any) => signal.set(value)];
+    },
+
+    hook(renderHook) {
+      const collector: HookCollector = {
+        fn: renderHook,
+        result: undefined,
+        changed: false,
+        version: createSignal(0),
+      };
+      state.hooks.push(collector);
+
+      return {
+        get current() {
+          // Reading the version makes parts re-render when the hook re-runs
+          collector.version();
+          return collector.result;
+        },
+      };
+    },
+
+    part(renderPart): ReactNode {
+      return createElement(Part, { render: renderPart });
+    },
+
+    on(options) {
+      if (options.cleanup) {
+        const cleanups = Array.isArray(options.cleanup)
+          ? options.cleanup
+          : [options.cleanup];
+
+        if (state.disposed) {
+          // Component is already gone, release the resource right away
+          cleanups.forEach((cleanup) => cleanup());
+          return;
+        }
+
+        state.cleanupCallbacks.push(...cleanups);
+      }
+    },
+
+    use(logic, ...params) {
+      return logic(context, ...params);
+    },
+  };
+
+  return context;
+}
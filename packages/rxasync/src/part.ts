@@ -0,0 +1,23 @@
+import { memo, useLayoutEffect, useReducer, type ReactNode } from "react";
+import { subscribeAll, track } from "./signal";
+
+/**
+ * Fine-grained reactive section created by `ctx.part()`.
+ *
+ * Evaluates its render function with dependency tracking and re-renders
+ * itself (and nothing else) when any signal it read changes.
+ */
+export const Part = memo(function Part(props: { render: () => unknown }) {
+  const [, rerender] = useReducer((x: number) => x + 1, 0);
+  const [result, dependencies] = track(props.render);
+
+  // Re-subscribe after every render, dependencies may differ between renders
+  useLayoutEffect(() => subscribeAll(dependencies, rerender));
+
+  // Functions are not valid React children
+  if (typeof result === "function") {
+    return null;
+  }
+
+  return (result ?? null) as ReactNode;
+});
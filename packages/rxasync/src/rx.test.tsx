@@ -0,0 +1,414 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent, waitFor, act } from "@testing-library/react";
+import React, { Component, type ReactNode } from "react";
+import { rx, store, type RxContext } from "./index";
+
+class ErrorBoundary extends Component<
+  { children: ReactNode },
+  { error?: Error }
+> {
+  state: { error?: Error } = {};
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  render() {
+    if (this.state.error) {
+      return <div>Boundary: {this.state.error.message}</div>;
+    }
+    return this.props.children;
+  }
+}
+
+const delay = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("rx", () => {
+  describe("sync setup", () => {
+    it("should render the setup result without loading state", () => {
+      const Hello = rx(() => <div>Hello</div>);
+      render(<Hello />);
+      expect(screen.getByText("Hello")).toBeInTheDocument();
+    });
+
+    it("should pass props to the render function", () => {
+      const Greet = rx((props: { name: string }) => <div>Hi {props.name}</div>);
+      render(<Greet name="Alice" />);
+      expect(screen.getByText("Hi Alice")).toBeInTheDocument();
+    });
+
+    it("should run setup once", () => {
+      const setup = vi.fn();
+      const Counter = rx((_, ctx) => {
+        setup();
+        const [count, setCount] = ctx.state(0);
+        return (
+          <div>
+            <span>{ctx.part(count)}</span>
+            <button onClick={() => setCount((c) => c + 1)}>+</button>
+          </div>
+        );
+      });
+
+      render(<Counter />);
+      fireEvent.click(screen.getByText("+"));
+      fireEvent.click(screen.getByText("+"));
+
+      expect(screen.getByText("2")).toBeInTheDocument();
+      expect(setup).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("async setup", () => {
+    it("should render loading while pending", async () => {
+      const AsyncComp = rx(
+        async () => {
+          await delay(10);
+          return <div>Ready</div>;
+        },
+        { loading: <div>Loading</div> }
+      );
+
+      render(<AsyncComp />);
+      expect(screen.getByText("Loading")).toBeInTheDocument();
+
+      await waitFor(() => {
+        expect(screen.getByText("Ready")).toBeInTheDocument();
+      });
+      expect(screen.queryByText("Loading")).not.toBeInTheDocument();
+    });
+
+    it("should render nothing while pending without loading option", async () => {
+      const AsyncComp = rx(async () => {
+        await delay(10);
+        return <div>Ready</div>;
+      });
+
+      const { container } = render(<AsyncComp />);
+      expect(container.textContent).toBe("");
+
+      await waitFor(() => {
+        expect(container.textContent).toBe("Ready");
+      });
+    });
+
+    it("should support state created after await", async () => {
+      const Profile = rx(async (_, ctx) => {
+        const user = await Promise.resolve({ name: "John" });
+        const [getUser, setUser] = ctx.state(user);
+        return (
+          <div>
+            <h1>{ctx.part(() => getUser().name)}</h1>
+            <button onClick={() => setUser({ name: "Jane" })}>rename</button>
+          </div>
+        );
+      });
+
+      render(<Profile />);
+      await waitFor(() => {
+        expect(screen.getByText("John")).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByText("rename"));
+      expect(screen.getByText("Jane")).toBeInTheDocument();
+    });
+  });
+
+  describe("errors", () => {
+    it("should render options.error when async setup rejects", async () => {
+      const Failing = rx(
+        async () => {
+          await delay();
+          throw new Error("boom");
+        },
+        { error: (error) => <div>Error: {error.message}</div> }
+      );
+
+      render(<Failing />);
+      await waitFor(() => {
+        expect(screen.getByText("Error: boom")).toBeInTheDocument();
+      });
+    });
+
+    it("should render options.error when sync setup throws", () => {
+      const Failing = rx(
+        () => {
+          throw new Error("sync boom");
+        },
+        { error: (error) => <div>Error: {error.message}</div> }
+      );
+
+      render(<Failing />);
+      expect(screen.getByText("Error: sync boom")).toBeInTheDocument();
+    });
+
+    it("should bubble to the nearest boundary without options.error", async () => {
+      const consoleError = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const Failing = rx(async () => {
+        await delay();
+        throw new Error("boom");
+      });
+
+      render(
+        <ErrorBoundary>
+          <Failing />
+        </ErrorBoundary>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText("Boundary: boom")).toBeInTheDocument();
+      });
+      consoleError.mockRestore();
+    });
+
+    it("should run registered cleanups when setup fails", async () => {
+      const cleanup = vi.fn();
+      const Failing = rx(
+        async (_, ctx) => {
+          ctx.on({ cleanup });
+          await delay();
+          throw new Error("boom");
+        },
+        { error: () => <div>failed</div> }
+      );
+
+      const { unmount } = render(<Failing />);
+      await waitFor(() => {
+        expect(screen.getByText("failed")).toBeInTheDocument();
+      });
+      expect(cleanup).toHaveBeenCalledTimes(1);
+
+      unmount();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("cleanup", () => {
+    it("should run cleanups on unmount", () => {
+      const first = vi.fn();
+      const second = vi.fn();
+      const third = vi.fn();
+      const App = rx((_, ctx) => {
+        ctx.on({ cleanup: first });
+        ctx.on({ cleanup: [second, third] });
+        return <div>App</div>;
+      });
+
+      const { unmount } = render(<App />);
+      expect(first).not.toHaveBeenCalled();
+
+      unmount();
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledTimes(1);
+      expect(third).toHaveBeenCalledTimes(1);
+    });
+
+    it("should run cleanups registered after unmount immediately", async () => {
+      const cleanup = vi.fn();
+      let resume!: VoidFunction;
+      const App = rx(async (_, ctx) => {
+        await new Promise<void>((resolve) => (resume = resolve));
+        ctx.on({ cleanup });
+        return <div>App</div>;
+      });
+
+      const { unmount } = render(<App />);
+      unmount();
+
+      await act(async () => {
+        resume();
+        await delay();
+      });
+
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it("should ignore setup results after unmount", async () => {
+      const consoleError = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const App = rx(async () => {
+        await delay(10);
+        return <div>App</div>;
+      });
+
+      const { unmount } = render(<App />);
+      unmount();
+      await act(() => delay(20));
+
+      expect(consoleError).not.toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe("part", () => {
+    it("should only re-render changed parts", () => {
+      let part1Renders = 0;
+      let part2Renders = 0;
+      let bodyRenders = 0;
+
+      const App = rx((_, ctx) => {
+        const [count1, setCount1] = ctx.state(0);
+        const [count2] = ctx.state(0);
+        ctx.hook(() => {
+          bodyRenders++;
+        });
+
+        return (
+          <div>
+            <span>
+              {ctx.part(() => {
+                part1Renders++;
+                return count1();
+              })}
+            </span>
+            <span>
+              {ctx.part(() => {
+                part2Renders++;
+                return count2();
+              })}
+            </span>
+            <button onClick={() => setCount1((c) => c + 1)}>+1</button>
+          </div>
+        );
+      });
+
+      render(<App />);
+      part1Renders = 0;
+      part2Renders = 0;
+      bodyRenders = 0;
+
+      fireEvent.click(screen.getByText("+1"));
+
+      expect(part1Renders).toBe(1);
+      expect(part2Renders).toBe(0);
+      expect(bodyRenders).toBe(0);
+    });
+
+    it("should render null for function results", () => {
+      const App = rx((_, ctx) => <div>{ctx.part(() => () => {})}</div>);
+      const { container } = render(<App />);
+      expect(container.textContent).toBe("");
+    });
+  });
+
+  describe("hook", () => {
+    it("should run hooks in the render phase and expose results", () => {
+      const App = rx((_, ctx) => {
+        const [count, setCount] = ctx.state(1);
+        const doubled = ctx.hook(() => {
+          const c = count();
+          return React.useMemo(() => c * 2, [c]);
+        });
+
+        return (
+          <div>
+            <span>{ctx.part(() => `doubled: ${doubled.current}`)}</span>
+            <button onClick={() => setCount((c) => c + 1)}>+</button>
+          </div>
+        );
+      });
+
+      render(<App />);
+      expect(screen.getByText("doubled: 2")).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText("+"));
+      expect(screen.getByText("doubled: 4")).toBeInTheDocument();
+    });
+
+    it("should run React effects collected by hooks", () => {
+      const mounted = vi.fn();
+      const unmounted = vi.fn();
+      const App = rx((_, ctx) => {
+        ctx.hook(() => {
+          React.useEffect(() => {
+            mounted();
+            return unmounted;
+          }, []);
+        });
+        return <div>App</div>;
+      });
+
+      const { unmount } = render(<App />);
+      expect(mounted).toHaveBeenCalledTimes(1);
+
+      unmount();
+      expect(unmounted).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("use", () => {
+    it("should compose logic", () => {
+      const useCounter = (ctx: RxContext, init: number) => {
+        const [count, setCount] = ctx.state(init);
+        return { count, increment: () => setCount((c) => c + 1) };
+      };
+
+      const App = rx((_, ctx) => {
+        const counter = ctx.use(useCounter, 5);
+        return (
+          <button onClick={counter.increment}>{ctx.part(counter.count)}</button>
+        );
+      });
+
+      render(<App />);
+      fireEvent.click(screen.getByText("5"));
+      expect(screen.getByText("6")).toBeInTheDocument();
+    });
+  });
+
+  describe("store binding", () => {
+    it("should share store state between components", () => {
+      const appStore = store({ count: 0 });
+
+      const Display = rx((_, ctx) => {
+        const [count] = ctx.state(appStore, "count");
+        return <h1>{ctx.part(count)}</h1>;
+      });
+
+      const Controls = rx((_, ctx) => {
+        const [, setCount] = ctx.state(appStore, "count");
+        return <button onClick={() => setCount((c) => c + 1)}>+</button>;
+      });
+
+      render(
+        <>
+          <Display />
+          <Controls />
+        </>
+      );
+
+      fireEvent.click(screen.getByText("+"));
+      expect(screen.getByRole("heading").textContent).toBe("1");
+    });
+
+    it("should only re-render parts bound to the changed key", () => {
+      const appStore = store({ user: "John", theme: "dark" });
+      const userRenders = vi.fn();
+
+      const Profile = rx((_, ctx) => {
+        const [user] = ctx.state(appStore, "user");
+        return (
+          <h1>
+            {ctx.part(() => {
+              userRenders();
+              return user();
+            })}
+          </h1>
+        );
+      });
+
+      render(<Profile />);
+      userRenders.mockClear();
+
+      act(() => appStore.set("theme", "light"));
+      expect(userRenders).not.toHaveBeenCalled();
+
+      act(() => appStore.set("user", "Jane"));
+      expect(userRenders).toHaveBeenCalledTimes(1);
+      expect(screen.getByRole("heading").textContent).toBe("Jane");
+    });
+  });
+});
@@ -1,5 +1,19 @@
-import type { ReactNode } from "react";
-import type { RxContext, RxOptions } from "./types";
+import {
+  createElement,
+  useLayoutEffect,
+  useReducer,
+  useState,
+  type ComponentType,
+  type ReactNode,
+} from "react";
+import type { ComponentState, RxContext, RxOptions, Signal } from "./types";
+import { subscribeAll, track } from "./signal";
+import {
+  createComponentState,
+  createRxContext,
+  disposeComponentState,
+  runCleanups,
+} from "./context";
 
 /**
  * Factory function for creating reactive async components.
@@ -10,7 +24,13 @@ import type { RxContext, RxOptions } from "./types";
  * - Safe conditional hooks with ctx.hook()
  * - Local and global state with ctx.state()
  * - Composable logic with ctx.use()
- * - Cleanup with ctx.onCleanup()
+ * - Cleanup with ctx.on({ cleanup })
+ *
+ * The render function runs once per mount (the setup phase) with the props
+ * of that first render. While it is pending `options.loading` is rendered;
+ * if it throws or rejects, `options.error` is rendered, or the error is
+ * rethrown to the nearest ErrorBoundary when no error renderer is given.
+ * Registered cleanups run on unmount, or right away if setup fails.
  *
  * @template TProps Component props type
  * @param render Render function (can be async)
@@ -30,9 +50,106 @@ export function rx<TProps = {}>(
     props: TProps,
     context: RxContext
   ) => ReactNode | Promise<ReactNode>,
-  options?: RxOptions
-): React.ComponentType<TProps> {
-  // Implementation will be added in runtime/
-  throw new Error("rx() implementation not yet complete");
+  options: RxOptions = {}
+): ComponentType<TProps> {
+  const Component = (props: TProps) => {
+    const [state, setState] = useState<ComponentState>();
+
+    // Setup phase: runs once per mount, before paint so sync setups never flash loading UI
+    useLayoutEffect(() => {
+      const instance = createComponentState();
+      const context = createRxContext(instance);
+
+      const update = (patch: Partial<ComponentState>) => {
+        // Ignore results of a setup that outlived its component
+        if (instance.disposed) return;
+        Object.assign(instance, patch);
+        setState({ ...instance });
+      };
+
+      const fail = (error: unknown) => {
+        // Release whatever the setup managed to acquire before failing
+        runCleanups(instance);
+        update({ status: "error", error: error as Error });
+      };
+
+      try {
+        const result = render(props, context);
+
+        if (isPromiseLike(result)) {
+          result.then((value) => update({ status: "ready", result: value }), fail);
+        } else {
+          update({ status: "ready", result });
+        }
+      } catch (error) {
+        fail(error);
+      }
+
+      return () => disposeComponentState(instance);
+    }, []);
+
+    if (!state || state.status === "pending") {
+      return options.loading ?? null;
+    }
+
+    if (state.status === "error") {
+      if (options.error) {
+        return options.error(state.error!);
+      }
+      throw state.error;
+    }
+
+    return createElement(RxBody, { state });
+  };
+
+  Component.displayName = render.name || "rx";
+
+  return Component as ComponentType<TProps>;
 }
 
+/**
+ * Render phase of an rx() component.
+ *
+ * Executes every hook collected during setup, in the same order on every
+ * render, and re-renders when a signal read by any hook changes.
+ * The setup result itself is a stable element, so React skips re-rendering
+ * it; only parts that depend on changed signals update.
+ */
+function RxBody({ state }: { state: ComponentState }) {
+  const [, rerender] = useReducer((x: number) => x + 1, 0);
+  const dependencies = new Set<Signal<any>>();
+
+  state.hooks.forEach((hook) => {
+    const [result, hookDependencies] = track(hook.fn);
+    hookDependencies.forEach((signal) => dependencies.add(signal));
+
+    if (!Object.is(hook.result, result)) {
+      hook.result = result;
+      hook.changed = true;
+    }
+  });
+
+  useLayoutEffect(() => {
+    const unsubscribe = subscribeAll(dependencies, rerender);
+
+    // Notify parts that read hook results which changed during this render
+    state.hooks.forEach((hook) => {
+      if (hook.changed) {
+        hook.changed = false;
+        hook.version.set((version) => version + 1);
+      }
+    });
+
+    return unsubscribe;
+  });
+
+  return (state.result ?? null) as ReactNode;
+}
+
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as PromiseLike<T>).then === "function"
+  );
+}
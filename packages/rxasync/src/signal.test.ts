@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from "vitest";
+import { createSignal, subscribeAll, track, untrack } from "./signal";
+
+describe("createSignal", () => {
+  it("should read and write values", () => {
+    const count = createSignal(0);
+    expect(count()).toBe(0);
+
+    count.set(5);
+    expect(count()).toBe(5);
+
+    count.set((prev) => prev + 1);
+    expect(count()).toBe(6);
+  });
+
+  it("should notify subscribers on change", () => {
+    const count = createSignal(0);
+    const listener = vi.fn();
+    count.subscribe(listener);
+
+    count.set(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not notify when value is equal", () => {
+    const count = createSignal(0);
+    const listener = vi.fn();
+    count.subscribe(listener);
+
+    count.set(0);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should use custom equality", () => {
+    const user = createSignal({ id: 1 }, (a, b) => a.id === b.id);
+    const listener = vi.fn();
+    user.subscribe(listener);
+
+    user.set({ id: 1 });
+    expect(listener).not.toHaveBeenCalled();
+
+    user.set({ id: 2 });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop notifying after unsubscribe", () => {
+    const count = createSignal(0);
+    const listener = vi.fn();
+    const unsubscribe = count.subscribe(listener);
+
+    unsubscribe();
+    count.set(1);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe("track", () => {
+  it("should collect dependencies", () => {
+    const a = createSignal(1);
+    const b = createSignal(2);
+
+    const [result, deps] = track(() => a() + b());
+
+    expect(result).toBe(3);
+    expect(deps.size).toBe(2);
+    expect(deps.has(a)).toBe(true);
+    expect(deps.has(b)).toBe(true);
+  });
+
+  it("should not leak inner dependencies into outer scope", () => {
+    const a = createSignal(1);
+    const b = createSignal(2);
+
+    const [, outer] = track(() => {
+      a();
+      track(() => b());
+    });
+
+    expect(outer.has(a)).toBe(true);
+    expect(outer.has(b)).toBe(false);
+  });
+
+  it("should skip reads inside untrack()", () => {
+    const a = createSignal(1);
+
+    const [, deps] = track(() => untrack(() => a()));
+
+    expect(deps.size).toBe(0);
+  });
+});
+
+describe("subscribeAll", () => {
+  it("should subscribe to and release every dependency", () => {
+    const a = createSignal(1);
+    const b = createSignal(2);
+    const listener = vi.fn();
+
+    const unsubscribe = subscribeAll([a, b], listener);
+    a.set(2);
+    b.set(3);
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    a.set(3);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
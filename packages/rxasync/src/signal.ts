@@ -0,0 +1,135 @@
+import type { Signal } from "./types";
+
+/**
+ * Collects signals that are read while a tracking scope is active.
+ */
+interface DependencyTracker {
+  dependencies: Set<Signal<any>>;
+}
+
+/**
+ * The tracker of the innermost active tracking scope (if any).
+ * Signals register themselves here when they are read.
+ */
+let currentTracker: DependencyTracker | undefined;
+
+/**
+ * Creates a reactive signal.
+ *
+ * Reading the signal inside `track()` registers it as a dependency.
+ * Writing a value that is equal (per `equals`) to the current one is a no-op.
+ *
+ * @template T Value type
+ * @param initialValue Initial signal value
+ * @param equals Equality function used to skip redundant notifications
+ * @returns Signal instance
+ *
+ * @example
+ * ```ts
+ * const count = createSignal(0);
+ * count.subscribe(() => console.log(count()));
+ * count.set((prev) => prev + 1); // logs 1
+ * ```
+ */
+export function createSignal<T>(
+  initialValue: T,
+  equals: (a: T, b: T) => boolean = Object.is
+): Signal<T> {
+  let value = initialValue;
+  const listeners = new Set<() => void>();
+
+  const signal = Object.assign(
+    () => {
+      currentTracker?.dependencies.add(signal);
+      return value;
+    },
+    {
+      peek() {
+        return value;
+      },
+      set(next: T | ((prev: T) => T)) {
+        const resolved =
+          typeof next === "function" ? (next as (prev: T) => T)(value) : next;
+
+        if (equals(value, resolved)) return;
+
+        value = resolved;
+
+        // Copy listeners so that (un)subscribing during notification is safe
+        Array.from(listeners).forEach((listener) => listener());
+      },
+      subscribe(listener: () => void) {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+    }
+  ) as Signal<T>;
+
+  return signal;
+}
+
+/**
+ * Runs a function and collects every signal read during its execution.
+ *
+ * Tracking scopes can be nested; inner scopes do not leak dependencies
+ * into outer ones.
+ *
+ * @param fn Function to execute
+ * @returns Tuple of [result, dependencies]
+ *
+ * @example
+ * ```ts
+ * const [sum, deps] = track(() => a() + b());
+ * deps.has(a); // true
+ * ```
+ */
+export function track<T>(fn: () => T): [T, Set<Signal<any>>] {
+  const tracker: DependencyTracker = { dependencies: new Set() };
+  const prevTracker = currentTracker;
+  currentTracker = tracker;
+
+  try {
+    return [fn(), tracker.dependencies];
+  } finally {
+    currentTracker = prevTracker;
+  }
+}
+
+/**
+ * Runs a function without tracking any signal reads.
+ *
+ * @param fn Function to execute
+ * @returns Function result
+ */
+export function untrack<T>(fn: () => T): T {
+  const prevTracker = currentTracker;
+  currentTracker = undefined;
+
+  try {
+    return fn();
+  } finally {
+    currentTracker = prevTracker;
+  }
+}
+
+/**
+ * Subscribes a listener to every signal in a dependency set.
+ *
+ * @param dependencies Signals to subscribe to
+ * @param listener Callback invoked when any of them changes
+ * @returns Function that removes all subscriptions
+ */
+export function subscribeAll(
+  dependencies: Iterable<Signal<any>>,
+  listener: () => void
+): VoidFunction {
+  const unsubscribes = Array.from(dependencies, (signal) =>
+    signal.subscribe(listener)
+  );
+
+  return () => {
+    unsubscribes.forEach((unsubscribe) => unsubscribe());
+  };
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from "vitest";
+import { store, isStore, bindStore } from "./store";
+import { track } from "./signal";
+
+describe("store", () => {
+  describe("get/set", () => {
+    it("should read initial values", () => {
+      const s = store({ count: 0, name: "John" });
+      expect(s.get("count")).toBe(0);
+      expect(s.get("name")).toBe("John");
+    });
+
+    it("should write values and updaters", () => {
+      const s = store({ count: 0 });
+      s.set("count", 5);
+      expect(s.get("count")).toBe(5);
+
+      s.set("count", (prev) => prev + 1);
+      expect(s.get("count")).toBe(6);
+    });
+
+    it("should treat keys missing from the initial state as undefined", () => {
+      const s = store<{ user?: string }>({});
+      expect(s.get("user")).toBeUndefined();
+
+      s.set("user", "Alice");
+      expect(s.get("user")).toBe("Alice");
+    });
+
+    it("should only track the key that was read", () => {
+      const s = store({ a: 1, b: 2 });
+      const [, deps] = track(() => s.get("a"));
+      expect(deps.size).toBe(1);
+    });
+  });
+
+  describe("subscribe", () => {
+    it("should notify key subscribers only for their key", () => {
+      const s = store({ user: "John", theme: "dark" });
+      const onUser = vi.fn();
+      s.subscribe("user", onUser);
+
+      s.set("theme", "light");
+      expect(onUser).not.toHaveBeenCalled();
+
+      s.set("user", "Jane");
+      expect(onUser).toHaveBeenCalledTimes(1);
+    });
+
+    it("should notify store subscribers with changed keys", () => {
+      const s = store({ a: 1, b: 2 });
+      const listener = vi.fn();
+      const unsubscribe = s.subscribe(listener);
+
+      s.set("a", 10);
+      expect(listener).toHaveBeenCalledWith(["a"]);
+
+      unsubscribe();
+      s.set("b", 20);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not notify when value is unchanged", () => {
+      const s = store({ a: 1 });
+      const listener = vi.fn();
+      s.subscribe(listener);
+
+      s.set("a", 1);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("snapshot", () => {
+    it("should return current values", () => {
+      const s = store({ a: 1, b: "x" });
+      s.set("a", 2);
+      expect(s.snapshot()).toEqual({ a: 2, b: "x" });
+    });
+
+    it("should return the same object until the store changes", () => {
+      const s = store({ a: 1 });
+      const first = s.snapshot();
+      expect(s.snapshot()).toBe(first);
+
+      s.set("a", 2);
+      expect(s.snapshot()).not.toBe(first);
+    });
+
+    it("should not register dependencies", () => {
+      const s = store({ a: 1 });
+      const [, deps] = track(() => s.snapshot());
+      expect(deps.size).toBe(0);
+    });
+  });
+
+  describe("replace", () => {
+    it("should replace all values", () => {
+      const s = store<{ a: number; b?: number }>({ a: 1, b: 2 });
+      s.replace({ a: 10 });
+      expect(s.snapshot()).toEqual({ a: 10, b: undefined });
+    });
+
+    it("should notify store subscribers once with all changed keys", () => {
+      const s = store({ a: 1, b: 2, c: 3 });
+      const listener = vi.fn();
+      s.subscribe(listener);
+
+      s.replace({ a: 10, b: 2, c: 30 });
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(["a", "c"]);
+    });
+
+    it("should notify only key subscribers whose value changed", () => {
+      const s = store({ a: 1, b: 2 });
+      const onA = vi.fn();
+      const onB = vi.fn();
+      s.subscribe("a", onA);
+      s.subscribe("b", onB);
+
+      s.replace({ a: 1, b: 3 });
+      expect(onA).not.toHaveBeenCalled();
+      expect(onB).toHaveBeenCalledTimes(1);
+    });
+
+    it("should store function values as-is", () => {
+      const fn = () => 1;
+      const s = store<{ fn?: () => number }>({});
+      s.replace({ fn });
+      expect(s.get("fn")).toBe(fn);
+    });
+  });
+
+  describe("bindStore", () => {
+    it("should create a getter/setter pair for a key", () => {
+      const s = store({ count: 0 });
+      const [getCount, setCount] = bindStore(s, "count");
+
+      expect(getCount()).toBe(0);
+      setCount(5);
+      expect(getCount()).toBe(5);
+      expect(s.get("count")).toBe(5);
+    });
+  });
+
+  it("should identify stores", () => {
+    expect(isStore(store({}))).toBe(true);
+    expect(isStore({ get() {}, set() {} })).toBe(false);
+    expect(isStore(null)).toBe(false);
+  });
+});
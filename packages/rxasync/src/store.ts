@@ -1,4 +1,10 @@
-import type { Store } from "./types";
+import type { Signal, Store } from "./types";
+import { createSignal } from "./signal";
+
+/**
+ * Resolves the signal behind a store key, kept off the public Store shape.
+ */
+const storeSignals = new WeakMap<object, (key: any) => Signal<any>>();
 
 /**
  * Creates a global reactive store.
@@ -44,7 +50,125 @@ import type { Store } from "./types";
 export function store<T extends Record<string, any>>(
   initialState: T
 ): Store<T> {
-  // Implementation will be added in runtime/
-  throw new Error("store() implementation not yet complete");
+  const signals = new Map<keyof T, Signal<any>>();
+  const listeners = new Set<(changedKeys: (keyof T)[]) => void>();
+  let cachedSnapshot: T | undefined;
+  // Keys changed while replace() is running, reported once at the end
+  let pendingKeys: (keyof T)[] | undefined;
+
+  const notify = (changedKeys: (keyof T)[]) => {
+    Array.from(listeners).forEach((listener) => listener(changedKeys));
+  };
+
+  const getSignal = (key: keyof T) => {
+    let signal = signals.get(key);
+
+    // Keys missing from the initial state start out undefined
+    if (!signal) {
+      signal = createSignal<any>(undefined);
+      watch(key, signal);
+    }
+
+    return signal;
+  };
+
+  const watch = (key: keyof T, signal: Signal<any>) => {
+    signals.set(key, signal);
+    signal.subscribe(() => {
+      cachedSnapshot = undefined;
+
+      if (pendingKeys) {
+        pendingKeys.push(key);
+      } else {
+        notify([key]);
+      }
+    });
+  };
+
+  // Create signal for each property
+  for (const key in initialState) {
+    watch(key, createSignal(initialState[key]));
+  }
+
+  const instance: Store<T> = {
+    get(key) {
+      return getSignal(key)();
+    },
+
+    set(key, value) {
+      getSignal(key).set(value);
+    },
+
+    subscribe(keyOrListener: any, listener?: VoidFunction): VoidFunction {
+      if (typeof keyOrListener === "function") {
+        listeners.add(keyOrListener);
+        return () => {
+          listeners.delete(keyOrListener);
+        };
+      }
+
+      return getSignal(keyOrListener).subscribe(listener!);
+    },
+
+    snapshot() {
+      if (!cachedSnapshot) {
+        const data = {} as T;
+        signals.forEach((signal, key) => {
+          data[key] = signal.peek();
+        });
+        cachedSnapshot = data;
+      }
+
+      return cachedSnapshot;
+    },
+
+    replace(state) {
+      const changedKeys: (keyof T)[] = [];
+      pendingKeys = changedKeys;
+
+      try {
+        const keys = new Set<keyof T>([
+          ...signals.keys(),
+          ...Object.keys(state),
+        ]);
+        keys.forEach((key) => getSignal(key).set(() => state[key]));
+      } finally {
+        pendingKeys = undefined;
+      }
+
+      if (changedKeys.length) {
+        notify(changedKeys);
+      }
+    },
+  };
+
+  storeSignals.set(instance, getSignal);
+
+  return instance;
 }
 
+/**
+ * Checks whether a value was created by `store()`.
+ *
+ * @param value Value to check
+ * @returns True if the value is a store
+ */
+export function isStore(value: unknown): value is Store<any> {
+  return typeof value === "object" && value !== null && storeSignals.has(value);
+}
+
+/**
+ * Creates a [getter, setter] binding to a single store property.
+ *
+ * @param target Store instance
+ * @param key Property key to bind
+ * @returns Tuple of [getter, setter]
+ */
+export function bindStore<T extends Record<string, any>, K extends keyof T>(
+  target: Store<T>,
+  key: K
+): [get: () => T[K], set: (value: T[K] | ((prev: T[K]) => T[K])) => void] {
+  const signal = storeSignals.get(target)!(key);
+
+  return [() => signal(), (value) => signal.set(value)];
+}
@@ -20,7 +20,7 @@ export interface RxContext {
    * @param key Property key to bind
    * @returns Tuple of [getter, setter]
    */
-  state<TStore, TKey extends keyof TStore>(
+  state<TStore extends Record<string, any>, TKey extends keyof TStore>(
     store: Store<TStore>,
     key: TKey
   ): [
@@ -110,11 +110,54 @@ export type Logic<TParams extends any[], TReturn> = (
 /**
  * Global store type.
  * Stores are shared across all components that bind to them.
+ *
+ * Every key is backed by its own signal, so a component bound to one key
+ * only re-renders when that key changes.
  */
 export interface Store<T extends Record<string, any>> {
-  /** Internal store implementation */
-  readonly __brand: "Store";
-  readonly __data: T;
+  /**
+   * Reads the current value of a key.
+   * @param key Property key
+   * @returns Current value
+   */
+  get<K extends keyof T>(key: K): T[K];
+
+  /**
+   * Writes a key. Notifies only if the value actually changed.
+   * @param key Property key
+   * @param value New value or updater receiving the previous value
+   */
+  set<K extends keyof T>(key: K, value: T[K] | ((prev: T[K]) => T[K])): void;
+
+  /**
+   * Subscribes to changes of any key.
+   * The listener runs once per `set()` or `replace()` that changed something.
+   * @param listener Callback receiving the keys that changed
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (changedKeys: (keyof T)[]) => void): VoidFunction;
+
+  /**
+   * Subscribes to changes of a single key.
+   * @param key Property key
+   * @param listener Callback invoked when the key changes
+   * @returns Unsubscribe function
+   */
+  subscribe<K extends keyof T>(key: K, listener: VoidFunction): VoidFunction;
+
+  /**
+   * Returns a plain object with the current value of every key.
+   * The same object is returned until the store changes.
+   */
+  snapshot(): T;
+
+  /**
+   * Replaces the whole state (e.g. hydrating from an SSR payload or
+   * resetting between tests). Keys missing from `state` become undefined.
+   * Store listeners are notified once with every changed key.
+   * @param state Next state
+   */
+  replace(state: T): void;
 }
 
 /**
@@ -122,18 +165,12 @@ export interface Store<T extends Record<string, any>> {
  */
 export interface Signal<T> {
   (): T;
+  /** Reads the value without registering a dependency */
+  peek(): T;
   set(value: T | ((prev: T) => T)): void;
   subscribe(listener: () => void): () => void;
 }
 
-/**
- * Internal types for tracking
- */
-export interface TrackedDependency {
-  signal: Signal<any>;
-  unsubscribe: () => void;
-}
-
 /**
  * Internal context state during component lifecycle
  */
@@ -142,9 +179,9 @@ export interface ComponentState {
   error?: Error;
   result?: ReactNode;
   hooks: HookCollector[];
-  states: Signal<any>[];
   cleanupCallbacks: VoidFunction[];
-  setupPromise?: Promise<void>;
+  /** Set once the component unmounts (or its setup is discarded) */
+  disposed: boolean;
 }
 
 /**
@@ -152,7 +189,10 @@ export interface ComponentState {
  */
 export interface HookCollector {
   fn: () => any;
-  tracked: TrackedDependency[];
+  /** Latest value returned by fn */
   result: any;
+  /** Whether result changed since it was last published */
+  changed: boolean;
+  /** Bumped whenever a new result is published, so parts reading it re-render */
+  version: Signal<number>;
 }
-
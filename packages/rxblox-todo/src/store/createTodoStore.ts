@@ -1,5 +1,5 @@
-import { debounce, remove } from "lodash-es";
-import { batch, Persistor, signal, shallowEquals } from "rxblox";
+import { remove } from "lodash-es";
+import { batch, persistor, signal, shallowEquals } from "rxblox";
 /**
  * Filter types for displaying todos.
  */
@@ -38,42 +38,16 @@ export function createTodoStore() {
   const STORAGE_KEY = "rxblox-todos";
 
   /**
-   * Custom persistor for storing todo signals in localStorage.
-   *
-   * On load:
-   * - Reads plain todo objects from localStorage
-   * - Wraps each todo in a signal for reactivity
-   *
-   * On save:
-   * - Serializes the array of todo signals to JSON
-   * - Debounced to batch multiple rapid changes
-   * - Note: JSON.stringify automatically calls toJSON() on signals
+   * localStorage persistor for a part of the store.
+   * Debounced to batch multiple rapid changes.
    */
-  const persistor = <T>(postfix: string = ""): Persistor<T> => {
-    const key = STORAGE_KEY + "_" + postfix;
-    return {
-      get() {
-        const stored = localStorage.getItem(key);
-        if (stored) {
-          console.log(`${key} loaded`);
-          return {
-            value: JSON.parse(stored),
-          };
-        }
-        console.log(`${key} data not found`);
-        return null;
-      },
-      set: debounce((value) => {
-        localStorage.setItem(key, JSON.stringify(value));
-        console.log(`${key} saved`);
-      }, 300),
-    };
-  };
+  const persist = <T>(postfix: string) =>
+    persistor.local<T>(STORAGE_KEY + "_" + postfix, { debounce: 300 });
 
-  const keys = signal<string[]>([], { persist: persistor("keys") });
+  const keys = signal<string[]>([], { persist: persist("keys") });
   const values = signal<Record<string, Todo>>(
     {},
-    { persist: persistor("values") }
+    { persist: persist("values") }
   );
 
   /**
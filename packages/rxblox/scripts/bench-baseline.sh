@@ -0,0 +1,33 @@
+#!/bin/sh
+# Runs the propagation scenarios on a baseline commit (by default, the
+# implementation before glitch-free propagation), then on the working tree,
+# printing the counts of both and comparing their benchmarks.
+#
+# Usage: pnpm bench:baseline [commit]
+set -e
+
+BASELINE=${1:-1346878^}
+PACKAGE=$(pwd)
+ROOT=$(git rev-parse --show-toplevel)
+PREFIX=$(git rev-parse --show-prefix)
+DIR=$(mktemp -d)
+
+git worktree add --detach "$DIR/tree" "$BASELINE" >/dev/null
+trap 'git worktree remove --force "$DIR/tree"; rm -rf "$DIR"' EXIT
+
+# Same scenarios and tooling on the baseline sources
+cp "$PACKAGE/src/propagation.scenarios.ts" "$PACKAGE/src/propagation.bench.ts" \
+  "$DIR/tree/${PREFIX}src/"
+mkdir -p "$DIR/tree/${PREFIX}scripts"
+cp "$PACKAGE/scripts/propagationCounts.ts" "$DIR/tree/${PREFIX}scripts/"
+ln -s "$PACKAGE/node_modules" "$DIR/tree/${PREFIX}node_modules"
+ln -s "$ROOT/node_modules" "$DIR/tree/node_modules"
+
+echo "Baseline ($BASELINE):"
+(cd "$DIR/tree/$PREFIX" &&
+  npx vite-node scripts/propagationCounts.ts &&
+  npx vitest bench --run --outputJson "$DIR/baseline.json" >/dev/null)
+
+echo "Current:"
+npx vite-node scripts/propagationCounts.ts
+npx vitest bench --run --compare "$DIR/baseline.json"
@@ -0,0 +1,10 @@
+/**
+ * Prints the computations and effect runs of the propagation scenarios
+ * (used by `bench-baseline.sh`).
+ */
+import { propagationScenarios } from "../src/propagation.scenarios";
+
+for (const scenario of propagationScenarios) {
+  const { computes, effects } = scenario.run();
+  console.log(`${scenario.name}: ${computes} computes, ${effects} effect runs`);
+}
@@ -1,5 +1,8 @@
 import { describe, it, expect, vi } from "vitest";
 import { action } from "./action";
+import { signal } from "./signal";
+import { effect } from "./effect";
+import { delay } from "./delay";
 
 describe("action", () => {
   describe("basic functionality", () => {
@@ -585,4 +588,538 @@ describe("action", () => {
       unsubscribe();
     });
   });
+
+  describe("optimistic", () => {
+    const deferred = <T = void>() => {
+      let resolve!: (value: T) => void;
+      let reject!: (error: unknown) => void;
+      const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      return { promise, resolve, reject };
+    };
+
+    it("should apply the update immediately and keep it on success", async () => {
+      const todos = signal<string[]>([]);
+      const request = deferred();
+      const addTodo = action((_title: string) => request.promise, {
+        optimistic: {
+          signals: [todos],
+          update: (title) => todos.set((draft) => void draft.push(title)),
+        },
+      });
+
+      const promise = addTodo("Buy milk");
+      expect(todos()).toEqual(["Buy milk"]);
+
+      request.resolve();
+      await promise;
+      expect(todos()).toEqual(["Buy milk"]);
+    });
+
+    it("should roll back every touched signal on error", async () => {
+      const count = signal(1);
+      const label = signal("one");
+      const save = action(
+        async (_value: number) => {
+          await delay(0);
+          throw new Error("failed");
+        },
+        {
+          optimistic: {
+            signals: [count, label],
+            update: (value) => {
+              count.set(value);
+              label.set("saving");
+            },
+          },
+        }
+      );
+
+      const promise = save(2);
+      expect([count(), label()]).toEqual([2, "saving"]);
+
+      await expect(promise).rejects.toThrow("failed");
+      expect([count(), label()]).toEqual([1, "one"]);
+      expect(save.status).toBe("error");
+    });
+
+    it("should roll back when a sync action throws", () => {
+      const count = signal(0);
+      const increment = action(
+        () => {
+          throw new Error("failed");
+        },
+        {
+          optimistic: {
+            signals: [count],
+            update: () => count.set((prev) => prev + 1),
+          },
+        }
+      );
+
+      expect(() => increment()).toThrow("failed");
+      expect(count()).toBe(0);
+    });
+
+    it("should keep other overlapping updates when one rolls back", async () => {
+      const todos = signal<string[]>(["a"]);
+      const requests = new Map<string, ReturnType<typeof deferred<void>>>();
+      const addTodo = action(
+        (title: string) => {
+          const request = deferred();
+          requests.set(title, request);
+          return request.promise;
+        },
+        {
+          optimistic: {
+            signals: [todos],
+            update: (title) => todos.set((draft) => void draft.push(title)),
+          },
+        }
+      );
+
+      const first = addTodo("b");
+      const second = addTodo("c");
+      const third = addTodo("d");
+      expect(todos()).toEqual(["a", "b", "c", "d"]);
+
+      requests.get("c")!.resolve();
+      await second;
+
+      requests.get("b")!.reject(new Error("failed"));
+      await expect(first).rejects.toThrow("failed");
+      expect(todos()).toEqual(["a", "c", "d"]);
+
+      requests.get("d")!.reject(new Error("failed"));
+      await expect(third).rejects.toThrow("failed");
+      expect(todos()).toEqual(["a", "c"]);
+    });
+
+    it("should roll back overlapping updates of different actions", async () => {
+      const balance = signal(100);
+      const request = deferred();
+      const failing = deferred();
+      const deposit = action((_amount: number) => request.promise, {
+        optimistic: {
+          signals: [balance],
+          update: (amount) => balance.set((prev) => prev + amount),
+        },
+      });
+      const withdraw = action((_amount: number) => failing.promise, {
+        optimistic: {
+          signals: [balance],
+          update: (amount) => balance.set((prev) => prev - amount),
+        },
+      });
+
+      const depositing = deposit(50);
+      const withdrawing = withdraw(30);
+      expect(balance()).toBe(120);
+
+      failing.reject(new Error("insufficient funds"));
+      await expect(withdrawing).rejects.toThrow("insufficient funds");
+      expect(balance()).toBe(150);
+
+      request.resolve();
+      await depositing;
+      expect(balance()).toBe(150);
+    });
+
+    it("should keep values written by others when rolling back", async () => {
+      const todos = signal<string[]>(["a"]);
+      const failing = deferred();
+      const addTodo = action((_title: string) => failing.promise, {
+        optimistic: {
+          signals: [todos],
+          update: (title) => todos.set((draft) => void draft.push(title)),
+        },
+      });
+
+      const promise = addTodo("b");
+      expect(todos()).toEqual(["a", "b"]);
+
+      // Server refresh while the call is pending
+      todos.set(["x", "y"]);
+
+      failing.reject(new Error("failed"));
+      await expect(promise).rejects.toThrow("failed");
+      expect(todos()).toEqual(["x", "y"]);
+    });
+
+    it("should only roll back the signals of the failed call", async () => {
+      const count = signal(0);
+      const label = signal("a");
+      const failing = deferred();
+      const request = deferred();
+      const increment = action(() => failing.promise, {
+        optimistic: {
+          signals: [count],
+          update: () => count.set((prev) => prev + 1),
+        },
+      });
+      const rename = action((_label: string) => request.promise, {
+        optimistic: {
+          signals: [label],
+          update: (value) => label.set(value),
+        },
+      });
+
+      const incrementing = increment();
+      const renaming = rename("b");
+      label.set("server");
+
+      failing.reject(new Error("failed"));
+      await expect(incrementing).rejects.toThrow("failed");
+      expect([count(), label()]).toEqual([0, "server"]);
+
+      request.resolve();
+      await renaming;
+      expect(label()).toBe("server");
+    });
+
+    it("should restore values without running middleware", async () => {
+      let locked = false;
+      const count = signal(0, {
+        use: [(_write, next) => (locked ? undefined : next())],
+      });
+      const failing = deferred();
+      const increment = action(() => failing.promise, {
+        optimistic: {
+          signals: [count],
+          update: () => count.set((prev) => prev + 1),
+        },
+      });
+
+      const promise = increment();
+      expect(count()).toBe(1);
+      locked = true;
+
+      failing.reject(new Error("failed"));
+      await expect(promise).rejects.toThrow("failed");
+      expect(count()).toBe(0);
+    });
+
+    it("should notify subscribers once per rollback", async () => {
+      const count = signal(0);
+      const listener = vi.fn();
+      const failing = deferred();
+      const increment = action(() => failing.promise, {
+        optimistic: {
+          signals: [count],
+          update: () => count.set((prev) => prev + 1),
+        },
+      });
+
+      const promise = increment();
+      count.on(listener);
+
+      failing.reject(new Error("failed"));
+      await expect(promise).rejects.toThrow("failed");
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(count()).toBe(0);
+    });
+  });
+
+  describe("retry", () => {
+    it("should retry failed calls and report attempts", async () => {
+      let attempts = 0;
+      const onRetry = vi.fn();
+      const save = action(
+        async () => {
+          attempts++;
+          if (attempts < 3) throw new Error("flaky");
+          return "saved";
+        },
+        { retry: { retries: 2, delay: 1 }, on: { retry: onRetry } }
+      );
+
+      const promise = save();
+      expect(save.status).toBe("loading");
+
+      await expect(promise).resolves.toBe("saved");
+      expect(save.status).toBe("success");
+      expect(save.calls).toBe(1);
+      expect(onRetry.mock.calls.map(([, attempt]) => attempt)).toEqual([2, 3]);
+    });
+
+    it("should fail with TimeoutError when an attempt is too slow", async () => {
+      const onError = vi.fn();
+      const load = action(() => new Promise(() => {}), {
+        retry: { timeout: 5 },
+        on: { error: onError },
+      });
+
+      await expect(load()).rejects.toMatchObject({ name: "TimeoutError" });
+      expect(load.status).toBe("error");
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not retry errors rejected by retryIf", async () => {
+      const fn = vi.fn(async () => {
+        throw new Error("invalid");
+      });
+      const save = action(fn, {
+        retry: { retries: 3, delay: 1, retryIf: () => false },
+      });
+
+      await expect(save()).rejects.toThrow("invalid");
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("concurrency", () => {
+    /**
+     * Creates a function whose calls stay pending until resolved by hand.
+     */
+    const manual = () => {
+      const pending: { arg: string; resolve: (value: string) => void }[] = [];
+      const fn = vi.fn(
+        (arg: string) =>
+          new Promise<string>((resolve) => {
+            pending.push({ arg, resolve: () => resolve(arg) });
+          })
+      );
+      const resolveNext = async () => {
+        pending.shift()!.resolve("");
+        await delay(0);
+      };
+      return { fn, pending, resolveNext };
+    };
+
+    it("should run calls one at a time in queue mode", async () => {
+      const { fn, pending, resolveNext } = manual();
+      const save = action(fn, { concurrency: "queue" });
+
+      const p1 = save("a");
+      const p2 = save("b");
+      const p3 = save("c");
+
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(save.queued).toBe(2);
+      expect(save.calls).toBe(3);
+      expect(save.status).toBe("loading");
+
+      await resolveNext();
+      expect(pending.map((p) => p.arg)).toEqual(["b"]);
+      expect(save.queued).toBe(1);
+
+      await resolveNext();
+      await resolveNext();
+
+      await expect(Promise.all([p1, p2, p3])).resolves.toEqual(["a", "b", "c"]);
+      expect(save.status).toBe("success");
+      expect(save.result).toBe("c");
+    });
+
+    it("should ignore calls while loading in exhaust mode", async () => {
+      const { fn, resolveNext } = manual();
+      const dropped = vi.fn();
+      const submit = action(fn, {
+        concurrency: "exhaust",
+        on: { dropped },
+      });
+
+      const p1 = submit("a");
+      const p2 = submit("b");
+
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(p2).toBe(p1);
+      expect(submit.calls).toBe(1);
+      expect(submit.dropped).toBe(1);
+      expect(dropped).toHaveBeenCalledTimes(1);
+
+      await resolveNext();
+      expect(submit.result).toBe("a");
+
+      // Accepts calls again once idle
+      submit("c");
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should roll back optimistic updates of replaced calls in switch mode", async () => {
+      const { fn, resolveNext } = manual();
+      const selected = signal("");
+      const select = action(fn, {
+        concurrency: "switch",
+        optimistic: {
+          signals: [selected],
+          update: (id) => selected.set(id),
+        },
+      });
+
+      select("a");
+      select("b");
+      expect(selected()).toBe("b");
+
+      await resolveNext();
+      expect(select.result).toBeUndefined();
+      await resolveNext();
+      expect(select.result).toBe("b");
+    });
+
+    it("should limit running calls in parallel mode", async () => {
+      const { fn, pending, resolveNext } = manual();
+      const queued = vi.fn();
+      const upload = action(fn, {
+        concurrency: { mode: "parallel", max: 2 },
+        on: { queued },
+      });
+
+      ["a", "b", "c", "d"].forEach((file) => upload(file));
+
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(upload.queued).toBe(2);
+      expect(queued).toHaveBeenCalledTimes(2);
+
+      await resolveNext();
+      expect(pending.map((p) => p.arg)).toEqual(["b", "c"]);
+    });
+
+    it("should run every call at once in parallel mode without max", () => {
+      const { fn } = manual();
+      const upload = action(fn, { concurrency: "parallel" });
+
+      ["a", "b", "c"].forEach((file) => upload(file));
+
+      expect(fn).toHaveBeenCalledTimes(3);
+      expect(upload.queued).toBe(0);
+    });
+
+    it("should apply the mode per key", async () => {
+      const { fn, pending, resolveNext } = manual();
+      const save = action((id: string, _content: string) => fn(id), {
+        concurrency: { mode: "queue", key: (id) => id },
+      });
+
+      save("doc1", "v1");
+      save("doc2", "v1");
+      save("doc1", "v2");
+
+      // Different keys run side by side, same keys wait
+      expect(pending.map((p) => p.arg)).toEqual(["doc1", "doc2"]);
+      expect(save.queued).toBe(1);
+
+      await resolveNext();
+      expect(pending.map((p) => p.arg)).toEqual(["doc2", "doc1"]);
+    });
+
+    it("should exhaust per key", () => {
+      const { fn } = manual();
+      const like = action(fn, {
+        concurrency: { mode: "exhaust", key: (id) => id },
+      });
+
+      like("post1");
+      like("post2");
+      like("post1");
+
+      expect(fn.mock.calls.map(([id]) => id)).toEqual(["post1", "post2"]);
+      expect(like.dropped).toBe(1);
+    });
+
+    it("should settle queued calls with their own errors", async () => {
+      const save = action(
+        async (value: number) => {
+          await delay(1);
+          if (value < 0) throw new Error("negative");
+          return value;
+        },
+        { concurrency: "queue" }
+      );
+
+      const p1 = save(1);
+      const p2 = save(-1);
+
+      await expect(p1).resolves.toBe(1);
+      await expect(p2).rejects.toThrow("negative");
+      expect(save.status).toBe("error");
+    });
+
+    it("should not apply optimistic updates of dropped calls", () => {
+      const likes = signal(0);
+      const like = action(() => new Promise<void>(() => {}), {
+        concurrency: "exhaust",
+        optimistic: {
+          signals: [likes],
+          update: () => likes.set((n) => n + 1),
+        },
+      });
+
+      like();
+      like();
+
+      expect(likes()).toBe(1);
+    });
+
+    it("should apply optimistic updates of queued calls immediately", () => {
+      const todos = signal<string[]>([]);
+      const { fn } = manual();
+      const addTodo = action(fn, {
+        concurrency: "queue",
+        optimistic: {
+          signals: [todos],
+          update: (title) => todos.set((draft) => void draft.push(title)),
+        },
+      });
+
+      addTodo("a");
+      addTodo("b");
+
+      expect(todos()).toEqual(["a", "b"]);
+    });
+
+    it("should drop calls made by the running call in exhaust mode", async () => {
+      let inner: unknown = "unset";
+      const submit = action(
+        async () => {
+          inner = submit();
+          await delay(0);
+          return "done";
+        },
+        { concurrency: "exhaust" }
+      );
+
+      await expect(submit()).resolves.toBe("done");
+      expect(inner).toBeUndefined();
+      expect(submit.dropped).toBe(1);
+    });
+
+    it("should notify readers of queued and dropped calls", async () => {
+      const { fn, resolveNext } = manual();
+      const save = action(fn, { concurrency: "queue" });
+      const submit = action(fn, { concurrency: "exhaust" });
+      const counts: number[][] = [];
+      effect(() => {
+        counts.push([save.queued, submit.dropped]);
+      });
+
+      save("a");
+      save("b");
+      submit("c");
+      submit("d");
+      await resolveNext();
+
+      expect(counts).toEqual([
+        [0, 0],
+        [1, 0],
+        [1, 1],
+        [0, 1],
+      ]);
+    });
+
+    it("should clear counters on reset", () => {
+      const { fn } = manual();
+      const submit = action(fn, { concurrency: "exhaust" });
+
+      submit("a");
+      submit("b");
+      submit.reset();
+
+      expect(submit.calls).toBe(0);
+      expect(submit.dropped).toBe(0);
+    });
+  });
 });
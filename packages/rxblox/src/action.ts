@@ -2,8 +2,13 @@ import { getDispatcher } from "./dispatcher";
 import { disposableToken } from "./disposableDispatcher";
 import { isPromiseLike } from "./isPromiseLike";
 import { loadable, Loadable } from "./loadable";
+import { OptimisticOptions, withOptimistic } from "./optimistic";
+import { retry, RetryOptions } from "./retry";
 import { signal } from "./signal";
+import { emitter } from "./emitter";
+import { trackingToken } from "./trackingDispatcher";
 import { Signal } from "./types";
+import { devtoolsCall, devtoolsRegister, devtoolsUnregister } from "./devtools";
 
 /**
  * An action is a callable function that tracks its execution state.
@@ -22,8 +27,18 @@ export type Action<TArgs extends readonly any[] = any[], TResult = any> = {
   readonly result: Awaited<TResult> | undefined;
   /** The last error (undefined if no error yet) */
   readonly error: Error | undefined;
-  /** Number of times the action has been called */
+  /** Number of times the action has been called (dropped calls excluded) */
   readonly calls: number;
+  /**
+   * Number of calls waiting for their turn (see `ActionOptions.concurrency`).
+   * Reactive: reading it tracks it, like `status`.
+   */
+  readonly queued: number;
+  /**
+   * Number of calls ignored because of the concurrency mode.
+   * Reactive: reading it tracks it, like `status`.
+   */
+  readonly dropped: number;
   /**
    * Subscribe to action state changes.
    *
@@ -76,16 +91,127 @@ export type ActionEvents<TResult> = {
   done?: (error: unknown | undefined, result: TResult | undefined) => void;
   /** Called when reset() is called */
   reset?: () => void;
+  /**
+   * Called before a failed attempt is retried (see `ActionOptions.retry`).
+   * @param error - The error of the failed attempt
+   * @param attempt - Number of the upcoming attempt (2 for the first retry)
+   */
+  retry?: (error: unknown, attempt: number) => void;
+  /** Called when a call has to wait for running calls (see `ActionOptions.concurrency`) */
+  queued?: () => void;
+  /** Called when a call is ignored because of the concurrency mode */
+  dropped?: () => void;
 };
 
+/**
+ * How calls that overlap with running calls are handled.
+ *
+ * - `"switch"`: Abort running calls (their AbortSignal) and run the new one
+ * - `"queue"`: Run calls one at a time, in call order
+ * - `"exhaust"`: Ignore new calls while a call is running
+ * - `"parallel"`: Run calls side by side (up to `max`, extra calls are queued)
+ */
+export type ActionConcurrencyMode = "switch" | "queue" | "exhaust" | "parallel";
+
+/**
+ * Concurrency strategy of an action: a mode, or a mode with settings.
+ *
+ * @template TArgs - The arguments tuple type
+ */
+export type ActionConcurrency<TArgs extends readonly any[] = any[]> =
+  | ActionConcurrencyMode
+  | {
+      mode: ActionConcurrencyMode;
+      /**
+       * Maximum number of calls running at once in `"parallel"` mode.
+       * @default Infinity
+       */
+      max?: number;
+      /**
+       * Applies the mode separately to calls with different keys,
+       * e.g. `(id) => id` to serialize saves per entity.
+       */
+      key?: (...args: TArgs) => unknown;
+    };
+
 /**
  * Options for configuring an action.
  *
  * @template TResult - The resolved result type (unwrapped from Promise)
+ * @template TArgs - The arguments tuple type
  */
-export type ActionOptions<TResult> = {
+export type ActionOptions<TResult, TArgs extends readonly any[] = any[]> = {
+  /** Name shown in the devtools (defaults to the function name) */
+  name?: string;
   /** Event callbacks for action lifecycle */
   on?: ActionEvents<TResult>;
+  /**
+   * Optimistic update applied to `signals` as soon as the action is called.
+   *
+   * The update is kept when the action succeeds and rolled back (every
+   * signal restored to its `snapshot()`) when it throws, rejects, or is
+   * cancelled. When several calls overlap, rolling one back keeps the
+   * optimistic changes of the others.
+   *
+   * @example
+   * ```ts
+   * const todos = signal<Todo[]>([]);
+   *
+   * const addTodo = action(
+   *   async (todo: Todo) => api.addTodo(todo),
+   *   {
+   *     optimistic: {
+   *       signals: [todos],
+   *       update: (todo) => todos.set((draft) => { draft.push(todo); }),
+   *     },
+   *   }
+   * );
+   *
+   * addTodo({ id: 1, title: "Buy milk" }); // todos() updated immediately
+   * // If api.addTodo rejects, todos() is restored
+   * ```
+   */
+  optimistic?: OptimisticOptions<TArgs>;
+  /**
+   * Retry policy (or number of retries) for failed calls.
+   *
+   * The call stays loading while it is retried, and `on.retry` is notified
+   * before each retry. With `timeout`, an attempt that takes too long fails
+   * with `TimeoutError`.
+   *
+   * @example
+   * ```ts
+   * const saveUser = action(api.saveUser, {
+   *   retry: { retries: 3, jitter: true, timeout: 5000 },
+   *   on: { retry: (error, attempt) => console.log(`Attempt ${attempt}`) },
+   * });
+   * ```
+   */
+  retry?: RetryOptions | number;
+  /**
+   * How calls that overlap with running calls are handled.
+   *
+   * Without this option every call runs right away and the state follows
+   * the latest call (results of older calls are ignored).
+   *
+   * State always follows the latest accepted call: it is `"loading"` while
+   * that call is queued or running. Queued calls return a promise that
+   * settles with their own result. Dropped calls (`"exhaust"`) return the
+   * promise of the running call (`undefined` when made by the running call
+   * itself) and don't count in `calls`.
+   *
+   * @example
+   * ```ts
+   * // One save at a time per document, in call order
+   * const saveDoc = action(async (id: string, content: string) => api.save(id, content), {
+   *   concurrency: { mode: "queue", key: (id) => id },
+   * });
+   *
+   * // Ignore double submits
+   * const submit = action(api.submit, { concurrency: "exhaust" });
+   * ```
+   */
+  concurrency?: ActionConcurrency<TArgs>;
 };
 
 /**
@@ -138,37 +264,157 @@ export type ActionOptions<TResult> = {
  */
 export function action<TResult = void, TArgs extends readonly any[] = any[]>(
   fn: (...args: TArgs) => TResult,
-  options: ActionOptions<Awaited<TResult>> = {}
+  options: ActionOptions<Awaited<TResult>, TArgs> = {}
 ): Action<TArgs, TResult> {
+  const [a] = createActionCore(
+    (_abortSignal: AbortSignal, ...args: TArgs) => fn(...args),
+    { name: fn.name || undefined, ...options }
+  );
+
+  return a;
+}
+
+/**
+ * Controls for the AbortSignals of an action's calls.
+ */
+export type ActionCallControls = {
+  /** Abort every running call and drop every queued call */
+  cancel(): void;
+  /** Whether the latest call has been aborted */
+  readonly cancelled: boolean;
+};
+
+/**
+ * A call that is running or waiting for its turn.
+ */
+type ActionCall = {
+  controller: AbortController;
+  /** Return value of the call once it returned */
+  result?: unknown;
+  /** Set once the wrapped function returned `result` */
+  returned?: boolean;
+  start: VoidFunction;
+  drop(reason: unknown): void;
+};
+
+/**
+ * Calls sharing a concurrency key.
+ */
+type ActionLane = {
+  running: Set<ActionCall>;
+  queue: ActionCall[];
+};
+
+/**
+ * Shared implementation of `action()` and `action.cancellable()`.
+ *
+ * Every call gets its own AbortController; its signal is passed to `fn`
+ * and aborted by `"switch"` concurrency or `controls.cancel()`.
+ *
+ * @param fn - The function to wrap, receiving the AbortSignal of the call
+ * @param options - Configuration options
+ * @param defaultConcurrency - Mode used when `options.concurrency` is not set
+ * @returns The action and controls for the AbortSignals of its calls
+ */
+export function createActionCore<TResult, TArgs extends readonly any[]>(
+  fn: (abortSignal: AbortSignal, ...args: TArgs) => TResult,
+  options: ActionOptions<Awaited<TResult>, TArgs> = {},
+  defaultConcurrency?: ActionConcurrencyMode
+): [Action<TArgs, TResult>, ActionCallControls] {
   let calls = 0;
+  let queued = 0;
+  let dropped = 0;
+  // Notifies the readers of `action.queued` and `action.dropped`
+  const onCountsChange = emitter<void>();
   // Store the result as a loadable signal for reactive tracking
   const result = signal<Loadable<Awaited<TResult>> | undefined>(undefined);
   // Token to track if a new call invalidates previous async calls
   let token = {};
+  // Controller of the latest call
+  let latest = new AbortController();
 
-  const dispatch = (...args: TArgs) => {
-    calls++;
-    // Create new token for this call and make it the current token
-    const myToken = {};
-    token = myToken;
+  const concurrency = options.concurrency ?? defaultConcurrency;
+  const {
+    mode = undefined,
+    max = Infinity,
+    key = undefined,
+  } = typeof concurrency === "object" ? concurrency : { mode: concurrency };
+  const capacity = mode === "queue" ? 1 : mode === "parallel" ? max : Infinity;
+  const lanes = new Map<unknown, ActionLane>();
+
+  const getLane = (args: TArgs) => {
+    const laneKey = key ? key(...args) : undefined;
+    let lane = lanes.get(laneKey);
+
+    if (!lane) {
+      lane = { running: new Set(), queue: [] };
+      lanes.set(laneKey, lane);
+    }
+
+    return [laneKey, lane] as const;
+  };
+
+  const updateQueued = () => {
+    let count = 0;
+    lanes.forEach((lane) => (count += lane.queue.length));
+    if (count !== queued) {
+      queued = count;
+      onCountsChange.emit();
+    }
+  };
+
+  const release = (laneKey: unknown, lane: ActionLane, call: ActionCall) => {
+    lane.running.delete(call);
+
+    // Start waiting calls while there is room
+    while (lane.queue.length && lane.running.size < capacity) {
+      lane.queue.shift()!.start();
+    }
+
+    if (!lane.running.size && !lane.queue.length) {
+      lanes.delete(laneKey);
+    }
+    updateQueued();
+  };
+
+  /**
+   * Runs the wrapped function and updates the state for the given call.
+   */
+  const execute = (
+    myToken: object,
+    abortSignal: AbortSignal,
+    args: TArgs,
+    onSettled: VoidFunction
+  ): any => {
+    const isLatest = () => token === myToken;
 
     try {
       // Call init callback before execution
       options.on?.init?.();
 
-      // Execute the wrapped function
-      const r = fn(...args);
+      // Execute the wrapped function (retrying failed attempts if configured)
+      const r =
+        options.retry === undefined
+          ? fn(abortSignal, ...args)
+          : (retry(
+              (attemptSignal) => fn(attemptSignal, ...args),
+              options.retry,
+              { abortSignal, onRetry: options.on?.retry }
+            ) as TResult);
 
       // Handle async results (promises)
       if (isPromiseLike<Awaited<TResult>>(r)) {
-        result.set(loadable("loading", r));
+        if (isLatest()) {
+          result.set(loadable("loading", r));
+        }
         options.on?.loading?.();
 
         return new Promise<Awaited<TResult>>((resolve, reject) => {
           r.then(
             (data) => {
+              onSettled();
               // Only update state if this is still the current call
-              if (token === myToken) {
+              if (isLatest()) {
                 result.set(loadable("success", data));
                 options.on?.success?.(data);
                 options.on?.done?.(undefined, data as any);
@@ -177,8 +423,9 @@ export function action<TResult = void, TArgs extends readonly any[] = any[]>(
               resolve(data);
             },
             (error) => {
+              onSettled();
               // Only update state if this is still the current call
-              if (token === myToken) {
+              if (isLatest()) {
                 result.set(loadable("error", error));
                 options.on?.error?.(error);
                 options.on?.done?.(error, undefined);
@@ -191,19 +438,129 @@ export function action<TResult = void, TArgs extends readonly any[] = any[]>(
       }
 
       // Handle sync results
-      result.set(loadable("success", r as Awaited<TResult>));
+      onSettled();
+      if (isLatest()) {
+        result.set(loadable("success", r as Awaited<TResult>));
+      }
       options.on?.success?.(r as Awaited<TResult>);
       options.on?.done?.(undefined, r as Awaited<TResult>);
       return r;
     } catch (error) {
       // Handle sync errors
-      result.set(loadable("error", error));
+      onSettled();
+      if (isLatest()) {
+        result.set(loadable("error", error));
+      }
       options.on?.error?.(error);
       options.on?.done?.(error, undefined);
       throw error;
     }
   };
 
+  const dispatch = (...args: TArgs) => {
+    const [laneKey, lane] = getLane(args);
+
+    // Exhaust: ignore the call while another one is running
+    if (mode === "exhaust" && lane.running.size) {
+      dropped++;
+      onCountsChange.emit();
+      options.on?.dropped?.();
+      const [running] = lane.running;
+      // Called by the running call itself: it has no result to share yet
+      return running.returned ? running.result : undefined;
+    }
+
+    calls++;
+    devtoolsCall(dispatch, args);
+    // Create new token for this call and make it the current token
+    const myToken = {};
+    token = myToken;
+
+    // Switch: abort the calls this one replaces
+    if (mode === "switch") {
+      lane.running.forEach((running) => running.controller.abort());
+    }
+
+    const controller = new AbortController();
+    latest = controller;
+
+    const call: ActionCall = {
+      controller,
+      start: () => {
+        lane.running.add(call);
+        call.result = execute(myToken, controller.signal, args, () =>
+          release(laneKey, lane, call)
+        );
+        call.returned = true;
+      },
+      drop: () => {},
+    };
+
+    const invoke = () => {
+      if (lane.running.size < capacity) {
+        call.start();
+        return call.result;
+      }
+
+      // Wait for a running call to settle
+      const queued = new Promise<Awaited<TResult>>((resolve, reject) => {
+        const start = call.start;
+
+        call.start = () => {
+          try {
+            start();
+            Promise.resolve(call.result as Awaited<TResult>).then(
+              resolve,
+              reject
+            );
+          } catch (error) {
+            reject(error);
+          }
+        };
+        call.drop = (reason) => {
+          if (token === myToken) {
+            result.set(loadable("error", reason));
+            options.on?.error?.(reason);
+            options.on?.done?.(reason, undefined);
+          }
+          reject(reason);
+        };
+      });
+
+      lane.queue.push(call);
+      updateQueued();
+      result.set(loadable("loading", queued));
+      options.on?.queued?.();
+
+      return queued;
+    };
+
+    // Stage the optimistic update right away, even if the call is queued
+    return options.optimistic
+      ? withOptimistic(options.optimistic, args, invoke, controller.signal)
+      : invoke();
+  };
+
+  const controls: ActionCallControls = {
+    cancel() {
+      latest.abort();
+      lanes.forEach((lane, laneKey) => {
+        lane.running.forEach((call) => call.controller.abort());
+        lane.queue.splice(0).forEach((call) => {
+          call.controller.abort();
+          call.drop(call.controller.signal.reason);
+        });
+        if (!lane.running.size) {
+          lanes.delete(laneKey);
+        }
+      });
+      updateQueued();
+    },
+    get cancelled() {
+      return latest.signal.aborted;
+    },
+  };
+
   // Define reactive getters for action state
   Object.defineProperties(dispatch, {
     calls: {
@@ -211,6 +568,18 @@ export function action<TResult = void, TArgs extends readonly any[] = any[]>(
         return calls;
       },
     },
+    queued: {
+      get: () => {
+        getDispatcher(trackingToken)?.add(onCountsChange);
+        return queued;
+      },
+    },
+    dropped: {
+      get: () => {
+        getDispatcher(trackingToken)?.add(onCountsChange);
+        return dropped;
+      },
+    },
     status: {
       get: () => {
         const r = result();
@@ -232,10 +601,19 @@ export function action<TResult = void, TArgs extends readonly any[] = any[]>(
 
   const cleanup = () => {
     calls = 0;
+    if (dropped) {
+      dropped = 0;
+      onCountsChange.emit();
+    }
     token = {};
   };
 
-  getDispatcher(disposableToken)?.on(cleanup);
+  getDispatcher(disposableToken)?.on(() => {
+    cleanup();
+    devtoolsUnregister(dispatch);
+  });
+
+  devtoolsRegister(dispatch, "action", options.name);
 
   // Add reset method
   Object.assign(dispatch, {
@@ -249,7 +627,7 @@ export function action<TResult = void, TArgs extends readonly any[] = any[]>(
     },
   });
 
-  return dispatch as Action<TArgs, TResult>;
+  return [dispatch as Action<TArgs, TResult>, controls];
 }
 
 export function isAction<TResult = any, TArgs extends any[] = any[]>(
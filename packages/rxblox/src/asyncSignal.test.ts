@@ -819,4 +819,62 @@ describe("asyncSignal", () => {
       expect(data().value).toBe("done");
     });
   });
+
+  describe("retry", () => {
+    it("should stay loading while retrying and succeed", async () => {
+      let attempts = 0;
+      const data = asyncSignal(
+        async () => {
+          attempts++;
+          if (attempts < 3) throw new Error("flaky");
+          return "done";
+        },
+        { retry: { retries: 2, delay: 5 } }
+      );
+
+      expect(data().status).toBe("loading");
+      await delay(10);
+      expect(data().status).toBe("loading");
+
+      await delay(30);
+      expect(data().value).toBe("done");
+      expect(attempts).toBe(3);
+    });
+
+    it("should expose the last error when retries are exhausted", async () => {
+      const data = asyncSignal(
+        async () => {
+          throw new Error("down");
+        },
+        { retry: { retries: 1, delay: 5 } }
+      );
+
+      data();
+      await delay(30);
+      expect(data().status).toBe("error");
+      expect(data().error).toEqual(new Error("down"));
+    });
+
+    it("should abort the pending attempt on recomputation", async () => {
+      const id = signal(1);
+      const signals: AbortSignal[] = [];
+      const data = asyncSignal(
+        async ({ abortSignal, track }) => {
+          const value = track({ id }).id;
+          signals.push(abortSignal);
+          await delay(10);
+          return value;
+        },
+        { retry: 2 }
+      );
+
+      data();
+      id.set(2);
+      data();
+
+      expect(signals[0].aborted).toBe(true);
+      await delay(20);
+      expect(data().value).toBe(2);
+    });
+  });
 });
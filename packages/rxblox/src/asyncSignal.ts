@@ -1,9 +1,11 @@
 import { isPromiseLike } from "./isPromiseLike";
 import { loadable, Loadable } from "./loadable";
+import { retry, RetryOptions } from "./retry";
 import { ComputedSignalContext, signal } from "./signal";
 import { Tag } from "./tag";
 import { Signal } from "./types";
 import { getLoadable } from "./wait";
+import { collectSignal, takeServerValue } from "./ssr";
 
 /**
  * A signal that wraps async operations and returns a Loadable.
@@ -44,11 +46,17 @@ export type AsyncSignalContext = ComputedSignalContext & {
 
 /**
  * Options for configuring an async signal's behavior.
- * @property name - The name of the async signal.
+ * @property name - The name of the async signal. Named async signals are
+ *                  serialized by server renders (see `ssr.collect()`) and start
+ *                  with the server result on the client.
+ * @property retry - Retry policy (or number of retries) for failed computations.
+ *                   The signal stays loading while retrying. Each attempt gets
+ *                   its own `abortSignal`, aborted on timeout or recomputation.
  */
 export type AsyncSignalOptions<T> = {
   name?: string;
   tags?: readonly Tag<NoInfer<Loadable<T>>>[];
+  retry?: RetryOptions | number;
 };
 
 /**
@@ -147,6 +155,8 @@ export function asyncSignal<T>(
   fn: AsyncSignalFunction<T>,
   options: AsyncSignalOptions<T> = {}
 ): AsyncSignal<T> {
+  const { retry: retryPolicy, ...signalOptions } = options;
+
   // Token tracks the current computation to handle cancellation
   let token: { context: AsyncSignalContext } | undefined;
 
@@ -215,7 +225,33 @@ export function asyncSignal<T>(
    * the signal initially returns a loading loadable, then updates directly via
    * .set() when the promise settles (to avoid re-running the async function).
    */
+  // Data resolved by the server render (or an earlier server render pass)
+  let serverValue = takeServerValue(options.name, undefined, true) as
+    | { value: T }
+    | undefined;
+
   const inner = signal<Loadable<T>>(({ track, abortSignal }) => {
+    if (serverValue) {
+      const { value } = serverValue;
+      serverValue = undefined;
+      token = undefined;
+
+      // Run the function only to track its dependencies; the aborted signal
+      // lets it skip the request (e.g. fetch(url, { signal: abortSignal }))
+      const aborted = new AbortController();
+      aborted.abort();
+      try {
+        const result = fn({ track, abortSignal: aborted.signal });
+        if (isPromiseLike(result)) {
+          result.then(undefined, () => {});
+        }
+      } catch {
+        // Ignored: the server result is used
+      }
+
+      return loadable("success", value);
+    }
+
     // Update token to track this computation
     token = {
       context: {
@@ -225,8 +261,19 @@ export function asyncSignal<T>(
     };
 
     try {
+      const context = token.context;
+
       // Execute async function (tracks signal dependencies implicitly)
-      const result = fn(token.context);
+      // Retried attempts run after the first one, so only the first attempt
+      // tracks implicitly; use track() to keep dependencies in later attempts
+      const result =
+        retryPolicy === undefined
+          ? fn(context)
+          : retry(
+              (abortSignal) => fn({ ...context, abortSignal }),
+              retryPolicy,
+              { abortSignal: context.abortSignal }
+            );
 
       // If result is a promise, track its state via handlePromise
       // Returns a loading loadable initially, then updates via .set() when settled
@@ -246,7 +293,9 @@ export function asyncSignal<T>(
       // If regular error, wrap in error loadable immediately
       return loadable("error", error);
     }
-  }, options);
+  }, signalOptions);
+
+  collectSignal(inner, options.name, undefined, true);
 
   return inner;
 }
@@ -3,6 +3,7 @@ import { MutableSignal, Signal } from "./types";
 import { batchToken, batchDispatcher } from "./batchDispatcher";
 import { trackingToken } from "./trackingDispatcher";
 import { syncOnly } from "./utils/syncOnly";
+import { propagate } from "./propagation";
 
 /**
  * Type utility to infer value types from an array of signals.
@@ -144,27 +145,33 @@ export function batch(...args: any[]): any {
 
   // Create a new batch context
   const dispatcher = batchDispatcher();
-  return withDispatchers(
-    [
-      batchToken(dispatcher),
-      trackingToken(), // Disable tracking during batch to prevent tracking stale computed values
-    ],
-    () => {
-      try {
-        // Execute the function with batch context active and validate it's synchronous
-        return syncOnly(fn, {
-          message:
-            "batch() does not support async functions. " +
-            "The batch ends before the async work completes, so signal updates " +
-            "inside the async function won't be batched. " +
-            "Use a synchronous function instead, or batch individual sync operations.",
-          mode: "error",
-        });
-      } finally {
-        // Always flush notifications, even if function throws
-        dispatcher.flush();
-      }
-    },
-    { contextType: "batch" }
+  // Listeners run once after the batch; computed signals nobody listens
+  // to recompute in a microtask
+  return propagate(
+    () =>
+      withDispatchers(
+        [
+          batchToken(dispatcher),
+          trackingToken(), // Disable tracking during batch to prevent tracking stale computed values
+        ],
+        () => {
+          try {
+            // Execute the function with batch context active and validate it's synchronous
+            return syncOnly(fn, {
+              message:
+                "batch() does not support async functions. " +
+                "The batch ends before the async work completes, so signal updates " +
+                "inside the async function won't be batched. " +
+                "Use a synchronous function instead, or batch individual sync operations.",
+              mode: "error",
+            });
+          } finally {
+            // Always flush notifications, even if function throws
+            dispatcher.flush();
+          }
+        },
+        { contextType: "batch" }
+      ),
+    true
   );
 }
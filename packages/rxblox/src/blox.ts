@@ -7,10 +7,10 @@ import {
   PropsWithoutRef,
   ReactNode,
   useImperativeHandle,
-  useLayoutEffect,
   useRef,
   useState,
 } from "react";
+import { useIsomorphicLayoutEffect } from "./useIsomorphicLayoutEffect";
 import { Expose, MutableSignal } from "./types";
 import { signal } from "./signal";
 import { providerToken, useProviderResolver } from "./provider";
@@ -25,6 +25,7 @@ import { disposableToken } from "./disposableDispatcher";
 import { syncOnly } from "./utils/syncOnly";
 import { createProxy } from "./utils/proxy/createProxy";
 import { shallowEquals } from "./utils/shallowEquals";
+import { completeHydration, onServerDispose } from "./ssr";
 
 /**
  * Creates a reactive component that tracks props as signals and manages effects.
@@ -118,11 +119,16 @@ export function blox<TProps extends object, TInterface>(
         mount: emitter(),
         render: emitter(),
       };
+      const emitUnmount = once(() => emitters.unmount.emitAndClear());
+
+      // Components never unmount on the server; the SSR collector disposes them
+      onServerDispose(emitUnmount);
+
       return {
         emitters,
         emitRender: emitters.render.emit,
         emitMount: once(() => emitters.mount.emitAndClear()),
-        emitUnmount: once(() => emitters.unmount.emitAndClear()),
+        emitUnmount,
       };
     });
 
@@ -209,7 +215,7 @@ export function blox<TProps extends object, TInterface>(
      */
     propsRef.current = userProps as PropsWithoutRef<TProps>;
 
-    useLayoutEffect(() => {
+    useIsomorphicLayoutEffect(() => {
       // Update props signal if it exists (created lazily)
       // Shallow comparison in the signal prevents unnecessary notifications
       if (propsSignalRef.current) {
@@ -332,7 +338,8 @@ export function blox<TProps extends object, TInterface>(
      * 1. Emitting the mount event
      * 2. Cancelling pending rerenders on unmount
      */
-    useLayoutEffect(() => {
+    useIsomorphicLayoutEffect(() => {
+      completeHydration();
       // Emit mount event
       eventDispatcher.emitMount();
 
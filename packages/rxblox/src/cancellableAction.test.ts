@@ -1,6 +1,7 @@
 import { describe, it, expect, vi } from "vitest";
 import { action } from "./index";
 import { aborter } from "./cancellableAction";
+import { signal } from "./signal";
 
 describe("action.cancellable", () => {
   describe("basic functionality", () => {
@@ -366,4 +367,157 @@ describe("action.cancellable", () => {
       expect(firstSignal.aborted).toBe(true); // Old signal still aborted
     });
   });
+
+  describe("optimistic", () => {
+    it("should roll back the update when cancelled", () => {
+      const todos = signal<string[]>([]);
+      const addTodo = action.cancellable(
+        (signal: AbortSignal, _title: string) =>
+          new Promise<void>((_, reject) => {
+            signal.addEventListener("abort", () => reject(signal.reason));
+          }),
+        {
+          optimistic: {
+            signals: [todos],
+            update: (title) => todos.set((draft) => void draft.push(title)),
+          },
+        }
+      );
+
+      addTodo("Buy milk").catch(() => {});
+      expect(todos()).toEqual(["Buy milk"]);
+
+      addTodo.cancel();
+      expect(todos()).toEqual([]);
+    });
+
+    it("should roll back the previous call when called again", async () => {
+      const query = signal("");
+      const search = action.cancellable(
+        async (signal: AbortSignal, _text: string) => {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          signal.throwIfAborted();
+        },
+        {
+          optimistic: {
+            signals: [query],
+            update: (text) => query.set(text),
+          },
+        }
+      );
+
+      const first = search("a");
+      const second = search("ab");
+      expect(query()).toBe("ab");
+
+      await expect(first).rejects.toThrow();
+      await second;
+      expect(query()).toBe("ab");
+    });
+  });
+
+  describe("retry", () => {
+    it("should pass a fresh AbortSignal to each attempt", async () => {
+      const signals: AbortSignal[] = [];
+      const fetchData = action.cancellable(
+        async (signal: AbortSignal) => {
+          signals.push(signal);
+          if (signals.length === 1) throw new Error("flaky");
+          return "data";
+        },
+        { retry: { retries: 1, delay: 1 } }
+      );
+
+      await expect(fetchData()).resolves.toBe("data");
+      expect(signals).toHaveLength(2);
+      expect(signals[0]).not.toBe(signals[1]);
+    });
+
+    it("should abort the pending attempt and stop retrying on cancel", async () => {
+      const fn = vi.fn(
+        (signal: AbortSignal) =>
+          new Promise<void>((_, reject) => {
+            signal.addEventListener("abort", () => reject(signal.reason));
+          })
+      );
+      const fetchData = action.cancellable(fn, {
+        retry: { retries: 3, delay: 1 },
+      });
+
+      const promise = fetchData();
+      fetchData.cancel();
+
+      await expect(promise).rejects.toBeDefined();
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(fn.mock.calls[0][0].aborted).toBe(true);
+    });
+
+    it("should abort attempts that time out", async () => {
+      const signals: AbortSignal[] = [];
+      const fetchData = action.cancellable(
+        (signal: AbortSignal) => {
+          signals.push(signal);
+          return new Promise<void>(() => {});
+        },
+        { retry: { retries: 1, delay: 1, timeout: 5 } }
+      );
+
+      await expect(fetchData()).rejects.toMatchObject({ name: "TimeoutError" });
+      expect(signals).toHaveLength(2);
+      expect(signals.every((signal) => signal.aborted)).toBe(true);
+    });
+  });
+
+  describe("concurrency", () => {
+    it("should abort the previous call by default", () => {
+      const signals: AbortSignal[] = [];
+      const fetchData = action.cancellable((signal: AbortSignal) => {
+        signals.push(signal);
+        return new Promise<void>(() => {});
+      });
+
+      fetchData();
+      fetchData();
+
+      expect(signals.map((signal) => signal.aborted)).toEqual([true, false]);
+    });
+
+    it("should keep previous calls running in queue mode", () => {
+      const signals: AbortSignal[] = [];
+      const fetchData = action.cancellable(
+        (signal: AbortSignal) => {
+          signals.push(signal);
+          return new Promise<void>(() => {});
+        },
+        { concurrency: "queue" }
+      );
+
+      fetchData();
+      fetchData();
+
+      expect(signals).toHaveLength(1);
+      expect(signals[0].aborted).toBe(false);
+    });
+
+    it("should abort running calls and reject queued calls on cancel", async () => {
+      const signals: AbortSignal[] = [];
+      const fetchData = action.cancellable(
+        (signal: AbortSignal) => {
+          signals.push(signal);
+          return new Promise<void>(() => {});
+        },
+        { concurrency: "queue" }
+      );
+
+      fetchData();
+      const queued = fetchData();
+      fetchData.cancel();
+
+      expect(signals[0].aborted).toBe(true);
+      await expect(queued).rejects.toBeDefined();
+      expect(fetchData.queued).toBe(0);
+      expect(fetchData.status).toBe("error");
+      expect(signals).toHaveLength(1);
+    });
+  });
 });
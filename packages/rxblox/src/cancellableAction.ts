@@ -1,4 +1,4 @@
-import { action, Action, ActionOptions } from "./action";
+import { Action, ActionOptions, createActionCore } from "./action";
 import { getDispatcher } from "./dispatcher";
 import { disposableToken } from "./disposableDispatcher";
 
@@ -156,35 +156,20 @@ export function cancellableAction<
   TArgs extends readonly any[] = any[]
 >(
   fn: (abortSignal: AbortSignal, ...args: TArgs) => TResult,
-  options: ActionOptions<Awaited<TResult>> = {}
+  options: ActionOptions<Awaited<TResult>, TArgs> = {}
 ): CancellableAction<TArgs, TResult> {
-  // Create an aborter that can be reset for each new call
-  const ac = aborter();
-
-  // Wrap the function with action()
-  const a = action(
-    (...args: TArgs) => {
-      const abortSignal = ac.signal;
-      return fn(abortSignal, ...args);
-    },
-    {
-      ...options,
-      on: {
-        ...options.on,
-        init: () => {
-          // Reset to a fresh AbortController on each call
-          ac.reset();
-          options.on?.init?.();
-        },
-      },
-    }
+  // Each call gets its own AbortSignal; a new call aborts the previous one
+  const [a, controls] = createActionCore(
+    fn,
+    { name: fn.name || undefined, ...options },
+    "switch"
   );
 
   // Add reactive getter for cancelled status
   Object.defineProperties(a, {
     cancelled: {
       get: () => {
-        return ac.aborted;
+        return controls.cancelled;
       },
     },
   });
@@ -192,12 +177,12 @@ export function cancellableAction<
   // Add cancel method
   Object.assign(a, {
     cancel: () => {
-      ac.abort();
+      controls.cancel();
     },
   });
 
   getDispatcher(disposableToken)?.on(() => {
-    ac.abort();
+    controls.cancel();
   });
 
   return a as CancellableAction<TArgs, TResult>;
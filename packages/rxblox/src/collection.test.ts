@@ -0,0 +1,378 @@
+import { describe, it, expect, vi } from "vitest";
+import isEqual from "lodash/isEqual";
+import { list, map, type ListChange, type MapChange } from "./collection";
+import { effect } from "./effect";
+import { batch } from "./batch";
+import type { Persistor } from "./types";
+
+type Todo = { id: string; text: string; done: boolean };
+
+const todo = (id: string, done = false): Todo => ({ id, text: id, done });
+
+describe("signal.list", () => {
+  const todos = () =>
+    list([todo("a"), todo("b"), todo("c")], { key: (item) => item.id });
+
+  describe("reading", () => {
+    it("should expose items, keys and length", () => {
+      const l = todos();
+
+      expect(l.value().map((item) => item.id)).toEqual(["a", "b", "c"]);
+      expect(l.keys()).toEqual(["a", "b", "c"]);
+      expect(l.length()).toBe(3);
+      expect(l.get("b")).toEqual(todo("b"));
+      expect(l.at(2)).toEqual(todo("c"));
+      expect(l.indexOf("c")).toBe(2);
+      expect(l.has("d")).toBe(false);
+      expect(l.item("a")?.()).toEqual(todo("a"));
+      expect(l.itemAt(1)).toBe(l.item("b"));
+    });
+
+    it("should generate keys without a key function", () => {
+      const l = list(["x", "y"]);
+
+      l.push("z");
+
+      expect(l.keys()).toEqual([0, 1, 2]);
+      expect(l.get(2)).toBe("z");
+    });
+
+    it("should reject duplicate keys", () => {
+      const l = todos();
+
+      expect(() => l.push(todo("a"))).toThrow("duplicate key a");
+      expect(l.length()).toBe(3);
+    });
+  });
+
+  describe("mutations", () => {
+    it("should update, insert, move and remove items", () => {
+      const l = todos();
+
+      l.set("a", (item) => {
+        item.done = true;
+      });
+      l.insert(1, todo("d"));
+      l.move(0, 3);
+      l.remove("b");
+
+      expect(l.keys()).toEqual(["d", "c", "a"]);
+      expect(l.get("a")?.done).toBe(true);
+      expect(l.removeAt(0)).toEqual(todo("d"));
+      expect(l.set("missing", todo("x"))).toBe(false);
+      expect(l.move(5, 0)).toBe(false);
+    });
+
+    it("should keep item signals when replacing items", () => {
+      const l = todos();
+      const b = l.item("b");
+
+      l.replace([todo("c"), todo("b", true), todo("e")]);
+
+      expect(l.keys()).toEqual(["c", "b", "e"]);
+      expect(l.item("b")).toBe(b);
+      expect(b?.().done).toBe(true);
+      expect(l.item("a")).toBeUndefined();
+    });
+
+    it("should clear items", () => {
+      const l = todos();
+
+      l.clear();
+
+      expect(l.value()).toEqual([]);
+      expect(l.length()).toBe(0);
+    });
+  });
+
+  describe("granularity", () => {
+    it("should only notify readers of the updated item", () => {
+      const l = todos();
+      const a = vi.fn(() => {
+        l.get("a");
+      });
+      const b = vi.fn(() => {
+        l.get("b");
+      });
+      effect(a);
+      effect(b);
+
+      l.set("a", todo("a", true));
+
+      expect(a).toHaveBeenCalledTimes(2);
+      expect(b).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not notify item readers of structural changes", () => {
+      const l = todos();
+      const a = vi.fn(() => {
+        l.get("a");
+      });
+      const keys = vi.fn(() => {
+        l.keys();
+      });
+      effect(a);
+      effect(keys);
+
+      l.push(todo("d"));
+      l.move(0, 2);
+
+      expect(a).toHaveBeenCalledTimes(1);
+      expect(keys).toHaveBeenCalledTimes(3);
+    });
+
+    it("should notify readers of a key when it is added or removed", () => {
+      const l = todos();
+      const values: (Todo | undefined)[] = [];
+      effect(() => {
+        values.push(l.get("d"));
+      });
+
+      l.push(todo("d"));
+      l.remove("d");
+
+      expect(values).toEqual([undefined, todo("d"), undefined]);
+    });
+
+    it("should notify readers of the whole list once per batch", () => {
+      const l = todos();
+      const lengths: number[] = [];
+      effect(() => {
+        lengths.push(l.value().length);
+      });
+
+      batch(() => {
+        l.push(todo("d"));
+        l.set("a", todo("a", true));
+        l.remove("b");
+      });
+
+      expect(lengths).toEqual([3, 3]);
+    });
+
+    it("should report changes made through item signals", () => {
+      const l = todos();
+      const values: boolean[] = [];
+      effect(() => {
+        values.push(l.value()[0].done);
+      });
+
+      l.item("a")!.set(todo("a", true));
+
+      expect(values).toEqual([false, true]);
+    });
+  });
+
+  describe("changes", () => {
+    it("should report structural changes and updates", () => {
+      const l = todos();
+      const changes: ListChange<Todo, string>[] = [];
+      l.on((change) => changes.push(change));
+
+      l.push(todo("d"));
+      l.move(3, 0);
+      l.set("a", todo("a", true));
+      l.item("b")!.set(todo("b", true));
+      l.remove("c");
+
+      expect(changes).toEqual([
+        { type: "insert", key: "d", index: 3, value: todo("d") },
+        { type: "move", key: "d", from: 3, to: 0 },
+        {
+          type: "update",
+          key: "a",
+          index: 1,
+          prev: todo("a"),
+          next: todo("a", true),
+        },
+        {
+          type: "update",
+          key: "b",
+          index: 2,
+          prev: todo("b"),
+          next: todo("b", true),
+        },
+        { type: "remove", key: "c", index: 3, value: todo("c") },
+      ]);
+    });
+
+    it("should report replacements as changes that can be replayed", () => {
+      const l = list([todo("a"), todo("b"), todo("c")], {
+        key: (item) => item.id,
+        equals: isEqual,
+      });
+      const keys = l.keys();
+      const changes: ListChange<Todo, string>[] = [];
+      l.on((change) => changes.push(change));
+
+      l.replace([todo("e"), todo("c"), todo("a", true), todo("f")]);
+
+      const replayed = [...keys];
+      changes.forEach((change) => {
+        if (change.type === "insert")
+          replayed.splice(change.index, 0, change.key);
+        if (change.type === "remove") replayed.splice(change.index, 1);
+        if (change.type === "move") {
+          replayed.splice(change.from, 1);
+          replayed.splice(change.to, 0, change.key);
+        }
+      });
+      expect(replayed).toEqual(["e", "c", "a", "f"]);
+      expect(changes.map((change) => change.type)).toEqual([
+        "remove",
+        "move",
+        "insert",
+        "insert",
+        "update",
+      ]);
+    });
+  });
+
+  describe("serialization", () => {
+    it("should serialize to JSON", () => {
+      expect(JSON.stringify(list([1, 2]))).toBe("[1,2]");
+    });
+
+    it("should persist items", () => {
+      const set = vi.fn();
+      const persist: Persistor<Todo[]> = {
+        get: () => ({ value: [todo("saved")] }),
+        set,
+      };
+      const l = list<Todo, string>([], { key: (item) => item.id, persist });
+
+      expect(l.keys()).toEqual(["saved"]);
+
+      l.push(todo("new"));
+
+      expect(set).toHaveBeenLastCalledWith([todo("saved"), todo("new")]);
+    });
+
+    it("should replace items read asynchronously from storage", async () => {
+      const persist: Persistor<Todo[]> = {
+        get: async () => ({ value: [todo("saved")] }),
+        set: vi.fn(),
+      };
+      const l = list<Todo, string>([todo("initial")], {
+        key: (item) => item.id,
+        persist,
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(l.keys()).toEqual(["saved"]);
+    });
+  });
+});
+
+describe("signal.map", () => {
+  const users = () =>
+    map<string, { name: string }>([
+      ["ada", { name: "Ada" }],
+      ["grace", { name: "Grace" }],
+    ]);
+
+  it("should expose entries, keys and size", () => {
+    const m = users();
+
+    expect(m.value()).toEqual(
+      new Map([
+        ["ada", { name: "Ada" }],
+        ["grace", { name: "Grace" }],
+      ])
+    );
+    expect(m.keys()).toEqual(["ada", "grace"]);
+    expect(m.size()).toBe(2);
+    expect(m.get("ada")).toEqual({ name: "Ada" });
+    expect(m.has("alan")).toBe(false);
+  });
+
+  it("should add, update and delete entries", () => {
+    const m = users();
+
+    m.set("alan", { name: "Alan" });
+    m.set("ada", { name: "Ada L." });
+    m.update("grace", (user) => {
+      user.name = "Grace H.";
+    });
+    m.delete("alan");
+
+    expect(m.toJSON()).toEqual([
+      ["ada", { name: "Ada L." }],
+      ["grace", { name: "Grace H." }],
+    ]);
+    expect(m.update("alan", (user) => user)).toBe(false);
+    expect(m.delete("alan")).toBe(false);
+  });
+
+  it("should only notify readers of the changed key", () => {
+    const m = users();
+    const ada = vi.fn(() => {
+      m.get("ada");
+    });
+    const alan = vi.fn(() => {
+      m.has("alan");
+    });
+    effect(ada);
+    effect(alan);
+
+    m.set("grace", { name: "Grace H." });
+    expect(ada).toHaveBeenCalledTimes(1);
+    expect(alan).toHaveBeenCalledTimes(1);
+
+    m.set("alan", { name: "Alan" });
+    expect(ada).toHaveBeenCalledTimes(1);
+    expect(alan).toHaveBeenCalledTimes(2);
+
+    m.delete("ada");
+    expect(ada).toHaveBeenCalledTimes(2);
+  });
+
+  it("should report changes", () => {
+    const m = map<string, { name: string }>(
+      [
+        ["ada", { name: "Ada" }],
+        ["grace", { name: "Grace" }],
+      ],
+      { equals: isEqual }
+    );
+    const changes: MapChange<string, { name: string }>[] = [];
+    m.on((change) => changes.push(change));
+
+    m.set("alan", { name: "Alan" });
+    m.set("ada", { name: "Ada L." });
+    m.replace([
+      ["grace", { name: "Grace" }],
+      ["ada", { name: "Ada L." }],
+    ]);
+
+    expect(changes).toEqual([
+      { type: "insert", key: "alan", value: { name: "Alan" } },
+      {
+        type: "update",
+        key: "ada",
+        prev: { name: "Ada" },
+        next: { name: "Ada L." },
+      },
+      { type: "remove", key: "alan", value: { name: "Alan" } },
+    ]);
+    expect(m.keys()).toEqual(["grace", "ada"]);
+  });
+
+  it("should persist entries", () => {
+    const set = vi.fn();
+    const persist: Persistor<[string, number][]> = {
+      get: () => ({ value: [["a", 1]] }),
+      set,
+    };
+    const m = map<string, number>([], { persist });
+
+    m.set("b", 2);
+
+    expect(m.get("a")).toBe(1);
+    expect(set).toHaveBeenLastCalledWith([
+      ["a", 1],
+      ["b", 2],
+    ]);
+  });
+});
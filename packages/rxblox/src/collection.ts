@@ -0,0 +1,592 @@
+import { signal as createSignal, type SignalOptions } from "./signal";
+import { batch } from "./batch";
+import { emitter } from "./emitter";
+import { withContextType } from "./dispatcher";
+import { disposableToken } from "./disposableDispatcher";
+import { intercepted, unintercepted } from "./middleware";
+import type { MutableSignal, Signal } from "./types";
+
+/**
+ * Change of a `signal.list()`, reported by `list.on()`.
+ *
+ * Indexes are positions at the time of the change: replaying the changes
+ * in order on the previous items gives the current items.
+ *
+ * @template T - The type of the items
+ * @template K - The type of the keys
+ */
+export type ListChange<T, K = number> =
+  | { type: "insert"; key: K; index: number; value: T }
+  | { type: "remove"; key: K; index: number; value: T }
+  | { type: "move"; key: K; from: number; to: number }
+  | { type: "update"; key: K; index: number; prev: T; next: T };
+
+/**
+ * Change of a `signal.map()`, reported by `map.on()`.
+ *
+ * @template K - The type of the keys
+ * @template V - The type of the values
+ */
+export type MapChange<K, V> =
+  | { type: "insert"; key: K; value: V }
+  | { type: "remove"; key: K; value: V }
+  | { type: "update"; key: K; prev: V; next: V };
+
+/**
+ * Options of `signal.list()`.
+ *
+ * @template T - The type of the items
+ * @template K - The type of the keys
+ */
+export type ListOptions<T, K> = {
+  name?: string;
+  /**
+   * Returns the key of an item, read when the item is added.
+   * Without it, items get generated numeric keys, and `replace()`
+   * recreates all items.
+   */
+  key?: (item: T) => K;
+  /**
+   * Determines whether an item value changed.
+   * @default Object.is
+   */
+  equals?: (a: T, b: T) => boolean;
+  /** Persists the items (see `SignalOptions.persist`) */
+  persist?: SignalOptions<T[]>["persist"];
+};
+
+/**
+ * Options of `signal.map()`.
+ *
+ * @template K - The type of the keys
+ * @template V - The type of the values
+ */
+export type MapOptions<K, V> = {
+  name?: string;
+  /**
+   * Determines whether a value changed.
+   * @default Object.is
+   */
+  equals?: (a: V, b: V) => boolean;
+  /** Persists the entries (see `SignalOptions.persist`) */
+  persist?: SignalOptions<[K, V][]>["persist"];
+};
+
+/**
+ * Reactive list returned by `signal.list()`.
+ *
+ * Every item lives in its own signal: updating an item only notifies the
+ * readers of that item (and of `value`), while inserting, removing and
+ * moving items notifies the readers of the structure (`keys`, `length`).
+ *
+ * @template T - The type of the items
+ * @template K - The type of the keys
+ */
+export type SignalList<T, K = number> = {
+  /** All items, in order */
+  readonly value: Signal<T[]>;
+  /** Keys of the items, in order */
+  readonly keys: Signal<K[]>;
+  /** Number of items */
+  readonly length: Signal<number>;
+  /** Signal of the item with the given key (not tracked) */
+  item(key: K): MutableSignal<T> | undefined;
+  /** Signal of the item at the given position (not tracked) */
+  itemAt(index: number): MutableSignal<T> | undefined;
+  /** Reads the item with the given key (tracks the item only) */
+  get(key: K): T | undefined;
+  /** Reads the item at the given position */
+  at(index: number): T | undefined;
+  /** Whether an item has the given key (tracks the key only) */
+  has(key: K): boolean;
+  /** Position of the item with the given key, or -1 */
+  indexOf(key: K): number;
+  /**
+   * Updates the item with the given key.
+   * @returns false if there is no such item
+   */
+  set(key: K, value: T | ((prev: T) => T | void)): boolean;
+  /** Appends items */
+  push(...items: T[]): void;
+  /** Inserts items at the given position */
+  insert(index: number, ...items: T[]): void;
+  /**
+   * Removes the item with the given key.
+   * @returns false if there is no such item
+   */
+  remove(key: K): boolean;
+  /**
+   * Removes the item at the given position.
+   * @returns The removed item
+   */
+  removeAt(index: number): T | undefined;
+  /**
+   * Moves the item at `from` to `to`.
+   * @returns false if `from` is out of range
+   */
+  move(from: number, to: number): boolean;
+  /**
+   * Replaces all items. Items whose key is kept keep their signal (and
+   * are updated), others are inserted or removed.
+   */
+  replace(items: readonly T[]): void;
+  /** Removes all items */
+  clear(): void;
+  /**
+   * Subscribes to the changes of the list, one call per change.
+   * @returns An unsubscribe function
+   */
+  on(listener: (change: ListChange<T, K>) => void): VoidFunction;
+  /** Returns the items (used by `JSON.stringify()`) */
+  toJSON(): T[];
+};
+
+/**
+ * Reactive map returned by `signal.map()`.
+ *
+ * Every value lives in its own signal: updating a value only notifies the
+ * readers of that key (and of `value`), while adding and deleting keys
+ * notifies the readers of the structure (`keys`, `size`).
+ *
+ * @template K - The type of the keys
+ * @template V - The type of the values
+ */
+export type SignalMap<K, V> = {
+  /** All entries, in insertion order */
+  readonly value: Signal<ReadonlyMap<K, V>>;
+  /** Keys, in insertion order */
+  readonly keys: Signal<K[]>;
+  /** Number of entries */
+  readonly size: Signal<number>;
+  /** Signal of the value with the given key (not tracked) */
+  item(key: K): MutableSignal<V> | undefined;
+  /** Reads the value with the given key (tracks the key only) */
+  get(key: K): V | undefined;
+  /** Whether the map has the given key (tracks the key only) */
+  has(key: K): boolean;
+  /** Adds or updates an entry */
+  set(key: K, value: V): void;
+  /**
+   * Updates the value with the given key.
+   * @returns false if there is no such key
+   */
+  update(key: K, updater: (prev: V) => V | void): boolean;
+  /**
+   * Deletes an entry.
+   * @returns false if there is no such key
+   */
+  delete(key: K): boolean;
+  /**
+   * Replaces all entries. Kept keys keep their signal (and are updated),
+   * others are added or deleted.
+   */
+  replace(entries: Iterable<readonly [K, V]>): void;
+  /** Deletes all entries */
+  clear(): void;
+  /**
+   * Subscribes to the changes of the map, one call per change.
+   * @returns An unsubscribe function
+   */
+  on(listener: (change: MapChange<K, V>) => void): VoidFunction;
+  /** Returns the entries (used by `JSON.stringify()`) */
+  toJSON(): [K, V][];
+};
+
+type Entry<V> = {
+  signal: MutableSignal<V>;
+  /** Set to false when the entry is removed */
+  present: MutableSignal<boolean>;
+  /** Latest reported value */
+  value: V;
+  unsubscribe: VoidFunction;
+};
+
+/**
+ * Ordered keyed collection of signals shared by lists and maps.
+ */
+const collection = <K, V>(owner: string, equals: (a: V, b: V) => boolean) => {
+  // Writes to keys and items run through the global middleware: a
+  // cancelled write leaves the collection unchanged
+  const keys = intercepted(() => createSignal<K[]>([]));
+  const entries = new Map<K, Entry<V>>();
+  const onChange = emitter<ListChange<V, K>>();
+
+  const report = (key: K, entry: Entry<V>) => {
+    const next = entry.signal.peek();
+    if (equals(entry.value, next)) return;
+    const prev = entry.value;
+    entry.value = next;
+    onChange.emit({
+      type: "update",
+      key,
+      index: keys.peek().indexOf(key),
+      prev,
+      next,
+    });
+  };
+
+  const createEntry = (key: K, value: V) =>
+    // Items are added by batches, effects and event handlers, and must
+    // outlive all of them
+    withContextType(undefined, () =>
+      disposableToken.without(() => {
+        const entry: Entry<V> = {
+          signal: intercepted(() => createSignal(value, { equals })),
+          present: createSignal(true),
+          value,
+          unsubscribe: () => {},
+        };
+        // Also report changes made through the item signal
+        entry.unsubscribe = entry.signal.on(() => report(key, entry));
+        entries.set(key, entry);
+      })
+    );
+
+  const dropEntry = (key: K) => {
+    entries.get(key)?.unsubscribe();
+    entries.delete(key);
+  };
+
+  const get = (key: K) => {
+    const entry = entries.get(key);
+    if (!entry) {
+      // Notified when the key is added
+      keys();
+      return undefined;
+    }
+    entry.present();
+    return entry.signal();
+  };
+
+  const has = (key: K) => {
+    const entry = entries.get(key);
+    if (!entry) {
+      keys();
+      return false;
+    }
+    return entry.present();
+  };
+
+  const insert = (index: number, added: readonly (readonly [K, V])[]) => {
+    const addedKeys = new Set<K>();
+    added.forEach(([key]) => {
+      if (entries.has(key) || addedKeys.has(key)) {
+        throw new Error(`${owner}: duplicate key ${String(key)}`);
+      }
+      addedKeys.add(key);
+    });
+    if (!added.length) return;
+
+    const next = keys.peek().slice();
+    const start = Math.max(0, Math.min(index, next.length));
+    batch(() => {
+      added.forEach(([key, value], i) => {
+        createEntry(key, value);
+        next.splice(start + i, 0, key);
+      });
+      keys.set(next);
+    });
+    if (keys.peek() !== next) {
+      added.forEach(([key]) => dropEntry(key));
+      return;
+    }
+    added.forEach(([key, value], i) =>
+      onChange.emit({ type: "insert", key, index: start + i, value })
+    );
+  };
+
+  const remove = (key: K) => {
+    const entry = entries.get(key);
+    if (!entry) return false;
+
+    const index = keys.peek().indexOf(key);
+    const next = keys.peek().filter((k) => k !== key);
+    let removed = false;
+    batch(() => {
+      keys.set(next);
+      if (keys.peek() !== next) return;
+      removed = true;
+      dropEntry(key);
+      entry.present.set(false);
+    });
+    if (!removed) return false;
+    onChange.emit({ type: "remove", key, index, value: entry.value });
+    return true;
+  };
+
+  const move = (from: number, to: number) => {
+    const next = keys.peek().slice();
+    if (from < 0 || from >= next.length) return false;
+
+    const [key] = next.splice(from, 1);
+    const target = Math.max(0, Math.min(to, next.length));
+    if (target === from) return true;
+    next.splice(target, 0, key);
+    keys.set(next);
+    if (keys.peek() !== next) return false;
+    onChange.emit({ type: "move", key, from, to: target });
+    return true;
+  };
+
+  const update = (key: K, value: V | ((prev: V) => V | void)) => {
+    const entry = entries.get(key);
+    if (!entry) return false;
+
+    entry.signal.set(value);
+    report(key, entry);
+    return true;
+  };
+
+  const replace = (next: readonly (readonly [K, V])[]) => {
+    const nextKeys = new Set(next.map(([key]) => key));
+    if (nextKeys.size !== next.length) {
+      throw new Error(`${owner}: duplicate keys`);
+    }
+
+    batch(() => {
+      // Removed keys, from the end so positions stay valid
+      keys
+        .peek()
+        .slice()
+        .reverse()
+        .forEach((key) => {
+          if (!nextKeys.has(key)) remove(key);
+        });
+      // Kept keys, in the new order
+      next
+        .filter(([key]) => entries.has(key))
+        .forEach(([key], to) => move(keys.peek().indexOf(key), to));
+      // Added keys, in order
+      next.forEach(([key, value], index) => {
+        if (!entries.has(key)) insert(index, [[key, value]]);
+      });
+      // Kept values
+      next.forEach(([key, value]) => update(key, value));
+    });
+  };
+
+  return {
+    keys,
+    entries,
+    onChange,
+    get,
+    has,
+    insert,
+    remove,
+    move,
+    update,
+    replace,
+  };
+};
+
+/**
+ * Connects a collection to a persistor through a signal holding its
+ * plain value: changes are written to the signal, and values read from
+ * storage replace the collection.
+ */
+const persistCollection = <T>(
+  value: Signal<T>,
+  persist: SignalOptions<T>["persist"],
+  name: string | undefined,
+  replace: (value: T) => void
+) => {
+  const stored = withContextType(undefined, () =>
+    disposableToken.without(() => createSignal(value.peek(), { persist, name }))
+  );
+  let writing = false;
+
+  // Values read from storage (synchronously or later)
+  if (stored.peek() !== value.peek()) {
+    unintercepted(() => replace(stored.peek()));
+  }
+  stored.on(() => {
+    if (!writing) unintercepted(() => replace(stored.peek()));
+  });
+
+  value.on(() => {
+    writing = true;
+    try {
+      stored.set(value.peek());
+    } finally {
+      writing = false;
+    }
+  });
+};
+
+/**
+ * Creates a reactive list of keyed items with one signal per item.
+ *
+ * - `list.get(key)` / `list.item(key)` track a single item
+ * - `list.keys()` / `list.length()` track the structure
+ * - `list.value()` tracks everything
+ * - `list.on()` reports every insert, remove, move and update
+ *
+ * @param initial - Initial items
+ * @param options - Configuration options
+ * @returns A reactive list
+ *
+ * @example
+ * ```ts
+ * const todos = signal.list(
+ *   [{ id: "1", text: "Write docs", done: false }],
+ *   { key: (todo) => todo.id, persist: persistor.local("todos") }
+ * );
+ *
+ * // Only re-runs when the todo "1" changes
+ * effect(() => console.log(todos.get("1")?.done));
+ *
+ * todos.push({ id: "2", text: "Ship", done: false });
+ * todos.set("1", (todo) => {
+ *   todo.done = true;
+ * });
+ * todos.move(1, 0);
+ *
+ * todos.on((change) => console.log(change.type, change.key));
+ * ```
+ */
+export function list<T, K = number>(
+  initial: readonly T[] = [],
+  options: ListOptions<T, K> = {}
+): SignalList<T, K> {
+  const { equals = Object.is, name } = options;
+  let nextKey = 0;
+  const keyOf = options.key ?? (() => nextKey++ as K);
+  const core = collection<K, T>("signal.list()", equals);
+  const { keys, entries } = core;
+
+  const toEntries = (items: readonly T[]) =>
+    items.map((item) => [keyOf(item), item] as const);
+
+  unintercepted(() => core.insert(0, toEntries(initial)));
+
+  const value = createSignal(() =>
+    keys().map((key) => entries.get(key)!.signal())
+  );
+  const length = createSignal(() => keys().length);
+
+  const api: SignalList<T, K> = {
+    value,
+    keys: keys.readonly,
+    length,
+    item: (key) => entries.get(key)?.signal,
+    itemAt: (index) => {
+      const key = keys.peek()[index];
+      return key === undefined ? undefined : entries.get(key)?.signal;
+    },
+    get: core.get,
+    at: (index) => {
+      const key = keys()[index];
+      return key === undefined ? undefined : entries.get(key)?.signal();
+    },
+    has: core.has,
+    indexOf: (key) => keys().indexOf(key),
+    set: core.update,
+    push: (...items) => core.insert(keys.peek().length, toEntries(items)),
+    insert: (index, ...items) => core.insert(index, toEntries(items)),
+    remove: core.remove,
+    removeAt: (index) => {
+      const key = keys.peek()[index];
+      const entry = key === undefined ? undefined : entries.get(key);
+      if (!entry) return undefined;
+      core.remove(key);
+      return entry.value;
+    },
+    move: core.move,
+    replace: (items) => core.replace(toEntries(items)),
+    clear: () => core.replace([]),
+    on: (listener) => core.onChange.on(listener),
+    toJSON: () => value.peek(),
+  };
+
+  if (options.persist) {
+    persistCollection(value, options.persist, name, api.replace);
+  }
+
+  return api;
+}
+
+/**
+ * Creates a reactive map with one signal per key.
+ *
+ * - `map.get(key)` / `map.has(key)` track a single key
+ * - `map.keys()` / `map.size()` track the structure
+ * - `map.value()` tracks everything
+ * - `map.on()` reports every insert, remove and update
+ *
+ * Entries are persisted and serialized as `[key, value]` pairs.
+ *
+ * @param initial - Initial entries (a `Map` or any iterable of pairs)
+ * @param options - Configuration options
+ * @returns A reactive map
+ *
+ * @example
+ * ```ts
+ * const users = signal.map<string, User>([["ada", { name: "Ada" }]]);
+ *
+ * // Only re-runs when "grace" is added, updated or deleted
+ * effect(() => console.log(users.get("grace")?.name));
+ *
+ * users.set("grace", { name: "Grace" });
+ * users.update("ada", (user) => {
+ *   user.name = "Ada L.";
+ * });
+ * users.delete("ada");
+ * ```
+ */
+export function map<K, V>(
+  initial: Iterable<readonly [K, V]> = [],
+  options: MapOptions<K, V> = {}
+): SignalMap<K, V> {
+  const { equals = Object.is, name } = options;
+  const core = collection<K, V>("signal.map()", equals);
+  const { keys, entries } = core;
+
+  unintercepted(() => core.insert(0, Array.from(initial)));
+
+  const value = createSignal<ReadonlyMap<K, V>>(
+    () => new Map(keys().map((key) => [key, entries.get(key)!.signal()]))
+  );
+  const size = createSignal(() => keys().length);
+
+  const api: SignalMap<K, V> = {
+    value,
+    keys: keys.readonly,
+    size,
+    item: (key) => entries.get(key)?.signal,
+    get: core.get,
+    has: core.has,
+    set: (key, next) => {
+      if (entries.has(key)) {
+        core.update(key, () => next);
+      } else {
+        core.insert(keys.peek().length, [[key, next]]);
+      }
+    },
+    update: core.update,
+    delete: core.remove,
+    replace: (next) => core.replace(Array.from(next)),
+    clear: () => core.replace([]),
+    on: (listener) =>
+      core.onChange.on((change) => {
+        // Maps keep insertion order: positions are not reported
+        if (change.type === "insert" || change.type === "remove") {
+          listener({ type: change.type, key: change.key, value: change.value });
+        } else if (change.type === "update") {
+          const { key, prev, next } = change;
+          listener({ type: "update", key, prev, next });
+        }
+      }),
+    toJSON: () => Array.from(value.peek()),
+  };
+
+  if (options.persist) {
+    persistCollection(
+      createSignal(() => Array.from(value())),
+      options.persist,
+      name,
+      api.replace
+    );
+  }
+
+  return api;
+}
@@ -0,0 +1,362 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  devtools,
+  memoryDevtoolsTransport,
+  reduxDevtoolsTransport,
+  type Devtools,
+  type DevtoolsEvent,
+} from "./devtools";
+import { signal } from "./signal";
+import { effect } from "./effect";
+import { action } from "./action";
+import { batch } from "./batch";
+import { emitter } from "./emitter";
+import { disposableToken } from "./disposableDispatcher";
+
+describe("devtools", () => {
+  let tools: Devtools | undefined;
+
+  const connect = (options: Parameters<typeof devtools>[0] = {}) => {
+    tools = devtools({ transport: false, ...options });
+    return tools;
+  };
+
+  afterEach(() => {
+    tools?.disconnect();
+    tools = undefined;
+  });
+
+  describe("graph", () => {
+    it("should register signals, computed signals, effects and actions", () => {
+      const tools = connect();
+
+      signal(0, { name: "count" });
+      signal(() => 1, { name: "one" });
+      effect(function logger() {});
+      action(function save() {});
+      signal(0);
+
+      expect(
+        tools.graph().nodes.map(({ kind, label }) => ({ kind, label }))
+      ).toEqual([
+        { kind: "signal", label: "count" },
+        { kind: "computed", label: "one" },
+        { kind: "effect", label: "logger" },
+        // The state signal of the action
+        { kind: "signal", label: expect.stringMatching(/^signal#\d+$/) },
+        { kind: "action", label: "save" },
+        { kind: "signal", label: expect.stringMatching(/^signal#\d+$/) },
+      ]);
+    });
+
+    it("should label nodes sharing a name with their id", () => {
+      const tools = connect();
+
+      signal(0, { name: "count" });
+      signal(0, { name: "count" });
+
+      const [first, second] = tools.graph().nodes;
+      expect(first.label).toBe("count");
+      expect(second.label).toBe(`count#${second.id}`);
+    });
+
+    it("should record dependency edges", () => {
+      const tools = connect();
+      const a = signal(1, { name: "a" });
+      const b = signal(2, { name: "b" });
+      const sum = signal(() => a() + b(), { name: "sum" });
+      effect(
+        () => {
+          sum();
+        },
+        { name: "log" }
+      );
+
+      const { nodes, edges } = tools.graph();
+      const id = (label: string) => nodes.find((n) => n.label === label)!.id;
+
+      expect(edges).toEqual([
+        { from: id("a"), to: id("sum") },
+        { from: id("b"), to: id("sum") },
+        { from: id("sum"), to: id("log") },
+      ]);
+      expect(nodes.find((n) => n.label === "sum")!.dependencies).toEqual([
+        id("a"),
+        id("b"),
+      ]);
+    });
+
+    it("should follow dynamic dependencies", () => {
+      const tools = connect();
+      const flag = signal(true, { name: "flag" });
+      const a = signal(1, { name: "a" });
+      const b = signal(2, { name: "b" });
+      const value = signal(() => (flag() ? a() : b()), { name: "value" });
+      value();
+
+      flag.set(false);
+      value();
+
+      const { nodes } = tools.graph();
+      const labels = (ids: number[]) =>
+        ids.map((id) => nodes.find((n) => n.id === id)!.label);
+      expect(
+        labels(nodes.find((n) => n.label === "value")!.dependencies)
+      ).toEqual(["flag", "b"]);
+    });
+
+    it("should remove disposed nodes", () => {
+      const tools = connect();
+      const onDispose = emitter();
+      const count = signal(0, { name: "count" });
+      disposableToken.with(onDispose, () =>
+        signal(() => count() * 2, { name: "doubled" })
+      )();
+
+      onDispose.emit();
+
+      expect(tools.graph()).toEqual({
+        nodes: [
+          {
+            id: expect.any(Number),
+            kind: "signal",
+            name: "count",
+            label: "count",
+            dependencies: [],
+          },
+        ],
+        edges: [],
+      });
+    });
+
+    it("should skip filtered nodes", () => {
+      const tools = connect({ filter: (node) => node.name !== undefined });
+
+      signal(0, { name: "count" });
+      signal(0);
+
+      expect(tools.graph().nodes.map((n) => n.label)).toEqual(["count"]);
+    });
+  });
+
+  describe("events", () => {
+    it("should report changes with old and new values", () => {
+      const tools = connect();
+      const events: DevtoolsEvent[] = [];
+      tools.on((event) => events.push(event));
+      const count = signal(0, { name: "count" });
+      const doubled = signal(() => count() * 2, { name: "doubled" });
+      doubled();
+
+      count.set(1);
+
+      expect(
+        events
+          .filter((event) => event.type === "change")
+          .map((event) =>
+            event.type === "change"
+              ? [event.node.label, event.prev, event.next, event.batch]
+              : undefined
+          )
+      ).toEqual([
+        ["count", 0, 1, undefined],
+        ["doubled", 0, 2, undefined],
+      ]);
+    });
+
+    it("should report the batch of changes", () => {
+      const tools = connect();
+      const batches: (number | undefined)[] = [];
+      tools.on((event) => {
+        if (event.type === "change") batches.push(event.batch);
+      });
+      const a = signal(0, { name: "a" });
+      const b = signal(0, { name: "b" });
+
+      batch(() => {
+        a.set(1);
+        b.set(1);
+      });
+      batch(() => a.set(2));
+
+      expect(batches[0]).toBeTypeOf("number");
+      expect(batches[1]).toBe(batches[0]);
+      expect(batches[2]).toBeTypeOf("number");
+      expect(batches[2]).not.toBe(batches[0]);
+    });
+
+    it("should report resets", () => {
+      const tools = connect();
+      const changes: unknown[] = [];
+      tools.on((event) => {
+        if (event.type === "change") changes.push([event.prev, event.next]);
+      });
+      const count = signal(0, { name: "count" });
+      count.set(5);
+
+      count.reset();
+
+      expect(changes).toEqual([
+        [0, 5],
+        [5, 0],
+      ]);
+    });
+
+    it("should report action calls", () => {
+      const tools = connect();
+      const calls: unknown[] = [];
+      tools.on((event) => {
+        if (event.type === "call") calls.push([event.node.label, event.args]);
+      });
+      const add = action((a: number, b: number) => a + b, { name: "add" });
+
+      add(1, 2);
+
+      expect(calls).toEqual([["add", [1, 2]]]);
+    });
+
+    it("should stop reporting after disconnect", () => {
+      const tools = connect();
+      const listener = vi.fn();
+      tools.on(listener);
+
+      tools.disconnect();
+      signal(0, { name: "count" }).set(1);
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(tools.graph().nodes).toEqual([]);
+    });
+  });
+
+  describe("transport", () => {
+    it("should send changes of mutable signals and action calls", () => {
+      const transport = memoryDevtoolsTransport();
+      connect({
+        transport,
+        filter: (node) => node.kind !== "signal" || !!node.name,
+      });
+      const count = signal(0, { name: "count" });
+      const doubled = signal(() => count() * 2, { name: "doubled" });
+      doubled();
+      const save = action(() => {}, { name: "save" });
+
+      count.set(1);
+      save();
+
+      expect(transport.inits).toEqual([{}]);
+      expect(transport.actions).toEqual([
+        { action: { type: "count", prev: 0, next: 1 }, state: { count: 1 } },
+        { action: { type: "save()", args: [] }, state: { count: 1 } },
+      ]);
+    });
+
+    it("should send the patches of draft updates", () => {
+      const transport = memoryDevtoolsTransport();
+      const events: DevtoolsEvent[] = [];
+      connect({ transport }).on((event) => events.push(event));
+      const todo = signal({ text: "a", done: false }, { name: "todo" });
+
+      todo.mutate((draft) => {
+        draft.done = true;
+      });
+
+      expect(transport.actions[0].action).toEqual({
+        type: "todo",
+        patches: [{ op: "replace", path: ["done"], value: true }],
+      });
+      expect(events[events.length - 1]).toMatchObject({
+        type: "change",
+        patches: {
+          inversePatches: [{ op: "replace", path: ["done"], value: false }],
+        },
+      });
+    });
+
+    it("should include the batch id", () => {
+      const transport = memoryDevtoolsTransport();
+      connect({ transport });
+      const count = signal(0, { name: "count" });
+
+      batch(() => count.set(1));
+
+      expect(transport.actions[0].action.batch).toBeTypeOf("number");
+    });
+
+    it("should jump to states sent by the UI", () => {
+      const transport = memoryDevtoolsTransport();
+      const tools = connect({ transport });
+      const count = signal(0, { name: "count" });
+      const text = signal("a", { name: "text" });
+      count.set(1);
+      text.set("b");
+
+      transport.dispatch({
+        type: "DISPATCH",
+        payload: { type: "JUMP_TO_STATE" },
+        state: JSON.stringify({ count: 1, text: "a" }),
+      });
+
+      expect(count()).toBe(1);
+      expect(text()).toBe("a");
+      expect(tools.state()).toEqual({ count: 1, text: "a" });
+      // Jumps are not recorded
+      expect(transport.actions).toHaveLength(2);
+    });
+
+    it("should reset, commit and roll back", () => {
+      const transport = memoryDevtoolsTransport();
+      connect({ transport });
+      const count = signal(0, { name: "count" });
+      count.set(1);
+
+      transport.dispatch({ type: "DISPATCH", payload: { type: "COMMIT" } });
+      expect(transport.inits[transport.inits.length - 1]).toEqual({ count: 1 });
+
+      count.set(2);
+      transport.dispatch({
+        type: "DISPATCH",
+        payload: { type: "ROLLBACK" },
+        state: JSON.stringify({ count: 1 }),
+      });
+      expect(count()).toBe(1);
+      expect(transport.inits[transport.inits.length - 1]).toEqual({ count: 1 });
+
+      transport.dispatch({ type: "DISPATCH", payload: { type: "RESET" } });
+      expect(count()).toBe(0);
+      expect(transport.inits[transport.inits.length - 1]).toEqual({ count: 0 });
+      expect(transport.actions).toHaveLength(2);
+    });
+
+    it("should unsubscribe from the transport on disconnect", () => {
+      const transport = memoryDevtoolsTransport();
+      const tools = connect({ transport });
+      const count = signal(0, { name: "count" });
+      tools.disconnect();
+
+      transport.dispatch({
+        type: "DISPATCH",
+        payload: { type: "JUMP_TO_STATE" },
+        state: JSON.stringify({ count: 5 }),
+      });
+
+      expect(count()).toBe(0);
+    });
+
+    it("should connect to the Redux DevTools extension", () => {
+      const transport = memoryDevtoolsTransport();
+      const connectExtension = vi.fn(() => transport);
+      (window as any).__REDUX_DEVTOOLS_EXTENSION__ = {
+        connect: connectExtension,
+      };
+
+      try {
+        expect(reduxDevtoolsTransport("app")).toBe(transport);
+        expect(connectExtension).toHaveBeenCalledWith({ name: "app" });
+      } finally {
+        delete (window as any).__REDUX_DEVTOOLS_EXTENSION__;
+      }
+
+      expect(reduxDevtoolsTransport()).toBeUndefined();
+    });
+  });
+});
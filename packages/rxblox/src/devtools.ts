@@ -0,0 +1,547 @@
+import { batch } from "./batch";
+import type { BatchDispatcher } from "./batchDispatcher";
+import type { MutableSignal, SignalPatches } from "./types";
+
+/**
+ * Kind of a reactive node known to the devtools.
+ */
+export type DevtoolsNodeKind = "signal" | "computed" | "effect" | "action";
+
+/**
+ * A signal, computed signal, effect or action as seen by the devtools.
+ */
+export type DevtoolsNode = {
+  /** Unique id, in creation order */
+  id: number;
+  kind: DevtoolsNodeKind;
+  /** Name given with the `name` option (or the function name) */
+  name: string | undefined;
+  /**
+   * Name shown in the devtools and used as key of the state:
+   * the name, `name#id` when the name is taken, or `kind#id` for unnamed nodes
+   */
+  label: string;
+  /** Ids of the nodes read by the last run of a computed signal or effect */
+  dependencies: number[];
+};
+
+/**
+ * Snapshot of the signal graph.
+ */
+export type DevtoolsGraph = {
+  nodes: DevtoolsNode[];
+  /** Dependency edges: `from` is read by `to` */
+  edges: { from: number; to: number }[];
+};
+
+/**
+ * Events reported to `devtools.on()` listeners.
+ */
+export type DevtoolsEvent =
+  | { type: "register"; node: DevtoolsNode }
+  | { type: "unregister"; node: DevtoolsNode }
+  | { type: "dependencies"; node: DevtoolsNode }
+  | {
+      type: "change";
+      node: DevtoolsNode;
+      prev: unknown;
+      next: unknown;
+      /** Id of the `batch()` the change was made in */
+      batch: number | undefined;
+      /** Patches of the change, when they were generated (see `mutate()`) */
+      patches?: SignalPatches;
+    }
+  | { type: "call"; node: DevtoolsNode; args: readonly unknown[] };
+
+/**
+ * Message sent by the devtools UI, in the Redux DevTools extension format.
+ *
+ * @example
+ * ```ts
+ * { type: "DISPATCH", payload: { type: "JUMP_TO_STATE" }, state: '{"count":1}' }
+ * ```
+ */
+export type DevtoolsMessage = {
+  type: string;
+  payload?: { type: string; [key: string]: unknown };
+  /** JSON of the state to restore */
+  state?: string;
+};
+
+/**
+ * Connection to a devtools UI, following the protocol of the
+ * Redux DevTools extension (`__REDUX_DEVTOOLS_EXTENSION__.connect()`).
+ */
+export type DevtoolsTransport = {
+  /** Sets the initial (or committed) state */
+  init(state: unknown): void;
+  /** Records an action and the state after it */
+  send(action: { type: string; [key: string]: unknown }, state: unknown): void;
+  /** Listens to messages from the UI */
+  subscribe(listener: (message: DevtoolsMessage) => void): VoidFunction | void;
+  unsubscribe?(): void;
+};
+
+/**
+ * In-memory transport, recording what is sent to it.
+ * Useful for tests and for building custom devtools panels.
+ */
+export type MemoryDevtoolsTransport = DevtoolsTransport & {
+  /** States passed to `init()` */
+  readonly inits: unknown[];
+  /** Actions passed to `send()`, with their states */
+  readonly actions: {
+    action: { type: string; [key: string]: unknown };
+    state: unknown;
+  }[];
+  /** Simulates a message from the UI */
+  dispatch(message: DevtoolsMessage): void;
+};
+
+export type DevtoolsOptions = {
+  /** Instance name shown in the Redux DevTools extension */
+  name?: string;
+  /**
+   * Transport to report to. Defaults to the Redux DevTools extension
+   * when it is installed; pass `false` to only use `graph()`/`on()`.
+   */
+  transport?: DevtoolsTransport | false;
+  /** Nodes to report (defaults to all nodes) */
+  filter?: (node: DevtoolsNode) => boolean;
+};
+
+/**
+ * Connection to the devtools, returned by `devtools()`.
+ */
+export type Devtools = {
+  /** Returns the registered nodes and their dependency edges */
+  graph(): DevtoolsGraph;
+  /** Returns the values of the registered mutable signals, keyed by label */
+  state(): Record<string, unknown>;
+  /**
+   * Listens to registrations, dependency updates, changes and action calls.
+   *
+   * @returns Unsubscribe function
+   */
+  on(listener: (event: DevtoolsEvent) => void): VoidFunction;
+  /** Stops reporting */
+  disconnect(): void;
+};
+
+type Entry = DevtoolsNode & {
+  target: unknown;
+  sources: Set<Entry>;
+};
+
+type Connection = {
+  register(target: object, kind: DevtoolsNodeKind, name?: string): void;
+  unregister(target: object): void;
+  track(owner: object): void;
+  dependency(owner: object, source: unknown): void;
+  change(
+    target: object,
+    prev: unknown,
+    next: unknown,
+    batch: BatchDispatcher | undefined,
+    patches: SignalPatches | undefined
+  ): void;
+  call(target: object, args: readonly unknown[]): void;
+};
+
+/**
+ * Active devtools connections. Reporting is a no-op while this is empty.
+ */
+const connections = new Set<Connection>();
+
+let nextNodeId = 1;
+let nextBatchId = 1;
+const batchIds = new WeakMap<BatchDispatcher, number>();
+
+const getBatchId = (dispatcher: BatchDispatcher | undefined) => {
+  if (!dispatcher) return undefined;
+  let id = batchIds.get(dispatcher);
+  if (!id) {
+    id = nextBatchId++;
+    batchIds.set(dispatcher, id);
+  }
+  return id;
+};
+
+const toNode = (entry: Entry): DevtoolsNode => ({
+  id: entry.id,
+  kind: entry.kind,
+  name: entry.name,
+  label: entry.label,
+  dependencies: Array.from(entry.sources, (source) => source.id),
+});
+
+/**
+ * Connects the signals, computed signals, effects and actions created
+ * from now on to the devtools.
+ *
+ * - Nodes are labeled with their `name` option (the function name for
+ *   effects and actions)
+ * - Dependencies read by computed signals and effects become graph edges
+ * - Every change of a mutable signal is sent to the transport with its
+ *   old and new values and the `batch()` it was made in
+ * - Jumping to a state in the devtools UI restores the signals with `set()`
+ *
+ * Connect before creating the signals to inspect; nodes created earlier
+ * are not known to the devtools.
+ *
+ * @param options - Devtools options
+ * @returns The devtools connection
+ *
+ * @example
+ * ```ts
+ * // Development only
+ * if (import.meta.env.DEV) {
+ *   devtools({ name: "My app" });
+ * }
+ *
+ * const count = signal(0, { name: "count" });
+ * const doubled = signal(() => count() * 2, { name: "doubled" });
+ * count.set(1); // Shown as action "count" in the Redux DevTools extension
+ * ```
+ *
+ * @example
+ * ```ts
+ * // Inspecting the graph
+ * const tools = devtools({ transport: false });
+ * tools.graph(); // { nodes: [...], edges: [{ from: countId, to: doubledId }] }
+ * tools.on((event) => console.log(event));
+ * ```
+ */
+export function devtools(options: DevtoolsOptions = {}): Devtools {
+  const { filter } = options;
+  const transport =
+    options.transport === false
+      ? undefined
+      : (options.transport ?? reduxDevtoolsTransport(options.name));
+  const entries = new Map<unknown, Entry>();
+  const labels = new Set<string>();
+  const listeners = new Set<(event: DevtoolsEvent) => void>();
+  // Whether signals are being restored from the UI (changes are not sent)
+  let jumping = false;
+
+  const emit = (event: DevtoolsEvent) => {
+    listeners.forEach((listener) => listener(event));
+  };
+
+  const signals = () =>
+    Array.from(entries.values()).filter((entry) => entry.kind === "signal");
+
+  const state = () => {
+    const result: Record<string, unknown> = {};
+    signals().forEach((entry) => {
+      result[entry.label] = (entry.target as MutableSignal<unknown>).peek();
+    });
+    return result;
+  };
+
+  const restore = (json: string | undefined) => {
+    if (json === undefined) return;
+    const values = JSON.parse(json) as Record<string, unknown>;
+    jumping = true;
+    try {
+      batch(() => {
+        signals().forEach((entry) => {
+          if (entry.label in values) {
+            (entry.target as MutableSignal<unknown>).set(values[entry.label]);
+          }
+        });
+      });
+    } finally {
+      jumping = false;
+    }
+  };
+
+  const onMessage = (message: DevtoolsMessage) => {
+    if (message.type !== "DISPATCH") return;
+    switch (message.payload?.type) {
+      case "JUMP_TO_STATE":
+      case "JUMP_TO_ACTION":
+        restore(message.state);
+        break;
+      case "ROLLBACK":
+        restore(message.state);
+        transport!.init(state());
+        break;
+      case "COMMIT":
+        transport!.init(state());
+        break;
+      case "RESET":
+        jumping = true;
+        try {
+          batch(() => {
+            signals().forEach((entry) =>
+              (entry.target as MutableSignal<unknown>).reset()
+            );
+          });
+          // Reading recomputes the reset signals, which is not recorded
+          transport!.init(state());
+        } finally {
+          jumping = false;
+        }
+        break;
+    }
+  };
+
+  const connection: Connection = {
+    register(target, kind, name) {
+      const id = nextNodeId++;
+      const preferred = name ?? `${kind}#${id}`;
+      const label = labels.has(preferred) ? `${preferred}#${id}` : preferred;
+      const entry: Entry = {
+        id,
+        kind,
+        name,
+        label,
+        dependencies: [],
+        target,
+        sources: new Set(),
+      };
+      if (filter && !filter(toNode(entry))) return;
+
+      labels.add(label);
+      entries.set(target, entry);
+      emit({ type: "register", node: toNode(entry) });
+    },
+    unregister(target) {
+      const entry = entries.get(target);
+      if (!entry) return;
+
+      entries.delete(target);
+      labels.delete(entry.label);
+      entries.forEach((other) => {
+        if (other.sources.delete(entry)) {
+          emit({ type: "dependencies", node: toNode(other) });
+        }
+      });
+      emit({ type: "unregister", node: toNode(entry) });
+    },
+    track(owner) {
+      const entry = entries.get(owner);
+      if (!entry?.sources.size) return;
+
+      entry.sources.clear();
+      emit({ type: "dependencies", node: toNode(entry) });
+    },
+    dependency(owner, source) {
+      const entry = entries.get(owner);
+      const sourceEntry = entries.get(source);
+      if (!entry || !sourceEntry || entry.sources.has(sourceEntry)) return;
+
+      entry.sources.add(sourceEntry);
+      emit({ type: "dependencies", node: toNode(entry) });
+    },
+    change(target, prev, next, batchDispatcher, patches) {
+      const entry = entries.get(target);
+      if (!entry) return;
+
+      const batchId = getBatchId(batchDispatcher);
+      emit({
+        type: "change",
+        node: toNode(entry),
+        prev,
+        next,
+        batch: batchId,
+        ...(patches ? { patches } : {}),
+      });
+
+      if (transport && !jumping && entry.kind === "signal") {
+        transport.send(
+          {
+            type: entry.label,
+            // Patches are smaller than the whole values
+            ...(patches ? { patches: patches.patches } : { prev, next }),
+            ...(batchId ? { batch: batchId } : {}),
+          },
+          state()
+        );
+      }
+    },
+    call(target, args) {
+      const entry = entries.get(target);
+      if (!entry) return;
+
+      emit({ type: "call", node: toNode(entry), args });
+      transport?.send({ type: `${entry.label}()`, args }, state());
+    },
+  };
+
+  connections.add(connection);
+  const unsubscribe = transport?.subscribe(onMessage);
+  transport?.init(state());
+
+  return {
+    graph() {
+      const nodes = Array.from(entries.values());
+      return {
+        nodes: nodes.map(toNode),
+        edges: nodes.flatMap((entry) =>
+          Array.from(entry.sources, (source) => ({
+            from: source.id,
+            to: entry.id,
+          }))
+        ),
+      };
+    },
+    state,
+    on(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    disconnect() {
+      connections.delete(connection);
+      listeners.clear();
+      if (typeof unsubscribe === "function") {
+        unsubscribe();
+      } else {
+        transport?.unsubscribe?.();
+      }
+    },
+  };
+}
+
+/**
+ * Creates a transport to the Redux DevTools browser extension.
+ *
+ * @param name - Instance name shown in the extension
+ * @returns The transport, or undefined when the extension is not installed
+ */
+export function reduxDevtoolsTransport(
+  name?: string
+): DevtoolsTransport | undefined {
+  const extension =
+    typeof window === "undefined"
+      ? undefined
+      : (window as any).__REDUX_DEVTOOLS_EXTENSION__;
+
+  return extension?.connect({ name: name ?? "rxblox" });
+}
+
+/**
+ * Creates an in-memory transport.
+ *
+ * @returns The transport
+ *
+ * @example
+ * ```ts
+ * const transport = devtools.memory();
+ * devtools({ transport });
+ *
+ * const count = signal(0, { name: "count" });
+ * count.set(1);
+ * transport.actions; // [{ action: { type: "count", prev: 0, next: 1 }, state: { count: 1 } }]
+ *
+ * transport.dispatch({
+ *   type: "DISPATCH",
+ *   payload: { type: "JUMP_TO_STATE" },
+ *   state: JSON.stringify({ count: 0 }),
+ * });
+ * count(); // 0
+ * ```
+ */
+export function memoryDevtoolsTransport(): MemoryDevtoolsTransport {
+  const listeners = new Set<(message: DevtoolsMessage) => void>();
+  const inits: unknown[] = [];
+  const actions: MemoryDevtoolsTransport["actions"][number][] = [];
+
+  return {
+    inits,
+    actions,
+    init(state) {
+      inits.push(state);
+    },
+    send(action, state) {
+      actions.push({ action, state });
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispatch(message) {
+      listeners.forEach((listener) => listener(message));
+    },
+  };
+}
+
+/**
+ * Registers a node with the connected devtools.
+ *
+ * @param target - The signal, effect or action
+ * @param kind - Kind of node
+ * @param name - Name of the node
+ */
+export function devtoolsRegister(
+  target: object,
+  kind: DevtoolsNodeKind,
+  name: string | undefined
+): void {
+  connections.forEach((connection) => connection.register(target, kind, name));
+}
+
+/**
+ * Removes a disposed node from the connected devtools.
+ *
+ * @param target - The signal, effect or action
+ */
+export function devtoolsUnregister(target: object): void {
+  connections.forEach((connection) => connection.unregister(target));
+}
+
+/**
+ * Reports that a computed signal or effect starts tracking its dependencies
+ * again (its previous dependencies are forgotten).
+ *
+ * @param owner - The computed signal or effect
+ */
+export function devtoolsTrack(owner: object): void {
+  connections.forEach((connection) => connection.track(owner));
+}
+
+/**
+ * Reports a dependency read by a computed signal or effect.
+ *
+ * @param owner - The computed signal or effect
+ * @param source - The subscribable it read
+ */
+export function devtoolsDependency(owner: object, source: unknown): void {
+  connections.forEach((connection) => connection.dependency(owner, source));
+}
+
+/**
+ * Reports a value change.
+ *
+ * @param target - The changed signal
+ * @param prev - Previous value
+ * @param next - New value
+ * @param batch - Dispatcher of the batch the change was made in
+ * @param patches - Patches of the change, if they were generated
+ */
+export function devtoolsChange(
+  target: object,
+  prev: unknown,
+  next: unknown,
+  batch: BatchDispatcher | undefined,
+  patches?: SignalPatches
+): void {
+  connections.forEach((connection) =>
+    connection.change(target, prev, next, batch, patches)
+  );
+}
+
+/**
+ * Reports an action call.
+ *
+ * @param target - The action
+ * @param args - Call arguments
+ */
+export function devtoolsCall(target: object, args: readonly unknown[]): void {
+  connections.forEach((connection) => connection.call(target, args));
+}
@@ -3,13 +3,20 @@ import { disposableToken } from "./disposableDispatcher";
 import { addEffect } from "./effectDispatcher";
 import { emitter } from "./emitter";
 import { trackingDispatcher, trackingToken } from "./trackingDispatcher";
-import { Effect, TrackFunction } from "./types";
+import { Effect, TrackFunction, TrackingDispatcher } from "./types";
+import { devtoolsRegister, devtoolsUnregister } from "./devtools";
+import { registerInspectRecord, type InspectRecord } from "./inspect";
 
 export type EffectContext = {
   track: TrackFunction;
   readonly abortSignal: AbortSignal;
 };
 
+export type EffectOptions = {
+  /** Name shown in the devtools (defaults to the function name) */
+  name?: string;
+};
+
 /**
  * Creates a reactive effect that tracks signals and re-runs when dependencies change.
  *
@@ -47,6 +54,7 @@ export type EffectContext = {
  *
  * @param fn - Function to execute. Can return a cleanup function that will be
  *             called before the next execution or when the effect cleanup is called.
+ * @param options - Effect options
  * @returns An effect object with a `run()` method that returns a cleanup function
  *
  * @example
@@ -84,7 +92,8 @@ export type EffectContext = {
  * ```
  */
 export function effect(
-  fn: (context: EffectContext) => void | Promise<void> | VoidFunction
+  fn: (context: EffectContext) => void | Promise<void> | VoidFunction,
+  options: EffectOptions = {}
 ): Effect {
   // Prevent effect creation inside rx() or batch() blocks
   const contextType = getContextType();
@@ -129,6 +138,8 @@ export function effect(
   // Uses void type since cleanup functions don't take parameters
   const onCleanup = emitter<void>();
   let abortController: AbortController | undefined;
+  // Tracking dispatcher of the current run (for signal.inspect())
+  let tracking: TrackingDispatcher | undefined;
 
   const getAbortSignal = () => {
     if (!abortController) {
@@ -137,6 +148,16 @@ export function effect(
     return abortController.signal;
   };
 
+  const name = options.name ?? (fn.name || undefined);
+  const inspectRecord: InspectRecord = {
+    kind: "effect",
+    name,
+    dependencies: () => tracking?.subscribables ?? [],
+    subscribers: () => 0,
+    recomputeCount: 0,
+    lastComputeDuration: undefined,
+  };
+
   /**
    * Executes the effect function:
    * 1. Runs all registered cleanup functions (from previous execution and signal subscriptions)
@@ -146,26 +167,40 @@ export function effect(
    * 5. Registers any returned cleanup function with the emitter
    * 6. Subscribes to all signals accessed during execution and registers their unsubscribe functions
    */
-  const reRun = () => {
+  const execute = () => {
     cleanup();
 
     // Track which signals are accessed during execution
-    const dispatcher = trackingDispatcher(reRun, onCleanup);
-    const result = trackingToken.with(dispatcher, () =>
-      fn({
-        track: dispatcher.track,
-        get abortSignal() {
-          return getAbortSignal();
-        },
-      })
-    );
+    const dispatcher = trackingDispatcher(reRun, onCleanup, effectImpl);
+    tracking = dispatcher;
+    const startTime = performance.now();
+    let result: ReturnType<typeof fn>;
+    try {
+      result = trackingToken.with(dispatcher, () =>
+        fn({
+          track: dispatcher.track,
+          get abortSignal() {
+            return getAbortSignal();
+          },
+        })
+      );
+    } finally {
+      inspectRecord.lastComputeDuration = performance.now() - startTime;
+    }
     // Register the effect's cleanup function if one was returned
     if (typeof result === "function") {
       onCleanup.on(result);
     }
   };
 
+  /** Runs the effect again when its dependencies change */
+  const reRun = () => {
+    inspectRecord.recomputeCount++;
+    execute();
+  };
+
   const cleanup = () => {
+    tracking = undefined;
     // Execute all cleanup functions (effect cleanup and signal unsubscribes from previous run)
     // Pass undefined since cleanup functions don't take parameters
     onCleanup.emitAndClear();
@@ -185,30 +220,21 @@ export function effect(
    */
   const effectImpl: Effect = {
     run() {
-      cleanup();
-
-      // Track which signals are accessed during execution
-      const dispatcher = trackingDispatcher(reRun, onCleanup);
-      const result = trackingToken.with(dispatcher, () =>
-        fn({
-          track: dispatcher.track,
-          get abortSignal() {
-            return getAbortSignal();
-          },
-        })
-      );
-      // Register the effect's cleanup function if one was returned
-      if (typeof result === "function") {
-        onCleanup.on(result);
-      }
+      execute();
       return cleanup;
     },
   };
 
+  registerInspectRecord(effectImpl, inspectRecord);
+  devtoolsRegister(effectImpl, "effect", name);
+
   // Register effect with dispatcher (default dispatcher runs it immediately)
   addEffect(effectImpl);
 
-  getDispatcher(disposableToken)?.on(cleanup);
+  getDispatcher(disposableToken)?.on(() => {
+    cleanup();
+    devtoolsUnregister(effectImpl);
+  });
 
   // Return the effect object (for custom dispatchers that don't run immediately)
   return effectImpl;
@@ -109,6 +109,13 @@ export function emitter<T = void>() {
       this.emit(payload);
       this.clear();
     },
+
+    /**
+     * Number of registered listeners.
+     */
+    get size(): number {
+      return listeners.length;
+    },
   };
 }
 
@@ -0,0 +1,273 @@
+import { describe, it, expect, vi } from "vitest";
+import { render } from "@testing-library/react";
+import { act, Component, type ReactNode } from "react";
+import { For, list as rxList } from "./for";
+import { signal } from "./signal";
+import { list } from "./collection";
+
+type Row = { id: number; text: string };
+
+const rows = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({ id: i, text: `row ${i}` }));
+
+const flush = () => act(async () => {});
+
+describe("For", () => {
+  describe("rendering", () => {
+    it("should render a row per item", () => {
+      const items = signal(["a", "b", "c"]);
+
+      const { container } = render(
+        <ul>
+          <For each={items}>{(item) => <li>{item}</li>}</For>
+        </ul>
+      );
+
+      expect(container.textContent).toBe("abc");
+    });
+
+    it("should pass the index as a signal", async () => {
+      const items = signal(["a", "b"]);
+      const { container } = render(
+        <For each={items}>
+          {(item, index) => (
+            <span>
+              {index()}:{item}
+            </span>
+          )}
+        </For>
+      );
+      expect(container.textContent).toBe("0:a1:b");
+
+      items.set(["b", "a"]);
+      await flush();
+
+      expect(container.textContent).toBe("0:b1:a");
+    });
+
+    it("should render items of rx.list()", () => {
+      const items = signal<Row[]>(rows(2));
+
+      const { container } = render(
+        <div>{rxList(items, (row) => row.text, { by: (row) => row.id })}</div>
+      );
+
+      expect(container.textContent).toBe("row 0row 1");
+    });
+
+    it("should throw on duplicate keys", () => {
+      const items = signal(["a", "a"]);
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      try {
+        expect(() => render(<For each={items}>{(item) => item}</For>)).toThrow(
+          "duplicate key a"
+        );
+      } finally {
+        error.mockRestore();
+      }
+    });
+    it("should throw duplicate keys of updates while rendering", async () => {
+      const items = signal(["a", "b"]);
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      class Boundary extends Component<
+        { children: ReactNode },
+        { error?: Error }
+      > {
+        state: { error?: Error } = {};
+        static getDerivedStateFromError(error: Error) {
+          return { error };
+        }
+        render() {
+          return this.state.error?.message ?? this.props.children;
+        }
+      }
+
+      try {
+        const { container } = render(
+          <Boundary>
+            <For each={items}>{(item) => item}</For>
+          </Boundary>
+        );
+
+        expect(() => items.set(["b", "b"])).not.toThrow();
+        await flush();
+
+        expect(container.textContent).toBe("<For>: duplicate key b");
+      } finally {
+        error.mockRestore();
+      }
+    });
+  });
+
+  describe("reconciliation", () => {
+    const setup = (count: number) => {
+      const items = signal<Row[]>(rows(count));
+      const renders = vi.fn();
+      const result = render(
+        <ul>
+          <For each={items} by={(row) => row.id}>
+            {(row) => {
+              renders(row.id);
+              return <li data-id={row.id}>{row.text}</li>;
+            }}
+          </For>
+        </ul>
+      );
+      const element = (id: number) =>
+        result.container.querySelector(`[data-id="${id}"]`);
+      renders.mockClear();
+      return { items, renders, element, container: result.container };
+    };
+
+    it("should only re-render the updated row of a large list", async () => {
+      const { items, renders, element } = setup(1000);
+      const row500 = element(500);
+
+      items.set((draft) => {
+        draft[500].text = "updated";
+      });
+      await flush();
+
+      expect(renders.mock.calls).toEqual([[500]]);
+      expect(element(500)).toBe(row500);
+      expect(row500?.textContent).toBe("updated");
+    });
+
+    it("should only render inserted rows", async () => {
+      const { items, renders, element, container } = setup(1000);
+      const row0 = element(0);
+
+      items.set((prev) => [{ id: -1, text: "new" }, ...prev]);
+      await flush();
+
+      expect(renders.mock.calls).toEqual([[-1]]);
+      expect(element(0)).toBe(row0);
+      expect(container.querySelectorAll("li")).toHaveLength(1001);
+      expect(container.querySelector("li")?.textContent).toBe("new");
+    });
+
+    it("should unmount removed rows without re-rendering others", async () => {
+      const { items, renders, element, container } = setup(1000);
+      const row999 = element(999);
+
+      items.set((prev) => prev.filter((row) => row.id % 2 === 0));
+      await flush();
+
+      expect(renders).not.toHaveBeenCalled();
+      expect(container.querySelectorAll("li")).toHaveLength(500);
+      expect(element(999)).toBeNull();
+      expect(row999?.isConnected).toBe(false);
+    });
+
+    it("should move rows without re-rendering them", async () => {
+      const { items, renders, element, container } = setup(1000);
+      const first = element(0);
+      const last = element(999);
+
+      items.set((prev) => [prev[999], ...prev.slice(1, 999), prev[0]]);
+      await flush();
+
+      expect(renders).not.toHaveBeenCalled();
+      const elements = container.querySelectorAll("li");
+      expect(elements[0]).toBe(last);
+      expect(elements[999]).toBe(first);
+    });
+
+    it("should re-render moved rows reading their index", async () => {
+      const items = signal(["a", "b", "c"]);
+      const renders = vi.fn();
+      render(
+        <For each={items}>
+          {(item, index) => {
+            renders(item);
+            return index() === 0 ? <b>{item}</b> : item;
+          }}
+        </For>
+      );
+      renders.mockClear();
+
+      items.set(["c", "a", "b"]);
+      await flush();
+
+      expect(renders.mock.calls.sort()).toEqual([["a"], ["b"], ["c"]]);
+    });
+
+    it("should track other signals read by rows", async () => {
+      const items = signal(["a", "b"]);
+      const selected = signal("a");
+      const { container } = render(
+        <For each={items}>
+          {(item) => (selected() === item ? item.toUpperCase() : item)}
+        </For>
+      );
+
+      selected.set("b");
+      await flush();
+
+      expect(container.textContent).toBe("aB");
+    });
+
+    it("should re-render rows with a new render function", async () => {
+      const items = signal(["a", "b"]);
+      const view = (prefix: string) => (
+        <For each={items}>{(item) => `${prefix}${item}`}</For>
+      );
+      const { container, rerender } = render(view("1"));
+
+      rerender(view("2"));
+      expect(container.textContent).toBe("2a2b");
+
+      items.set(["a", "b", "c"]);
+      await flush();
+
+      expect(container.textContent).toBe("2a2b2c");
+    });
+
+    it("should follow another each signal", async () => {
+      const first = signal(["a", "b"]);
+      const second = signal(["c"]);
+      const view = (each: typeof first) => (
+        <For each={each}>{(item) => item}</For>
+      );
+      const { container, rerender } = render(view(first));
+
+      rerender(view(second));
+      expect(container.textContent).toBe("c");
+
+      second.set(["c", "d"]);
+      first.set(["e"]);
+      await flush();
+
+      expect(container.textContent).toBe("cd");
+    });
+  });
+
+  describe("signal.list", () => {
+    it("should render items of a signal list by key", async () => {
+      const todos = list(rows(3), { key: (row) => row.id });
+      const renders = vi.fn();
+      const { container } = render(
+        <For each={todos}>
+          {(row) => {
+            renders(row.id);
+            return <i>{row.text}</i>;
+          }}
+        </For>
+      );
+      renders.mockClear();
+
+      todos.set(1, { id: 1, text: "updated" });
+      await flush();
+      expect(renders.mock.calls).toEqual([[1]]);
+
+      todos.move(0, 2);
+      todos.remove(1);
+      await flush();
+
+      expect(renders.mock.calls).toEqual([[1]]);
+      expect(container.textContent).toBe("row 2row 0");
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { memo, useState, type ReactElement, type ReactNode } from "react";
+import { Reactive } from "./rx";
+import { signal } from "./signal";
+import { batch } from "./batch";
+import { withContextType } from "./dispatcher";
+import { disposableToken } from "./disposableDispatcher";
+import { useIsomorphicLayoutEffect } from "./useIsomorphicLayoutEffect";
+import { shallowEquals } from "./utils/shallowEquals";
+import type { SignalList } from "./collection";
+import type { MutableSignal, Signal } from "./types";
+
+/**
+ * Renders one row of `<For>` / `rx.list()`.
+ *
+ * @param item - The item
+ * @param index - Position of the item; reading it re-renders the row when
+ * the item moves
+ */
+export type ForRender<T> = (item: T, index: Signal<number>) => ReactNode;
+
+/**
+ * Props of `<For>`.
+ *
+ * @template T - The type of the items
+ * @template K - The type of the keys
+ */
+export type ForProps<T, K = unknown> = {
+  /** Items to render: a signal of an array, or a `signal.list()` */
+  each: Signal<readonly T[]> | SignalList<T, K>;
+  /**
+   * Returns the key of an item (ignored for `signal.list()`, which has
+   * keys). Rows are matched by key across updates.
+   * @default the item itself
+   */
+  by?: (item: T, index: number) => K;
+  /** Renders a row */
+  children: ForRender<T>;
+};
+
+/**
+ * Options of `rx.list()`.
+ */
+export type RxListOptions<T, K> = Pick<ForProps<T, K>, "by">;
+
+type Row<T> = {
+  /** Stable React key */
+  id: number;
+  /** Item of the row (array sources only) */
+  item: MutableSignal<T> | undefined;
+  index: MutableSignal<number>;
+  exp: () => ReactNode;
+};
+
+const isSignalList = (value: unknown): value is SignalList<any, any> =>
+  typeof value === "object" && value !== null && "keys" in value;
+
+let nextRowId = 0;
+
+/**
+ * Keeps one row per key, each with its own reactive boundary.
+ */
+const createRows = <T, K>(props: { current: ForProps<T, K> }) => {
+  const source = props.current.each;
+  const list = isSignalList(source) ? source : undefined;
+  const rows = new Map<K, Row<T>>();
+
+  // Rows are created while rendering and updated by signal listeners,
+  // and are owned by the component
+  const own = <R,>(fn: () => R) =>
+    withContextType(undefined, () => disposableToken.without(fn));
+
+  const keys = own(() => signal<K[]>([], { equals: shallowEquals }));
+  // Duplicate key found by the last reconciliation, thrown by the view
+  const failure = own(() => signal<Error | undefined>(undefined));
+  // Bumped when `children` changes, re-rendering all rows with it
+  const version = own(() => signal(0));
+  let children = props.current.children;
+
+  const createRow = (key: K, item: T | undefined, index: number): Row<T> => {
+    const row: Row<T> = own(() => ({
+      id: nextRowId++,
+      item: list ? undefined : signal(item as T),
+      index: signal(index),
+      exp: () => {
+        version();
+        return props.current.children(read(), row.index.readonly);
+      },
+    }));
+    const read = list ? () => list.item(key)!() : () => row.item!();
+    return row;
+  };
+
+  /**
+   * Matches the current items with the rows: new keys get a row, removed
+   * keys lose theirs, and kept rows get their new item and position.
+   *
+   * Duplicate keys leave the rows as they are and are thrown by the view,
+   * so they surface while rendering (to error boundaries) rather than
+   * from the `set()` that changed the source.
+   */
+  const reconcile = () => {
+    const items = list ? undefined : (source as Signal<readonly T[]>).peek();
+    const nextKeys = list
+      ? list.keys.peek().slice()
+      : items!.map((item, index) =>
+          props.current.by
+            ? props.current.by(item, index)
+            : (item as unknown as K)
+        );
+    const seen = new Set<K>();
+    let duplicate: { key: K } | undefined;
+    nextKeys.forEach((key) => {
+      if (seen.has(key)) duplicate ??= { key };
+      seen.add(key);
+    });
+
+    batch(() => {
+      if (duplicate) {
+        failure.set(new Error(`<For>: duplicate key ${String(duplicate.key)}`));
+        return;
+      }
+      failure.set(undefined);
+
+      nextKeys.forEach((key, index) => {
+        const item = items?.[index];
+        const row = rows.get(key);
+        if (!row) {
+          rows.set(key, createRow(key, item, index));
+        } else {
+          row.item?.set(item as T);
+          row.index.set(index);
+        }
+      });
+
+      rows.forEach((_, key) => {
+        if (!seen.has(key)) rows.delete(key);
+      });
+      keys.set(nextKeys);
+    });
+  };
+
+  reconcile();
+
+  return {
+    /** Renders the rows, re-running on structural changes only */
+    view: () => {
+      const error = failure();
+      if (error) throw error;
+      return keys().map((key) => {
+        const row = rows.get(key)!;
+        return <Reactive key={row.id} exp={row.exp} />;
+      });
+    },
+    /** Re-renders the rows if `children` changed since they rendered */
+    update: () => {
+      if (children === props.current.children) return;
+      children = props.current.children;
+      version.set(version.peek() + 1);
+    },
+    subscribe: () => {
+      // Catch up with changes made between render and subscription
+      reconcile();
+      return (list ? list.keys : (source as Signal<readonly T[]>)).on(
+        reconcile
+      );
+    },
+  };
+};
+
+/**
+ * Renders a keyed list: each row has its own reactive boundary, so
+ * updating an item only re-renders its row, and inserting, removing or
+ * moving items only mounts, unmounts or moves the affected rows.
+ *
+ * Rows are matched by key (`by`, the item itself by default). With a
+ * `signal.list()`, rows read the list's item signals directly and its
+ * keys are used.
+ *
+ * @example
+ * ```tsx
+ * const todos = signal<Todo[]>([]);
+ *
+ * <For each={todos} by={(todo) => todo.id}>
+ *   {(todo, index) => (
+ *     <li>
+ *       {index() + 1}. {todo.text}
+ *     </li>
+ *   )}
+ * </For>
+ * ```
+ *
+ * @example
+ * ```tsx
+ * const todos = signal.list<Todo, string>([], { key: (todo) => todo.id });
+ *
+ * // Toggling a todo re-renders its row only
+ * <For each={todos}>{(todo) => <TodoItem todo={todo} />}</For>
+ * ```
+ */
+export const For = memo(function For<T, K>(props: ForProps<T, K>) {
+  const [state] = useState(() => {
+    const current = { current: props };
+    return {
+      props: current,
+      each: props.each,
+      rows: createRows(current),
+      generation: 0,
+    };
+  });
+  // The latest render function and key function are used by all rows
+  state.props.current = props;
+
+  // Rows follow one source: another `each` gets new rows
+  if (state.each !== props.each) {
+    state.each = props.each;
+    state.rows = createRows(state.props);
+    state.generation++;
+  }
+
+  const { rows } = state;
+  useIsomorphicLayoutEffect(() => rows.subscribe(), [rows]);
+  // Rows only re-render on their own signals: a new render function
+  // (e.g. an inline closure capturing other props) re-renders them too
+  useIsomorphicLayoutEffect(() => rows.update(), [rows, props.children]);
+
+  return <Reactive key={state.generation} exp={rows.view} />;
+}) as <T, K = unknown>(props: ForProps<T, K>) => ReactElement;
+
+/**
+ * Renders a keyed list with one reactive boundary per row.
+ * Shorthand for `<For each={each} by={options.by}>{render}</For>`.
+ *
+ * @param each - Items to render: a signal of an array, or a `signal.list()`
+ * @param render - Renders a row
+ * @param options - Key function
+ * @returns The list element
+ *
+ * @example
+ * ```tsx
+ * const users = signal<User[]>([]);
+ *
+ * {rx.list(users, (user) => <UserRow user={user} />, {
+ *   by: (user) => user.id,
+ * })}
+ * ```
+ */
+export function list<T, K = unknown>(
+  each: Signal<readonly T[]> | SignalList<T, K>,
+  render: ForRender<T>,
+  options: RxListOptions<T, K> = {}
+): ReactElement {
+  return (
+    <For each={each} by={options.by}>
+      {render}
+    </For>
+  );
+}
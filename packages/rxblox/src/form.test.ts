@@ -0,0 +1,381 @@
+import { describe, it, expect, vi } from "vitest";
+import { form, type FieldArray, type FormField } from "./form";
+import { effect } from "./effect";
+import { delay } from "./delay";
+
+describe("form", () => {
+  const profile = () => ({
+    name: "Ada",
+    address: { street: "Main St", zip: "12345" },
+    phones: ["555-0100"],
+  });
+
+  describe("fields", () => {
+    it("should create a signal per field following the values shape", () => {
+      const f = form(profile());
+
+      expect(f.fields.name.value()).toBe("Ada");
+      expect(f.fields.address.zip.value()).toBe("12345");
+      expect(f.fields.phones.items()[0].value()).toBe("555-0100");
+      expect(f.fields.address.zip.path).toBe("address.zip");
+      expect(f.tag.size).toBe(4);
+    });
+
+    it("should combine field values", () => {
+      const f = form(profile());
+
+      f.fields.address.zip.value.set("54321");
+
+      expect(f.values()).toEqual({
+        ...profile(),
+        address: { street: "Main St", zip: "54321" },
+      });
+    });
+
+    it("should keep dates and nullish values as single fields", () => {
+      const f = form({
+        birthday: new Date(0),
+        nickname: null as string | null,
+      });
+
+      f.fields.nickname.value.set("Countess");
+
+      expect(f.fields.birthday.value()).toEqual(new Date(0));
+      expect(f.values().nickname).toBe("Countess");
+    });
+
+    it("should find fields by path", () => {
+      const f = form({ items: [{ title: "a" }, { title: "b" }] });
+
+      expect((f.field("items.1.title") as FormField<string>).value()).toBe("b");
+      expect(f.field("items")).toBe(f.fields.items);
+      expect(f.field("items.5.title")).toBeUndefined();
+      expect(f.field("missing")).toBeUndefined();
+    });
+  });
+
+  describe("dirty and changes", () => {
+    it("should track dirty per field and per form", () => {
+      const f = form(profile());
+      const { name, address } = f.fields;
+
+      expect(f.dirty()).toBe(false);
+
+      address.zip.value.set("54321");
+
+      expect(address.zip.dirty()).toBe(true);
+      expect(name.dirty()).toBe(false);
+      expect(f.dirty()).toBe(true);
+
+      address.zip.value.set("12345");
+
+      expect(address.zip.dirty()).toBe(false);
+      expect(f.dirty()).toBe(false);
+    });
+
+    it("should compute the changes against the initial values", () => {
+      const f = form(profile());
+
+      f.fields.name.value.set("Grace");
+      f.fields.address.street.value.set("Side St");
+
+      expect(f.changes()).toEqual({
+        name: "Grace",
+        address: { street: "Side St" },
+      });
+    });
+
+    it("should be reactive", () => {
+      const f = form(profile());
+      const states: boolean[] = [];
+
+      effect(() => {
+        states.push(f.dirty());
+      });
+      f.fields.name.value.set("Grace");
+      f.fields.name.value.set("Ada");
+
+      expect(states).toEqual([false, true, false]);
+    });
+  });
+
+  describe("touched", () => {
+    it("should track touched per field and per form", () => {
+      const f = form(profile());
+
+      f.fields.address.zip.touch();
+
+      expect(f.fields.address.zip.touched()).toBe(true);
+      expect(f.fields.name.touched()).toBe(false);
+      expect(f.touched()).toBe(true);
+    });
+
+    it("should include field array items", () => {
+      const f = form(profile());
+
+      f.fields.phones.push("555-0199");
+      f.fields.phones.items()[1].touch();
+
+      expect(f.fields.phones.touched()).toBe(true);
+      expect(f.touched()).toBe(true);
+    });
+  });
+
+  describe("validation", () => {
+    const validate = (values: ReturnType<typeof profile>) => [
+      ...(values.name ? [] : [{ path: ["name"], message: "Required" }]),
+      ...(values.address.zip.length === 5
+        ? []
+        : [{ path: ["address", "zip"], message: "5 digits" }]),
+      ...values.phones.flatMap((phone, i) =>
+        phone ? [] : [{ path: ["phones", i], message: "Empty phone" }]
+      ),
+    ];
+
+    it("should assign issues to fields by path", () => {
+      const f = form(profile(), { validate });
+
+      f.fields.name.value.set("");
+      f.fields.address.zip.value.set("1");
+
+      expect(f.fields.name.errors()).toEqual(["Required"]);
+      expect(f.fields.address.zip.errors()).toEqual(["5 digits"]);
+      expect(f.fields.address.street.valid()).toBe(true);
+      expect(f.valid()).toBe(false);
+
+      f.fields.name.value.set("Ada");
+      f.fields.address.zip.value.set("12345");
+
+      expect(f.fields.name.valid()).toBe(true);
+      expect(f.valid()).toBe(true);
+    });
+
+    it("should include item issues in the field array validity", () => {
+      const f = form(profile(), { validate });
+
+      f.fields.phones.push("");
+
+      expect(f.fields.phones.items()[1].errors()).toEqual(["Empty phone"]);
+      expect(f.fields.phones.errors()).toEqual([]);
+      expect(f.fields.phones.valid()).toBe(false);
+    });
+  });
+
+  describe("field arrays", () => {
+    it("should add, insert, move and remove items", () => {
+      const f = form({ tags: ["a"] });
+      const { tags } = f.fields;
+
+      tags.push("c");
+      tags.insert(1, "b");
+      expect(tags.value()).toEqual(["a", "b", "c"]);
+
+      tags.move(0, 2);
+      expect(tags.value()).toEqual(["b", "c", "a"]);
+
+      tags.remove(1);
+      expect(f.values().tags).toEqual(["b", "a"]);
+      expect(f.tag.size).toBe(2);
+    });
+
+    it("should support groups as items", () => {
+      const f = form({ items: [{ title: "a", done: false }] });
+      const items = f.fields.items;
+
+      items.push({ title: "b", done: true });
+
+      expect(items.items()[1].title.value()).toBe("b");
+      expect(items.items()[1].done.path).toBe("items.1.done");
+      expect(f.dirty()).toBe(true);
+      expect(f.changes()).toEqual({
+        items: [
+          { title: "a", done: false },
+          { title: "b", done: true },
+        ],
+      });
+    });
+
+    it("should update item paths when items move", () => {
+      const f = form({ items: [{ title: "a" }, { title: "b" }] });
+      const second = f.fields.items.items()[1];
+
+      f.fields.items.remove(0);
+
+      expect(second.title.path).toBe("items.0.title");
+    });
+
+    it("should keep field state of moved items", () => {
+      const f = form({ tags: ["a", "b"] });
+      const first = f.fields.tags.items()[0];
+      first.touch();
+
+      f.fields.tags.move(0, 1);
+
+      expect(f.fields.tags.items()[1]).toBe(first);
+      expect(first.touched()).toBe(true);
+    });
+
+    it("should compare item fields with the initial item at their position", () => {
+      const f = form({ tags: ["a", "b"] });
+
+      f.fields.tags.remove(0);
+
+      expect(f.fields.tags.items()[0].dirty()).toBe(true);
+      expect(f.fields.tags.dirty()).toBe(true);
+    });
+  });
+
+  describe("set and reset", () => {
+    it("should set values and restructure field arrays", async () => {
+      const f = form(profile());
+
+      f.set({
+        name: "Grace",
+        address: { street: "Side St", zip: "54321" },
+        phones: ["1", "2", "3"],
+      });
+      // Computed signals catch up with batched updates in a microtask
+      await Promise.resolve();
+
+      expect(f.fields.phones.items()).toHaveLength(3);
+      expect(f.values().phones).toEqual(["1", "2", "3"]);
+
+      f.set(profile());
+      await Promise.resolve();
+
+      expect(f.fields.phones.items()).toHaveLength(1);
+      expect(f.dirty()).toBe(false);
+    });
+
+    it("should restore initial values and clear touched flags", async () => {
+      const f = form(profile());
+      f.fields.name.value.set("Grace");
+      f.fields.name.touch();
+      f.fields.phones.push("555-0199");
+      expect(f.dirty()).toBe(true);
+
+      f.reset();
+      await Promise.resolve();
+
+      expect(f.values()).toEqual(profile());
+      expect(f.touched()).toBe(false);
+      expect(f.dirty()).toBe(false);
+    });
+
+    it("should reset to new initial values", async () => {
+      const f = form(profile());
+      f.fields.name.value.set("Grace");
+      expect(f.dirty()).toBe(true);
+
+      f.reset(f.values());
+      await Promise.resolve();
+
+      expect(f.initialValues().name).toBe("Grace");
+      expect(f.dirty()).toBe(false);
+    });
+
+    it("should reset a single field", () => {
+      const f = form(profile());
+      f.fields.name.value.set("Grace");
+      f.fields.name.touch();
+
+      f.fields.name.reset();
+
+      expect(f.fields.name.value()).toBe("Ada");
+      expect(f.fields.name.touched()).toBe(false);
+    });
+  });
+
+  describe("submit", () => {
+    it("should submit values and changes", async () => {
+      const onSubmit = vi.fn(async () => "saved");
+      const f = form(profile(), { onSubmit });
+      f.fields.name.value.set("Grace");
+
+      await expect(f.submit()).resolves.toBe("saved");
+
+      expect(onSubmit).toHaveBeenCalledWith(
+        { ...profile(), name: "Grace" },
+        { changes: { name: "Grace" } }
+      );
+      expect(f.submit.status).toBe("success");
+    });
+
+    it("should resolve with the values without onSubmit", async () => {
+      const f = form(profile());
+
+      await expect(f.submit()).resolves.toEqual(profile());
+    });
+
+    it("should not submit invalid values and touch all fields", async () => {
+      const onSubmit = vi.fn();
+      const f = form(profile(), {
+        validate: (values) => !!values.name || "Name required",
+        onSubmit,
+      });
+      f.fields.name.value.set("");
+
+      await expect(f.submit()).resolves.toBeUndefined();
+
+      expect(onSubmit).not.toHaveBeenCalled();
+      expect(f.fields.address.zip.touched()).toBe(true);
+      expect(f.valid()).toBe(false);
+      expect(f.validation().issues).toMatchObject([
+        { message: "Name required" },
+      ]);
+    });
+
+    it("should reject with the errors of onSubmit", async () => {
+      const f = form(profile(), {
+        onSubmit: async () => {
+          throw new Error("Network error");
+        },
+      });
+
+      await expect(f.submit()).rejects.toThrow("Network error");
+      expect(f.submit.status).toBe("error");
+    });
+
+    it("should wait for async validation", async () => {
+      const onSubmit = vi.fn();
+      const f = form(
+        { username: "taken" },
+        {
+          validate: async (values) => {
+            await delay(5);
+            return values.username !== "taken" || "Username taken";
+          },
+          onSubmit,
+        }
+      );
+
+      await expect(f.submit()).resolves.toBeUndefined();
+      expect(onSubmit).not.toHaveBeenCalled();
+
+      f.fields.username.value.set("ada");
+      await f.submit();
+
+      expect(onSubmit).toHaveBeenCalledTimes(1);
+    });
+
+    it("should ignore submits while submitting", async () => {
+      const onSubmit = vi.fn(() => delay(10));
+      const f = form(profile(), { onSubmit });
+
+      f.submit();
+      f.submit();
+      await delay(20);
+
+      expect(onSubmit).toHaveBeenCalledTimes(1);
+      expect(f.submit.dropped).toBe(1);
+    });
+  });
+
+  it("should type field arrays of groups", () => {
+    const f = form({ items: [{ title: "" }] });
+    const items: FieldArray<{ title: string }> = f.fields.items;
+    const title: FormField<string> | undefined = items.items()[0]?.title;
+
+    expect(title?.value()).toBe("");
+  });
+});
@@ -0,0 +1,526 @@
+import isEqual from "lodash/isEqual";
+import { signal } from "./signal";
+import { action, type Action, type ActionOptions } from "./action";
+import { batch } from "./batch";
+import { diff } from "./diff";
+import { snapshot } from "./snapshot";
+import { tag, type Tag } from "./tag";
+import { disposableToken } from "./disposableDispatcher";
+import { withContextType } from "./dispatcher";
+import { intercepted } from "./middleware";
+import type { SignalValidator, ValidationResult } from "./validation";
+import type { MutableSignal, Signal } from "./types";
+
+/**
+ * Values that are edited as a whole by a single field.
+ */
+type FormLeafValue =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | RegExp
+  | Map<any, any>
+  | Set<any>;
+
+/**
+ * A single editable value of a form.
+ *
+ * @template T - The type of the field value
+ */
+export type FormField<T> = {
+  /**
+   * Dotted path of the field in the form values (`"address.zip"`, `"items.0.name"`).
+   * Paths of field array items follow their current position.
+   */
+  readonly path: string;
+  /** The field value */
+  readonly value: MutableSignal<T>;
+  /** True if the value differs from the initial value at the same path */
+  readonly dirty: Signal<boolean>;
+  /** True once `touch()` was called (usually on blur) */
+  readonly touched: Signal<boolean>;
+  /** Validation messages of this field */
+  readonly errors: Signal<readonly string[]>;
+  /** True if the field has no validation issues */
+  readonly valid: Signal<boolean>;
+  /** Marks the field as touched */
+  touch(): void;
+  /** Restores the initial value and clears the touched flag */
+  reset(): void;
+};
+
+/**
+ * A list of repeated fields (or field groups) of a form.
+ *
+ * @template T - The type of the items
+ */
+export type FieldArray<T> = {
+  /** Dotted path of the array in the form values */
+  readonly path: string;
+  /** Fields of each item, in order */
+  readonly items: Signal<FormFields<T>[]>;
+  /** Current values of the items */
+  readonly value: Signal<T[]>;
+  /** True if the items differ from the initial items */
+  readonly dirty: Signal<boolean>;
+  /** True if any item field was touched */
+  readonly touched: Signal<boolean>;
+  /** Validation messages of the array itself (e.g. "at least one item") */
+  readonly errors: Signal<readonly string[]>;
+  /** True if neither the array nor its items have validation issues */
+  readonly valid: Signal<boolean>;
+  /** Appends an item */
+  push(value: T): void;
+  /** Inserts an item at the given position */
+  insert(index: number, value: T): void;
+  /** Removes the item at the given position */
+  remove(index: number): void;
+  /** Moves an item to another position */
+  move(from: number, to: number): void;
+};
+
+/**
+ * Fields of a form, mirroring the shape of its values:
+ * - Plain objects become groups of fields
+ * - Arrays become `FieldArray`s
+ * - Everything else becomes a `FormField`
+ *
+ * The shape is taken from the initial values: a key whose initial value is
+ * `undefined` or `null` is a single field, even if it later holds an object.
+ *
+ * @template T - The type of the values
+ */
+export type FormFields<T> = [T] extends [readonly (infer TItem)[]]
+  ? FieldArray<TItem>
+  : [T] extends [FormLeafValue]
+    ? FormField<T>
+    : [T] extends [Record<string, any>]
+      ? { readonly [K in keyof T]-?: FormFields<T[K]> }
+      : FormField<T>;
+
+/**
+ * Context passed to `FormOptions.onSubmit`.
+ */
+export type FormSubmitContext<T> = {
+  /** Changes compared to the initial values (see `diff()`) */
+  changes: Partial<T> | undefined;
+};
+
+/**
+ * Options for `form()`.
+ *
+ * @template T - The type of the form values
+ * @template TResult - The type returned by `onSubmit`
+ */
+export type FormOptions<T, TResult> = {
+  /**
+   * Validator of the whole form values: a function or a Standard Schema
+   * object (zod, valibot, ...). Issue paths assign messages to fields.
+   */
+  validate?: SignalValidator<T>;
+
+  /**
+   * Submits valid values. Not called when validation fails.
+   * When omitted, `submit()` resolves with the values.
+   */
+  onSubmit?: (
+    values: T,
+    context: FormSubmitContext<T>
+  ) => TResult | PromiseLike<TResult>;
+
+  /**
+   * Options of the `submit` action (events, retry, ...).
+   * Concurrency defaults to `"exhaust"` so double submits are ignored.
+   */
+  submit?: ActionOptions<TResult | undefined, []>;
+};
+
+/**
+ * A form created by `form()`.
+ *
+ * @template T - The type of the form values
+ * @template TResult - The type returned by `onSubmit`
+ */
+export type Form<T, TResult = T> = {
+  /** Fields of the form, mirroring the shape of the values */
+  readonly fields: FormFields<T>;
+  /** Current values of all fields */
+  readonly values: Signal<T>;
+  /** Values that `dirty` and `changes` compare against */
+  readonly initialValues: Signal<T>;
+  /** Changed values compared to the initial values, or undefined if none */
+  readonly changes: Signal<Partial<T> | undefined>;
+  /** True if any value differs from the initial values */
+  readonly dirty: Signal<boolean>;
+  /** True if any field was touched */
+  readonly touched: Signal<boolean>;
+  /** True if the values passed validation */
+  readonly valid: Signal<boolean>;
+  /** Validation result of the values */
+  readonly validation: Signal<ValidationResult>;
+  /** Tag holding the value signal of every field */
+  readonly tag: Tag<any>;
+  /**
+   * Validates and submits the values.
+   * All fields are marked as touched first, so their errors show up.
+   * Resolves with `undefined` without submitting when the values are
+   * invalid: `valid()`, `validation()` and the field errors report why.
+   * Rejects with the errors of `onSubmit`.
+   */
+  readonly submit: Action<[], Promise<TResult | undefined>>;
+  /**
+   * Finds a field or field array by dotted path.
+   * @returns The field, or undefined if there is none at this path
+   */
+  field(path: string): FormField<any> | FieldArray<any> | undefined;
+  /** Replaces all values, adding or removing field array items as needed */
+  set(values: T): void;
+  /**
+   * Restores the initial values and clears all touched flags.
+   * @param values - New initial values (e.g. the values that were just saved)
+   */
+  reset(values?: T): void;
+};
+
+/**
+ * Internal node of the field tree.
+ */
+type FieldNode = {
+  /** Public field, field array or group */
+  api: any;
+  /** Signals that `snapshot()` turns into the node value */
+  tree: unknown;
+  /** Assigns a value, restructuring field arrays as needed */
+  assign(value: unknown): void;
+  /** Child nodes (reactive for field arrays) */
+  children(): FieldNode[];
+  /** Child node by key or index */
+  child(key: string): FieldNode | undefined;
+  /** Leaf fields only */
+  field?: FormField<unknown>;
+  /** Clears the touched flag of leaf fields */
+  untouch?: VoidFunction;
+};
+
+const EMPTY: readonly string[] = [];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+const joinPath = (parent: string, key: string | number) =>
+  parent ? `${parent}.${key}` : String(key);
+
+const getAt = (value: unknown, path: string): unknown =>
+  path
+    ? path.split(".").reduce<any>((current, key) => current?.[key], value)
+    : value;
+
+/**
+ * Creates a form: a signal per field, with dirty/touched/valid state per
+ * field and per form, a `diff()`-based changeset and a `submit` action.
+ *
+ * Nested objects become groups of fields and arrays become field arrays,
+ * following the shape of the initial values. Validation runs on the whole
+ * values (see `SignalOptions.validate`); issue paths such as
+ * `["address", "zip"]` or `["items", 0, "name"]` assign messages to fields.
+ *
+ * @param initialValues - Initial values, defining the fields
+ * @param options - Validation and submit handler
+ * @returns The form
+ *
+ * @example
+ * ```tsx
+ * const profile = form(
+ *   { name: "", address: { zip: "" }, phones: [""] },
+ *   {
+ *     validate: (values) => [
+ *       ...(values.name ? [] : [{ path: ["name"], message: "Required" }]),
+ *     ],
+ *     onSubmit: (values, { changes }) => api.patchProfile(changes),
+ *   }
+ * );
+ *
+ * const { name, phones } = profile.fields;
+ *
+ * const Profile = blox(() => (
+ *   <form onSubmit={(e) => { e.preventDefault(); profile.submit(); }}>
+ *     {rx(() => (
+ *       <input
+ *         value={name.value()}
+ *         onChange={(e) => name.value.set(e.target.value)}
+ *         onBlur={name.touch}
+ *       />
+ *     ))}
+ *     {rx(() => name.touched() && name.errors().join(", "))}
+ *     <button type="button" onClick={() => phones.push("")}>Add phone</button>
+ *     {rx(() => (
+ *       <button disabled={!profile.dirty() || profile.submit.status === "loading"}>
+ *         Save
+ *       </button>
+ *     ))}
+ *   </form>
+ * ));
+ * ```
+ */
+export function form<T extends Record<string, any>, TResult = T>(
+  initialValues: T,
+  options: FormOptions<T, TResult> = {}
+): Form<T, TResult> {
+  const { validate, onSubmit } = options;
+  const valueTag = tag<any>();
+  const initial = signal(initialValues);
+  // Resolved lazily, the field tree is created before the values signal
+  let validation: Signal<ValidationResult>;
+
+  const hasErrors = (path: string) => {
+    const prefix = `${path}.`;
+    return Object.keys(validation().errors).some(
+      (key) => key === path || key.startsWith(prefix)
+    );
+  };
+
+  const errorsAt = (path: string) => validation().errors[path] ?? EMPTY;
+
+  const isTouched = (node: FieldNode): boolean =>
+    node.field ? node.field.touched() : node.children().some(isTouched);
+
+  const leaves = (node: FieldNode): FieldNode[] =>
+    node.field ? [node] : node.children().flatMap(leaves);
+
+  const createField = (value: unknown, path: () => string): FieldNode => {
+    const fieldValue = intercepted(() => signal(value, { tags: [valueTag] }));
+    const touched = signal(false);
+    const field: FormField<unknown> = {
+      get path() {
+        return path();
+      },
+      value: fieldValue,
+      dirty: signal(() => !isEqual(fieldValue(), getAt(initial(), path()))),
+      touched: touched.readonly,
+      errors: signal(() => errorsAt(path())),
+      valid: signal(() => !hasErrors(path())),
+      touch: () => touched.set(true),
+      reset: () => {
+        batch(() => {
+          fieldValue.set(getAt(initial.peek(), path()));
+          touched.set(false);
+        });
+      },
+    };
+
+    return {
+      api: field,
+      tree: fieldValue,
+      field,
+      untouch: () => touched.set(false),
+      assign: (next) => fieldValue.set(next),
+      children: () => [],
+      child: () => undefined,
+    };
+  };
+
+  const createGroup = (
+    value: Record<string, unknown>,
+    path: () => string
+  ): FieldNode => {
+    const nodes: Record<string, FieldNode> = {};
+    const api: Record<string, unknown> = {};
+    const tree: Record<string, unknown> = {};
+
+    Object.keys(value).forEach((key) => {
+      const node = createNode(value[key], () => joinPath(path(), key));
+      nodes[key] = node;
+      api[key] = node.api;
+      tree[key] = node.tree;
+    });
+
+    return {
+      api,
+      tree,
+      assign: (next) => {
+        Object.keys(nodes).forEach((key) =>
+          nodes[key].assign(
+            (next as Record<string, unknown> | undefined)?.[key]
+          )
+        );
+      },
+      children: () => Object.values(nodes),
+      child: (key) =>
+        Object.prototype.hasOwnProperty.call(nodes, key)
+          ? nodes[key]
+          : undefined,
+    };
+  };
+
+  const createArray = (value: unknown[], path: () => string): FieldNode => {
+    const nodes = signal<FieldNode[]>([]);
+
+    const createItem = (item: unknown) =>
+      // Items are added by set()/reset() batches, effects and event handlers,
+      // and must outlive all of them
+      withContextType(undefined, () =>
+        disposableToken.without(() => {
+          const node: FieldNode = createNode(item, () =>
+            joinPath(path(), nodes().indexOf(node))
+          );
+          return node;
+        })
+      );
+
+    const discard = (removed: FieldNode[]) => {
+      removed
+        .flatMap(leaves)
+        .forEach((leaf) => valueTag.delete(leaf.tree as any));
+    };
+
+    const tree = signal(() => nodes().map((node) => node.tree));
+    const arrayValue = signal(
+      () => snapshot<unknown>(tree, false) as unknown[]
+    );
+
+    const api: FieldArray<unknown> = {
+      get path() {
+        return path();
+      },
+      items: signal(() => nodes().map((node) => node.api)),
+      value: arrayValue,
+      dirty: signal(() => !isEqual(arrayValue(), getAt(initial(), path()))),
+      touched: signal(() => nodes().some(isTouched)),
+      errors: signal(() => errorsAt(path())),
+      valid: signal(() => !hasErrors(path())),
+      // Updater functions would turn the nodes into immer drafts
+      push: (item) => nodes.set([...nodes.peek(), createItem(item)]),
+      insert: (index, item) => {
+        const next = [...nodes.peek()];
+        next.splice(index, 0, createItem(item));
+        nodes.set(next);
+      },
+      remove: (index) => {
+        const removed = nodes.peek()[index];
+        if (!removed) return;
+        nodes.set(nodes.peek().filter((node) => node !== removed));
+        discard([removed]);
+      },
+      move: (from, to) => {
+        const next = [...nodes.peek()];
+        const [node] = next.splice(from, 1);
+        if (!node) return;
+        next.splice(to, 0, node);
+        nodes.set(next);
+      },
+    };
+
+    nodes.set(value.map(createItem));
+
+    return {
+      api,
+      tree,
+      assign: (next) => {
+        const items = Array.isArray(next) ? next : [];
+        const current = nodes.peek();
+        batch(() => {
+          if (items.length !== current.length) {
+            discard(current.slice(items.length));
+            nodes.set([
+              ...current.slice(0, items.length),
+              ...items.slice(current.length).map(createItem),
+            ]);
+          }
+          items
+            .slice(0, current.length)
+            .forEach((item, index) => current[index].assign(item));
+        });
+      },
+      children: () => nodes(),
+      child: (key) => nodes.peek()[Number(key)],
+    };
+  };
+
+  const createNode = (value: unknown, path: () => string): FieldNode => {
+    if (Array.isArray(value)) return createArray(value, path);
+    if (isPlainObject(value)) return createGroup(value, path);
+    return createField(value, path);
+  };
+
+  const root = createGroup(initialValues, () => "");
+  const values = signal(() => snapshot(root.tree, false) as T, { validate });
+  // Reading the values first keeps the result in sync with the latest values
+  validation = signal(() => (values(), values.validation()));
+
+  /**
+   * Waits for async validators to settle.
+   */
+  const settledValidation = () =>
+    new Promise<ValidationResult>((resolve) => {
+      const check = () => {
+        const result = validation();
+        if (result.status === "validating") return false;
+        resolve(result);
+        return true;
+      };
+
+      if (check()) return;
+      const unsubscribe = validation.on(() => {
+        if (check()) unsubscribe();
+      });
+    });
+
+  const submit = action(
+    async (): Promise<TResult | undefined> => {
+      batch(() => leaves(root).forEach((leaf) => leaf.field!.touch()));
+
+      const result = await settledValidation();
+      // Reported by the validation state, not as a submit error
+      if (result.status === "invalid") return undefined;
+
+      const submitted = values.peek();
+      if (!onSubmit) {
+        return submitted as unknown as TResult;
+      }
+      return onSubmit(submitted, {
+        changes: diff(submitted, initial.peek()),
+      });
+    },
+    { concurrency: "exhaust", ...options.submit }
+  );
+
+  const set = (next: T) => batch(() => root.assign(next));
+
+  return {
+    fields: root.api as FormFields<T>,
+    values,
+    initialValues: initial.readonly,
+    changes: signal(() => diff(values(), initial())),
+    dirty: signal(() => !isEqual(values(), initial())),
+    touched: signal(() => isTouched(root)),
+    valid: signal(() => validation().status === "valid"),
+    validation,
+    tag: valueTag,
+    submit,
+    field(path) {
+      let node: FieldNode | undefined = root;
+      for (const key of path.split(".")) {
+        node = node?.child(key);
+      }
+      return node === root ? undefined : node?.api;
+    },
+    set,
+    reset(next) {
+      batch(() => {
+        if (next !== undefined) {
+          initial.set(next);
+        }
+        root.assign(initial.peek());
+        leaves(root).forEach((leaf) => leaf.untouch!());
+      });
+    },
+  };
+}
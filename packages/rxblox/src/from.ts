@@ -0,0 +1,156 @@
+import { signal as createSignal } from "./signal";
+import { getDispatcher } from "./dispatcher";
+import { disposableToken } from "./disposableDispatcher";
+import { observableSymbol } from "./observable";
+import type { InteropObservable, Observer, Signal } from "./types";
+
+/**
+ * Observable source of `signal.from()`: anything with a `subscribe()`
+ * method taking an observer (RxJS observables, TC39 observables), or
+ * exposing one with `Symbol.observable`.
+ */
+export type ObservableLike<T> =
+  | {
+      subscribe(
+        observer: Observer<T>
+      ): { unsubscribe(): void } | (() => void) | void;
+    }
+  | Pick<InteropObservable<T>, typeof Symbol.observable>;
+
+/**
+ * Options of `signal.from()`.
+ */
+export type FromOptions = {
+  name?: string;
+};
+
+/**
+ * Signal returned by `signal.from()`.
+ *
+ * @template T - The type of the values
+ */
+export type FromSignal<T> = Signal<T> & {
+  /** True once the source completed (the signal keeps its last value) */
+  readonly completed: Signal<boolean>;
+  /** Stops listening to the source */
+  unsubscribe(): void;
+};
+
+/**
+ * Creates a signal holding the latest value of an observable or an async
+ * iterable.
+ *
+ * - Each value of the source becomes the signal value
+ * - An error of the source becomes the error of the signal: reading it
+ *   throws, and `hasError()` / `getError()` report it
+ * - When the source completes, the signal keeps its last value and
+ *   `completed()` becomes true
+ *
+ * The source is subscribed immediately, and unsubscribed with
+ * `unsubscribe()` or when the owning scope (e.g. a component) is disposed.
+ *
+ * @param source - Observable (RxJS, TC39) or async iterable
+ * @param initial - Value until the source emits
+ * @param options - Configuration options
+ * @returns The signal
+ *
+ * @example
+ * ```ts
+ * import { interval } from "rxjs";
+ *
+ * const ticks = signal.from(interval(1000), 0);
+ * effect(() => console.log(ticks()));
+ * ```
+ *
+ * @example
+ * ```ts
+ * async function* messages(socket: WebSocket) { ... }
+ *
+ * const latest = signal.from(messages(socket), undefined);
+ * ```
+ */
+export function from<T>(
+  source: ObservableLike<T> | AsyncIterable<T>,
+  initial: T,
+  options?: FromOptions
+): FromSignal<T>;
+export function from<T>(
+  source: ObservableLike<T> | AsyncIterable<T>
+): FromSignal<T | undefined>;
+export function from<T>(
+  source: ObservableLike<T> | AsyncIterable<T>,
+  initial?: T,
+  options: FromOptions = {}
+): FromSignal<T | undefined> {
+  const state = createSignal<{ value: T | undefined } | { error: unknown }>({
+    value: initial,
+  });
+  const completed = createSignal(false);
+  const value = createSignal(
+    () => {
+      const current = state();
+      if ("error" in current) throw current.error;
+      return current.value;
+    },
+    { name: options.name }
+  );
+
+  let stopped = false;
+  const observer: Observer<T> = {
+    next(next) {
+      if (!stopped) state.set({ value: next });
+    },
+    error(error) {
+      if (!stopped) state.set({ error });
+    },
+    complete() {
+      if (!stopped) completed.set(true);
+    },
+  };
+
+  let stop: VoidFunction;
+
+  if (observableSymbol in source || "subscribe" in source) {
+    const observable =
+      observableSymbol in source
+        ? (source as InteropObservable<T>)[observableSymbol]()
+        : source;
+    const subscription = (observable as InteropObservable<T>).subscribe(
+      observer
+    ) as { unsubscribe(): void } | (() => void) | void;
+    stop = () =>
+      typeof subscription === "function"
+        ? subscription()
+        : subscription?.unsubscribe();
+  } else {
+    const iterator = (source as AsyncIterable<T>)[Symbol.asyncIterator]();
+    stop = () => iterator.return?.();
+    (async () => {
+      try {
+        while (!stopped) {
+          const result = await iterator.next();
+          if (result.done) {
+            observer.complete!();
+            return;
+          }
+          observer.next!(result.value);
+        }
+      } catch (error) {
+        observer.error!(error);
+      }
+    })();
+  }
+
+  const unsubscribe = () => {
+    if (stopped) return;
+    stopped = true;
+    stop();
+  };
+
+  getDispatcher(disposableToken)?.on(unsubscribe);
+
+  return Object.assign(value, {
+    completed: completed.readonly,
+    unsubscribe,
+  }) as unknown as FromSignal<T | undefined>;
+}
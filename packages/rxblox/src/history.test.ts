@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { signal } from "./signal";
 import { history } from "./history";
+import { emitter } from "./emitter";
+import { disposableToken } from "./disposableDispatcher";
 
 describe("signal.history", () => {
   beforeEach(() => {
@@ -315,6 +317,66 @@ describe("signal.history", () => {
     expect(hist().length).toBe(101); // All entries kept
   });
 
+  it("should record the patches between entries of a mutable signal", () => {
+    const todo = signal({ text: "a", done: false });
+    const hist = history(todo);
+    vi.runAllTimers();
+
+    todo.mutate((draft) => {
+      draft.done = true;
+    });
+    todo.set((draft) => {
+      draft.text = "b";
+    });
+    vi.runAllTimers();
+    todo.set({ text: "c", done: true });
+    vi.runAllTimers();
+
+    expect(hist()[0].patches).toBeUndefined();
+    expect(hist()[1].patches).toEqual({
+      patches: [
+        { op: "replace", path: ["done"], value: true },
+        { op: "replace", path: ["text"], value: "b" },
+      ],
+      inversePatches: [
+        { op: "replace", path: ["text"], value: "a" },
+        { op: "replace", path: ["done"], value: false },
+      ],
+    });
+    expect(hist()[2].patches?.patches).toEqual([
+      { op: "replace", path: [], value: { text: "c", done: true } },
+    ]);
+  });
+
+  it("should stop listening to patches when the owning scope is disposed", () => {
+    const onDispose = emitter<void>();
+    const todo = signal({ done: false });
+    const unsubscribe = vi.fn();
+    vi.spyOn(todo, "onPatch").mockReturnValue(unsubscribe);
+
+    disposableToken.with(onDispose, () => history(todo));
+    expect(unsubscribe).not.toHaveBeenCalled();
+
+    onDispose.emit();
+
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it("should record pending entry immediately on flush", () => {
+    const count = signal(0);
+    const hist = history(() => count(), { debounce: 300 });
+
+    hist.flush();
+    count.set(1);
+    hist.flush();
+
+    expect(hist.values()).toEqual([0, 1]);
+
+    // Nothing left to record once the timer fires
+    vi.runAllTimers();
+    expect(hist.count()).toBe(2);
+  });
+
   describe("query utilities", () => {
     it("should get latest entry", () => {
       const count = signal(0);
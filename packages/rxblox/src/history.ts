@@ -1,9 +1,11 @@
 import debounce from "lodash/debounce";
-import { signal as createSignal } from "./signal";
+import { signal as createSignal, isMutableSignal } from "./signal";
 import { effect } from "./effect";
 import { snapshot } from "./snapshot";
-import type { Signal } from "./types";
+import type { MutableSignal, Signal, SignalPatches } from "./types";
 import { effectToken, globalEffectDispatcher } from "./effectDispatcher";
+import { getDispatcher } from "./dispatcher";
+import { disposableToken } from "./disposableDispatcher";
 
 /**
  * Represents a single entry in the history.
@@ -15,6 +17,12 @@ export type HistoryEntry<T> = {
   timestamp: number;
   /** Sequential index in the history (0-based) */
   index: number;
+  /**
+   * Patches from the previous entry to this one (and back, for undo).
+   * Recorded when tracking a mutable signal directly, like
+   * `signal.history(todos)`.
+   */
+  patches?: SignalPatches;
 };
 
 /**
@@ -58,6 +66,9 @@ export type HistoryQuery<T> = {
 
   /** Get total number of entries */
   count(): number;
+
+  /** Record a pending (debounced) entry immediately */
+  flush(): void;
 };
 
 /**
@@ -182,8 +193,23 @@ export function history<T>(
   const historySignal = createSignal<HistoryEntry<T>[]>([]);
   let nextIndex = 0;
 
+  // Patches since the latest entry, when tracking a mutable signal
+  let pending: (SignalPatches & { value: T }) | undefined;
+  if (isMutableSignal(getValue)) {
+    const source = getValue as MutableSignal<T>;
+    const unsubscribe = source.onPatch(({ patches, inversePatches }) => {
+      pending = {
+        patches: [...(pending?.patches ?? []), ...patches],
+        inversePatches: [...inversePatches, ...(pending?.inversePatches ?? [])],
+        value: source.peek(),
+      };
+    });
+    // Stops with the tracking effect when the owning scope is disposed
+    getDispatcher(disposableToken)?.on(unsubscribe);
+  }
+
   // Function to add a new entry
-  const addEntry = (value: T) => {
+  const addEntry = (value: T, raw: T) => {
     const entries = historySignal.peek();
     const prevEntry = entries[entries.length - 1];
 
@@ -192,11 +218,19 @@ export function history<T>(
       timestamp: Date.now(),
       index: nextIndex++,
     };
+    // Only when the patches lead to the recorded value
+    if (prevEntry && pending?.value === raw) {
+      newEntry.patches = {
+        patches: pending.patches,
+        inversePatches: pending.inversePatches,
+      };
+    }
 
     // Check if we should record this entry
     if (shouldRecord && !shouldRecord(prevEntry, newEntry)) {
       return;
     }
+    pending = undefined;
 
     // Add the new entry
     const newEntries = [...entries, newEntry];
@@ -217,8 +251,8 @@ export function history<T>(
   effectToken.with(globalEffectDispatcher(), () =>
     effect(() => {
       // Call snapshot with peek=false to enable reactive tracking
-      const value = snapshot(getValue(), false);
-      debouncedAddEntry(value);
+      const raw = getValue();
+      debouncedAddEntry(snapshot(raw, false), raw);
     })
   );
 
@@ -227,6 +261,7 @@ export function history<T>(
       debouncedAddEntry.cancel();
       historySignal.set([]);
       nextIndex = 0;
+      pending = undefined;
     },
 
     latest() {
@@ -281,5 +316,9 @@ export function history<T>(
     count() {
       return historySignal().length;
     },
+
+    flush() {
+      debouncedAddEntry.flush();
+    },
   });
 }
@@ -45,4 +45,74 @@ describe("index exports", () => {
     expect(index.blox.hook).toBeDefined();
     expect(typeof index.blox.hook).toBe("function");
   });
+
+  it("should export persistor adapters", () => {
+    expect(typeof index.persistor.local).toBe("function");
+    expect(typeof index.persistor.session).toBe("function");
+    expect(typeof index.persistor.indexedDB).toBe("function");
+    expect(typeof index.persistor.memory).toBe("function");
+  });
+
+  it("should export ssr helpers", () => {
+    expect(typeof index.ssr.collect).toBe("function");
+    expect(typeof index.ssr.hydrate).toBe("function");
+    expect(typeof index.ssr.serialize).toBe("function");
+  });
+
+  it("should export form", () => {
+    expect(typeof index.form).toBe("function");
+  });
+
+  it("should export signal introspection", () => {
+    expect(typeof index.signal.inspect).toBe("function");
+    expect(typeof index.signal.graph).toBe("function");
+  });
+
+  it("should export signal collections", () => {
+    expect(typeof index.signal.list).toBe("function");
+    expect(typeof index.signal.map).toBe("function");
+  });
+
+  it("should export deep stores", () => {
+    expect(typeof index.signal.store).toBe("function");
+  });
+
+  it("should export shared signals", () => {
+    expect(typeof index.signal.shared).toBe("function");
+    expect(typeof index.signal.shared.broadcast).toBe("function");
+    expect(typeof index.signal.shared.memory).toBe("function");
+  });
+
+  it("should export worker signals", () => {
+    expect(typeof index.signal.worker).toBe("function");
+    expect(typeof index.signal.worker.web).toBe("function");
+    expect(typeof index.signal.worker.inline).toBe("function");
+  });
+
+  it("should export observable interop", () => {
+    expect(typeof index.signal.from).toBe("function");
+  });
+
+  it("should export time operators", () => {
+    expect(typeof index.signal.debounced).toBe("function");
+    expect(typeof index.signal.throttled).toBe("function");
+    expect(typeof index.signal.delayed).toBe("function");
+    expect(typeof index.signal.sampled).toBe("function");
+    expect(typeof index.signal.interval).toBe("function");
+  });
+
+  it("should export signal middleware", () => {
+    expect(typeof index.signal.use).toBe("function");
+  });
+
+  it("should export keyed list rendering", () => {
+    expect(typeof index.rx.list).toBe("function");
+    expect(index.For).toBeDefined();
+  });
+
+  it("should export devtools", () => {
+    expect(typeof index.devtools).toBe("function");
+    expect(typeof index.devtools.redux).toBe("function");
+    expect(typeof index.devtools.memory).toBe("function");
+  });
 });
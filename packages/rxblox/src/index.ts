@@ -9,8 +9,63 @@ import { action as createAction } from "./action";
 import { cancellableAction, aborter } from "./cancellableAction";
 import { snapshot } from "./snapshot";
 import { history } from "./history";
+import { undoable } from "./undoable";
+import { query } from "./query";
+import { inspect, graph } from "./inspect";
+import { list, map } from "./collection";
+export type { Store, StoreOptions } from "./store";
+export type {
+  SharedSignal,
+  SharedOptions,
+  SharedState,
+  SharedMessage,
+  SharedTransport,
+} from "./shared";
+export type {
+  WorkerFunction,
+  WorkerInputs,
+  WorkerInputValues,
+  WorkerRunner,
+  WorkerSignalOptions,
+} from "./workerSignal";
+export type { FromSignal, FromOptions, ObservableLike } from "./from";
+export type { SignalMiddleware, SignalWrite } from "./middleware";
+export type {
+  TimedSignal,
+  TimedOptions,
+  DebouncedOptions,
+  ThrottledOptions,
+} from "./time";
+import {
+  workerSignal,
+  webWorkerRunner,
+  inlineWorkerRunner,
+} from "./workerSignal";
+import { store } from "./store";
+import { from } from "./from";
+import { use, intercepted } from "./middleware";
+import { debounced, throttled, delayed, sampled, interval } from "./time";
+import {
+  shared,
+  broadcastSharedTransport,
+  memorySharedTransport,
+} from "./shared";
+import { rx as createRx } from "./rx";
+import { list as rxList } from "./for";
 import { ref as createRef, ready as readyMultiple } from "./ref";
 import { slot, fill } from "./slot";
+import {
+  localStoragePersistor,
+  sessionStoragePersistor,
+  indexedDBPersistor,
+  memoryPersistor,
+} from "./persistor";
+import { collect, hydrate, serializePayload } from "./ssr";
+import {
+  devtools as createDevtools,
+  reduxDevtoolsTransport,
+  memoryDevtoolsTransport,
+} from "./devtools";
 
 export const blox = Object.assign(createBlox, {
   hook,
@@ -24,10 +79,40 @@ export const ref = Object.assign(createRef, {
   ready: readyMultiple,
 });
 
-export const signal = Object.assign(createSignal, {
+// Signals created by users: their writes run through the global middleware
+const userSignal = ((value, options) =>
+  intercepted(() => createSignal(value, options))) as typeof createSignal;
+
+export const signal = Object.assign(userSignal, {
   async: asyncSignal,
   snapshot,
   history,
+  undoable,
+  query,
+  inspect,
+  graph,
+  list,
+  map,
+  store,
+  shared: Object.assign(shared, {
+    broadcast: broadcastSharedTransport,
+    memory: memorySharedTransport,
+  }),
+  worker: Object.assign(workerSignal, {
+    web: webWorkerRunner,
+    inline: inlineWorkerRunner,
+  }),
+  from,
+  debounced,
+  throttled,
+  delayed,
+  sampled,
+  interval,
+  use,
+});
+
+export const rx = Object.assign(createRx, {
+  list: rxList,
 });
 
 export const action = Object.assign(createAction, {
@@ -35,17 +120,66 @@ export const action = Object.assign(createAction, {
   aborter,
 });
 
+export const ssr = {
+  collect,
+  hydrate,
+  serialize: serializePayload,
+};
+
+export const devtools = Object.assign(createDevtools, {
+  redux: reduxDevtoolsTransport,
+  memory: memoryDevtoolsTransport,
+});
+
+export const persistor = {
+  local: localStoragePersistor,
+  session: sessionStoragePersistor,
+  indexedDB: indexedDBPersistor,
+  memory: memoryPersistor,
+};
+
 export type { AsyncSignalContext };
 export type { BloxRef } from "./ref";
-export type { Action, ActionOptions, ActionEvents } from "./action";
+export type {
+  Action,
+  ActionOptions,
+  ActionEvents,
+  ActionConcurrency,
+  ActionConcurrencyMode,
+} from "./action";
 export type { CancellableAction } from "./cancellableAction";
+export type { OptimisticOptions } from "./optimistic";
+export type { RetryOptions } from "./retry";
 export type { HistoryEntry, HistoryOptions, HistoryQuery } from "./history";
+export type { Undoable, UndoableOptions } from "./undoable";
+export type {
+  SignalInspection,
+  SignalGraph,
+  SignalGraphNode,
+  SignalGraphNodeKind,
+} from "./inspect";
+export type {
+  SignalList,
+  SignalMap,
+  ListChange,
+  MapChange,
+  ListOptions,
+  MapOptions,
+} from "./collection";
+export type {
+  Query,
+  QueryFunction,
+  QueryOptions,
+  QueryRefetchTrigger,
+} from "./query";
 export { disposable } from "./disposableDispatcher";
 export { FallbackError } from "./signal";
 export { selector } from "./selector";
 export * from "./types";
 export { effect } from "./effect";
-export { rx } from "./rx";
+export type { EffectContext, EffectOptions } from "./effect";
+export { For } from "./for";
+export type { ForProps, ForRender, RxListOptions } from "./for";
 export { onEvent } from "./eventDispatcher";
 export { provider } from "./provider";
 export { useTracked } from "./useTracked";
@@ -56,10 +190,53 @@ export { useAction } from "./useAction";
 export * from "./loadable";
 export { wait, TimeoutError, type Awaitable } from "./wait";
 export { diff } from "./diff";
+export { form } from "./form";
+export type {
+  Form,
+  FormField,
+  FieldArray,
+  FormFields,
+  FormOptions,
+  FormSubmitContext,
+} from "./form";
 export type { Persistor, PersistStatus, PersistInfo } from "./types";
+export type {
+  StoragePersistor,
+  StoragePersistorOptions,
+  WebStoragePersistorOptions,
+  IndexedDBPersistorOptions,
+  MemoryPersistorOptions,
+} from "./persistor";
+export { MigrationError } from "./versionedPersistor";
+export type { SSRCollector, SSRPayload } from "./ssr";
+export type {
+  Devtools,
+  DevtoolsEvent,
+  DevtoolsGraph,
+  DevtoolsMessage,
+  DevtoolsNode,
+  DevtoolsNodeKind,
+  DevtoolsOptions,
+  DevtoolsTransport,
+  MemoryDevtoolsTransport,
+} from "./devtools";
+export { ValidationError } from "./validation";
+export type {
+  SignalValidator,
+  StandardSchemaLike,
+  StandardSchemaResult,
+  ValidationIssue,
+  ValidationResult,
+  ValidatorOutput,
+} from "./validation";
+export type {
+  PersistEnvelope,
+  PersistMigration,
+  VersionedPersistOptions,
+} from "./versionedPersistor";
 export { type Emitter, emitter } from "./emitter";
 export { tag } from "./tag";
-export type { Tag } from "./tag";
+export type { Tag, TagOptions } from "./tag";
 export { batch } from "./batch";
 export type { InferSignalValues } from "./batch";
 export type { SlotOptions, SlotMode } from "./slot";
@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import { inspect, graph } from "./inspect";
+import { signal } from "./signal";
+import { effect } from "./effect";
+import { emitter } from "./emitter";
+import { disposableToken } from "./disposableDispatcher";
+
+describe("inspect", () => {
+  it("should return dependencies and dependents", () => {
+    const a = signal(1, { name: "a" });
+    const b = signal(2, { name: "b" });
+    const sum = signal(() => a() + b(), { name: "sum" });
+    const e = effect(() => {
+      sum();
+    });
+
+    expect(inspect(sum)).toMatchObject({
+      name: "sum",
+      kind: "computed",
+      dependencies: [a, b],
+      dependents: [e],
+      subscribers: 1,
+    });
+    expect(inspect(a)).toMatchObject({
+      kind: "signal",
+      dependencies: [],
+      dependents: [sum],
+      subscribers: 1,
+    });
+  });
+
+  it("should follow dynamic dependencies", () => {
+    const flag = signal(true);
+    const a = signal(1);
+    const b = signal(2);
+    const value = signal(() => (flag() ? a() : b()));
+    value();
+
+    flag.set(false);
+    value();
+
+    expect(inspect(value).dependencies).toEqual([flag, b]);
+    expect(inspect(a).dependents).toEqual([]);
+    expect(inspect(b).dependents).toEqual([value]);
+  });
+
+  it("should count recomputations and measure computations", () => {
+    const count = signal(0);
+    const doubled = signal(() => count() * 2);
+
+    expect(inspect(doubled).lastComputeDuration).toBeUndefined();
+    doubled();
+    expect(inspect(doubled).recomputeCount).toBe(0);
+    expect(inspect(doubled).lastComputeDuration).toBeGreaterThanOrEqual(0);
+
+    count.set(1);
+    count.set(2);
+
+    expect(inspect(doubled).recomputeCount).toBe(2);
+    expect(inspect(count).lastComputeDuration).toBeUndefined();
+  });
+
+  it("should count re-runs and measure runs of effects", () => {
+    const count = signal(0);
+    effect(function log() {
+      count();
+    });
+
+    count.set(1);
+    count.set(2);
+
+    const [node] = graph(count).nodes.filter(({ kind }) => kind === "effect");
+    expect(node).toMatchObject({
+      name: "log",
+      recomputeCount: 2,
+      lastComputeDuration: expect.any(Number),
+    });
+  });
+
+  it("should count subscribers", () => {
+    const count = signal(0);
+    const unsubscribe = count.on(() => {});
+    count.on(() => {});
+
+    expect(inspect(count).subscribers).toBe(2);
+
+    unsubscribe();
+
+    expect(inspect(count).subscribers).toBe(1);
+  });
+
+  it("should forget the dependencies of disposed computed signals", () => {
+    const onDispose = emitter();
+    const count = signal(0);
+    const doubled = disposableToken.with(onDispose, () =>
+      signal(() => count() * 2)
+    );
+    doubled();
+
+    onDispose.emit();
+
+    expect(inspect(doubled).dependencies).toEqual([]);
+    expect(inspect(count)).toMatchObject({ dependents: [], subscribers: 0 });
+  });
+
+  it("should reject values that are not signals", () => {
+    expect(() => inspect((() => 1) as any)).toThrow(
+      "signal.inspect() expects a signal"
+    );
+  });
+});
+
+describe("graph", () => {
+  const diamond = () => {
+    const a = signal(1, { name: "a" });
+    const b = signal(() => a() + 1, { name: "b" });
+    const c = signal(() => a() * 2, { name: "c" });
+    const d = signal(() => b() + c(), { name: "d" });
+    effect(function render() {
+      d();
+    });
+    return { a, b, c, d };
+  };
+
+  it("should export the reachable graph as JSON", () => {
+    const { a, d } = diamond();
+    signal(0, { name: "unrelated" });
+
+    const result = graph(d);
+
+    expect(result.nodes.map(({ id, kind, name }) => [id, kind, name])).toEqual([
+      [1, "computed", "d"],
+      [2, "computed", "b"],
+      [3, "computed", "c"],
+      [4, "effect", "render"],
+      [5, "signal", "a"],
+    ]);
+    expect(result.edges).toEqual([
+      { from: 2, to: 1 },
+      { from: 3, to: 1 },
+      { from: 1, to: 4 },
+      { from: 5, to: 2 },
+      { from: 5, to: 3 },
+    ]);
+    expect(result.nodes[0]).toMatchObject({
+      subscribers: 1,
+      recomputeCount: 0,
+      lastComputeDuration: expect.any(Number),
+    });
+    expect(graph(a).nodes).toHaveLength(5);
+  });
+
+  it("should export the graph as DOT", () => {
+    const a = signal(1, { name: "a" });
+    const label = signal(() => `"${a()}"`, { name: 'say "a"' });
+    label();
+    a.set(2);
+
+    const dot = graph(a, "dot");
+
+    expect(dot.split("\n")[0]).toBe("digraph signals {");
+    expect(dot).toContain('  n1 [label="a\\nsignal" shape=ellipse];');
+    expect(dot).toMatch(
+      /  n2 \[label="say \\"a\\"\\ncomputed, 1 recomputes, \d+\.\d\dms" shape=box\];/
+    );
+    expect(dot).toContain("  n1 -> n2;");
+    expect(dot.endsWith("\n}")).toBe(true);
+  });
+
+  it("should label unnamed nodes with their id", () => {
+    const count = signal(0);
+
+    expect(graph([count], "dot")).toContain('n1 [label="#1\\nsignal"');
+  });
+});
@@ -0,0 +1,281 @@
+import type { Signal, Subscribable } from "./types";
+
+/**
+ * Kind of a node of the signal graph.
+ */
+export type SignalGraphNodeKind = "signal" | "computed" | "effect";
+
+/**
+ * State of a signal returned by `signal.inspect()`.
+ */
+export type SignalInspection = {
+  /** Name given with the `name` option */
+  name: string | undefined;
+  kind: "signal" | "computed";
+  /** Signals read by the latest computation (computed signals only) */
+  dependencies: Signal<unknown>[];
+  /** Computed signals and effects currently depending on the signal */
+  dependents: unknown[];
+  /** Number of listeners of the signal (dependents included) */
+  subscribers: number;
+  /** Number of recomputations after the first computation */
+  recomputeCount: number;
+  /** Duration of the latest computation in milliseconds (computed signals only) */
+  lastComputeDuration: number | undefined;
+};
+
+/**
+ * Node of a graph exported by `signal.graph()`.
+ */
+export type SignalGraphNode = {
+  /** Id of the node within the graph, in discovery order */
+  id: number;
+  kind: SignalGraphNodeKind;
+  name: string | undefined;
+  /** Number of listeners (signals only) */
+  subscribers?: number;
+  /** Number of recomputations (re-runs for effects) */
+  recomputeCount?: number;
+  /** Duration of the latest computation in milliseconds */
+  lastComputeDuration?: number;
+};
+
+/**
+ * Signal graph exported by `signal.graph()`.
+ */
+export type SignalGraph = {
+  nodes: SignalGraphNode[];
+  /** Dependency edges: `from` is read by `to` */
+  edges: { from: number; to: number }[];
+};
+
+/**
+ * Internal state of an inspectable signal or effect.
+ */
+export type InspectRecord = {
+  kind: SignalGraphNodeKind;
+  name: string | undefined;
+  /** Subscribables read by the latest run */
+  dependencies(): readonly Subscribable[];
+  /** Number of listeners */
+  subscribers(): number;
+  recomputeCount: number;
+  lastComputeDuration: number | undefined;
+};
+
+const records = new WeakMap<object, InspectRecord>();
+
+/**
+ * Computed signals and effects depending on each subscribable.
+ */
+const dependents = new WeakMap<object, Set<object>>();
+
+/**
+ * Makes a signal or effect inspectable.
+ *
+ * @param target - The signal or effect
+ * @param record - Its internal state
+ */
+export function registerInspectRecord(
+  target: object,
+  record: InspectRecord
+): void {
+  records.set(target, record);
+}
+
+/**
+ * Records that a computed signal or effect depends on a subscribable,
+ * until its dependencies are cleaned up.
+ *
+ * @param source - The subscribable read
+ * @param owner - The computed signal or effect
+ * @returns A function removing the dependent
+ */
+export function addDependent(source: object, owner: object): VoidFunction {
+  let set = dependents.get(source);
+  if (!set) {
+    set = new Set();
+    dependents.set(source, set);
+  }
+  set.add(owner);
+
+  return () => {
+    dependents.get(source)?.delete(owner);
+  };
+}
+
+/**
+ * Returns the current state of a signal: its dependencies, dependents,
+ * listeners and computation statistics.
+ *
+ * @param target - The signal to inspect
+ * @returns The state of the signal
+ *
+ * @example
+ * ```ts
+ * const count = signal(0, { name: "count" });
+ * const doubled = signal(() => count() * 2, { name: "doubled" });
+ * effect(() => console.log(doubled()));
+ *
+ * signal.inspect(doubled);
+ * // {
+ * //   name: "doubled",
+ * //   kind: "computed",
+ * //   dependencies: [count],
+ * //   dependents: [<effect>],
+ * //   subscribers: 1,
+ * //   recomputeCount: 0,
+ * //   lastComputeDuration: 0.01,
+ * // }
+ * ```
+ */
+export function inspect(target: Signal<any>): SignalInspection {
+  const record = records.get(target);
+  if (!record || record.kind === "effect") {
+    throw new Error("signal.inspect() expects a signal");
+  }
+
+  return {
+    name: record.name,
+    kind: record.kind,
+    dependencies: record
+      .dependencies()
+      .filter((dependency) => records.has(dependency)) as Signal<unknown>[],
+    dependents: Array.from(dependents.get(target) ?? []),
+    subscribers: record.subscribers(),
+    recomputeCount: record.recomputeCount,
+    lastComputeDuration: record.lastComputeDuration,
+  };
+}
+
+/**
+ * Exports the signals, computed signals and effects reachable from the
+ * given signals (following dependencies and dependents) as JSON or as a
+ * Graphviz DOT document.
+ *
+ * @param roots - Signals to start from
+ * @param format - `"json"` (default) or `"dot"`
+ * @returns The graph, or DOT text
+ *
+ * @example
+ * ```ts
+ * const a = signal(1, { name: "a" });
+ * const b = signal(2, { name: "b" });
+ * const sum = signal(() => a() + b(), { name: "sum" });
+ * sum();
+ *
+ * signal.graph(sum);
+ * // { nodes: [{ id: 1, kind: "computed", name: "sum", ... }, ...],
+ * //   edges: [{ from: 2, to: 1 }, { from: 3, to: 1 }] }
+ *
+ * console.log(signal.graph([a, b], "dot"));
+ * // digraph signals {
+ * //   n1 [label="a\nsignal" shape=ellipse];
+ * //   ...
+ * //   n1 -> n3;
+ * // }
+ * ```
+ */
+export function graph(
+  roots: Signal<any> | readonly Signal<any>[],
+  format?: "json"
+): SignalGraph;
+export function graph(
+  roots: Signal<any> | readonly Signal<any>[],
+  format: "dot"
+): string;
+export function graph(
+  roots: Signal<any> | readonly Signal<any>[],
+  format: "json" | "dot" = "json"
+): SignalGraph | string {
+  const ids = new Map<object, number>();
+  const result: SignalGraph = { nodes: [], edges: [] };
+  const queue: object[] = [];
+
+  const visit = (target: object) => {
+    let id = ids.get(target);
+    if (id === undefined) {
+      const record = records.get(target)!;
+      id = ids.size + 1;
+      ids.set(target, id);
+      queue.push(target);
+      result.nodes.push({
+        id,
+        kind: record.kind,
+        name: record.name,
+        ...(record.kind === "effect"
+          ? {}
+          : { subscribers: record.subscribers() }),
+        recomputeCount: record.recomputeCount,
+        ...(record.lastComputeDuration === undefined
+          ? {}
+          : { lastComputeDuration: record.lastComputeDuration }),
+      });
+    }
+    return id;
+  };
+
+  (Array.isArray(roots) ? roots : [roots]).forEach((root: object) => {
+    if (!records.has(root)) {
+      throw new Error("signal.graph() expects signals");
+    }
+    visit(root);
+  });
+
+  const edges = new Set<string>();
+  const addEdge = (from: number, to: number) => {
+    const key = `${from}>${to}`;
+    if (!edges.has(key)) {
+      edges.add(key);
+      result.edges.push({ from, to });
+    }
+  };
+
+  while (queue.length) {
+    const target = queue.shift()!;
+    const id = ids.get(target)!;
+
+    records
+      .get(target)!
+      .dependencies()
+      .forEach((dependency) => {
+        if (records.has(dependency)) {
+          addEdge(visit(dependency), id);
+        }
+      });
+    dependents.get(target)?.forEach((dependent) => {
+      if (records.has(dependent)) {
+        addEdge(id, visit(dependent));
+      }
+    });
+  }
+
+  return format === "dot" ? toDot(result) : result;
+}
+
+const shapes: Record<SignalGraphNodeKind, string> = {
+  signal: "ellipse",
+  computed: "box",
+  effect: "diamond",
+};
+
+const toDot = ({ nodes, edges }: SignalGraph) => {
+  const lines = nodes.map((node) => {
+    const details: string[] = [node.kind];
+    if (node.recomputeCount) {
+      details.push(`${node.recomputeCount} recomputes`);
+    }
+    if (node.lastComputeDuration !== undefined) {
+      details.push(`${node.lastComputeDuration.toFixed(2)}ms`);
+    }
+    const label = [node.name ?? `#${node.id}`, details.join(", ")]
+      .join("\n")
+      .replace(/\\/g, "\\\\")
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, "\\n");
+    return `  n${node.id} [label="${label}" shape=${shapes[node.kind]}];`;
+  });
+  edges.forEach(({ from, to }) => lines.push(`  n${from} -> n${to};`));
+
+  return `digraph signals {\n${lines.join("\n")}\n}`;
+};
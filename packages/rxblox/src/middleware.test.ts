@@ -0,0 +1,367 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { use, type SignalMiddleware, type SignalWrite } from "./middleware";
+import { signal } from "./index";
+import { batch } from "./batch";
+import { tag } from "./tag";
+import { form } from "./form";
+
+describe("signal middleware", () => {
+  const removers: VoidFunction[] = [];
+  const useGlobal = (middleware: SignalMiddleware) => {
+    removers.push(use(middleware));
+  };
+
+  afterEach(() => {
+    removers.splice(0).forEach((remove) => remove());
+  });
+
+  describe("global middleware", () => {
+    it("should see every write with the signal name and tags", () => {
+      const formTag = tag<string>();
+      const writes: Omit<SignalWrite, "signal">[] = [];
+      useGlobal(({ signal: _signal, ...write }, next) => {
+        writes.push(write);
+        next();
+      });
+      const name = signal("", { name: "name", tags: [formTag] });
+      const todos = signal([{ done: false }]);
+
+      name.set("Ada");
+      todos.mutate((draft) => {
+        draft[0].done = true;
+      });
+
+      expect(name()).toBe("Ada");
+      expect(writes).toEqual([
+        {
+          name: "name",
+          tags: [formTag],
+          type: "set",
+          prev: "",
+          value: "Ada",
+          batched: false,
+        },
+        {
+          name: undefined,
+          tags: [],
+          type: "mutate",
+          prev: [{ done: false }],
+          value: [{ done: true }],
+          batched: false,
+        },
+      ]);
+    });
+
+    it("should cancel writes when next is not called", () => {
+      let readOnly = true;
+      useGlobal((_write, next) => {
+        if (!readOnly) next();
+      });
+      const count = signal(0);
+      const listener = vi.fn();
+      count.on(listener);
+
+      count.set(1);
+      expect(count()).toBe(0);
+      expect(listener).not.toHaveBeenCalled();
+
+      readOnly = false;
+      count.set(2);
+      expect(count()).toBe(2);
+    });
+
+    it("should cancel writes and throw when a middleware throws", () => {
+      useGlobal(() => {
+        throw new Error("read-only mode");
+      });
+      const count = signal(0);
+
+      expect(() => count.set(1)).toThrow("read-only mode");
+      expect(count()).toBe(0);
+    });
+
+    it("should transform written values", () => {
+      useGlobal((write, next) => {
+        next(
+          typeof write.value === "string" ? write.value.trim() : write.value
+        );
+      });
+      const text = signal("");
+      const patches = vi.fn();
+      text.onPatch(patches);
+
+      text.set(() => "  hello ");
+
+      expect(text()).toBe("hello");
+      expect(patches).toHaveBeenCalledWith({
+        patches: [{ op: "replace", path: [], value: "hello" }],
+        inversePatches: [{ op: "replace", path: [], value: "" }],
+      });
+    });
+
+    it("should return from next once the value is applied", () => {
+      const log: string[] = [];
+      useGlobal((write, next) => {
+        log.push(`before ${write.signal.peek()}`);
+        next();
+        log.push(`after ${write.signal.peek()}`);
+      });
+      const count = signal(0);
+
+      count.set(1);
+
+      expect(log).toEqual(["before 0", "after 1"]);
+    });
+
+    it("should redirect writes to another signal", () => {
+      const draft = signal("", { name: "draft" });
+      const published = signal("", { name: "published" });
+      useGlobal((write, next) => {
+        if (write.name === "published") {
+          draft.set(write.value as string);
+          return;
+        }
+        next();
+      });
+
+      published.set("post");
+
+      expect(published()).toBe("");
+      expect(draft()).toBe("post");
+    });
+
+    it("should not intercept hydration and resets", () => {
+      const middleware = vi.fn((_write: SignalWrite, next: () => void) =>
+        next()
+      );
+      useGlobal(middleware);
+      const count = signal(0, {
+        persist: { get: () => ({ value: 5 }), set() {} },
+      });
+
+      expect(count()).toBe(5);
+      count.reset();
+
+      expect(middleware).not.toHaveBeenCalled();
+    });
+
+    it("should stop when removed", () => {
+      const middleware = vi.fn();
+      const remove = use(middleware);
+      const count = signal(0);
+
+      remove();
+      count.set(1);
+
+      expect(middleware).not.toHaveBeenCalled();
+      expect(count()).toBe(1);
+    });
+  });
+
+  describe("internal signals", () => {
+    it("should not intercept the signals created by the library", () => {
+      vi.useFakeTimers();
+      try {
+        useGlobal(() => {
+          // Read-only mode
+        });
+        const count = signal(0);
+        const history = signal.history(() => count());
+        const tick = signal.interval(10);
+        const debounced = signal.debounced(tick, 5);
+        const from = signal.from(
+          {
+            subscribe(observer: { next?(value: number): void }) {
+              observer.next?.(1);
+            },
+          },
+          0
+        );
+
+        vi.advanceTimersByTime(60);
+
+        expect(history().length).toBe(1);
+        expect(tick()).toBe(6);
+        expect(debounced()).toBe(5);
+        expect(from()).toBe(1);
+        tick.dispose();
+        debounced.dispose();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should intercept the signals created with signal()", () => {
+      useGlobal(() => {});
+      const count = signal(0);
+
+      count.set(1);
+
+      expect(count()).toBe(0);
+    });
+  });
+
+  describe("signals holding user data", () => {
+    const readOnly = () => {
+      useGlobal(() => {});
+    };
+
+    it("should intercept store writes", () => {
+      const state = signal.store({ todos: [{ done: false }], name: "a" });
+      readOnly();
+
+      state.name = "b";
+      state.todos.push({ done: true });
+      state.todos[0].done = true;
+
+      expect(state.toJSON()).toEqual({ todos: [{ done: false }], name: "a" });
+    });
+
+    it("should intercept list writes and keep the list consistent", () => {
+      const todos = signal.list(["a", "b"]);
+      const changes = vi.fn();
+      todos.on(changes);
+      readOnly();
+
+      todos.push("c");
+      todos.set(0, "A");
+      todos.remove(1);
+      todos.move(0, 1);
+
+      expect(todos.value()).toEqual(["a", "b"]);
+      expect(todos.get(1)).toBe("b");
+      expect(changes).not.toHaveBeenCalled();
+    });
+
+    it("should intercept map writes", () => {
+      const users = signal.map([["1", "Ada"]]);
+      readOnly();
+
+      users.set("1", "Grace");
+      users.set("2", "Alan");
+      users.delete("1");
+
+      expect(Array.from(users.value())).toEqual([["1", "Ada"]]);
+    });
+
+    it("should intercept shared signals but not the values of other tabs", async () => {
+      const transport = signal.shared.memory();
+      const first = signal.shared("count", 0, { transport });
+      const second = signal.shared("count", 0, { transport });
+      let readOnly = true;
+      useGlobal((_write, next) => {
+        if (!readOnly) next();
+      });
+
+      second.set(1);
+      expect(second()).toBe(0);
+
+      readOnly = false;
+      first.set(2);
+      readOnly = true;
+      for (let i = 0; i < 10; i++) await Promise.resolve();
+
+      expect(second()).toBe(2);
+      first.close();
+      second.close();
+    });
+
+    it("should intercept form fields", () => {
+      const profile = form({ name: "Ada" });
+      readOnly();
+
+      profile.fields.name.value.set("Grace");
+
+      expect(profile.values()).toEqual({ name: "Ada" });
+    });
+  });
+
+  describe("signal middleware", () => {
+    it("should run after the global middleware, in order", () => {
+      const order: string[] = [];
+      useGlobal((_write, next) => {
+        order.push("global");
+        next();
+      });
+      const count = signal(0, {
+        use: [
+          (write, next) => {
+            order.push("option");
+            next(write.value * 2);
+          },
+        ],
+      });
+      count.use((write, next) => {
+        order.push("method");
+        next(write.value + 1);
+      });
+
+      count.set(5);
+
+      expect(order).toEqual(["global", "option", "method"]);
+      expect(count()).toBe(11);
+    });
+
+    it("should keep the patches of untransformed drafts", () => {
+      const todos = signal([{ done: false }], {
+        use: [(_write, next) => next()],
+      });
+
+      const { patches } = todos.mutate((draft) => {
+        draft[0].done = true;
+      });
+
+      expect(patches).toEqual([
+        { op: "replace", path: [0, "done"], value: true },
+      ]);
+    });
+
+    it("should return empty patches for cancelled writes", () => {
+      const todos = signal([{ done: false }], { use: [() => {}] });
+
+      const result = todos.mutate((draft) => {
+        draft[0].done = true;
+      });
+
+      expect(result).toEqual({ patches: [], inversePatches: [] });
+      expect(todos()[0].done).toBe(false);
+    });
+
+    it("should be removable", () => {
+      const count = signal(0);
+      const remove = count.use(() => {});
+
+      count.set(1);
+      remove();
+      count.set(2);
+
+      expect(count()).toBe(2);
+    });
+  });
+
+  describe("batches", () => {
+    it("should run inside the batch and notify once after it", () => {
+      const batched: boolean[] = [];
+      const a = signal(0);
+      const b = signal(0);
+      a.use((write, next) => {
+        batched.push(write.batched);
+        next();
+        // Writes made by middleware join the batch
+        b.set(write.value * 10);
+      });
+      const listener = vi.fn();
+      b.on(listener);
+
+      batch(() => {
+        a.set(1);
+        a.set(2);
+        expect(b()).toBe(20);
+        expect(listener).not.toHaveBeenCalled();
+      });
+
+      expect(batched).toEqual([true, true]);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+});
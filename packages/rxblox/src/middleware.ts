@@ -0,0 +1,195 @@
+import type { Tag } from "./tag";
+import type { MutableSignal } from "./types";
+
+/**
+ * A write to a signal, as seen by middleware.
+ *
+ * @template T - The type of the signal value
+ */
+export type SignalWrite<T = unknown> = {
+  /** The written signal */
+  signal: MutableSignal<T>;
+  /** Name of the signal (`options.name`) */
+  name: string | undefined;
+  /** Tags of the signal (`options.tags`) */
+  tags: readonly Tag<T>[];
+  /** Method that started the write */
+  type: "set" | "mutate" | "patch";
+  /** Current value */
+  prev: T;
+  /** Value to write (updaters and patches already applied) */
+  value: T;
+  /** True when the write is inside `batch()` */
+  batched: boolean;
+};
+
+/**
+ * Intercepts writes to signals.
+ *
+ * A middleware calls `next()` to continue the write, `next(value)` to
+ * write another value, or doesn't call it to cancel the write. Throwing
+ * cancels the write and throws from `set()`.
+ *
+ * `next()` must be called synchronously; it returns once the write is
+ * applied, so the middleware can read the new value after it.
+ *
+ * @template T - The type of the signal value
+ * @param write - The write
+ * @param next - Continues with the next middleware
+ */
+export type SignalMiddleware<T = any> = (
+  write: SignalWrite<T>,
+  next: (value?: T) => void
+) => void;
+
+/** Middleware of every signal created by users, in registration order */
+const globalMiddleware: SignalMiddleware[] = [];
+
+/** True while a user creates a signal with `signal()` */
+let interceptNext = false;
+
+/** Depth of writes that skip the global middleware */
+let bypassDepth = 0;
+
+/**
+ * Creates a signal whose writes run through the global middleware. Used
+ * by the public `signal()` and by the signals holding user data (store,
+ * list and map items, shared values, form fields): the signals the library
+ * creates internally (history entries, operator outputs...) are not
+ * intercepted.
+ *
+ * @param create - Creates the signal
+ * @returns The signal
+ */
+export function intercepted<T>(create: () => T): T {
+  interceptNext = true;
+  try {
+    return create();
+  } finally {
+    interceptNext = false;
+  }
+}
+
+/**
+ * Runs writes that are not made by the app (initial items of collections,
+ * values read from storage or received from other tabs) without the
+ * global middleware.
+ *
+ * @param fn - Makes the writes
+ * @returns The result of `fn`
+ */
+export function unintercepted<T>(fn: () => T): T {
+  bypassDepth++;
+  try {
+    return fn();
+  } finally {
+    bypassDepth--;
+  }
+}
+
+/**
+ * Called first when a signal is created.
+ *
+ * @returns True if the writes of the signal run through the global
+ * middleware
+ */
+export function takeIntercepted(): boolean {
+  const result = interceptNext;
+  // Signals created while creating this one are internal
+  interceptNext = false;
+  return result;
+}
+
+/**
+ * Adds a middleware intercepting the writes (`set()`, `mutate()`,
+ * `patch()`) of every signal created with `signal()`, and of the signals
+ * behind stores, lists, maps, shared signals and form fields. Global
+ * middleware runs before the middleware of the signal.
+ *
+ * Signals the library creates internally (history entries, time operator
+ * outputs, `signal.from()` state...), hydration from a persistor, server
+ * values, values received from other tabs and `reset()` are not
+ * intercepted.
+ *
+ * @param middleware - The middleware
+ * @returns A function removing the middleware
+ *
+ * @example
+ * ```ts
+ * // Audit log
+ * signal.use((write, next) => {
+ *   next();
+ *   audit.push({ name: write.name, from: write.prev, to: write.value });
+ * });
+ *
+ * // Read-only mode
+ * signal.use((write, next) => {
+ *   if (readOnly.peek()) return;
+ *   next();
+ * });
+ *
+ * // Transform
+ * signal.use((write, next) => {
+ *   next(typeof write.value === "string" ? write.value.trim() : write.value);
+ * });
+ * ```
+ */
+export function use(middleware: SignalMiddleware): VoidFunction {
+  globalMiddleware.push(middleware);
+
+  return () => {
+    const index = globalMiddleware.indexOf(middleware);
+    if (index !== -1) globalMiddleware.splice(index, 1);
+  };
+}
+
+/**
+ * Checks if writes to a signal have to run through middleware.
+ *
+ * @param local - Middleware of the signal
+ * @param global - Whether the global middleware applies to the signal
+ */
+export function hasMiddleware(
+  local: readonly SignalMiddleware[],
+  global: boolean
+): boolean {
+  return (
+    (global && !bypassDepth && globalMiddleware.length > 0) || local.length > 0
+  );
+}
+
+/**
+ * Runs a write through the global middleware, then the middleware of the
+ * signal, then commits it (unless it was cancelled).
+ *
+ * @param local - Middleware of the signal
+ * @param global - Whether the global middleware applies to the signal
+ * @param write - The write
+ * @param commit - Applies the value to the signal
+ */
+export function runMiddleware<T>(
+  local: readonly SignalMiddleware<T>[],
+  global: boolean,
+  write: SignalWrite<T>,
+  commit: (value: T) => void
+): void {
+  // Snapshot: middleware added during the write applies to the next one
+  const chain =
+    global && !bypassDepth ? [...globalMiddleware, ...local] : [...local];
+
+  const dispatch = (index: number, value: T) => {
+    if (index === chain.length) {
+      commit(value);
+      return;
+    }
+
+    let called = false;
+    chain[index]({ ...write, value }, (...args: [T?]) => {
+      if (called) return;
+      called = true;
+      dispatch(index + 1, args.length ? (args[0] as T) : value);
+    });
+  };
+
+  dispatch(0, write.value);
+}
@@ -0,0 +1,259 @@
+import { describe, it, expect, vi } from "vitest";
+import { signal } from "./signal";
+import { from } from "./from";
+import { observableSymbol } from "./observable";
+import { emitter } from "./emitter";
+import { disposableToken } from "./disposableDispatcher";
+import type { Observer } from "./types";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("observable interop", () => {
+  describe("Symbol.observable", () => {
+    it("should emit the current value, then every change", () => {
+      const count = signal(1);
+      const next = vi.fn();
+      const subscription = count[observableSymbol]().subscribe(next);
+
+      count.set(2);
+      count.set(3);
+      subscription.unsubscribe();
+      count.set(4);
+
+      expect(next.mock.calls).toEqual([[1], [2], [3]]);
+      expect(subscription.closed).toBe(true);
+    });
+
+    it("should emit the values of computed signals", () => {
+      const count = signal(1);
+      const double = signal(() => count() * 2);
+      const next = vi.fn();
+      double[observableSymbol]().subscribe({ next });
+
+      count.set(2);
+
+      expect(next.mock.calls).toEqual([[2], [4]]);
+    });
+
+    it("should error with the computation error", () => {
+      const count = signal(1);
+      const checked = signal(() => {
+        if (count() < 0) throw new Error("negative");
+        return count();
+      });
+      const next = vi.fn();
+      const error = vi.fn();
+      const subscription = checked[observableSymbol]().subscribe({
+        next,
+        error,
+      });
+
+      count.set(-1);
+      count.set(2);
+
+      expect(next.mock.calls).toEqual([[1]]);
+      expect(error).toHaveBeenCalledWith(new Error("negative"));
+      expect(subscription.closed).toBe(true);
+    });
+
+    it("should complete when the signal is disposed", () => {
+      const dispose = emitter<void>();
+      const count = disposableToken.with(dispose, () => signal(1));
+      const complete = vi.fn();
+      const subscription = count[observableSymbol]().subscribe({ complete });
+
+      dispose.emit();
+
+      expect(complete).toHaveBeenCalledTimes(1);
+      expect(subscription.closed).toBe(true);
+    });
+  });
+
+  describe("Symbol.asyncIterator", () => {
+    it("should iterate over the current value and changes", async () => {
+      const count = signal(1);
+      const values: number[] = [];
+
+      const done = (async () => {
+        for await (const value of count) {
+          values.push(value);
+          if (value === 3) break;
+        }
+      })();
+
+      await delay(0);
+      count.set(2);
+      await delay(0);
+      count.set(3);
+      await done;
+      count.set(4);
+
+      expect(values).toEqual([1, 2, 3]);
+    });
+
+    it("should only yield the latest value to slow consumers", async () => {
+      const count = signal(1);
+      const iterator = count[Symbol.asyncIterator]();
+
+      expect(await iterator.next()).toEqual({ value: 1, done: false });
+
+      count.set(2);
+      count.set(3);
+
+      expect(await iterator.next()).toEqual({ value: 3, done: false });
+      await iterator.return!();
+      expect(await iterator.next()).toEqual({ value: undefined, done: true });
+    });
+
+    it("should queue concurrent next() calls", async () => {
+      const dispose = emitter<void>();
+      const count = disposableToken.with(dispose, () => signal(1));
+      const iterator = count[Symbol.asyncIterator]();
+
+      const results = [iterator.next(), iterator.next(), iterator.next()];
+      count.set(2);
+      dispose.emit();
+
+      expect(await Promise.all(results)).toEqual([
+        { value: 1, done: false },
+        { value: 2, done: false },
+        { value: undefined, done: true },
+      ]);
+    });
+
+    it("should end when the signal is disposed", async () => {
+      const dispose = emitter<void>();
+      const count = disposableToken.with(dispose, () => signal(1));
+      const iterator = count[Symbol.asyncIterator]();
+      await iterator.next();
+
+      const pending = iterator.next();
+      dispose.emit();
+
+      expect(await pending).toEqual({ value: undefined, done: true });
+    });
+  });
+
+  describe("signal.from", () => {
+    const subject = <T>() => {
+      const observers = new Set<Observer<T>>();
+      return {
+        observers,
+        next: (value: T) => observers.forEach((o) => o.next?.(value)),
+        error: (error: unknown) => observers.forEach((o) => o.error?.(error)),
+        complete: () => observers.forEach((o) => o.complete?.()),
+        subscribe(observer: Observer<T>) {
+          observers.add(observer);
+          return { unsubscribe: () => observers.delete(observer) };
+        },
+      };
+    };
+
+    it("should hold the latest value of an observable", () => {
+      const source = subject<number>();
+      const value = from(source, 0);
+      const values: number[] = [];
+      value.on(() => values.push(value()));
+
+      expect(value()).toBe(0);
+
+      source.next(1);
+      source.next(2);
+
+      expect(value()).toBe(2);
+      expect(values).toEqual([1, 2]);
+    });
+
+    it("should map errors and completion", () => {
+      const source = subject<number>();
+      const value = from(source, 0);
+      const other = subject<number>();
+      const completed = from(other, 0);
+
+      source.error(new Error("failed"));
+      other.next(1);
+      other.complete();
+
+      expect(value.hasError()).toBe(true);
+      expect(() => value()).toThrow("failed");
+      expect(completed()).toBe(1);
+      expect(completed.completed()).toBe(true);
+    });
+
+    it("should unsubscribe from the source", () => {
+      const source = subject<number>();
+      const value = from(source, 0);
+
+      value.unsubscribe();
+      source.next(1);
+
+      expect(source.observers.size).toBe(0);
+      expect(value()).toBe(0);
+    });
+
+    it("should accept interop observables and function subscriptions", () => {
+      const unsubscribe = vi.fn();
+      const source = {
+        [observableSymbol]: () => ({
+          subscribe(observer: Observer<string>) {
+            observer.next?.("sync");
+            return unsubscribe;
+          },
+        }),
+      };
+      const value = from(source as any, "");
+
+      expect(value()).toBe("sync");
+
+      value.unsubscribe();
+      expect(unsubscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it("should accept signals", () => {
+      const count = signal(1);
+      const value = from(count, 0);
+
+      count.set(2);
+
+      expect(value()).toBe(2);
+    });
+
+    it("should consume async iterables", async () => {
+      async function* numbers() {
+        yield 1;
+        yield 2;
+        throw new Error("stream failed");
+      }
+      const value = from(numbers());
+
+      expect(value()).toBeUndefined();
+
+      await delay(0);
+
+      expect(() => value()).toThrow("stream failed");
+    });
+
+    it("should stop async iterables on unsubscribe", async () => {
+      const finished = vi.fn();
+      async function* numbers() {
+        try {
+          for (let i = 1; ; i++) {
+            yield i;
+            await delay(0);
+          }
+        } finally {
+          finished();
+        }
+      }
+      const value = from(numbers(), 0);
+
+      await delay(0);
+      value.unsubscribe();
+      await delay(10);
+
+      expect(finished).toHaveBeenCalled();
+      expect(value()).toBeGreaterThan(0);
+      expect(value.completed()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import type {
+  InteropObservable,
+  Observer,
+  Signal,
+  Subscribable,
+  Subscription,
+} from "./types";
+
+/**
+ * Interop key of observables: `Symbol.observable` when it exists
+ * (polyfilled by RxJS and others), `"@@observable"` otherwise.
+ */
+export const observableSymbol: typeof Symbol.observable =
+  (typeof Symbol === "function" && Symbol.observable) ||
+  ("@@observable" as unknown as typeof Symbol.observable);
+
+/**
+ * Creates the standard observable of a signal.
+ *
+ * @param s - The signal
+ * @param onDispose - Notified when the signal is disposed
+ * @returns An observable emitting the current value, then every change
+ */
+export function signalObservable<T>(
+  s: Signal<T>,
+  onDispose: Subscribable
+): InteropObservable<T> {
+  const observable: InteropObservable<T> = {
+    subscribe(observerOrNext) {
+      const observer: Observer<T> =
+        typeof observerOrNext === "function"
+          ? { next: observerOrNext }
+          : (observerOrNext ?? {});
+      let closed = false;
+
+      const subscription: Subscription = {
+        get closed() {
+          return closed;
+        },
+        unsubscribe() {
+          if (closed) return;
+          closed = true;
+          unsubscribeChange();
+          unsubscribeDispose();
+        },
+      };
+
+      const emit = () => {
+        let value: T;
+        try {
+          value = s.peek();
+        } catch (error) {
+          subscription.unsubscribe();
+          observer.error?.(error);
+          return;
+        }
+        observer.next?.(value);
+      };
+
+      const unsubscribeChange = s.on(emit);
+      const unsubscribeDispose = onDispose.on(() => {
+        subscription.unsubscribe();
+        observer.complete?.();
+      });
+      emit();
+
+      return subscription;
+    },
+    [observableSymbol]() {
+      return observable;
+    },
+  };
+
+  return observable;
+}
+
+/**
+ * Creates an async iterator over the values of a signal.
+ *
+ * Concurrent `next()` calls are queued: each one gets a later change.
+ *
+ * @param s - The signal
+ * @param onDispose - Notified when the signal is disposed
+ * @returns An iterator yielding the current value, then every change
+ */
+export function signalAsyncIterator<T>(
+  s: Signal<T>,
+  onDispose: Subscribable
+): AsyncIterableIterator<T> {
+  // Latest value not read yet, and how the iteration ended
+  let latest: { value: T } | undefined;
+  let end: { error: unknown } | { done: true } | undefined;
+  // Pending next() calls, settled in call order
+  const waiting: {
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: unknown) => void;
+  }[] = [];
+
+  const settle = () => {
+    while (waiting.length) {
+      if (latest) {
+        const { value } = latest;
+        latest = undefined;
+        waiting.shift()!.resolve({ value, done: false });
+      } else if (end) {
+        const { resolve, reject } = waiting.shift()!;
+        if ("error" in end) {
+          const { error } = end;
+          end = { done: true };
+          reject(error);
+        } else {
+          resolve({ value: undefined, done: true });
+        }
+      } else {
+        return;
+      }
+    }
+  };
+
+  const subscription = signalObservable(s, onDispose).subscribe({
+    next(value) {
+      latest = { value };
+      settle();
+    },
+    error(error) {
+      end = { error };
+      settle();
+    },
+    complete() {
+      end = { done: true };
+      settle();
+    },
+  });
+
+  const iterator: AsyncIterableIterator<T> = {
+    next() {
+      return new Promise((resolve, reject) => {
+        waiting.push({ resolve, reject });
+        settle();
+      });
+    },
+    return() {
+      subscription.unsubscribe();
+      latest = undefined;
+      end = { done: true };
+      settle();
+      return Promise.resolve({ value: undefined, done: true });
+    },
+    [Symbol.asyncIterator]() {
+      return iterator;
+    },
+  };
+
+  return iterator;
+}
@@ -0,0 +1,224 @@
+import { batch } from "./batch";
+import { isPromiseLike } from "./isPromiseLike";
+import { rawWrite } from "./rawWrite";
+import { snapshot } from "./snapshot";
+import { trackingToken } from "./trackingDispatcher";
+import type { MutableSignal } from "./types";
+
+/**
+ * Optimistic update configuration for an action.
+ *
+ * @template TArgs - The action arguments tuple type
+ */
+export type OptimisticOptions<TArgs extends readonly any[]> = {
+  /** Signals written by `update`. They are snapshotted before the update runs. */
+  signals: readonly MutableSignal<any>[];
+  /**
+   * Applies the expected outcome of the action to `signals` immediately.
+   * Receives the same arguments as the action.
+   * Must be deterministic: it is replayed when an overlapping mutation rolls back.
+   */
+  update: (...args: TArgs) => void;
+};
+
+/**
+ * A staged optimistic change.
+ */
+type Mutation = {
+  /** Call order, to replay mutations in the order they were applied */
+  id: number;
+  signals: readonly MutableSignal<any>[];
+  apply: VoidFunction;
+  settled: boolean;
+};
+
+/**
+ * Optimistic state of a signal.
+ */
+type Entry = {
+  /** Value before the oldest mutation below */
+  base: unknown;
+  /**
+   * Mutations applied on top of `base`, in call order. Settled mutations
+   * stay here until every mutation of the signal settled, so they can be
+   * replayed when a pending one rolls back.
+   */
+  mutations: Mutation[];
+  /** Value after the last optimistic write, to detect other writes */
+  written: unknown;
+};
+
+/**
+ * Optimistic state of the signals written by unsettled mutations.
+ * Mutations of different signals don't affect each other.
+ */
+const entries = new Map<MutableSignal<any>, Entry>();
+
+let nextMutationId = 0;
+
+const write = (fn: VoidFunction) => {
+  // Updates may run inside effects/computed; writes must not become dependencies
+  trackingToken.without(() => batch(fn));
+};
+
+/**
+ * Returns the optimistic state of a signal. A signal written by something
+ * else since the last optimistic write (e.g. a server refresh) starts over
+ * from that value: the earlier mutations are part of it, and rolling them
+ * back must not discard it.
+ */
+const entryOf = (s: MutableSignal<any>) => {
+  const entry = entries.get(s);
+  if (entry && s.peek() !== entry.written) {
+    entries.delete(s);
+    return undefined;
+  }
+  return entry;
+};
+
+/**
+ * Drops the optimistic state of signals with no pending mutation anymore.
+ */
+const cleanup = (signals: Iterable<MutableSignal<any>>) => {
+  for (const s of signals) {
+    if (entries.get(s)?.mutations.every((m) => m.settled)) {
+      entries.delete(s);
+    }
+  }
+};
+
+const stage = (signals: readonly MutableSignal<any>[], apply: VoidFunction) => {
+  const mutation: Mutation = {
+    id: nextMutationId++,
+    signals,
+    apply,
+    settled: false,
+  };
+  const staged = signals.map((s) => {
+    let entry = entryOf(s);
+    if (!entry) {
+      entry = { base: snapshot(s), mutations: [], written: undefined };
+      entries.set(s, entry);
+    }
+    entry.mutations.push(mutation);
+    return entry;
+  });
+
+  write(apply);
+  signals.forEach((s, i) => (staged[i].written = s.peek()));
+
+  return mutation;
+};
+
+const commit = (mutation: Mutation) => {
+  if (mutation.settled) return;
+  mutation.settled = true;
+  cleanup(mutation.signals);
+};
+
+const rollback = (mutation: Mutation) => {
+  if (mutation.settled) return;
+  mutation.settled = true;
+
+  // Signals the mutation still applies to are restored, then the other
+  // mutations of those signals are replayed, which restores their signals
+  // too (overlapping mutations keep their optimistic changes)
+  const restored = new Map<MutableSignal<any>, Entry>();
+  const replayed = new Set<Mutation>();
+  const visit = (m: Mutation) => {
+    m.signals.forEach((s) => {
+      const entry = restored.has(s) ? undefined : entryOf(s);
+      if (!entry?.mutations.includes(m)) return;
+      restored.set(s, entry);
+      entry.mutations = entry.mutations.filter((other) => other !== mutation);
+      entry.mutations.forEach((other) => {
+        if (replayed.has(other)) return;
+        replayed.add(other);
+        visit(other);
+      });
+    });
+  };
+  visit(mutation);
+
+  // Replayed mutations also write signals written by something else
+  // since, which keep their value
+  const kept = new Map<MutableSignal<any>, unknown>();
+  replayed.forEach((m) =>
+    m.signals.forEach((s) => {
+      if (!restored.has(s) && !kept.has(s)) kept.set(s, s.peek());
+    })
+  );
+
+  // Restored values skip middleware and validation: they were accepted
+  // before, and the rollback must not stop halfway
+  write(() => {
+    restored.forEach((entry, s) => rawWrite(s, entry.base));
+    Array.from(replayed)
+      .sort((a, b) => a.id - b.id)
+      .forEach((m) => {
+        try {
+          m.apply();
+        } catch {
+          // Rejected by middleware or validation: no longer applied
+          m.signals.forEach((s) => {
+            const entry = restored.get(s);
+            if (entry) {
+              entry.mutations = entry.mutations.filter((other) => other !== m);
+            }
+          });
+        }
+      });
+    kept.forEach((value, s) => rawWrite(s, value));
+  });
+
+  restored.forEach((entry, s) => (entry.written = s.peek()));
+  cleanup(restored.keys());
+};
+
+/**
+ * Runs an action body with an optimistic update.
+ *
+ * The update is applied before `run`, committed when the result succeeds,
+ * and rolled back when it throws, rejects, or `abortSignal` is aborted.
+ *
+ * @param options - Optimistic update configuration
+ * @param args - Arguments passed to `options.update`
+ * @param run - The action body
+ * @param abortSignal - Aborting it rolls the update back (cancellation)
+ * @returns The result of `run`
+ */
+export function withOptimistic<TArgs extends readonly any[], TResult>(
+  options: OptimisticOptions<TArgs>,
+  args: TArgs,
+  run: () => TResult,
+  abortSignal?: AbortSignal
+): TResult {
+  const mutation = stage(options.signals, () => options.update(...args));
+
+  if (abortSignal?.aborted) {
+    rollback(mutation);
+  } else {
+    abortSignal?.addEventListener("abort", () => rollback(mutation), {
+      once: true,
+    });
+  }
+
+  let result: TResult;
+  try {
+    result = run();
+  } catch (error) {
+    rollback(mutation);
+    throw error;
+  }
+
+  if (isPromiseLike(result)) {
+    result.then(
+      () => commit(mutation),
+      () => rollback(mutation)
+    );
+  } else {
+    commit(mutation);
+  }
+
+  return result;
+}
@@ -0,0 +1,402 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import {
+  localStoragePersistor,
+  sessionStoragePersistor,
+  indexedDBPersistor,
+  memoryPersistor,
+} from "./persistor";
+import { signal } from "./signal";
+
+describe("persistor", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  describe("local", () => {
+    it("should store JSON under the namespaced key", () => {
+      const persistor = localStoragePersistor<{ n: number }>("count", {
+        namespace: "app",
+      });
+      const count = signal({ n: 0 }, { persist: persistor });
+
+      count.set({ n: 1 });
+
+      expect(persistor.key).toBe("app:count");
+      expect(localStorage.getItem("app:count")).toBe('{"n":1}');
+      expect(count.persistInfo.status).toBe("synced");
+    });
+
+    it("should hydrate signals synchronously", () => {
+      localStorage.setItem("theme", '"dark"');
+
+      const theme = signal("light", { persist: localStoragePersistor("theme") });
+
+      expect(theme()).toBe("dark");
+      expect(theme.persistInfo.status).toBe("synced");
+    });
+
+    it("should keep the initial value when nothing is stored", () => {
+      const theme = signal("light", { persist: localStoragePersistor("theme") });
+
+      expect(theme()).toBe("light");
+    });
+
+    it("should support custom serialization", () => {
+      const date = signal(new Date(0), {
+        persist: localStoragePersistor<Date>("date", {
+          serialize: (value) => value.toISOString(),
+          deserialize: (raw) => new Date(raw),
+        }),
+      });
+
+      date.set(new Date(1000));
+      expect(localStorage.getItem("date")).toBe("1970-01-01T00:00:01.000Z");
+
+      const restored = localStoragePersistor<Date>("date", {
+        deserialize: (raw) => new Date(raw),
+      }).get();
+      expect(restored).toEqual({ value: new Date(1000) });
+    });
+
+    it("should remove the key when the value is undefined", () => {
+      const persistor = localStoragePersistor<string | undefined>("token");
+      const token = signal<string | undefined>("abc", { persist: persistor });
+
+      token.set("abc");
+      token.set(undefined);
+
+      expect(localStorage.getItem("token")).toBeNull();
+    });
+
+    it("should report corrupt data as read-failed", () => {
+      localStorage.setItem("count", "{not json");
+
+      const count = signal(0, { persist: localStoragePersistor("count") });
+
+      expect(count()).toBe(0);
+      expect(count.persistInfo.status).toBe("read-failed");
+      expect(count.persistInfo.error).toBeInstanceOf(SyntaxError);
+    });
+
+    it("should report storage errors as write-failed", () => {
+      const count = signal(0, { persist: localStoragePersistor("count") });
+      const error = new Error("QuotaExceededError");
+      const setItem = vi
+        .spyOn(Storage.prototype, "setItem")
+        .mockImplementation(() => {
+          throw error;
+        });
+
+      count.set(1);
+      setItem.mockRestore();
+
+      expect(count.persistInfo).toMatchObject({
+        status: "write-failed",
+        error,
+      });
+    });
+
+    it("should apply changes made by other tabs", () => {
+      const count = signal(0, {
+        persist: localStoragePersistor("count", { namespace: "app" }),
+      });
+
+      localStorage.setItem("app:count", "5");
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "app:count",
+          newValue: "5",
+          storageArea: localStorage,
+        })
+      );
+
+      expect(count()).toBe(5);
+    });
+
+    it("should ignore changes of other keys and storages", () => {
+      const count = signal(0, { persist: localStoragePersistor("count") });
+
+      localStorage.setItem("count", "5");
+      window.dispatchEvent(
+        new StorageEvent("storage", { key: "other", storageArea: localStorage })
+      );
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "count",
+          storageArea: sessionStorage,
+        })
+      );
+
+      expect(count()).toBe(0);
+    });
+
+    it("should remove the stored value", () => {
+      const persistor = localStoragePersistor("count");
+      persistor.set(1);
+
+      persistor.remove();
+
+      expect(localStorage.getItem("count")).toBeNull();
+    });
+  });
+
+  describe("debounce", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should write only the last value of the window", async () => {
+      const setItem = vi.spyOn(Storage.prototype, "setItem");
+      const text = signal("", {
+        persist: localStoragePersistor("draft", { debounce: 300 }),
+      });
+
+      text.set("a");
+      text.set("ab");
+      text.set("abc");
+      expect(setItem).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(300);
+
+      expect(setItem).toHaveBeenCalledTimes(1);
+      expect(localStorage.getItem("draft")).toBe('"abc"');
+      setItem.mockRestore();
+    });
+
+    it("should report writing until the delayed write completes", async () => {
+      const text = signal("", {
+        persist: localStoragePersistor("draft", { debounce: 300 }),
+      });
+
+      text.set("a");
+      expect(text.persistInfo.status).toBe("writing");
+
+      text.set("ab");
+      await vi.advanceTimersByTimeAsync(299);
+      expect(text.persistInfo.status).toBe("writing");
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(text.persistInfo.status).toBe("synced");
+    });
+
+    it("should report failed delayed writes", async () => {
+      const text = signal("", {
+        persist: localStoragePersistor("draft", { debounce: 300 }),
+      });
+      const setItem = vi
+        .spyOn(Storage.prototype, "setItem")
+        .mockImplementation(() => {
+          throw new Error("full");
+        });
+
+      text.set("a");
+      await vi.advanceTimersByTimeAsync(300);
+      setItem.mockRestore();
+
+      expect(text.persistInfo.status).toBe("write-failed");
+    });
+
+    it("should write the pending value on flush", async () => {
+      const persistor = localStoragePersistor<string>("draft", {
+        debounce: 300,
+      });
+
+      persistor.set("a");
+      await persistor.flush();
+
+      expect(localStorage.getItem("draft")).toBe('"a"');
+    });
+
+    it("should write the pending value when the page is hidden", () => {
+      const persistor = localStoragePersistor<string>("draft", {
+        debounce: 300,
+      });
+
+      persistor.set("a");
+      window.dispatchEvent(new Event("pagehide"));
+
+      expect(localStorage.getItem("draft")).toBe('"a"');
+    });
+
+    it("should drop the pending value on remove", async () => {
+      const persistor = localStoragePersistor<string>("draft", {
+        debounce: 300,
+      });
+
+      persistor.set("a");
+      persistor.remove();
+      await vi.advanceTimersByTimeAsync(300);
+
+      expect(localStorage.getItem("draft")).toBeNull();
+    });
+  });
+
+  describe("session", () => {
+    it("should persist to sessionStorage", () => {
+      const step = signal(1, {
+        persist: sessionStoragePersistor("step", { namespace: "wizard" }),
+      });
+
+      step.set(2);
+
+      expect(sessionStorage.getItem("wizard:step")).toBe("2");
+      expect(localStorage.getItem("wizard:step")).toBeNull();
+    });
+
+    it("should hydrate from sessionStorage", () => {
+      sessionStorage.setItem("step", "3");
+
+      const step = signal(1, { persist: sessionStoragePersistor("step") });
+
+      expect(step()).toBe(3);
+    });
+  });
+
+  describe("indexedDB", () => {
+    let factory: IDBFactory;
+
+    beforeEach(() => {
+      factory = new IDBFactory();
+    });
+
+    it("should round-trip values", async () => {
+      const persistor = indexedDBPersistor<{ at: Date }>("doc", { factory });
+
+      await persistor.set({ at: new Date(1000) });
+
+      await expect(persistor.get()).resolves.toEqual({
+        value: { at: new Date(1000) },
+      });
+    });
+
+    it("should return null for missing records", async () => {
+      await expect(indexedDBPersistor("missing", { factory }).get()).resolves.toBe(
+        null
+      );
+    });
+
+    it("should hydrate signals asynchronously", async () => {
+      await indexedDBPersistor("count", { factory, namespace: "app" }).set(5);
+
+      const count = signal(0, {
+        persist: indexedDBPersistor("count", { factory, namespace: "app" }),
+      });
+
+      expect(count.persistInfo.status).toBe("reading");
+      await vi.waitFor(() => expect(count.persistInfo.status).toBe("synced"));
+      expect(count()).toBe(5);
+    });
+
+    it("should report writes", async () => {
+      const persistor = indexedDBPersistor<number>("count", { factory });
+      const count = signal(0, { persist: persistor });
+      await vi.waitFor(() => expect(count.persistInfo.status).toBe("synced"));
+
+      count.set(1);
+
+      expect(count.persistInfo.status).toBe("writing");
+      await vi.waitFor(() => expect(count.persistInfo.status).toBe("synced"));
+      await expect(persistor.get()).resolves.toEqual({ value: 1 });
+    });
+
+    it("should create missing stores in an existing database", async () => {
+      await indexedDBPersistor("a", { factory, store: "first" }).set(1);
+      await indexedDBPersistor("b", { factory, store: "second" }).set(2);
+
+      await expect(
+        indexedDBPersistor("a", { factory, store: "first" }).get()
+      ).resolves.toEqual({ value: 1 });
+      await expect(
+        indexedDBPersistor("b", { factory, store: "second" }).get()
+      ).resolves.toEqual({ value: 2 });
+    });
+
+    it("should remove records", async () => {
+      const persistor = indexedDBPersistor("count", { factory });
+      await persistor.set(1);
+
+      await persistor.remove();
+
+      await expect(persistor.get()).resolves.toBe(null);
+    });
+
+    it("should report a missing indexedDB as read-failed", async () => {
+      const count = signal(0, { persist: indexedDBPersistor("count") });
+
+      await vi.waitFor(() =>
+        expect(count.persistInfo.status).toBe("read-failed")
+      );
+    });
+
+    it("should apply writes announced by other tabs", async () => {
+      const count = signal(0, {
+        persist: indexedDBPersistor("count", { factory, database: "tabs" }),
+      });
+      await vi.waitFor(() => expect(count.persistInfo.status).toBe("synced"));
+
+      // Another tab writes the record and announces it
+      const otherTab = new BroadcastChannel("rxblox:tabs");
+      await indexedDBPersistor("count", { factory, database: "tabs" }).set(7);
+      otherTab.postMessage({ store: "persist", key: "count" });
+      otherTab.close();
+
+      await vi.waitFor(() => expect(count()).toBe(7));
+    });
+  });
+
+  describe("memory", () => {
+    it("should store values in the given map", () => {
+      const storage = new Map<string, unknown>();
+      const count = signal(0, {
+        persist: memoryPersistor("count", { storage, namespace: "app" }),
+      });
+
+      count.set(1);
+
+      expect(storage.get("app:count")).toBe(1);
+    });
+
+    it("should notify persistors sharing the map", () => {
+      const storage = new Map<string, unknown>();
+      const a = signal(0, { persist: memoryPersistor("count", { storage }) });
+      const b = signal(0, { persist: memoryPersistor("count", { storage }) });
+
+      a.set(3);
+
+      expect(b()).toBe(3);
+    });
+
+    it("should not notify the persistor that wrote the value", () => {
+      const storage = new Map<string, unknown>();
+      const persistor = memoryPersistor<number>("count", { storage });
+      const callback = vi.fn();
+      const unsubscribe = persistor.on(callback);
+
+      persistor.set(1);
+      memoryPersistor("count", { storage }).set(2);
+      unsubscribe();
+      memoryPersistor("count", { storage }).set(3);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it("should isolate maps", () => {
+      const a = signal(0, {
+        persist: memoryPersistor("count", { storage: new Map() }),
+      });
+      const b = signal(0, {
+        persist: memoryPersistor("count", { storage: new Map() }),
+      });
+
+      a.set(3);
+
+      expect(b()).toBe(0);
+    });
+  });
+});
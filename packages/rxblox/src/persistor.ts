@@ -0,0 +1,579 @@
+import { isPromiseLike } from "./isPromiseLike";
+import type { Persistor } from "./types";
+
+/**
+ * Options shared by the built-in persistors.
+ */
+export type StoragePersistorOptions = {
+  /**
+   * Prefix for the storage key (`"<namespace>:<key>"`), so that several
+   * apps or features can share one storage without collisions.
+   */
+  namespace?: string;
+
+  /**
+   * Delay in milliseconds to coalesce rapid writes. Only the last value
+   * within the window is written. `persistInfo.status` stays `"writing"`
+   * until the delayed write completes.
+   * @default 0 (write immediately)
+   */
+  debounce?: number;
+};
+
+/**
+ * Options for `persistor.local()` and `persistor.session()`.
+ *
+ * @template T - The type of value being persisted
+ */
+export type WebStoragePersistorOptions<T> = StoragePersistorOptions & {
+  /**
+   * Converts the value to the stored string.
+   * @default JSON.stringify
+   */
+  serialize?: (value: T) => string;
+
+  /**
+   * Converts the stored string back to a value.
+   * @default JSON.parse
+   */
+  deserialize?: (raw: string) => T;
+};
+
+/**
+ * Options for `persistor.indexedDB()`.
+ */
+export type IndexedDBPersistorOptions = StoragePersistorOptions & {
+  /**
+   * Name of the database.
+   * @default "rxblox"
+   */
+  database?: string;
+
+  /**
+   * Name of the object store. Created on first use.
+   * @default "persist"
+   */
+  store?: string;
+
+  /**
+   * IndexedDB implementation, e.g. `fake-indexeddb` in tests.
+   * @default globalThis.indexedDB
+   */
+  factory?: IDBFactory;
+};
+
+/**
+ * Options for `persistor.memory()`.
+ */
+export type MemoryPersistorOptions = StoragePersistorOptions & {
+  /**
+   * Map holding the values. Persistors using the same map see each other's
+   * writes (like tabs sharing localStorage).
+   * @default a map shared by the whole app
+   */
+  storage?: Map<string, unknown>;
+};
+
+/**
+ * A persistor returned by the built-in storage adapters.
+ *
+ * @template T - The type of value being persisted
+ */
+export type StoragePersistor<T> = Required<Persistor<T>> & {
+  /** The storage key, including the namespace */
+  readonly key: string;
+
+  /**
+   * Writes the pending debounced value right away.
+   * @returns Promise that settles when the write completes
+   */
+  flush(): Promise<void>;
+
+  /**
+   * Deletes the stored value and drops the pending debounced write.
+   */
+  remove(): void | Promise<void>;
+};
+
+/**
+ * Low level operations of a storage backend.
+ * Reading a missing key returns `undefined`.
+ */
+type StorageDriver<TRaw> = {
+  read(key: string): TRaw | undefined | Promise<TRaw | undefined>;
+  write(key: string, raw: TRaw): void | Promise<void>;
+  remove(key: string): void | Promise<void>;
+  /** Notifies when the key is changed from outside (e.g. another tab) */
+  watch(key: string, callback: VoidFunction): VoidFunction;
+};
+
+/**
+ * A debounced write waiting for its timer.
+ */
+type PendingWrite<T> = {
+  value: T;
+  /** Set right after the write is created */
+  timer: ReturnType<typeof setTimeout> | undefined;
+  promise: Promise<void>;
+  resolve: VoidFunction;
+  reject: (error: unknown) => void;
+};
+
+/**
+ * Builds a persistor on top of a storage driver.
+ *
+ * Writing `undefined` removes the key. With `debounce`, every `set()` of
+ * the same window returns the same promise, which settles when the last
+ * value is written.
+ */
+function createStoragePersistor<T, TRaw>(
+  key: string,
+  driver: StorageDriver<TRaw>,
+  encode: (value: T) => TRaw,
+  decode: (raw: TRaw) => T,
+  options: StoragePersistorOptions
+): StoragePersistor<T> {
+  const { namespace, debounce = 0 } = options;
+  const fullKey = namespace ? `${namespace}:${key}` : key;
+  let pending: PendingWrite<T> | undefined;
+
+  const write = (value: T) =>
+    value === undefined
+      ? driver.remove(fullKey)
+      : driver.write(fullKey, encode(value));
+
+  const toResult = (raw: TRaw | undefined) =>
+    raw === undefined ? null : { value: decode(raw) };
+
+  // Don't lose the pending write when the page goes away
+  const onPageHide = () => {
+    flush();
+  };
+
+  const takePending = () => {
+    const current = pending;
+    if (current) {
+      pending = undefined;
+      clearTimeout(current.timer);
+      if (typeof window !== "undefined") {
+        window.removeEventListener("pagehide", onPageHide);
+      }
+    }
+    return current;
+  };
+
+  const flush = () => {
+    const current = takePending();
+    if (!current) return Promise.resolve();
+
+    try {
+      Promise.resolve(write(current.value)).then(
+        current.resolve,
+        current.reject
+      );
+    } catch (error) {
+      current.reject(error);
+    }
+
+    return current.promise;
+  };
+
+  return {
+    key: fullKey,
+    get() {
+      const raw = driver.read(fullKey);
+      return isPromiseLike(raw) ? raw.then(toResult) : toResult(raw);
+    },
+    set(value) {
+      if (debounce <= 0) {
+        return write(value);
+      }
+
+      if (pending) {
+        clearTimeout(pending.timer);
+        pending.value = value;
+      } else {
+        let resolve!: VoidFunction;
+        let reject!: (error: unknown) => void;
+        const promise = new Promise<void>((res, rej) => {
+          resolve = res;
+          reject = rej;
+        });
+        pending = { value, promise, resolve, reject, timer: undefined };
+        if (typeof window !== "undefined") {
+          window.addEventListener("pagehide", onPageHide);
+        }
+      }
+
+      pending.timer = setTimeout(flush, debounce);
+      return pending.promise;
+    },
+    on(callback) {
+      return driver.watch(fullKey, callback);
+    },
+    flush,
+    remove() {
+      // The removal supersedes the pending value
+      takePending()?.resolve();
+      return driver.remove(fullKey);
+    },
+  };
+}
+
+const webStorageDriver = (
+  name: "localStorage" | "sessionStorage"
+): StorageDriver<string> => {
+  const getStorage = () => {
+    const storage = typeof window === "undefined" ? undefined : window[name];
+    if (!storage) {
+      throw new Error(`${name} is not available`);
+    }
+    return storage;
+  };
+
+  return {
+    read: (key) => getStorage().getItem(key) ?? undefined,
+    write: (key, raw) => getStorage().setItem(key, raw),
+    remove: (key) => getStorage().removeItem(key),
+    watch(key, callback) {
+      if (typeof window === "undefined") return () => {};
+
+      const handler = (e: StorageEvent) => {
+        // A null key means the whole storage was cleared
+        if (e.storageArea === window[name] && (e.key === key || e.key === null)) {
+          callback();
+        }
+      };
+      window.addEventListener("storage", handler);
+      return () => window.removeEventListener("storage", handler);
+    },
+  };
+};
+
+const webStoragePersistor = <T>(
+  name: "localStorage" | "sessionStorage",
+  key: string,
+  options: WebStoragePersistorOptions<T>
+) => {
+  const { serialize = JSON.stringify, deserialize = JSON.parse } = options;
+
+  return createStoragePersistor<T, string>(
+    key,
+    webStorageDriver(name),
+    serialize,
+    deserialize,
+    options
+  );
+};
+
+/**
+ * Creates a persistor backed by `localStorage`.
+ *
+ * Values are stored as JSON by default. `on()` notifies about changes made
+ * by other tabs, so signals stay in sync across tabs.
+ *
+ * @param key - Storage key (prefixed by `options.namespace`)
+ * @param options - Namespace, debounce and serialization options
+ * @returns A persistor for `SignalOptions.persist`
+ *
+ * @example
+ * ```ts
+ * const theme = signal("light", {
+ *   persist: persistor.local("theme", { namespace: "my-app" }),
+ * });
+ *
+ * // Coalesce rapid writes (e.g. typing)
+ * const draft = signal("", {
+ *   persist: persistor.local("draft", { debounce: 300 }),
+ * });
+ * ```
+ */
+export function localStoragePersistor<T>(
+  key: string,
+  options: WebStoragePersistorOptions<T> = {}
+): StoragePersistor<T> {
+  return webStoragePersistor("localStorage", key, options);
+}
+
+/**
+ * Creates a persistor backed by `sessionStorage`.
+ *
+ * Same as `persistor.local()`, but values only live as long as the tab.
+ *
+ * @param key - Storage key (prefixed by `options.namespace`)
+ * @param options - Namespace, debounce and serialization options
+ * @returns A persistor for `SignalOptions.persist`
+ *
+ * @example
+ * ```ts
+ * const step = signal(1, { persist: persistor.session("wizard-step") });
+ * ```
+ */
+export function sessionStoragePersistor<T>(
+  key: string,
+  options: WebStoragePersistorOptions<T> = {}
+): StoragePersistor<T> {
+  return webStoragePersistor("sessionStorage", key, options);
+}
+
+/**
+ * Open connections, per factory and database/store.
+ */
+const connections = new WeakMap<IDBFactory, Map<string, Promise<IDBDatabase>>>();
+
+/**
+ * Cross-tab channels, per database.
+ */
+const channels = new Map<
+  string,
+  { channel: BroadcastChannel; listeners: Set<(data: any) => void> }
+>();
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDatabase = (
+  factory: IDBFactory,
+  database: string,
+  store: string
+): Promise<IDBDatabase> => {
+  let cache = connections.get(factory);
+  if (!cache) {
+    cache = new Map();
+    connections.set(factory, cache);
+  }
+
+  const cacheKey = `${database}/${store}`;
+  const cached = cache.get(cacheKey);
+  if (cached) return cached;
+
+  const open = (version?: number): Promise<IDBDatabase> => {
+    const req = factory.open(database, version);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(store)) {
+        req.result.createObjectStore(store);
+      }
+    };
+
+    return request(req).then((db) => {
+      if (!db.objectStoreNames.contains(store)) {
+        // The database exists without this store, upgrade it
+        const nextVersion = db.version + 1;
+        db.close();
+        return open(nextVersion);
+      }
+
+      // Let other connections upgrade the database
+      db.onversionchange = () => {
+        db.close();
+        cache!.delete(cacheKey);
+      };
+      return db;
+    });
+  };
+
+  const promise = open();
+  cache.set(cacheKey, promise);
+  // Allow retrying after a failed open
+  promise.catch(() => cache!.delete(cacheKey));
+
+  return promise;
+};
+
+const getChannel = (database: string) => {
+  if (typeof BroadcastChannel === "undefined") return undefined;
+
+  let entry = channels.get(database);
+  if (!entry) {
+    const channel = new BroadcastChannel(`rxblox:${database}`);
+    const listeners = new Set<(data: any) => void>();
+    channel.onmessage = (e) => listeners.forEach((listener) => listener(e.data));
+    entry = { channel, listeners };
+    channels.set(database, entry);
+  }
+
+  return entry;
+};
+
+/**
+ * Creates a persistor backed by IndexedDB.
+ *
+ * Values are stored with the structured clone algorithm (no JSON
+ * conversion), so dates, maps and typed arrays round-trip. Reads and writes
+ * are async: the signal reports `"reading"`/`"writing"` in `persistInfo`.
+ * `on()` notifies about writes made by other tabs (via BroadcastChannel).
+ *
+ * @param key - Record key (prefixed by `options.namespace`)
+ * @param options - Database, store, namespace and debounce options
+ * @returns A persistor for `SignalOptions.persist`
+ *
+ * @example
+ * ```ts
+ * const documents = signal<Doc[]>([], {
+ *   persist: persistor.indexedDB("documents", {
+ *     database: "my-app",
+ *     debounce: 500,
+ *   }),
+ * });
+ *
+ * // In tests
+ * import { IDBFactory } from "fake-indexeddb";
+ * persistor.indexedDB("documents", { factory: new IDBFactory() });
+ * ```
+ */
+export function indexedDBPersistor<T>(
+  key: string,
+  options: IndexedDBPersistorOptions = {}
+): StoragePersistor<T> {
+  const { database = "rxblox", store = "persist" } = options;
+
+  const getDatabase = () => {
+    const factory =
+      options.factory ??
+      (typeof indexedDB === "undefined" ? undefined : indexedDB);
+    if (!factory) {
+      return Promise.reject(new Error("indexedDB is not available"));
+    }
+    return openDatabase(factory, database, store);
+  };
+
+  const transaction = <R>(
+    mode: IDBTransactionMode,
+    run: (objectStore: IDBObjectStore) => IDBRequest<R>
+  ) =>
+    getDatabase().then((db) =>
+      request(run(db.transaction(store, mode).objectStore(store)))
+    );
+
+  const notify = (recordKey: string) => {
+    getChannel(database)?.channel.postMessage({ store, key: recordKey });
+  };
+
+  return createStoragePersistor<T, T>(
+    key,
+    {
+      read: (recordKey) =>
+        transaction("readonly", (s) => s.get(recordKey)) as Promise<
+          T | undefined
+        >,
+      write: (recordKey, value) =>
+        transaction("readwrite", (s) => s.put(value, recordKey)).then(() =>
+          notify(recordKey)
+        ),
+      remove: (recordKey) =>
+        transaction("readwrite", (s) => s.delete(recordKey)).then(() =>
+          notify(recordKey)
+        ),
+      watch(recordKey, callback) {
+        const entry = getChannel(database);
+        if (!entry) return () => {};
+
+        const listener = (data: { store?: string; key?: string }) => {
+          if (data?.store === store && data.key === recordKey) {
+            callback();
+          }
+        };
+        entry.listeners.add(listener);
+        return () => {
+          entry.listeners.delete(listener);
+        };
+      },
+    },
+    (value) => value,
+    (value) => value,
+    options
+  );
+}
+
+/**
+ * Map used by memory persistors without `options.storage`.
+ */
+const defaultMemoryStorage = new Map<string, unknown>();
+
+/**
+ * Change listeners, per storage map and key.
+ */
+const memoryListeners = new WeakMap<
+  Map<string, unknown>,
+  Map<string, Set<VoidFunction>>
+>();
+
+/**
+ * Creates a persistor backed by an in-memory map.
+ *
+ * Useful for tests, SSR and prototyping. Persistors sharing a map are
+ * notified (`on()`) when another one writes the same key, the same way
+ * tabs are notified about localStorage changes.
+ *
+ * @param key - Map key (prefixed by `options.namespace`)
+ * @param options - Storage map, namespace and debounce options
+ * @returns A persistor for `SignalOptions.persist`
+ *
+ * @example
+ * ```ts
+ * const storage = new Map<string, unknown>();
+ *
+ * const count = signal(0, { persist: persistor.memory("count", { storage }) });
+ * count.set(1);
+ * storage.get("count"); // 1
+ * ```
+ */
+export function memoryPersistor<T>(
+  key: string,
+  options: MemoryPersistorOptions = {}
+): StoragePersistor<T> {
+  const { storage = defaultMemoryStorage } = options;
+  // Callbacks of this persistor, which must not be notified of its own writes
+  const own = new Set<VoidFunction>();
+
+  const getListeners = (recordKey: string) => {
+    let byKey = memoryListeners.get(storage);
+    if (!byKey) {
+      byKey = new Map();
+      memoryListeners.set(storage, byKey);
+    }
+    let listeners = byKey.get(recordKey);
+    if (!listeners) {
+      listeners = new Set();
+      byKey.set(recordKey, listeners);
+    }
+    return listeners;
+  };
+
+  const notify = (recordKey: string) => {
+    getListeners(recordKey).forEach((listener) => {
+      if (!own.has(listener)) listener();
+    });
+  };
+
+  return createStoragePersistor<T, T>(
+    key,
+    {
+      read: (recordKey) => storage.get(recordKey) as T | undefined,
+      write: (recordKey, value) => {
+        storage.set(recordKey, value);
+        notify(recordKey);
+      },
+      remove: (recordKey) => {
+        storage.delete(recordKey);
+        notify(recordKey);
+      },
+      watch(recordKey, callback) {
+        const listener = () => callback();
+        const listeners = getListeners(recordKey);
+        own.add(listener);
+        listeners.add(listener);
+        return () => {
+          own.delete(listener);
+          listeners.delete(listener);
+        };
+      },
+    },
+    (value) => value,
+    (value) => value,
+    options
+  );
+}
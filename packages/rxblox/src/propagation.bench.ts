@@ -0,0 +1,17 @@
+import { bench, describe } from "vitest";
+import { propagationScenarios } from "./propagation.scenarios";
+
+/**
+ * Propagation benchmarks (run with `pnpm bench`, or `pnpm bench:baseline`
+ * to compare with the implementation before glitch-free propagation).
+ *
+ * The computations and effect runs of each scenario are asserted by
+ * `propagation.test.ts`.
+ */
+describe("propagation", () => {
+  propagationScenarios.forEach((scenario) => {
+    bench(scenario.name, () => {
+      scenario.run();
+    });
+  });
+});
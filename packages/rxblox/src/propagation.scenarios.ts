@@ -0,0 +1,114 @@
+import { signal } from "./signal";
+import { effect } from "./effect";
+import { batch } from "./batch";
+
+/**
+ * Computations and effect runs caused by a scenario.
+ */
+export type PropagationCounts = { computes: number; effects: number };
+
+/**
+ * Propagation scenario shared by the benchmarks (`pnpm bench`), the tests
+ * asserting its counts and the baseline comparison (`pnpm bench:baseline`).
+ *
+ * Scenarios only use `signal()`, `effect()` and `batch()`, so they also run
+ * on the implementation before glitch-free propagation.
+ */
+export type PropagationScenario = {
+  name: string;
+  /** Builds the graph, makes the updates and returns the counts */
+  run(): PropagationCounts;
+};
+
+//     a
+//   /   \
+//  b     c
+//   \   /
+//     d  -> effect
+const diamond: PropagationScenario = {
+  name: "diamond, 1,000 updates",
+  run() {
+    const counts = { computes: 0, effects: 0 };
+    const a = signal(0);
+    const b = signal(() => (counts.computes++, a() + 1));
+    const c = signal(() => (counts.computes++, a() * 2));
+    const d = signal(() => (counts.computes++, b() + c()));
+    effect(() => {
+      counts.effects++;
+      d();
+    });
+    for (let i = 1; i <= 1000; i++) a.set(i);
+    return counts;
+  },
+};
+
+const deepChain: PropagationScenario = {
+  name: "deep chain (50 levels), 100 updates",
+  run() {
+    const counts = { computes: 0, effects: 0 };
+    const source = signal(0);
+    let last: () => number = source;
+    for (let i = 0; i < 50; i++) {
+      const prev = last;
+      last = signal(() => (counts.computes++, prev() + 1));
+    }
+    const tail = last;
+    effect(() => {
+      counts.effects++;
+      tail();
+    });
+    for (let i = 1; i <= 100; i++) source.set(i);
+    return counts;
+  },
+};
+
+// a -> 100 computed signals -> sum -> effect
+const wideFanIn: PropagationScenario = {
+  name: "wide fan-in (100 branches), 100 updates",
+  run() {
+    const counts = { computes: 0, effects: 0 };
+    const a = signal(0);
+    const items = Array.from({ length: 100 }, (_, i) =>
+      signal(() => (counts.computes++, a() + i))
+    );
+    const sum = signal(
+      () => (counts.computes++, items.reduce((acc, item) => acc + item(), 0))
+    );
+    effect(() => {
+      counts.effects++;
+      sum();
+    });
+    for (let i = 1; i <= 100; i++) a.set(i);
+    return counts;
+  },
+};
+
+// An effect reading a source and two values derived from it
+const severalReads = (batched: boolean): PropagationScenario => ({
+  name: `effect reading a, 2a, 3a, 1,000 ${batched ? "batched " : ""}updates`,
+  run() {
+    const counts = { computes: 0, effects: 0 };
+    const a = signal(0);
+    const doubled = signal(() => (counts.computes++, a() * 2));
+    const tripled = signal(() => (counts.computes++, a() * 3));
+    effect(() => {
+      counts.effects++;
+      a();
+      doubled();
+      tripled();
+    });
+    for (let i = 1; i <= 1000; i++) {
+      if (batched) batch(() => a.set(i));
+      else a.set(i);
+    }
+    return counts;
+  },
+});
+
+export const propagationScenarios: PropagationScenario[] = [
+  diamond,
+  deepChain,
+  wideFanIn,
+  severalReads(false),
+  severalReads(true),
+];
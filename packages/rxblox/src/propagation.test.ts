@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from "vitest";
+import { signal } from "./signal";
+import { effect } from "./effect";
+import { batch } from "./batch";
+import { propagationScenarios } from "./propagation.scenarios";
+
+describe("propagation", () => {
+  describe("computed signals", () => {
+    it("should recompute a diamond once per change", () => {
+      const a = signal(1);
+      const b = vi.fn(() => a() + 1);
+      const c = vi.fn(() => a() * 2);
+      const d = vi.fn(() => bSignal() + cSignal());
+      const bSignal = signal(b);
+      const cSignal = signal(c);
+      const dSignal = signal(d);
+      const listener = vi.fn();
+      dSignal.on(listener);
+      expect(dSignal()).toBe(4);
+
+      a.set(2);
+
+      expect(b).toHaveBeenCalledTimes(2);
+      expect(c).toHaveBeenCalledTimes(2);
+      expect(d).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(dSignal()).toBe(7);
+    });
+
+    it("should recompute in topological order", () => {
+      const a = signal(1);
+      const order: string[] = [];
+      const deep = signal(() => {
+        order.push("deep");
+        return a() + 1;
+      });
+      const deeper = signal(() => {
+        order.push("deeper");
+        return deep() + 1;
+      });
+      const top = signal(() => {
+        order.push("top");
+        return a() + deeper();
+      });
+      top.on(() => {});
+      top();
+      order.length = 0;
+
+      a.set(2);
+
+      expect(order).toEqual(["deep", "deeper", "top"]);
+      expect(top()).toBe(6);
+    });
+
+    it("should not recompute dependents when the value is unchanged", () => {
+      const a = signal(1);
+      const parity = signal(() => a() % 2);
+      const label = vi.fn(() => (parity() ? "odd" : "even"));
+      const labelSignal = signal(label);
+      labelSignal.on(() => {});
+      labelSignal();
+
+      a.set(3);
+
+      expect(label).toHaveBeenCalledTimes(1);
+    });
+
+    it("should recompute a dirty signal when read by a listener", () => {
+      const a = signal(1);
+      const doubled = signal(() => a() * 2);
+      doubled();
+      const seen: number[] = [];
+      a.on(() => seen.push(doubled()));
+
+      a.set(2);
+
+      expect(seen).toEqual([4]);
+    });
+  });
+
+  describe("effects", () => {
+    it("should run once per change and never see inconsistent values", () => {
+      const a = signal(1);
+      const double = signal(() => a() * 2);
+      const triple = signal(() => a() * 3);
+      const runs: [number, number, number][] = [];
+      effect(() => {
+        runs.push([a(), double(), triple()]);
+      });
+
+      a.set(2);
+      a.set(3);
+
+      expect(runs).toEqual([
+        [1, 2, 3],
+        [2, 4, 6],
+        [3, 6, 9],
+      ]);
+    });
+
+    it("should run once after a batch with fresh computed values", () => {
+      const a = signal(1);
+      const b = signal(2);
+      const sum = signal(() => a() + b());
+      const product = signal(() => a() * b());
+      const runs: [number, number][] = [];
+      effect(() => {
+        runs.push([sum(), product()]);
+      });
+
+      batch(() => {
+        a.set(3);
+        b.set(4);
+      });
+
+      expect(runs).toEqual([
+        [3, 2],
+        [7, 12],
+      ]);
+    });
+
+    it("should apply changes made by listeners", () => {
+      const a = signal(1);
+      const b = signal(0);
+      const doubled = signal(() => a() * 2);
+      a.on(() => b.set(a() * 10));
+      const runs: [number, number][] = [];
+      effect(() => {
+        runs.push([doubled(), b()]);
+      });
+
+      a.set(2);
+
+      expect(runs).toEqual([
+        [2, 0],
+        [4, 20],
+      ]);
+    });
+  });
+
+  describe("benchmark scenarios", () => {
+    it("should compute and run effects once per change", () => {
+      const counts = Object.fromEntries(
+        propagationScenarios.map((scenario) => [scenario.name, scenario.run()])
+      );
+
+      expect(counts).toEqual({
+        "diamond, 1,000 updates": { computes: 3003, effects: 1001 },
+        "deep chain (50 levels), 100 updates": { computes: 5050, effects: 101 },
+        "wide fan-in (100 branches), 100 updates": {
+          computes: 10201,
+          effects: 101,
+        },
+        "effect reading a, 2a, 3a, 1,000 updates": {
+          computes: 2002,
+          effects: 1001,
+        },
+        // Fresh 2a and 3a for each of the 1,001 effect runs
+        "effect reading a, 2a, 3a, 1,000 batched updates": {
+          computes: 2002,
+          effects: 1001,
+        },
+      });
+    });
+  });
+});
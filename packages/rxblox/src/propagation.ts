@@ -0,0 +1,196 @@
+/**
+ * Glitch-free change propagation.
+ *
+ * Changes are propagated in two steps:
+ *
+ * 1. **Push dirty**: a changed signal notifies its dependents. Computed
+ *    signals don't recompute right away: they are marked dirty and queued
+ *    by height (1 + the height of their deepest dependency). Other
+ *    listeners (effects, `rx()`, `signal.on()`) are queued once each.
+ * 2. **Pull compute**: queued computed signals recompute in topological
+ *    order (lowest height first), then queued listeners run. A dirty
+ *    computed signal read earlier (e.g. by another computation)
+ *    recomputes on read.
+ *
+ * So every computed signal and effect runs at most once per change and
+ * never observes a mix of old and new values.
+ */
+
+/**
+ * Propagation state of a signal.
+ */
+export type PropagationNode = {
+  /** 0 for signals with a value, 1 + deepest dependency for computed signals */
+  height: number;
+  /** Whether the node waits for a recomputation */
+  dirty: boolean;
+  /** Recomputes the node (and notifies its listeners if it changed) */
+  recompute: VoidFunction;
+  /** Whether anything listens to the node */
+  observed(): boolean;
+};
+
+const nodes = new WeakMap<object, PropagationNode>();
+
+/**
+ * Listeners of computed signals: called right away (they only mark dirty).
+ */
+const dependentListeners = new WeakSet<VoidFunction>();
+
+/**
+ * Dirty nodes, by height.
+ */
+const dirtyNodes: Set<PropagationNode>[] = [];
+
+/**
+ * Listeners waiting for the dirty nodes to recompute, in notification order.
+ */
+const pendingListeners = new Set<VoidFunction>();
+
+let propagating = false;
+let deferredDrainScheduled = false;
+
+/**
+ * Registers the propagation state of a signal.
+ *
+ * @param signal - The signal
+ * @param node - Its propagation state
+ */
+export function registerNode(signal: object, node: PropagationNode): void {
+  nodes.set(signal, node);
+}
+
+/**
+ * Updates the height of a computed signal from its dependencies.
+ *
+ * @param node - The computed signal's state
+ * @param dependencies - Subscribables read by its latest computation
+ */
+export function updateHeight(
+  node: PropagationNode,
+  dependencies: readonly object[]
+): void {
+  let height = 0;
+  dependencies.forEach((dependency) => {
+    const dependencyHeight = nodes.get(dependency)?.height ?? 0;
+    if (dependencyHeight > height) height = dependencyHeight;
+  });
+  node.height = height + 1;
+}
+
+/**
+ * Marks a listener as the dependency listener of a computed signal,
+ * which is called during the push step instead of being queued.
+ *
+ * @param listener - The listener
+ * @returns The listener
+ */
+export function dependentListener<T extends VoidFunction>(listener: T): T {
+  dependentListeners.add(listener);
+  return listener;
+}
+
+/**
+ * Wraps a signal listener so it runs after the dirty computed signals
+ * recomputed, once per propagation.
+ *
+ * @param listener - The listener
+ * @returns The listener to subscribe
+ */
+export function propagationListener(listener: VoidFunction): VoidFunction {
+  if (dependentListeners.has(listener)) {
+    return listener;
+  }
+  return () => {
+    if (propagating) {
+      // Moved to the end: runs after everything notified before it
+      pendingListeners.delete(listener);
+      pendingListeners.add(listener);
+    } else {
+      listener();
+    }
+  };
+}
+
+/**
+ * Marks a computed signal dirty and queues its recomputation.
+ *
+ * @param node - The computed signal's state
+ */
+export function markDirty(node: PropagationNode): void {
+  if (!node.dirty) {
+    node.dirty = true;
+    (dirtyNodes[node.height] ??= new Set()).add(node);
+  }
+  if (!propagating) {
+    propagate(() => {});
+  }
+}
+
+/**
+ * Runs a function that notifies listeners, then propagates the changes.
+ * Nested calls join the outer propagation.
+ *
+ * @param fn - Function notifying listeners (e.g. emitting a change)
+ * @param deferRecompute - Whether computed signals nobody listens to
+ * recompute in a microtask instead (used by `batch()`)
+ * @returns The result of the function
+ */
+export function propagate<T>(fn: () => T, deferRecompute = false): T {
+  if (propagating) {
+    return fn();
+  }
+
+  propagating = true;
+  try {
+    return fn();
+  } finally {
+    try {
+      drain(deferRecompute);
+    } finally {
+      propagating = false;
+      // Listeners of an aborted propagation are dropped
+      pendingListeners.clear();
+    }
+  }
+}
+
+const takeDirtyNode = (observedOnly: boolean) => {
+  for (const set of dirtyNodes) {
+    if (!set) continue;
+    for (const node of set) {
+      if (!node.dirty) {
+        set.delete(node);
+      } else if (!observedOnly || node.observed()) {
+        set.delete(node);
+        return node;
+      }
+    }
+  }
+  return undefined;
+};
+
+const hasDirtyNodes = () => dirtyNodes.some((set) => set?.size);
+
+const drain = (deferRecompute: boolean) => {
+  for (;;) {
+    const node = takeDirtyNode(deferRecompute);
+    if (node) {
+      node.recompute();
+      continue;
+    }
+
+    const [listener] = pendingListeners;
+    if (!listener) break;
+    pendingListeners.delete(listener);
+    listener();
+  }
+
+  if (deferRecompute && hasDirtyNodes() && !deferredDrainScheduled) {
+    deferredDrainScheduled = true;
+    Promise.resolve().then(() => {
+      deferredDrainScheduled = false;
+      propagate(() => {});
+    });
+  }
+};
@@ -2,11 +2,11 @@ import {
   createContext,
   PropsWithChildren,
   useContext,
-  useLayoutEffect,
   useMemo,
   useRef,
   useState,
 } from "react";
+import { useIsomorphicLayoutEffect } from "./useIsomorphicLayoutEffect";
 import { MutableSignal, Signal } from "./types";
 import { isSignal, signal } from "./signal";
 import { dispatcherToken, getDispatcher, getContextType } from "./dispatcher";
@@ -136,7 +136,7 @@ function ProviderContainer<T>(
     isSignal<T>(prevValueRef.current) ||
     !shallowEquals(props.value, prevValueRef.current);
 
-  useLayoutEffect(() => {
+  useIsomorphicLayoutEffect(() => {
     prevValueRef.current = props.value;
 
     if (isSignal<T>(props.value)) {
@@ -151,7 +151,7 @@ function ProviderContainer<T>(
   });
 
   // Force re-subscription when value changes (only for non-signals)
-  useLayoutEffect(() => {
+  useIsomorphicLayoutEffect(() => {
     if (!isSignal<T>(props.value)) {
       providerInstance.setValue(props.value);
     }
@@ -0,0 +1,305 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, act } from "@testing-library/react";
+import { query } from "./query";
+import { signal } from "./signal";
+import { effect } from "./effect";
+import { blox } from "./blox";
+import { delay } from "./delay";
+
+describe("signal.query", () => {
+  describe("caching and deduplication", () => {
+    it("should return the same async signal for equal keys", () => {
+      const users = query(async (id: number) => ({ id }));
+
+      expect(users(1)).toBe(users(1));
+      expect(users(1)).not.toBe(users(2));
+    });
+
+    it("should compare object keys shallowly by default", () => {
+      const todos = query(async (filter: { done: boolean }) => filter.done);
+
+      expect(todos({ done: true })).toBe(todos({ done: true }));
+    });
+
+    it("should fetch once for concurrent consumers of the same key", async () => {
+      const fetcher = vi.fn(async (id: number) => {
+        await delay(10);
+        return `user ${id}`;
+      });
+      const users = query(fetcher);
+      const [a, b, c] = [users(1), users(1), users(1)];
+
+      a();
+      b();
+      c();
+      await delay(20);
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(a().value).toBe("user 1");
+    });
+
+    it("should not fetch until the signal is read", () => {
+      const fetcher = vi.fn(async () => "data");
+      const data = query(fetcher);
+
+      data();
+      expect(fetcher).not.toHaveBeenCalled();
+    });
+
+    it("should return loadables", async () => {
+      const users = query(async (id: number) => {
+        await delay(5);
+        if (id < 0) throw new Error("invalid id");
+        return id;
+      });
+
+      const valid = users(1);
+      const invalid = users(-1);
+
+      expect(valid().status).toBe("loading");
+      expect(invalid().status).toBe("loading");
+      await delay(20);
+
+      expect(valid()).toMatchObject({ status: "success", value: 1 });
+      expect(invalid()).toMatchObject({ status: "error" });
+      expect(invalid().error).toEqual(new Error("invalid id"));
+    });
+  });
+
+  describe("staleTime", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should serve fresh data without refetching", async () => {
+      const fetcher = vi.fn(async () => "data");
+      const data = query(fetcher, { staleTime: 1000 });
+
+      data()();
+      await vi.advanceTimersByTimeAsync(0);
+
+      data()();
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it("should refetch stale data when requested", async () => {
+      const fetcher = vi.fn(async () => "data");
+      const data = query(fetcher, { staleTime: 1000 });
+
+      data()();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      data();
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not refetch while a request is in flight", async () => {
+      const fetcher = vi.fn(async () => {
+        await delay(100);
+        return "data";
+      });
+      const data = query(fetcher);
+
+      data()();
+      data();
+      data();
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not refetch when requested inside reactive scopes", async () => {
+      const fetcher = vi.fn(async () => "data");
+      const data = query(fetcher);
+      const statuses: string[] = [];
+
+      effect(() => {
+        statuses.push(data()().status);
+      });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(statuses).toEqual(["loading", "success"]);
+    });
+  });
+
+  describe("invalidate", () => {
+    it("should refetch an invalidated key", async () => {
+      let version = 0;
+      const users = query(async (id: number) => `user ${id} v${++version}`, {
+        staleTime: Infinity,
+      });
+
+      users(1)();
+      await delay(0);
+      expect(users(1)().value).toBe("user 1 v1");
+
+      users.invalidate(1);
+      expect(users(1)().status).toBe("loading");
+      await delay(0);
+      expect(users(1)().value).toBe("user 1 v2");
+    });
+
+    it("should abort the request in flight", async () => {
+      const aborted = vi.fn();
+      const data = query(
+        async (_: void, { abortSignal }) => {
+          abortSignal.addEventListener("abort", aborted);
+          await delay(10);
+          return "data";
+        },
+        { staleTime: Infinity }
+      );
+
+      data()();
+      data.invalidate();
+
+      expect(aborted).toHaveBeenCalledTimes(1);
+    });
+
+    it("should invalidate by predicate", async () => {
+      const fetcher = vi.fn(async (id: number) => id);
+      const users = query(fetcher, { staleTime: Infinity });
+
+      [1, 2, 3].forEach((id) => users(id)());
+      await delay(0);
+      fetcher.mockClear();
+
+      users.invalidate((id) => id > 1);
+
+      expect(fetcher.mock.calls.map(([id]) => id)).toEqual([2, 3]);
+    });
+
+    it("should invalidate all entries", async () => {
+      const fetcher = vi.fn(async (id: number) => id);
+      const users = query(fetcher, { staleTime: Infinity });
+
+      [1, 2].forEach((id) => users(id)());
+      await delay(0);
+      fetcher.mockClear();
+
+      users.invalidate();
+
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not fetch entries that were never read", () => {
+      const fetcher = vi.fn(async (id: number) => id);
+      const users = query(fetcher);
+
+      users(1);
+      users.invalidate(1);
+
+      expect(fetcher).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("refetchOn", () => {
+    it("should refetch stale entries on window focus", async () => {
+      const fetcher = vi.fn(async () => "data");
+      const data = query(fetcher, { refetchOn: ["focus"] });
+
+      data()();
+      await delay(0);
+
+      window.dispatchEvent(new Event("focus"));
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it("should refetch stale entries when going back online", async () => {
+      const fetcher = vi.fn(async () => "data");
+      const data = query(fetcher, { refetchOn: ["reconnect"] });
+
+      data()();
+      await delay(0);
+
+      window.dispatchEvent(new Event("online"));
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it("should refetch stale entries when a subscribable changes", async () => {
+      const token = signal("a");
+      const fetcher = vi.fn(async () => "data");
+      const data = query(fetcher, { refetchOn: [token] });
+
+      data()();
+      await delay(0);
+
+      token.set("b");
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not refetch fresh entries", async () => {
+      const token = signal(0);
+      const fetcher = vi.fn(async () => "data");
+      const data = query(fetcher, { staleTime: Infinity, refetchOn: [token] });
+
+      data()();
+      await delay(0);
+
+      token.set(1);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("cacheTime", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should keep entries for cacheTime after the last user unmounts", async () => {
+      const fetcher = vi.fn(async (id: number) => id);
+      const users = query(fetcher, { staleTime: Infinity, cacheTime: 1000 });
+
+      const User = blox(() => {
+        const user = users(1);
+        return <div>{String(user().value)}</div>;
+      });
+
+      const { unmount } = render(<User />);
+      await act(() => vi.advanceTimersByTimeAsync(0));
+      act(() => unmount());
+
+      // Within cacheTime - reuses the cached entry
+      await vi.advanceTimersByTimeAsync(500);
+      expect(users(1)().value).toBe(1);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it("should dispose entries after cacheTime", async () => {
+      const focusRefetch = vi.fn(async (id: number) => id);
+      const users = query(focusRefetch, {
+        cacheTime: 1000,
+        refetchOn: ["focus"],
+      });
+
+      const User = blox(() => {
+        const user = users(1);
+        return <div>{String(user().value)}</div>;
+      });
+
+      const { unmount } = render(<User />);
+      await act(() => vi.advanceTimersByTimeAsync(0));
+      act(() => unmount());
+      await vi.advanceTimersByTimeAsync(1000);
+
+      // Disposed entries no longer listen to triggers
+      focusRefetch.mockClear();
+      window.dispatchEvent(new Event("focus"));
+      expect(focusRefetch).not.toHaveBeenCalled();
+
+      // A new entry is created on next access
+      const first = users(1);
+      first();
+      expect(focusRefetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
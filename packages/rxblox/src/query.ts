@@ -0,0 +1,314 @@
+import {
+  asyncSignal,
+  type AsyncSignal,
+  type AsyncSignalContext,
+} from "./asyncSignal";
+import { getDispatcher } from "./dispatcher";
+import { disposableToken } from "./disposableDispatcher";
+import { isPromiseLike } from "./isPromiseLike";
+import { pool, type PoolOptions } from "./pool";
+import type { RetryOptions } from "./retry";
+import { signal } from "./signal";
+import { trackingToken } from "./trackingDispatcher";
+import type { Subscribable } from "./types";
+import { shallowEquals } from "./utils/shallowEquals";
+
+/**
+ * Event that makes a query refetch its stale entries.
+ *
+ * - `"focus"`: The window regains focus
+ * - `"reconnect"`: The browser goes back online
+ * - `Subscribable`: Any signal/emitter-like source with an `on()` method
+ */
+export type QueryRefetchTrigger = "focus" | "reconnect" | Subscribable;
+
+/**
+ * Options for configuring a query.
+ */
+export type QueryOptions<K> = {
+  /**
+   * Name used for the async signal of each entry (useful for debugging).
+   */
+  name?: string;
+
+  /**
+   * Time in milliseconds after a successful fetch during which the data is
+   * considered fresh. Fresh entries are never refetched by access or triggers.
+   * @default 0 (always stale)
+   */
+  staleTime?: number;
+
+  /**
+   * Time in milliseconds an entry stays cached after its last blox/effect
+   * user is gone. Accessing it again within this window reuses the cached
+   * data. Use `Infinity` to keep entries forever.
+   * @default 300000 (5 minutes)
+   */
+  cacheTime?: number;
+
+  /**
+   * Custom equality function for key comparison.
+   * @default shallowEquals
+   */
+  equals?: PoolOptions<K>["equals"];
+
+  /**
+   * Events that refetch stale entries which have already been fetched.
+   * @default []
+   */
+  refetchOn?: readonly QueryRefetchTrigger[];
+
+  /**
+   * Retry policy (or number of retries) for failed fetches.
+   * @see AsyncSignalOptions.retry
+   */
+  retry?: RetryOptions | number;
+};
+
+/**
+ * Function that fetches the data for a query key.
+ *
+ * @param key - The query key
+ * @param context - Async signal context (abortSignal, track)
+ */
+export type QueryFunction<K, T> = (
+  key: K,
+  context: AsyncSignalContext
+) => PromiseLike<T> | T;
+
+/**
+ * A keyed query created by `signal.query()`.
+ *
+ * Calling it returns the cached async signal for a key, creating it on the
+ * first call. All callers of the same key share the same signal, so the
+ * fetcher runs once per key no matter how many consumers read it.
+ */
+export type Query<K, T> = {
+  /**
+   * Get the async signal for the given key.
+   * Stale entries are refetched when requested outside reactive scopes.
+   */
+  (...args: void extends K ? [] : [key: K]): AsyncSignal<T>;
+
+  /**
+   * Mark all cached entries as stale and refetch the ones already fetched.
+   */
+  invalidate(): void;
+
+  /**
+   * Mark the entry for the given key as stale and refetch it if it was
+   * already fetched.
+   * @param key - The query key
+   */
+  invalidate(key: K): void;
+
+  /**
+   * Mark all entries whose key matches the predicate as stale and refetch
+   * the ones already fetched.
+   * @param predicate - Function that selects the keys to invalidate
+   */
+  invalidate(predicate: (key: K) => boolean): void;
+};
+
+/**
+ * Internal state of a cached query entry.
+ */
+type QueryEntry<K, T> = {
+  key: K;
+  result: AsyncSignal<T>;
+  isStale(): boolean;
+  refetch(force: boolean): void;
+};
+
+/**
+ * Subscribes to a refetch trigger.
+ *
+ * @returns Unsubscribe function
+ */
+function subscribeTrigger(
+  trigger: QueryRefetchTrigger,
+  listener: VoidFunction
+): VoidFunction {
+  if (typeof trigger === "string") {
+    if (typeof window === "undefined") {
+      return () => {};
+    }
+
+    const eventName = trigger === "focus" ? "focus" : "online";
+    window.addEventListener(eventName, listener);
+    return () => window.removeEventListener(eventName, listener);
+  }
+
+  return trigger.on(listener);
+}
+
+/**
+ * Creates a keyed query cache on top of `signal.async()` and `pool()`.
+ *
+ * Each key gets its own async signal returning `Loadable<T>`:
+ * - **Deduplication**: Consumers of the same key share one signal, and stale
+ *   refetches are skipped while a request for that key is in flight
+ * - **staleTime**: Fresh data is served from the cache without refetching
+ * - **cacheTime**: Unused entries are kept for a grace period, then disposed
+ * - **invalidate**: Marks entries stale by key, predicate, or all at once
+ * - **refetchOn**: Refetches stale entries on focus, reconnect, or any
+ *   subscribable (e.g. a signal)
+ *
+ * Stale entries are also refetched when `query(key)` is called outside
+ * reactive scopes (e.g. in blox setup or event handlers). Calls inside
+ * computed signals/effects never refetch, so they can't cause fetch loops.
+ *
+ * @param fn - Fetcher receiving the key and the async signal context
+ * @param options - Configuration options
+ * @returns A query function with `.invalidate()`
+ *
+ * @example
+ * ```ts
+ * const userQuery = signal.query(
+ *   async (id: number, { abortSignal }) => {
+ *     const res = await fetch(`/api/users/${id}`, { signal: abortSignal });
+ *     return res.json() as Promise<User>;
+ *   },
+ *   { staleTime: 30_000, refetchOn: ["focus", "reconnect"] }
+ * );
+ *
+ * const Profile = blox<{ id: number }>((props) => {
+ *   const user = userQuery(props.id); // Shared with every other consumer of this id
+ *   return rx(() => {
+ *     const l = user();
+ *     return l.status === "success" ? <h1>{l.value.name}</h1> : <Spinner />;
+ *   });
+ * });
+ *
+ * // After a mutation
+ * userQuery.invalidate(1);
+ * userQuery.invalidate((id) => id > 100);
+ * userQuery.invalidate(); // Everything
+ * ```
+ */
+export function query<K = void, T = unknown>(
+  fn: QueryFunction<K, T>,
+  options: QueryOptions<K> = {}
+): Query<K, T> {
+  const {
+    name,
+    staleTime = 0,
+    cacheTime = 5 * 60 * 1000,
+    equals = shallowEquals,
+    refetchOn = [],
+    retry,
+  } = options;
+
+  // Live entries, used for invalidation by predicate and refetch triggers
+  const entries = new Set<QueryEntry<K, T>>();
+
+  const createEntry = (key: K): QueryEntry<K, T> => {
+    // Bumped to force the async signal to re-run the fetcher
+    const refresh = signal(0);
+    let fetching = false;
+    let started = false;
+    let updatedAt: number | undefined;
+
+    const result = asyncSignal<T>(
+      (context) => {
+        refresh();
+        started = true;
+        fetching = true;
+
+        const settle = (succeeded: boolean) => {
+          // Results of aborted requests are ignored by the async signal too
+          if (context.abortSignal.aborted) return;
+          fetching = false;
+          updatedAt = succeeded ? Date.now() : undefined;
+        };
+
+        try {
+          const value = fn(key, context);
+
+          if (isPromiseLike<T>(value)) {
+            value.then(
+              () => settle(true),
+              () => settle(false)
+            );
+          } else {
+            settle(true);
+          }
+
+          return value;
+        } catch (error) {
+          settle(false);
+          throw error;
+        }
+      },
+      { name, retry }
+    );
+
+    const entry: QueryEntry<K, T> = {
+      key,
+      result,
+      isStale() {
+        return updatedAt === undefined || Date.now() - updatedAt >= staleTime;
+      },
+      refetch(force) {
+        // Not fetched yet - the first read will fetch
+        if (!started) return;
+        // Deduplicate with the request in flight
+        if (!force && fetching) return;
+
+        updatedAt = undefined;
+        // Refetching from inside a reactive scope must not subscribe it to refresh
+        trackingToken.without(() => refresh.set((prev) => prev + 1));
+      },
+    };
+
+    const unsubscribes = refetchOn.map((trigger) =>
+      subscribeTrigger(trigger, () => {
+        if (entry.isStale()) {
+          entry.refetch(false);
+        }
+      })
+    );
+
+    entries.add(entry);
+
+    getDispatcher(disposableToken)?.on(() => {
+      entries.delete(entry);
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+    });
+
+    return entry;
+  };
+
+  const getEntry = pool(createEntry, {
+    equals,
+    dispose:
+      cacheTime === Infinity ? "never" : cacheTime > 0 ? cacheTime : "auto",
+  }) as unknown as (key: K) => QueryEntry<K, T>;
+
+  const queryFn = (key: K) => {
+    const entry = getEntry(key);
+
+    // Refetch on request only outside reactive scopes to avoid fetch loops
+    if (!getDispatcher(trackingToken) && entry.isStale()) {
+      entry.refetch(false);
+    }
+
+    return entry.result;
+  };
+
+  const invalidate = (...args: [keyOrPredicate?: K | ((key: K) => boolean)]) => {
+    const [keyOrPredicate] = args;
+    const matches =
+      args.length === 0
+        ? () => true
+        : typeof keyOrPredicate === "function"
+        ? (keyOrPredicate as (key: K) => boolean)
+        : (key: K) => equals(key, keyOrPredicate as K);
+
+    Array.from(entries)
+      .filter((entry) => matches(entry.key))
+      .forEach((entry) => entry.refetch(true));
+  };
+
+  return Object.assign(queryFn, { invalidate }) as Query<K, T>;
+}
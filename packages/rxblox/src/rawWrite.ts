@@ -0,0 +1,38 @@
+import type { MutableSignal } from "./types";
+
+/**
+ * Writes of each signal that skip its middleware and validation.
+ */
+const rawWrites = new WeakMap<object, (value: any) => void>();
+
+/**
+ * Makes the raw write of a signal available to `rawWrite()`.
+ *
+ * @param signal - The signal
+ * @param write - Sets its value without middleware or validation
+ */
+export function registerRawWrite(
+  signal: object,
+  write: (value: any) => void
+): void {
+  rawWrites.set(signal, write);
+}
+
+/**
+ * Sets the value of a signal without running its middleware or validation,
+ * to restore a value it already had (optimistic rollbacks). The value is
+ * still persisted and notified.
+ *
+ * Falls back to `set()` for signals not created by `signal()`.
+ *
+ * @param signal - The signal
+ * @param value - The value to restore
+ */
+export function rawWrite<T>(signal: MutableSignal<T>, value: T): void {
+  const write = rawWrites.get(signal);
+  if (write) {
+    write(value);
+  } else {
+    signal.set(value);
+  }
+}
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { retry } from "./retry";
+import { TimeoutError } from "./wait";
+
+describe("retry", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const failTimes = (times: number, value = "ok") => {
+    let calls = 0;
+    return vi.fn(async () => {
+      calls++;
+      if (calls <= times) throw new Error(`failure ${calls}`);
+      return value;
+    });
+  };
+
+  it("should return sync results synchronously", () => {
+    expect(retry(() => 1, 3)).toBe(1);
+  });
+
+  it("should rethrow sync errors synchronously without retries", () => {
+    expect(() =>
+      retry(() => {
+        throw new Error("boom");
+      }, 0)
+    ).toThrow("boom");
+  });
+
+  it("should retry failed attempts", async () => {
+    const run = failTimes(2);
+    const promise = retry(run, { retries: 2, delay: 100 });
+
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toBe("ok");
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it("should reject with the last error when retries are exhausted", async () => {
+    const run = failTimes(5);
+    const promise = retry(run, { retries: 2, delay: 100 });
+    const assertion = expect(promise).rejects.toThrow("failure 3");
+
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it("should retry sync errors asynchronously", async () => {
+    let calls = 0;
+    const promise = retry(
+      () => {
+        if (++calls === 1) throw new Error("boom");
+        return "ok";
+      },
+      { retries: 1, delay: 10 }
+    );
+
+    await vi.runAllTimersAsync();
+    await expect(promise).resolves.toBe("ok");
+  });
+
+  describe("backoff", () => {
+    const delaysOf = async (options: Parameters<typeof retry>[1]) => {
+      const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+      const promise = retry(failTimes(3), options);
+      await vi.runAllTimersAsync();
+      await promise;
+      return setTimeoutSpy.mock.calls.map(([, ms]) => ms);
+    };
+
+    it("should grow delays exponentially by default", async () => {
+      expect(await delaysOf({ retries: 3, delay: 100 })).toEqual([
+        100, 200, 400,
+      ]);
+    });
+
+    it("should cap delays at maxDelay", async () => {
+      expect(await delaysOf({ retries: 3, delay: 100, maxDelay: 250 })).toEqual(
+        [100, 200, 250]
+      );
+    });
+
+    it("should support fixed delays", async () => {
+      expect(
+        await delaysOf({ retries: 3, delay: 100, backoff: "fixed" })
+      ).toEqual([100, 100, 100]);
+    });
+
+    it("should support custom backoff functions", async () => {
+      expect(
+        await delaysOf({ retries: 3, backoff: (attempt) => attempt * 10 })
+      ).toEqual([10, 20, 30]);
+    });
+
+    it("should randomize delays with jitter", async () => {
+      vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+      expect(
+        await delaysOf({ retries: 3, delay: 100, jitter: true })
+      ).toEqual([50, 100, 200]);
+    });
+  });
+
+  it("should only retry errors accepted by retryIf", async () => {
+    const run = vi.fn(async () => {
+      throw new Error("fatal");
+    });
+    const retryIf = vi.fn(
+      (error: unknown) => (error as Error).message !== "fatal"
+    );
+
+    await expect(retry(run, { retries: 3, retryIf })).rejects.toThrow(
+      "fatal"
+    );
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(retryIf).toHaveBeenCalledWith(expect.any(Error), 1);
+  });
+
+  it("should notify before each retry", async () => {
+    const onRetry = vi.fn();
+    const promise = retry(failTimes(2), { retries: 2, delay: 10 }, { onRetry });
+
+    await vi.runAllTimersAsync();
+    await promise;
+
+    expect(onRetry.mock.calls.map(([error, attempt]) => [error.message, attempt]))
+      .toEqual([
+        ["failure 1", 2],
+        ["failure 2", 3],
+      ]);
+  });
+
+  describe("timeout", () => {
+    it("should fail slow attempts with TimeoutError", async () => {
+      const promise = retry(() => new Promise(() => {}), { timeout: 100 });
+      const assertion = expect(promise).rejects.toBeInstanceOf(TimeoutError);
+
+      await vi.advanceTimersByTimeAsync(100);
+      await assertion;
+    });
+
+    it("should abort the attempt that timed out and retry", async () => {
+      const signals: AbortSignal[] = [];
+      const promise = retry(
+        (abortSignal, attempt) => {
+          signals.push(abortSignal);
+          return attempt === 1 ? new Promise(() => {}) : "ok";
+        },
+        { retries: 1, delay: 10, timeout: 100 }
+      );
+
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toBe("ok");
+      expect(signals[0].aborted).toBe(true);
+      expect(signals[0].reason).toBeInstanceOf(TimeoutError);
+      expect(signals[1].aborted).toBe(false);
+    });
+  });
+
+  describe("abortSignal", () => {
+    it("should abort the pending attempt", () => {
+      const controller = new AbortController();
+      let attemptSignal: AbortSignal | undefined;
+
+      retry(
+        (abortSignal) => {
+          attemptSignal = abortSignal;
+          return new Promise(() => {});
+        },
+        3,
+        { abortSignal: controller.signal }
+      );
+
+      controller.abort();
+      expect(attemptSignal?.aborted).toBe(true);
+    });
+
+    it("should stop retrying when aborted during backoff", async () => {
+      const controller = new AbortController();
+      const run = failTimes(5);
+      const promise = retry(
+        run,
+        { retries: 5, delay: 1000 },
+        { abortSignal: controller.signal }
+      );
+      const assertion = expect(promise).rejects.toBe("cancelled");
+
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort("cancelled");
+
+      await assertion;
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import { isPromiseLike } from "./isPromiseLike";
+import { TimeoutError } from "./wait";
+
+/**
+ * Retry policy shared by `action()`, `action.cancellable()` and `signal.async()`.
+ *
+ * Pass a number as a shorthand for `{ retries: number }`.
+ *
+ * @example
+ * ```ts
+ * // Define once, reuse everywhere
+ * const networkPolicy: RetryOptions = {
+ *   retries: 3,
+ *   delay: 500,
+ *   jitter: true,
+ *   timeout: 10_000,
+ *   retryIf: (error) => !(error instanceof ValidationError),
+ * };
+ *
+ * const saveUser = action(api.saveUser, { retry: networkPolicy });
+ * const user = signal.async(() => api.getUser(), { retry: networkPolicy });
+ * ```
+ */
+export type RetryOptions = {
+  /**
+   * Number of retries after the first failed attempt.
+   * @default 0
+   */
+  retries?: number;
+
+  /**
+   * Base delay in milliseconds before a retry.
+   * @default 1000
+   */
+  delay?: number;
+
+  /**
+   * Upper bound for the computed delay in milliseconds.
+   * @default 30000
+   */
+  maxDelay?: number;
+
+  /**
+   * How the delay grows between retries.
+   *
+   * - `"exponential"`: `delay * 2 ** (attempt - 1)` (1s, 2s, 4s, ...)
+   * - `"fixed"`: Always `delay`
+   * - Function: Custom delay for the failed attempt
+   *
+   * @default "exponential"
+   */
+  backoff?:
+    | "exponential"
+    | "fixed"
+    | ((attempt: number, error: unknown) => number);
+
+  /**
+   * Randomize each delay between 0 and the computed delay ("full jitter"),
+   * so that many clients failing together don't retry in lockstep.
+   * @default false
+   */
+  jitter?: boolean;
+
+  /**
+   * Decides whether a failed attempt should be retried.
+   * @param error - The error of the failed attempt
+   * @param attempt - Number of the failed attempt (1 for the first)
+   * @default retry every error
+   */
+  retryIf?: (error: unknown, attempt: number) => boolean;
+
+  /**
+   * Per-attempt timeout in milliseconds. An attempt that takes longer fails
+   * with `TimeoutError` (and its AbortSignal is aborted), which counts as a
+   * failed attempt.
+   */
+  timeout?: number;
+};
+
+/**
+ * Runtime hooks for a retried operation.
+ */
+export type RetryContext = {
+  /**
+   * Aborts the attempt in progress and stops retrying.
+   */
+  abortSignal?: AbortSignal;
+  /**
+   * Called before a failed attempt is retried.
+   * @param error - The error of the failed attempt
+   * @param attempt - Number of the upcoming attempt (2 for the first retry)
+   */
+  onRetry?: (error: unknown, attempt: number) => void;
+};
+
+/**
+ * Waits for `ms` milliseconds, rejecting early if `abortSignal` is aborted.
+ */
+const sleep = (ms: number, abortSignal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortSignal?.reason);
+    };
+    const timer = setTimeout(() => {
+      abortSignal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    abortSignal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Runs an operation with a retry policy.
+ *
+ * Each attempt receives its own AbortSignal, which is aborted when the
+ * attempt times out or when `context.abortSignal` is aborted. Successful
+ * synchronous first attempts stay synchronous; anything that needs a retry
+ * or a timeout returns a promise.
+ *
+ * @param run - The operation, called once per attempt
+ * @param policy - Retry policy or number of retries
+ * @param context - Abort signal and retry hook
+ * @returns The result of the first successful attempt
+ *
+ * @example
+ * ```ts
+ * const data = await retry(
+ *   (abortSignal) => fetch("/api/data", { signal: abortSignal }),
+ *   { retries: 2, timeout: 5000 }
+ * );
+ * ```
+ */
+export function retry<T>(
+  run: (abortSignal: AbortSignal, attempt: number) => PromiseLike<T> | T,
+  policy: RetryOptions | number,
+  context: RetryContext = {}
+): PromiseLike<T> | T {
+  const {
+    retries = 0,
+    delay = 1000,
+    maxDelay = 30000,
+    backoff = "exponential",
+    jitter = false,
+    retryIf = () => true,
+    timeout,
+  } = typeof policy === "number" ? { retries: policy } : policy;
+  const { abortSignal, onRetry } = context;
+
+  const getDelay = (attempt: number, error: unknown) => {
+    const base =
+      typeof backoff === "function"
+        ? backoff(attempt, error)
+        : backoff === "fixed"
+        ? delay
+        : delay * 2 ** (attempt - 1);
+    const capped = Math.min(base, maxDelay);
+
+    return jitter ? Math.random() * capped : capped;
+  };
+
+  const runAttempt = (attempt: number): PromiseLike<T> | T => {
+    // Per-attempt controller, aborted by the caller's signal or the timeout
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(abortSignal?.reason);
+    abortSignal?.addEventListener("abort", onAbort, { once: true });
+    const release = () => abortSignal?.removeEventListener("abort", onAbort);
+
+    let result: PromiseLike<T> | T;
+    try {
+      result = run(controller.signal, attempt);
+    } catch (error) {
+      release();
+      throw error;
+    }
+
+    if (!isPromiseLike<T>(result)) {
+      release();
+      return result;
+    }
+
+    const pending = result;
+
+    return new Promise<T>((resolve, reject) => {
+      const timer =
+        timeout === undefined
+          ? undefined
+          : setTimeout(() => {
+              const error = new TimeoutError(
+                `Attempt ${attempt} timed out after ${timeout}ms`
+              );
+              controller.abort(error);
+              reject(error);
+            }, timeout);
+
+      const settle = () => {
+        clearTimeout(timer);
+        release();
+      };
+
+      pending.then(
+        (value) => {
+          settle();
+          resolve(value);
+        },
+        (error) => {
+          settle();
+          reject(error);
+        }
+      );
+    });
+  };
+
+  const canRetry = (error: unknown, attempt: number) =>
+    attempt <= retries &&
+    !abortSignal?.aborted &&
+    // Thrown promises (suspense-like waiting) are not failures
+    !isPromiseLike(error) &&
+    retryIf(error, attempt);
+
+  const retryAfter = (error: unknown, attempt: number): Promise<T> => {
+    onRetry?.(error, attempt + 1);
+
+    return sleep(getDelay(attempt, error), abortSignal).then(() =>
+      execute(attempt + 1)
+    );
+  };
+
+  const execute = (attempt: number): PromiseLike<T> | T => {
+    let result: PromiseLike<T> | T;
+    try {
+      result = runAttempt(attempt);
+    } catch (error) {
+      // Errors that won't be retried keep the synchronous behavior
+      if (!canRetry(error, attempt)) throw error;
+      return retryAfter(error, attempt);
+    }
+
+    if (isPromiseLike<T>(result)) {
+      return Promise.resolve(result).then(undefined, (error) => {
+        if (!canRetry(error, attempt)) throw error;
+        return retryAfter(error, attempt);
+      });
+    }
+
+    return result;
+  };
+
+  return execute(1);
+}
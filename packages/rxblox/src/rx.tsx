@@ -5,10 +5,10 @@ import {
   type JSXElementConstructor,
   createElement,
   memo,
-  useLayoutEffect,
   ReactElement,
   useState,
 } from "react";
+import { useIsomorphicLayoutEffect } from "./useIsomorphicLayoutEffect";
 import { trackingDispatcher, trackingToken } from "./trackingDispatcher";
 import { emitter } from "./emitter";
 import { useRerender } from "./useRerender";
@@ -24,6 +24,7 @@ import { isDiff } from "./isDiff";
 import { Loadable, isLoadable } from "./loadable";
 import { wait } from "./wait";
 import { isPromiseLike } from "./isPromiseLike";
+import { completeHydration } from "./ssr";
 
 /**
  * Reactive component that automatically re-renders when its signal dependencies change.
@@ -181,7 +182,8 @@ export const Reactive = memo((props: { exp: () => unknown }) => {
 
   // Subscribe to all tracked signals
   // Re-runs when subscribeToken.current changes (i.e., when dependencies change)
-  useLayoutEffect(() => {
+  useIsomorphicLayoutEffect(() => {
+    completeHydration();
     return ref.subscribe();
   }, [ref.subscribeToken.current]);
 
@@ -0,0 +1,258 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  shared,
+  broadcastSharedTransport,
+  memorySharedTransport,
+  type SharedSignal,
+} from "./shared";
+import { effect } from "./effect";
+import { emitter } from "./emitter";
+import { disposableToken } from "./disposableDispatcher";
+
+const flush = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+describe("signal.shared", () => {
+  const opened: SharedSignal<any>[] = [];
+  let transport: ReturnType<typeof memorySharedTransport>;
+
+  const tab = <T>(
+    initial: T,
+    options: Parameters<typeof shared<T>>[2] = {},
+    name = "value"
+  ) => {
+    const s = shared(name, initial, { transport, ...options });
+    opened.push(s);
+    return s;
+  };
+
+  beforeEach(() => {
+    transport = memorySharedTransport();
+  });
+
+  afterEach(() => {
+    opened.splice(0).forEach((s) => s.close());
+    vi.useRealTimers();
+  });
+
+  describe("sync", () => {
+    it("should send changes to the other instances", async () => {
+      const tab1 = tab(0);
+      const tab2 = tab(0);
+      const tab3 = tab(0);
+      const values: number[] = [];
+      effect(() => {
+        values.push(tab2());
+      });
+
+      tab1.set(1);
+      await flush();
+
+      expect(tab2()).toBe(1);
+      expect(tab3()).toBe(1);
+      expect(values).toEqual([0, 1]);
+    });
+
+    it("should receive the current value when joining", async () => {
+      const tab1 = tab("initial");
+      tab1.set("changed");
+      await flush();
+
+      const tab2 = tab("initial");
+      await flush();
+
+      expect(tab2()).toBe("changed");
+    });
+
+    it("should not sync instances of other names", async () => {
+      const tab1 = tab(0);
+      const other = tab(0, {}, "other");
+
+      tab1.set(1);
+      await flush();
+
+      expect(other()).toBe(0);
+    });
+
+    it("should stop syncing when closed or disposed", async () => {
+      const tab1 = tab(0);
+      const tab2 = tab(0);
+      const onDispose = emitter();
+      const tab3 = disposableToken.with(onDispose, () => tab(0));
+
+      tab2.close();
+      onDispose.emit();
+      tab1.set(1);
+      await flush();
+
+      expect(tab2()).toBe(0);
+      expect(tab3()).toBe(0);
+    });
+  });
+
+  describe("conflicts", () => {
+    it("should keep the most recent value", async () => {
+      vi.useFakeTimers();
+      const tab1 = tab(0);
+      const tab2 = tab(0);
+
+      tab2.set(2);
+      vi.advanceTimersByTime(10);
+      tab1.set(1);
+      await flush();
+
+      expect(tab1()).toBe(1);
+      expect(tab2()).toBe(1);
+    });
+
+    it("should converge on simultaneous changes", async () => {
+      vi.useFakeTimers();
+      const tab1 = tab(0);
+      const tab2 = tab(0);
+
+      tab1.set(1);
+      tab2.set(2);
+      await flush();
+
+      expect(tab1()).toBe(tab2());
+    });
+
+    it("should resolve conflicts with a custom merge", async () => {
+      const merge = (local: { value: string[] }, remote: { value: string[] }) =>
+        Array.from(new Set([...local.value, ...remote.value])).sort();
+      const tab1 = tab<string[]>([], { merge });
+      const tab2 = tab<string[]>([], { merge });
+
+      tab1.set(["a"]);
+      tab2.set(["b"]);
+      await flush();
+
+      expect(tab1()).toEqual(["a", "b"]);
+      expect(tab2()).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("leader election", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    it("should elect the oldest instance", async () => {
+      const tab1 = tab(0);
+      const tab2 = tab(0);
+      const tab3 = tab(0);
+      tab1.leader;
+      tab2.leader;
+      tab3.leader;
+      await flush();
+
+      vi.advanceTimersByTime(1000);
+      await flush();
+
+      expect([tab1.leader(), tab2.leader(), tab3.leader()]).toEqual([
+        true,
+        false,
+        false,
+      ]);
+    });
+
+    it("should hand over the leadership when the leader leaves", async () => {
+      const tab1 = tab(0);
+      const tab2 = tab(0);
+      const run = vi.fn();
+      const cleanup = vi.fn();
+      tab1.lead(() => {
+        run(1);
+        return cleanup;
+      });
+      tab2.lead(() => run(2));
+      await flush();
+      vi.advanceTimersByTime(1000);
+      await flush();
+
+      expect(run.mock.calls).toEqual([[1]]);
+
+      tab1.close();
+      await flush();
+
+      expect(cleanup).toHaveBeenCalledTimes(1);
+      expect(run.mock.calls).toEqual([[1], [2]]);
+    });
+
+    it("should replace a leader that stopped responding", async () => {
+      // A crashed tab cannot say goodbye
+      let crashed = false;
+      const tab1 = tab(0, {
+        heartbeat: 100,
+        transport: (name) => {
+          const connection = transport(name);
+          return {
+            ...connection,
+            post: (message) => !crashed && connection.post(message),
+          };
+        },
+      });
+      const tab2 = tab(0, { heartbeat: 100 });
+      tab1.leader;
+      tab2.leader;
+      await flush();
+      vi.advanceTimersByTime(100);
+      await flush();
+      expect(tab2.leader()).toBe(false);
+
+      crashed = true;
+      for (let i = 0; i < 4; i++) {
+        vi.advanceTimersByTime(100);
+        await flush();
+      }
+
+      expect(tab2.leader()).toBe(true);
+    });
+
+    it("should only elect instances taking part", async () => {
+      const tab1 = tab(0);
+      const tab2 = tab(0);
+      tab2.leader;
+      await flush();
+      vi.advanceTimersByTime(1000);
+      await flush();
+
+      expect(tab2.leader()).toBe(true);
+      expect(tab1.leader()).toBe(false);
+    });
+  });
+
+  describe("broadcast transport", () => {
+    it("should post messages to a BroadcastChannel", () => {
+      const instances: any[] = [];
+      class FakeChannel {
+        posted: unknown[] = [];
+        closed = false;
+        constructor(public name: string) {
+          instances.push(this);
+        }
+        postMessage(message: unknown) {
+          this.posted.push(message);
+        }
+        addEventListener() {}
+        removeEventListener() {}
+        close() {
+          this.closed = true;
+        }
+      }
+      vi.stubGlobal("BroadcastChannel", FakeChannel);
+
+      try {
+        const s = shared("cart", 0, { transport: broadcastSharedTransport });
+        s.close();
+
+        expect(instances[0].name).toBe("rxblox:shared:cart");
+        expect(instances[0].posted[0]).toMatchObject({ type: "sync" });
+        expect(instances[0].closed).toBe(true);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+});
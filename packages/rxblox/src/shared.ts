@@ -0,0 +1,395 @@
+import { signal as createSignal, type SignalOptions } from "./signal";
+import { getDispatcher } from "./dispatcher";
+import { disposableToken } from "./disposableDispatcher";
+import { intercepted, unintercepted } from "./middleware";
+import type { MutableSignal, Signal } from "./types";
+
+/**
+ * Value of a shared signal with the time it was set.
+ *
+ * @template T - The type of the value
+ */
+export type SharedState<T> = {
+  value: T;
+  /** When the value was set (ms), 0 for the initial value */
+  timestamp: number;
+};
+
+/**
+ * Message exchanged by the instances of a shared signal.
+ */
+export type SharedMessage =
+  /** Asks the other instances for their value */
+  | { type: "sync"; source: string }
+  /** Value set by an instance */
+  | { type: "state"; source: string; value: unknown; timestamp: number }
+  /** Leader election: an instance joins, is alive, or leaves */
+  | { type: "hello" | "here" | "bye"; source: string };
+
+/**
+ * Connection between the instances of a shared signal, in the
+ * `BroadcastChannel` style: a posted message is received by every other
+ * instance, not by the sender.
+ */
+export type SharedTransport = {
+  post(message: SharedMessage): void;
+  subscribe(listener: (message: SharedMessage) => void): VoidFunction;
+  close?(): void;
+};
+
+/**
+ * Options of `signal.shared()`.
+ *
+ * @template T - The type of the value
+ */
+export type SharedOptions<T> = Pick<SignalOptions<T>, "name" | "equals"> & {
+  /**
+   * Creates the transport of a shared signal from its name.
+   * @default signal.shared.broadcast (BroadcastChannel)
+   */
+  transport?: (name: string) => SharedTransport;
+  /**
+   * Resolves a value received from another instance with the local one.
+   * The result is sent back to the other instances if it differs from
+   * the received value.
+   * @default the most recent value wins
+   */
+  merge?: (local: SharedState<T>, remote: SharedState<T>) => T;
+  /**
+   * Interval of the leader election heartbeat (ms). An instance that is
+   * silent for 3 intervals is considered gone.
+   * @default 1000
+   */
+  heartbeat?: number;
+};
+
+/**
+ * Signal kept in sync across tabs, windows and workers, returned by
+ * `signal.shared()`.
+ *
+ * @template T - The type of the value
+ */
+export type SharedSignal<T> = MutableSignal<T> & {
+  /**
+   * True while this instance is the leader: the oldest instance that
+   * joined the election. Reading it joins the election.
+   */
+  readonly leader: Signal<boolean>;
+  /**
+   * Runs a side effect while this instance is the leader (joins the
+   * election). The effect is cleaned up when the instance loses the
+   * leadership.
+   *
+   * @param fn - The side effect, optionally returning a cleanup function
+   * @returns A function stopping the side effect
+   */
+  lead(fn: () => void | VoidFunction): VoidFunction;
+  /** Stops syncing (and leaves the election) */
+  close(): void;
+};
+
+let nextInstance = 0;
+
+/** Ids sort by creation time: the oldest instance leads */
+const createId = () =>
+  Date.now().toString(36).padStart(9, "0") +
+  (nextInstance++).toString(36).padStart(4, "0") +
+  Math.random().toString(36).slice(2, 8);
+
+/**
+ * Creates a signal kept in sync across tabs, windows and workers.
+ *
+ * Instances of the same name exchange their values: a new instance
+ * receives the current value from the others, and every change is sent
+ * to the others. Conflicting changes are resolved by timestamp (the most
+ * recent value wins) or by a custom `merge`.
+ *
+ * Instances can elect a leader to run side effects once (polling, sockets,
+ * notifications): see `leader` and `lead()`.
+ *
+ * Values must be structured-cloneable with the default transport.
+ *
+ * @param name - Name of the shared value, the same in every instance
+ * @param initial - Initial value, until a value is received
+ * @param options - Configuration options
+ * @returns The shared signal
+ *
+ * @example
+ * ```ts
+ * const cart = signal.shared("cart", [] as Item[]);
+ *
+ * cart.set((items) => [...items, item]); // Updates every tab
+ *
+ * // Only one tab polls
+ * cart.lead(() => {
+ *   const id = setInterval(refreshPrices, 60_000);
+ *   return () => clearInterval(id);
+ * });
+ * ```
+ *
+ * @example
+ * ```ts
+ * // Merge concurrent changes instead of keeping the latest
+ * const seen = signal.shared("seen", [] as string[], {
+ *   merge: (local, remote) => [
+ *     ...new Set([...local.value, ...remote.value]),
+ *   ],
+ * });
+ * ```
+ */
+export function shared<T>(
+  name: string,
+  initial: T,
+  options: SharedOptions<T> = {}
+): SharedSignal<T> {
+  const {
+    transport: createTransport = broadcastSharedTransport,
+    merge,
+    heartbeat = 1000,
+  } = options;
+  const equals = options.equals ?? Object.is;
+  const id = createId();
+  const transport = createTransport(name);
+  const value = intercepted(() =>
+    createSignal(initial, {
+      name: options.name ?? name,
+      equals: options.equals,
+    })
+  );
+  const leader = createSignal(false);
+
+  // Time and author of the local value, to order conflicting changes
+  let timestamp = 0;
+  let author = id;
+  let receiving = false;
+  let closed = false;
+
+  const post = (message: SharedMessage) => {
+    if (!closed) transport.post(message);
+  };
+
+  const postState = () =>
+    post({ type: "state", source: id, value: value.peek(), timestamp });
+
+  const isNewer = (remoteTimestamp: number, source: string) =>
+    remoteTimestamp > timestamp ||
+    (remoteTimestamp === timestamp && source > author);
+
+  const receive = (remote: SharedState<T>, source: string) => {
+    let next = remote.value;
+
+    if (merge) {
+      next = merge({ value: value.peek(), timestamp }, remote);
+    } else if (!isNewer(remote.timestamp, source)) {
+      return;
+    }
+
+    timestamp = Math.max(timestamp, remote.timestamp);
+    author = source;
+    receiving = true;
+    try {
+      // Already written by the other instance
+      unintercepted(() => value.set(next));
+    } finally {
+      receiving = false;
+    }
+
+    // The others need the merged value
+    if (merge && !equals(next, remote.value)) {
+      timestamp = Math.max(Date.now(), timestamp + 1);
+      author = id;
+      postState();
+    }
+  };
+
+  const unsubscribeValue = value.on(() => {
+    if (receiving) return;
+    timestamp = Math.max(Date.now(), timestamp + 1);
+    author = id;
+    postState();
+  });
+
+  // Leader election: instances announce themselves, and the oldest one
+  // heard from during the last 3 heartbeats leads
+  const peers = new Map<string, number>();
+  let electing = false;
+  let ready = false;
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const elect = () => {
+    if (!ready || closed) return;
+    const now = Date.now();
+    peers.forEach((seen, peer) => {
+      if (now - seen > heartbeat * 3) peers.delete(peer);
+    });
+    leader.set(Array.from(peers.keys()).every((peer) => peer > id));
+  };
+
+  const join = () => {
+    if (electing || closed) return;
+    electing = true;
+    post({ type: "hello", source: id });
+    // Wait for the other instances before claiming the leadership
+    timer = setInterval(() => {
+      ready = true;
+      post({ type: "here", source: id });
+      elect();
+    }, heartbeat);
+  };
+
+  const unsubscribeTransport = transport.subscribe((message) => {
+    if (closed || message.source === id) return;
+
+    switch (message.type) {
+      case "sync":
+        if (timestamp) postState();
+        return;
+      case "state":
+        receive(
+          { value: message.value as T, timestamp: message.timestamp },
+          message.source
+        );
+        return;
+    }
+
+    if (!electing) return;
+    if (message.type === "bye") {
+      peers.delete(message.source);
+    } else {
+      peers.set(message.source, Date.now());
+      if (message.type === "hello") post({ type: "here", source: id });
+    }
+    elect();
+  });
+
+  post({ type: "sync", source: id });
+
+  const close = () => {
+    if (closed) return;
+    if (electing) post({ type: "bye", source: id });
+    closed = true;
+    clearInterval(timer);
+    unsubscribeValue();
+    unsubscribeTransport();
+    transport.close?.();
+    leader.set(false);
+  };
+
+  getDispatcher(disposableToken)?.on(close);
+
+  const s = Object.assign(value, {
+    lead(fn: () => void | VoidFunction) {
+      join();
+      let active = false;
+      let cleanup: void | VoidFunction;
+
+      const update = () => {
+        if (leader.peek() === active) return;
+        active = leader.peek();
+        if (active) {
+          cleanup = fn();
+        } else {
+          cleanup?.();
+          cleanup = undefined;
+        }
+      };
+
+      update();
+      const unsubscribe = leader.on(update);
+      return () => {
+        unsubscribe();
+        if (active) cleanup?.();
+        active = false;
+        cleanup = undefined;
+      };
+    },
+    close,
+  });
+
+  Object.defineProperty(s, "leader", {
+    get() {
+      join();
+      return leader.readonly;
+    },
+  });
+
+  return s as SharedSignal<T>;
+}
+
+/**
+ * Creates a transport over a `BroadcastChannel` (same origin tabs,
+ * windows, iframes and workers). Without `BroadcastChannel`, like during
+ * server-side rendering, the signal is not synced.
+ *
+ * @param name - Name of the shared signal
+ * @returns The transport
+ */
+export function broadcastSharedTransport(name: string): SharedTransport {
+  if (typeof BroadcastChannel === "undefined") {
+    return { post() {}, subscribe: () => () => {} };
+  }
+
+  const channel = new BroadcastChannel(`rxblox:shared:${name}`);
+
+  return {
+    post: (message) => channel.postMessage(message),
+    subscribe(listener) {
+      const handler = (event: MessageEvent) => listener(event.data);
+      channel.addEventListener("message", handler);
+      return () => channel.removeEventListener("message", handler);
+    },
+    close: () => channel.close(),
+  };
+}
+
+/**
+ * Creates an in-process transport: every `signal.shared()` using it acts
+ * like an instance in another tab. Messages are delivered asynchronously,
+ * like with `BroadcastChannel`. Useful for tests.
+ *
+ * @returns The transport factory, to pass as `transport` option
+ *
+ * @example
+ * ```ts
+ * const transport = signal.shared.memory();
+ * const tab1 = signal.shared("count", 0, { transport });
+ * const tab2 = signal.shared("count", 0, { transport });
+ *
+ * tab1.set(1);
+ * await Promise.resolve();
+ * tab2(); // 1
+ * ```
+ */
+export function memorySharedTransport(): (name: string) => SharedTransport {
+  const channels = new Map<string, Set<(message: SharedMessage) => void>>();
+
+  return (name) => {
+    let endpoints = channels.get(name);
+    if (!endpoints) {
+      endpoints = new Set();
+      channels.set(name, endpoints);
+    }
+    const members = endpoints;
+    const listeners = new Set<(message: SharedMessage) => void>();
+    const deliver = (message: SharedMessage) =>
+      listeners.forEach((listener) => listener(message));
+    members.add(deliver);
+
+    return {
+      post(message) {
+        const targets = Array.from(members).filter((e) => e !== deliver);
+        Promise.resolve().then(() =>
+          targets.forEach((target) => target(message))
+        );
+      },
+      subscribe(listener) {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      close() {
+        members.delete(deliver);
+        listeners.clear();
+      },
+    };
+  };
+}
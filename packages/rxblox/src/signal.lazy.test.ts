@@ -0,0 +1,246 @@
+import { describe, it, expect, vi } from "vitest";
+import { signal } from "./signal";
+import { effect } from "./effect";
+import { batch } from "./batch";
+import { emitter } from "./emitter";
+import { inspect } from "./inspect";
+import { disposableToken } from "./disposableDispatcher";
+
+describe("signal lazy option", () => {
+  const subscribers = (s: Parameters<typeof inspect>[0]) =>
+    inspect(s).subscribers;
+
+  describe("subscriptions", () => {
+    it("should release dependencies when the last listener leaves", async () => {
+      const count = signal(1);
+      const doubled = signal(() => count() * 2, { lazy: true });
+
+      const unsubscribe1 = doubled.on(() => {});
+      const unsubscribe2 = doubled.on(() => {});
+      expect(subscribers(count)).toBe(1);
+
+      unsubscribe1();
+      expect(subscribers(count)).toBe(1);
+
+      unsubscribe2();
+      expect(subscribers(count)).toBe(1);
+
+      await Promise.resolve();
+      expect(subscribers(count)).toBe(0);
+      expect(inspect(count).dependents).toEqual([]);
+    });
+
+    it("should release dependencies after a read without listeners", async () => {
+      const count = signal(1);
+      const doubled = signal(() => count() * 2, { lazy: true });
+
+      expect(doubled()).toBe(2);
+      expect(subscribers(count)).toBe(1);
+
+      await Promise.resolve();
+
+      expect(subscribers(count)).toBe(0);
+    });
+
+    it("should keep dependencies of non-lazy computed signals", async () => {
+      const count = signal(1);
+      const doubled = signal(() => count() * 2);
+      doubled.on(() => {})();
+      doubled();
+
+      await Promise.resolve();
+
+      expect(subscribers(count)).toBe(1);
+    });
+
+    it("should release dependency chains", async () => {
+      const count = signal(1);
+      const doubled = signal(() => count() * 2, { lazy: true });
+      const quadrupled = signal(() => doubled() * 2, { lazy: true });
+
+      const unsubscribe = quadrupled.on(() => {});
+      expect(subscribers(count)).toBe(1);
+      expect(subscribers(doubled)).toBe(1);
+
+      unsubscribe();
+      await Promise.resolve();
+
+      expect(subscribers(doubled)).toBe(0);
+      expect(subscribers(count)).toBe(0);
+    });
+
+    it("should release when the effect reading it is disposed", async () => {
+      const count = signal(1);
+      const doubled = signal(() => count() * 2, { lazy: true });
+      const onDispose = emitter();
+      const values: number[] = [];
+      disposableToken.with(onDispose, () =>
+        effect(() => {
+          values.push(doubled());
+        }),
+      );
+
+      count.set(2);
+      onDispose.emit();
+      await Promise.resolve();
+      count.set(3);
+
+      expect(values).toEqual([2, 4]);
+      expect(subscribers(doubled)).toBe(0);
+      expect(subscribers(count)).toBe(0);
+    });
+
+    it("should run the cleanup of the computation on release", async () => {
+      const count = signal(1);
+      let aborted = false;
+      const doubled = signal(
+        ({ abortSignal }) => {
+          abortSignal.addEventListener("abort", () => (aborted = true));
+          return count() * 2;
+        },
+        { lazy: true },
+      );
+
+      doubled.on(() => {})();
+      await Promise.resolve();
+
+      expect(aborted).toBe(true);
+    });
+  });
+
+  describe("values", () => {
+    it("should recompute on the next read after release", async () => {
+      const count = signal(1);
+      const compute = vi.fn(() => count() * 2);
+      const doubled = signal(compute, { lazy: true });
+      doubled.on(() => {})();
+      await Promise.resolve();
+
+      count.set(5);
+      expect(compute).toHaveBeenCalledTimes(1);
+
+      expect(doubled()).toBe(10);
+      expect(compute).toHaveBeenCalledTimes(2);
+    });
+
+    it("should cache values while observed", () => {
+      const count = signal(1);
+      const compute = vi.fn(() => count() * 2);
+      const doubled = signal(compute, { lazy: true });
+      doubled.on(() => {});
+
+      doubled();
+      doubled();
+      doubled.peek();
+
+      expect(compute).toHaveBeenCalledTimes(1);
+    });
+
+    it("should notify listeners added after a release", () => {
+      const count = signal(1);
+      const doubled = signal(() => count() * 2, { lazy: true });
+      doubled.on(() => {})();
+      count.set(2);
+      const listener = vi.fn();
+
+      doubled.on(listener);
+      count.set(3);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(doubled()).toBe(6);
+    });
+
+    it("should keep the cache while dependents run again", () => {
+      const count = signal(1);
+      const other = signal(0);
+      const compute = vi.fn(() => count() * 2);
+      const doubled = signal(compute, { lazy: true });
+      effect(() => {
+        other();
+        doubled();
+      });
+
+      other.set(1);
+      other.set(2);
+      other.set(3);
+
+      expect(compute).toHaveBeenCalledTimes(1);
+      expect(subscribers(count)).toBe(1);
+    });
+
+    it("should work within batches", () => {
+      const a = signal(1);
+      const b = signal(2);
+      const sum = signal(() => a() + b(), { lazy: true });
+      const values: number[] = [];
+      effect(() => {
+        values.push(sum());
+      });
+
+      batch(() => {
+        a.set(10);
+        b.set(20);
+      });
+
+      expect(values).toEqual([3, 30]);
+    });
+
+    it("should ignore the option for signals with a value", async () => {
+      const count = signal(1, { lazy: true });
+      count.on(() => {})();
+      await Promise.resolve();
+
+      expect(count()).toBe(1);
+    });
+  });
+
+  describe("leaks", () => {
+    it("should not leak listeners of transient computed signals", async () => {
+      const source = signal(0);
+
+      for (let i = 0; i < 1000; i++) {
+        const transient = signal(() => source() + i, { lazy: true });
+        transient();
+      }
+      for (let i = 0; i < 1000; i++) {
+        const transient = signal(() => source() + i, { lazy: true });
+        transient.on(() => {})();
+      }
+      await Promise.resolve();
+
+      expect(subscribers(source)).toBe(0);
+      expect(inspect(source).dependents).toEqual([]);
+    });
+
+    it("should not leak listeners of transient computed chains", async () => {
+      const source = signal(0);
+
+      for (let i = 0; i < 100; i++) {
+        const first = signal(() => source() + 1, { lazy: true });
+        const second = signal(() => first() + 1, { lazy: true });
+        const onDispose = emitter();
+        disposableToken.with(onDispose, () =>
+          effect(() => {
+            second();
+          }),
+        );
+        source.set(i);
+        onDispose.emit();
+      }
+      await Promise.resolve();
+
+      expect(subscribers(source)).toBe(0);
+    });
+
+    it("should leak listeners without the option", async () => {
+      const source = signal(0);
+
+      for (let i = 0; i < 10; i++) {
+        signal(() => source() + i)();
+      }
+      await Promise.resolve();
+
+      expect(subscribers(source)).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from "vitest";
+import { signal } from "./signal";
+import { effect } from "./effect";
+import type { SignalPatches } from "./types";
+
+type Todo = { text: string; done: boolean };
+
+const todos = () =>
+  signal<Todo[]>([
+    { text: "a", done: false },
+    { text: "b", done: false },
+  ]);
+
+describe("signal mutate", () => {
+  describe("mutate", () => {
+    it("should update the value with structural sharing", () => {
+      const list = todos();
+      const before = list();
+
+      list.mutate((draft) => {
+        draft[0].done = true;
+      });
+
+      expect(list()[0]).toEqual({ text: "a", done: true });
+      expect(list()[1]).toBe(before[1]);
+      expect(before[0].done).toBe(false);
+    });
+
+    it("should return the patches and inverse patches", () => {
+      const list = todos();
+
+      const result = list.mutate((draft) => {
+        draft[0].done = true;
+        draft.push({ text: "c", done: false });
+      });
+
+      expect(result).toEqual({
+        patches: [
+          { op: "replace", path: [0, "done"], value: true },
+          { op: "add", path: [2], value: { text: "c", done: false } },
+        ],
+        inversePatches: [
+          { op: "replace", path: [0, "done"], value: false },
+          { op: "remove", path: [2] },
+        ],
+      });
+    });
+
+    it("should return empty patches and not notify without changes", () => {
+      const list = todos();
+      const listener = vi.fn();
+      list.on(listener);
+
+      expect(list.mutate(() => {})).toEqual({
+        patches: [],
+        inversePatches: [],
+      });
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should notify dependents", () => {
+      const list = todos();
+      const values: number[] = [];
+      effect(() => {
+        values.push(list().filter((todo) => todo.done).length);
+      });
+
+      list.mutate((draft) => {
+        draft[1].done = true;
+      });
+
+      expect(values).toEqual([0, 1]);
+    });
+  });
+
+  describe("patch", () => {
+    it("should undo and redo changes", () => {
+      const list = todos();
+      const initial = list();
+
+      const { patches, inversePatches } = list.mutate((draft) => {
+        draft[0].text = "changed";
+        draft.splice(1, 1);
+      });
+      const changed = list();
+
+      list.patch(inversePatches);
+      expect(list()).toEqual(initial);
+
+      list.patch(patches);
+      expect(list()).toEqual(changed);
+    });
+
+    it("should replace the whole value", () => {
+      const count = signal(1);
+
+      const result = count.patch([{ op: "replace", path: [], value: 2 }]);
+
+      expect(count()).toBe(2);
+      expect(result.inversePatches).toEqual([
+        { op: "replace", path: [], value: 1 },
+      ]);
+    });
+  });
+
+  describe("onPatch", () => {
+    it("should report the patches of every change", () => {
+      const list = todos();
+      const reported: SignalPatches[] = [];
+      list.onPatch((patches) => reported.push(patches));
+
+      list.set((draft) => {
+        draft[0].done = true;
+      });
+      list.set([]);
+      list.reset();
+
+      expect(reported.map(({ patches }) => patches)).toEqual([
+        [{ op: "replace", path: [0, "done"], value: true }],
+        [{ op: "replace", path: [], value: [] }],
+        [{ op: "replace", path: [], value: todos()() }],
+      ]);
+    });
+
+    it("should stop reporting after unsubscribing", () => {
+      const count = signal(0);
+      const listener = vi.fn();
+
+      count.onPatch(listener)();
+      count.set(1);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,4 +1,11 @@
-import { produce } from "immer";
+import {
+  applyPatches,
+  enablePatches,
+  produce,
+  produceWithPatches,
+  type Draft,
+  type Patch,
+} from "immer";
 import type {
   MutableSignal,
   PersistInfo,
@@ -6,7 +13,9 @@ import type {
   PersistStatus,
   Signal,
   TrackFunction,
+  TrackingDispatcher,
   Selector,
+  SignalPatches,
 } from "./types";
 import type { Tag } from "./tag";
 import { trackingDispatcher, trackingToken } from "./trackingDispatcher";
@@ -14,9 +23,66 @@ import { emitter } from "./emitter";
 import { getDispatcher, getContextType, withDispatchers } from "./dispatcher";
 import { disposableToken } from "./disposableDispatcher";
 import { isPromiseLike } from "./isPromiseLike";
+import { registerRawWrite } from "./rawWrite";
 import { batchToken } from "./batchDispatcher";
 import { AnyFunc, createProxy } from "./utils/proxy/createProxy";
 import { selector } from "./selector";
+import {
+  createValidation,
+  SignalValidator,
+  Validation,
+  ValidationError,
+  validResult,
+} from "./validation";
+import {
+  isVersionedPersistOptions,
+  versionedPersistor,
+  VersionedPersistOptions,
+} from "./versionedPersistor";
+import { collectSignal, takeServerValue } from "./ssr";
+import { registerInspectRecord, type InspectRecord } from "./inspect";
+import {
+  dependentListener,
+  markDirty,
+  propagate,
+  propagationListener,
+  registerNode,
+  updateHeight,
+  type PropagationNode,
+} from "./propagation";
+import {
+  observableSymbol,
+  signalAsyncIterator,
+  signalObservable,
+} from "./observable";
+import {
+  hasMiddleware,
+  runMiddleware,
+  takeIntercepted,
+  type SignalMiddleware,
+  type SignalWrite,
+} from "./middleware";
+import {
+  devtoolsChange,
+  devtoolsRegister,
+  devtoolsUnregister,
+} from "./devtools";
+
+// Patches of mutate() / patch() / onPatch()
+enablePatches();
+
+/** Depth of lazy computed signals releasing their dependencies */
+let releasing = 0;
+
+/**
+ * Patches replacing the whole value, for changes not made with a draft.
+ */
+const replacePatches = <T>(prev: T, next: T): SignalPatches => ({
+  patches: [{ op: "replace", path: [], value: next }],
+  inversePatches: [{ op: "replace", path: [], value: prev }],
+});
+
+const noPatches = (): SignalPatches => ({ patches: [], inversePatches: [] });
 
 /**
  * Error thrown when both a signal computation and its fallback fail.
@@ -76,37 +142,6 @@ export class FallbackError extends Error {
   }
 }
 
-/**
- * Global queue for coordinating post-batch recomputations.
- * This ensures that cascading updates (e.g., computed signals that depend on other computed signals)
- * only trigger once even when multiple dependencies change.
- */
-let postBatchQueue: Set<() => void> | null = null;
-let postBatchScheduled = false;
-
-function schedulePostBatchFlush() {
-  if (!postBatchScheduled) {
-    postBatchScheduled = true;
-    Promise.resolve().then(() => {
-      postBatchScheduled = false;
-
-      // Process all pending recomputations in waves
-      // Each wave may trigger new recomputations (cascading updates)
-      // Continue until no more recomputations are pending
-      while (postBatchQueue && postBatchQueue.size > 0) {
-        const queue = postBatchQueue;
-        postBatchQueue = new Set();
-
-        // Execute all recomputations in this wave
-        queue.forEach((fn) => fn());
-      }
-
-      // Clear the queue
-      postBatchQueue = null;
-    });
-  }
-}
-
 /**
  * Context provided to computed signal functions.
  *
@@ -189,34 +224,15 @@ export type SignalOptions<T = any> = {
    * - Save changes automatically
    * - Track persistence status in `persistInfo`
    *
+   * Use a built-in adapter (`persistor.local`, `persistor.session`,
+   * `persistor.indexedDB`, `persistor.memory`) or implement `Persistor`.
+   * Pass `{ persistor, migrate, version }` to store versioned envelopes
+   * and migrate old data (see `VersionedPersistOptions`).
+   *
    * @example
    * ```ts
-   * // Create your own persistor
-   * function createLocalStoragePersistor<T>(key: string, debounceMs = 0): Persistor<T> {
-   *   const setDebounced = debounceMs > 0
-   *     ? debounce((val: T) => localStorage.setItem(key, JSON.stringify(val)), debounceMs)
-   *     : (val: T) => localStorage.setItem(key, JSON.stringify(val));
-   *
-   *   return {
-   *     get() {
-   *       const item = localStorage.getItem(key);
-   *       return item ? { value: JSON.parse(item) } : null;
-   *     },
-   *     set(value) {
-   *       setDebounced(value);
-   *     },
-   *     on(callback) {
-   *       const handler = (e: StorageEvent) => {
-   *         if (e.key === key) callback();
-   *       };
-   *       window.addEventListener('storage', handler);
-   *       return () => window.removeEventListener('storage', handler);
-   *     }
-   *   };
-   * }
-   *
    * const count = signal(0, {
-   *   persist: createLocalStoragePersistor('count', 300)
+   *   persist: persistor.local('count', { debounce: 300 })
    * });
    *
    * // Check persistence status
@@ -224,7 +240,7 @@ export type SignalOptions<T = any> = {
    * count.persistInfo.error;  // Error if failed
    * ```
    */
-  persist?: Persistor<T>;
+  persist?: Persistor<T> | VersionedPersistOptions<T>;
 
   /**
    * Fallback function to handle errors gracefully.
@@ -250,6 +266,88 @@ export type SignalOptions<T = any> = {
    * ```
    */
   fallback?: (error: unknown) => T;
+
+  /**
+   * Validator for the signal value: a sync or async function, or a
+   * Standard Schema compatible object (zod, valibot, arktype, ...).
+   *
+   * The result is exposed as a reactive signal: `mySignal.validation()`.
+   * Invalid values are still applied (flagged) unless `rejectInvalid` is set.
+   *
+   * @example
+   * ```ts
+   * const email = signal("", {
+   *   validate: (value) => value.includes("@") || "Invalid email",
+   * });
+   *
+   * const address = signal({ street: "", zip: "" }, {
+   *   validate: (value) => [
+   *     ...(value.street ? [] : [{ path: ["street"], message: "Required" }]),
+   *     ...(/^\d{5}$/.test(value.zip) ? [] : [{ path: ["zip"], message: "5 digits" }]),
+   *   ],
+   * });
+   * address.validation().errors.zip; // ["5 digits"]
+   *
+   * // Standard Schema
+   * const age = signal(0, { validate: z.number().min(18) });
+   * ```
+   */
+  validate?: SignalValidator<T>;
+
+  /**
+   * Rejects invalid values in `set()` instead of flagging them.
+   *
+   * - Sync validators: `set()` throws a `ValidationError` and the value is unchanged
+   * - Async validators: the value is applied once it is validated
+   *   (unless another value was set meanwhile). `validation()` is
+   *   "validating" meanwhile, and "invalid" with the issues of the
+   *   rejected value
+   *
+   * @default false
+   */
+  rejectInvalid?: boolean;
+
+  /**
+   * Middleware intercepting the writes (`set()`, `mutate()`, `patch()`) of
+   * the signal, after the global middleware (`signal.use()`). A middleware
+   * can log, cancel, transform or redirect a write.
+   *
+   * @example
+   * ```ts
+   * const email = signal("", {
+   *   use: [(write, next) => next(write.value.trim().toLowerCase())],
+   * });
+   * ```
+   */
+  use?: readonly SignalMiddleware<T>[];
+
+  /**
+   * Releases the dependencies of a computed signal when nothing listens
+   * to it: in a microtask after its last listener unsubscribes (or after
+   * a read without listeners), it unsubscribes from the signals it read
+   * and drops its cached value. The next read or subscription recomputes it.
+   *
+   * Use it for transient computed signals reading long-lived signals, so
+   * they can be garbage collected once unused.
+   *
+   * Ignored for signals with a value.
+   *
+   * @default false
+   *
+   * @example
+   * ```ts
+   * const todos = signal<Todo[]>([]);
+   *
+   * function todoCount(userId: string) {
+   *   // Not kept alive by `todos` once unused
+   *   return signal(
+   *     () => todos().filter((todo) => todo.userId === userId).length,
+   *     { lazy: true }
+   *   );
+   * }
+   * ```
+   */
+  lazy?: boolean;
 };
 
 export type SignalComputeFn<T> = (context: ComputedSignalContext) => T;
@@ -315,6 +413,8 @@ export function signal<T>(
   value: T | SignalComputeFn<T>,
   options: SignalOptions<NoInfer<T>> = {}
 ): MutableSignal<T> {
+  // Created by the public signal(): the global middleware applies
+  const intercepted = takeIntercepted();
   // Prevent signal creation inside rx() or batch() blocks
   const contextType = getContextType();
   if (contextType === "rx") {
@@ -381,7 +481,11 @@ export function signal<T>(
   let current: { value: T; error?: unknown } | undefined;
   const onCleanup = emitter<void>();
   const onDispose = emitter<void>();
-  const { equals = Object.is, persist, tags, fallback, name } = options;
+  const { equals = Object.is, tags, fallback, name } = options;
+  const persist =
+    options.persist && isVersionedPersistOptions(options.persist)
+      ? versionedPersistor(options.persist)
+      : options.persist;
   let hydrate = () => {};
 
   // Persistence state
@@ -390,6 +494,20 @@ export function signal<T>(
     error: undefined,
   };
   let isDirty = false; // Track if value was modified before hydration completes
+  // Read of the persistor pending when the server value was applied
+  let supersededRead: PromiseLike<unknown> | undefined;
+
+  // Tracking dispatcher of the latest computation (computed signals only)
+  let dependencyTracking: TrackingDispatcher | undefined;
+  // State exposed by signal.inspect()
+  const inspectRecord: InspectRecord = {
+    kind: typeof value === "function" ? "computed" : "signal",
+    name,
+    dependencies: () => dependencyTracking?.subscribables ?? [],
+    subscribers: () => onChange.size,
+    recomputeCount: 0,
+    lastComputeDuration: undefined,
+  };
 
   /**
    * Computes the signal's value. For computed signals, this:
@@ -408,7 +526,8 @@ export function signal<T>(
 
       if (typeof value === "function") {
         // This is a computed signal - track dependencies
-        const tracking$ = trackingDispatcher(recompute, onCleanup);
+        const tracking$ = trackingDispatcher(recompute, onCleanup, s);
+        dependencyTracking = tracking$;
         let abortController: AbortController | undefined;
         const context: ComputedSignalContext = {
           track: tracking$.track,
@@ -426,14 +545,20 @@ export function signal<T>(
         // Execute the computation function and track which signals it accesses
         // The dispatcher tracks implicit accesses (signal calls)
         // The track() proxy tracks explicit accesses (proxy property access)
-        computedValue = withDispatchers(
-          [
-            trackingToken(tracking$),
-            // Allow all reactive things created during the computation to be cleaned up
-            disposableToken(onCleanup),
-          ],
-          () => (value as (context: ComputedSignalContext) => T)(context)
-        );
+        const startTime = performance.now();
+        try {
+          computedValue = withDispatchers(
+            [
+              trackingToken(tracking$),
+              // Allow all reactive things created during the computation to be cleaned up
+              disposableToken(onCleanup),
+            ],
+            () => (value as (context: ComputedSignalContext) => T)(context)
+          );
+        } finally {
+          inspectRecord.lastComputeDuration = performance.now() - startTime;
+        }
+        updateHeight(node, tracking$.subscribables);
       } else {
         // Static value - just cache it
         computedValue = value;
@@ -481,43 +606,76 @@ export function signal<T>(
     return current;
   };
 
-  // Track whether we have a pending recomputation scheduled
-  let pendingRecompute = false;
+  // Propagation state: computed signals recompute in topological order
+  const node: PropagationNode = {
+    height: 0,
+    dirty: false,
+    recompute: () => performRecompute(),
+    observed: () => onChange.size > 0,
+  };
+
+  // Value before reset(), reported to the devtools as the previous value
+  let valueBeforeReset: { value: T; error?: unknown } | undefined;
 
   const performRecompute = () => {
-    pendingRecompute = false;
+    node.dirty = false;
     const prev = current;
+    const reported = prev ?? valueBeforeReset;
+    valueBeforeReset = undefined;
+    if (typeof value === "function") {
+      inspectRecord.recomputeCount++;
+    }
     const next = compute();
     if (!prev || next.error || !equals(prev.value, next.value)) {
       current = next;
-      onChange.emit();
+      if (reported && !next.error && !equals(reported.value, next.value)) {
+        devtoolsChange(s, reported.value, next.value, undefined);
+        if (onPatch.size) {
+          onPatch.emit(replacePatches(reported.value, next.value));
+        }
+      }
+      propagate(() => onChange.emit());
     }
   };
 
-  const recompute = () => {
-    // If we're inside a batch OR there's an active post-batch flush in progress,
-    // defer the recomputation to ensure cascading updates are also batched
-    const batch$ = getDispatcher(batchToken);
-    if (batch$ || postBatchQueue) {
-      // Only queue one recomputation per signal
-      if (!pendingRecompute) {
-        pendingRecompute = true;
-
-        // Initialize the global queue if needed
-        if (!postBatchQueue) {
-          postBatchQueue = new Set();
-          schedulePostBatchFlush();
-        }
+  /**
+   * Called when a dependency changed: marks the signal dirty. It recomputes
+   * once its dependencies settled, or when it is read before that.
+   * Inside a batch, it recomputes after the batch, or in a microtask if
+   * nothing listens to it (unless it is read earlier).
+   */
+  const recompute = dependentListener(() => markDirty(node));
 
-        // Add this signal's recomputation to the global queue
-        // The queue will be flushed in waves until all cascading updates complete
-        postBatchQueue.add(performRecompute);
-      }
+  // Lazy computed signals release their dependencies when unobserved
+  const lazy = !!options.lazy && typeof value === "function";
+  let releaseScheduled = false;
+
+  /**
+   * Unsubscribes a lazy computed signal from its dependencies and drops its
+   * cached value, if nothing listens to it.
+   */
+  const release = () => {
+    releaseScheduled = false;
+    if (!lazy || onChange.size || !current) {
       return;
     }
+    // Lazy dependencies left by this release are released right away
+    releasing++;
+    try {
+      onCleanup.emitAndClear();
+    } finally {
+      releasing--;
+    }
+    dependencyTracking = undefined;
+    node.dirty = false;
+    current = undefined;
+  };
 
-    // Not in a batch and no flush in progress - perform the recomputation immediately
-    performRecompute();
+  const scheduleRelease = () => {
+    if (lazy && !releaseScheduled && !onChange.size) {
+      releaseScheduled = true;
+      Promise.resolve().then(release);
+    }
   };
 
   /**
@@ -534,6 +692,10 @@ export function signal<T>(
    */
   const get = () => {
     try {
+      // Dependencies changed: recompute before reading (pull)
+      if (node.dirty) {
+        performRecompute();
+      }
       // Compute if not already cached
       if (!current) {
         const { value, error } = compute();
@@ -550,6 +712,8 @@ export function signal<T>(
     } finally {
       // If we're inside a computed signal, register this signal as a dependency
       getDispatcher(trackingToken)?.add(s);
+      // Read without listeners: release the dependencies later
+      scheduleRelease();
     }
   };
 
@@ -559,66 +723,191 @@ export function signal<T>(
    * Only notifies listeners if the value actually changed (according to equals).
    *
    * @param value - The new value or a function that receives the previous value
+   * @param withPatches - Generates the patches of the update even if nothing
+   * listens to them
+   * @param type - Public method writing the value, to run the middleware
+   * @returns The patches of the change, if they were generated
    */
   const set = (
     value: T | ((prev: T) => T | void),
     shouldPersist = true,
-    shouldMarkDirty = true
-  ): void => {
+    shouldMarkDirty = true,
+    shouldValidate = false,
+    withPatches = false,
+    type?: SignalWrite<T>["type"]
+  ): SignalPatches | undefined => {
     const prevValue = get();
+    const recordPatches = withPatches || onPatch.size > 0;
+    let patches: SignalPatches | undefined;
+    let nextValue: T;
     // If value is a function, use produce to create an immutable update
-    const nextValue =
-      typeof value === "function"
-        ? (produce(prevValue, value as (draft: T) => T | void) as T)
-        : (value as T);
-
-    // Validate that the new value is not a Promise
-    if (isPromiseLike(nextValue)) {
-      throw new Error(
-        "Signals cannot hold Promise values directly. " +
-          "Promises would cause reactivity issues and memory leaks.\n\n" +
-          "❌ Don't do this:\n" +
-          "  const data = signal(fetchData());  // Promise!\n" +
-          "  const result = signal(async () => { ... });  // Returns Promise!\n\n" +
-          "✅ Instead, use signal.async() for async values:\n" +
-          "  const data = signal.async(async () => {\n" +
-          "    const response = await fetch('/api/data');\n" +
-          "    return response.json();\n" +
-          "  });\n\n" +
-          "✅ Or use loadable with wait():\n" +
-          "  const data = signal(loadable('loading'));\n" +
-          "  fetch('/api/data')\n" +
-          "    .then(res => res.json())\n" +
-          "    .then(result => data.set(loadable('success', result)))\n" +
-          "    .catch(error => data.set(loadable('error', undefined, error)));\n\n" +
-          "See: https://github.com/linq2js/rxblox#async-data"
+    if (typeof value !== "function") {
+      nextValue = value as T;
+    } else if (recordPatches) {
+      const [result, forward, inverse] = produceWithPatches(
+        prevValue,
+        value as (draft: T) => T | void
       );
+      nextValue = result as T;
+      patches = { patches: forward, inversePatches: inverse };
+    } else {
+      nextValue = produce(prevValue, value as (draft: T) => T | void) as T;
     }
 
-    // Only update and notify if the value actually changed
-    if (!equals(prevValue, nextValue)) {
-      current = { value: nextValue };
-      if (shouldMarkDirty) {
-        isDirty = true; // Mark as dirty
-      }
-      const batchDispatcher = getDispatcher(batchToken);
-      if (batchDispatcher) {
-        batchDispatcher.enqueue(() => {
-          onChange.emit();
-        }, s);
-      } else {
-        // Notify all listeners (use slice() to avoid issues if listeners modify the array)
-        onChange.emit();
+    /**
+     * Applies the value: validates it, notifies the listeners and persists
+     * it, if it differs from the previous value.
+     */
+    const commit = (
+      nextValue: T,
+      patches: SignalPatches | undefined
+    ): SignalPatches | undefined => {
+      // Validate that the new value is not a Promise
+      if (isPromiseLike(nextValue)) {
+        throw new Error(
+          "Signals cannot hold Promise values directly. " +
+            "Promises would cause reactivity issues and memory leaks.\n\n" +
+            "❌ Don't do this:\n" +
+            "  const data = signal(fetchData());  // Promise!\n" +
+            "  const result = signal(async () => { ... });  // Returns Promise!\n\n" +
+            "✅ Instead, use signal.async() for async values:\n" +
+            "  const data = signal.async(async () => {\n" +
+            "    const response = await fetch('/api/data');\n" +
+            "    return response.json();\n" +
+            "  });\n\n" +
+            "✅ Or use loadable with wait():\n" +
+            "  const data = signal(loadable('loading'));\n" +
+            "  fetch('/api/data')\n" +
+            "    .then(res => res.json())\n" +
+            "    .then(result => data.set(loadable('success', result)))\n" +
+            "    .catch(error => data.set(loadable('error', undefined, error)));\n\n" +
+            "See: https://github.com/linq2js/rxblox#async-data"
+        );
       }
 
-      // Persist the new value
-      if (shouldPersist) {
-        persistValue(nextValue);
+      // Only update and notify if the value actually changed
+      if (!equals(prevValue, nextValue)) {
+        // A newer value supersedes the value waiting for async validation
+        pendingValidation = undefined;
+
+        if (shouldValidate && options.rejectInvalid && options.validate) {
+          // Candidate values don't change the published validation
+          const validation = getValidation()!;
+          const outcome = validation.check(nextValue);
+
+          if (isPromiseLike(outcome)) {
+            const token = {};
+            pendingValidation = token;
+            validation.report({
+              ...validation.result.peek(),
+              status: "validating",
+            });
+            outcome.then((result) => {
+              if (pendingValidation !== token) return;
+              pendingValidation = undefined;
+              if (result.status === "valid") {
+                validation.accept(nextValue, result);
+                set(nextValue, shouldPersist, shouldMarkDirty);
+              } else {
+                // The value is unchanged, the issues tell why
+                validation.report(result);
+              }
+            });
+            return withPatches ? noPatches() : undefined;
+          }
+
+          if (outcome.status === "invalid") {
+            throw new ValidationError(outcome.issues, name);
+          }
+          validation.accept(nextValue, outcome);
+        }
+
+        current = { value: nextValue };
+        if (shouldMarkDirty) {
+          isDirty = true; // Mark as dirty
+        }
+        if (recordPatches && !patches) {
+          patches = replacePatches(prevValue, nextValue);
+        }
+        const batchDispatcher = getDispatcher(batchToken);
+        devtoolsChange(s, prevValue, nextValue, batchDispatcher, patches);
+        if (patches && onPatch.size) {
+          onPatch.emit(patches);
+        }
+        if (batchDispatcher) {
+          batchDispatcher.enqueue(() => {
+            onChange.emit();
+          }, s);
+        } else {
+          // Notify all listeners, then recompute dependents in topological order
+          propagate(() => onChange.emit());
+        }
+
+        // Persist the new value
+        if (shouldPersist) {
+          persistValue(nextValue);
+        }
+        return patches;
       }
+      return withPatches ? noPatches() : undefined;
+    };
+
+    // Middleware can cancel, transform or redirect the write
+    if (type && hasMiddleware(middleware, intercepted)) {
+      let result: SignalPatches | undefined = withPatches
+        ? noPatches()
+        : undefined;
+      runMiddleware(
+        middleware,
+        intercepted,
+        {
+          signal: s,
+          name,
+          tags: tags ?? [],
+          type,
+          prev: prevValue,
+          value: nextValue,
+          batched: !!getDispatcher(batchToken),
+        },
+        (value) => {
+          // The patches of the updater don't lead to a transformed value
+          result = commit(value, value === nextValue ? patches : undefined);
+        }
+      );
+      return result;
     }
+
+    return commit(nextValue, patches);
   };
 
   const onChange = emitter();
+  const onPatch = emitter<SignalPatches>();
+  // Middleware of this signal, after the global middleware
+  const middleware: SignalMiddleware<T>[] = [...(options.use ?? [])];
+
+  // Validation state, created on first use
+  let validation: Validation<T> | undefined;
+  // Token of the value waiting for async validation (rejectInvalid)
+  let pendingValidation: object | undefined;
+
+  const revalidate = () => {
+    try {
+      validation?.run(s.peek());
+    } catch {
+      // Computation errors are reported by hasError()/getError()
+    }
+  };
+
+  const getValidation = () => {
+    if (!validation && options.validate) {
+      const validate = options.validate;
+      // Owned by this signal, not by the context that first reads it
+      validation = disposableToken.without(() => createValidation(validate));
+      onChange.on(revalidate);
+      revalidate();
+    }
+    return validation;
+  };
 
   // Create the signal object by assigning methods to the get function
   let s: MutableSignal<T> & { persistInfo: PersistInfo } = Object.assign(get, {
@@ -626,6 +915,7 @@ export function signal<T>(
     persistInfo,
     hydrate,
     proxy: undefined as any, // Will be properly defined via Object.defineProperty
+    validation: undefined as any, // Will be properly defined via Object.defineProperty
     toJSON() {
       return s.peek();
     },
@@ -638,7 +928,43 @@ export function signal<T>(
      * @param value - The new value or a function that receives the previous value
      */
     set(value: T | ((prev: T) => T | void)): void {
-      set(value, true);
+      set(value, true, true, true, false, "set");
+    },
+    mutate(recipe: (draft: Draft<T>) => T | void): SignalPatches {
+      return set(
+        recipe as (prev: T) => T | void,
+        true,
+        true,
+        true,
+        true,
+        "mutate"
+      )!;
+    },
+    patch(patches: readonly Patch[]): SignalPatches {
+      return set(
+        (draft) => applyPatches(draft as object, patches as Patch[]) as T,
+        true,
+        true,
+        true,
+        true,
+        "patch"
+      )!;
+    },
+    use(fn: SignalMiddleware<T>): VoidFunction {
+      middleware.push(fn);
+      return () => {
+        const index = middleware.indexOf(fn);
+        if (index !== -1) middleware.splice(index, 1);
+      };
+    },
+    onPatch(listener: (patches: SignalPatches) => void): VoidFunction {
+      return onPatch.on(listener);
+    },
+    [observableSymbol]() {
+      return signalObservable(s, onDispose);
+    },
+    [Symbol.asyncIterator]() {
+      return signalAsyncIterator(s, onDispose);
     },
     /**
      * Reads the signal value without tracking it as a dependency.
@@ -648,8 +974,12 @@ export function signal<T>(
      * @returns The current signal value
      */
     peek() {
+      if (node.dirty) {
+        performRecompute();
+      }
       if (!current) {
         const { value, error } = compute();
+        scheduleRelease();
         if (error !== undefined) {
           throw error;
         }
@@ -669,10 +999,27 @@ export function signal<T>(
      * @returns An unsubscribe function to remove the listener
      */
     on(listener: VoidFunction): VoidFunction {
-      return onChange.on(listener);
+      if (lazy && !current) {
+        // Released: subscribe to the dependencies again
+        compute();
+      }
+      const unsubscribe = onChange.on(propagationListener(listener));
+      if (!lazy) {
+        return unsubscribe;
+      }
+      return () => {
+        unsubscribe();
+        // Deferred: effects and rx() unsubscribe before running again
+        if (releasing) {
+          release();
+        } else {
+          scheduleRelease();
+        }
+      };
     },
 
     reset() {
+      valueBeforeReset = current;
       current = undefined;
       recompute();
     },
@@ -769,6 +1116,9 @@ export function signal<T>(
   getDispatcher(disposableToken)?.on(() => {
     onCleanup.emitAndClear();
     onDispose.emitAndClear();
+    dependencyTracking = undefined;
+    node.dirty = false;
+    devtoolsUnregister(s);
   });
 
   // Initialize persistence (hydration)
@@ -893,7 +1243,8 @@ export function signal<T>(
             (resolved) => {
               // Only apply if this promise is still current
               if (persistInfo.promise === result) {
-                applyHydratedValue(resolved);
+                // The server value takes precedence over the initial read
+                applyHydratedValue(result === supersededRead ? null : resolved);
               }
             },
             (error) => {
@@ -1037,6 +1388,14 @@ export function signal<T>(
     displayName: options.name,
   });
 
+  Object.defineProperty(s, "validation", {
+    get() {
+      return trackingToken.without(() => getValidation()?.result) ?? validResult();
+    },
+    enumerable: true,
+    configurable: false,
+  });
+
   // Add .proxy property for stable, readonly access to object/function values
   // Cache the proxy for stable reference
   let cachedProxy: any = undefined;
@@ -1059,6 +1418,26 @@ export function signal<T>(
     configurable: false,
   });
 
+  if (typeof value !== "function") {
+    // Start with the state of the server render (takes precedence over
+    // persisted values so the first client render matches the server)
+    const serverValue = takeServerValue(name, tags);
+    if (serverValue) {
+      set(serverValue.value as T, false, false);
+      supersededRead = persistInfo.promise;
+    }
+    collectSignal(s, name, tags);
+  }
+
+  registerNode(s, node);
+  registerInspectRecord(s, inspectRecord);
+  registerRawWrite(s, (next: T) => set(next));
+  devtoolsRegister(
+    s,
+    typeof value === "function" ? "computed" : "signal",
+    name
+  );
+
   // Register signal with tags
   if (tags && tags.length > 0) {
     tags.forEach((tag) => tag._add(s));
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from "vitest";
+import { act } from "@testing-library/react";
+import { hydrateRoot } from "react-dom/client";
+import { hydrate, SSR_PAYLOAD_KEY } from "./ssr";
+import { signal } from "./signal";
+import { asyncSignal } from "./asyncSignal";
+import { tag } from "./tag";
+import { blox } from "./blox";
+import { rx } from "./rx";
+import { delay } from "./delay";
+
+describe("ssr hydration", () => {
+  it("should read the payload written by the server script", async () => {
+    vi.resetModules();
+    (globalThis as any)[SSR_PAYLOAD_KEY] = {
+      signals: { theme: "dark" },
+      tags: {},
+    };
+    const { signal: freshSignal } = await import("./signal");
+
+    const theme = freshSignal("light", { name: "theme" });
+
+    expect(theme()).toBe("dark");
+    expect((globalThis as any)[SSR_PAYLOAD_KEY]).toBeUndefined();
+  });
+
+  it("should start named signals with their server values", () => {
+    hydrate({ signals: { count: 5 }, tags: {} });
+
+    const count = signal(0, { name: "count" });
+    const other = signal(0, { name: "other" });
+
+    expect(count()).toBe(5);
+    expect(other()).toBe(0);
+  });
+
+  it("should use each server value once", () => {
+    hydrate({ signals: { count: 5 }, tags: {} });
+
+    signal(0, { name: "count" });
+    const later = signal(0, { name: "count" });
+
+    expect(later()).toBe(0);
+  });
+
+  it("should keep the initial value for reset", () => {
+    hydrate({ signals: { count: 5 }, tags: {} });
+    const count = signal(0, { name: "count" });
+
+    count.reset();
+
+    expect(count()).toBe(0);
+  });
+
+  it("should hydrate signals of named tags by position", () => {
+    hydrate({ signals: {}, tags: { todos: ["a", "b"] } });
+    const todos = tag<string>({ name: "todos" });
+
+    const first = signal("", { tags: [todos] });
+    const second = signal("", { tags: [todos] });
+    const third = signal("", { tags: [todos] });
+
+    expect([first(), second(), third()]).toEqual(["a", "b", ""]);
+  });
+
+  it("should start async signals with the server result", async () => {
+    hydrate({ signals: { user: "Ada" }, tags: {} });
+    const userId = signal(1);
+    const fetchUser = vi.fn(
+      async ({ abortSignal }: { abortSignal: AbortSignal }) => {
+        const id = userId();
+        if (abortSignal.aborted) throw new Error("aborted");
+        await delay(5);
+        return `user ${id}`;
+      }
+    );
+
+    const user = asyncSignal(fetchUser, { name: "user" });
+
+    expect(user()).toMatchObject({ status: "success", value: "Ada" });
+    expect(fetchUser.mock.calls[0][0].abortSignal.aborted).toBe(true);
+
+    // Dependencies are tracked
+    userId.set(2);
+    expect(user().status).toBe("loading");
+    await delay(10);
+    expect(user()).toMatchObject({ status: "success", value: "user 2" });
+  });
+
+  it("should hydrate server markup without mismatches", async () => {
+    // Server render of ssr.test.tsx
+    const html = "<span>count: 5</span>";
+    const payload = { signals: { count: 5 }, tags: {} };
+    const Counter = blox(() => {
+      const count = signal(0, { name: "count" });
+      return <span>{rx(() => `count: ${count()}`)}</span>;
+    });
+
+    const container = document.createElement("div");
+    container.innerHTML = html;
+    hydrate(payload);
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await act(async () => {
+      hydrateRoot(container, <Counter />);
+    });
+
+    expect(error).not.toHaveBeenCalled();
+    expect(container.textContent).toBe("count: 5");
+    error.mockRestore();
+  });
+
+  it("should drop server values not used by the first commit", async () => {
+    hydrate({ signals: { count: 5, later: 7 }, tags: {} });
+    const Counter = blox(() => {
+      const count = signal(0, { name: "count" });
+      return <span>{rx(() => `count: ${count()}`)}</span>;
+    });
+    const container = document.createElement("div");
+    container.innerHTML = "<span>count: 5</span>";
+
+    await act(async () => {
+      hydrateRoot(container, <Counter />);
+    });
+
+    // e.g. created by a component mounted after navigating
+    const later = signal(0, { name: "later" });
+    expect(later()).toBe(0);
+  });
+
+  it("should keep the server value over async persisted values", async () => {
+    hydrate({ signals: { theme: "dark" }, tags: {} });
+
+    const theme = signal("light", {
+      name: "theme",
+      persist: { get: async () => ({ value: "blue" }) },
+    });
+    expect(theme()).toBe("dark");
+    await delay(0);
+
+    expect(theme()).toBe("dark");
+    expect(theme.persistInfo.status).toBe("synced");
+  });
+});
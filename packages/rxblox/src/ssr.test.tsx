@@ -0,0 +1,192 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from "vitest";
+import { renderToString } from "react-dom/server";
+import { collect } from "./ssr";
+import { signal } from "./signal";
+import { asyncSignal } from "./asyncSignal";
+import { tag } from "./tag";
+import { blox } from "./blox";
+import { rx } from "./rx";
+import { effect } from "./effect";
+import { delay } from "./delay";
+
+describe("ssr", () => {
+  describe("collect", () => {
+    it("should collect named signals created during the render", () => {
+      const collector = collect();
+      const outside = signal(1, { name: "outside" });
+
+      collector.run(() => {
+        const count = signal(0, { name: "count" });
+        signal("ignored");
+        count.set(5);
+      });
+      outside.set(2);
+
+      expect(collector.payload()).toEqual({ signals: { count: 5 }, tags: {} });
+    });
+
+    it("should group signals of named tags in creation order", () => {
+      const collector = collect();
+      const todos = tag<string>({ name: "todos" });
+      const unnamed = tag<string>();
+
+      collector.run(() => {
+        signal("a", { tags: [todos] });
+        signal("b", { tags: [todos, unnamed] });
+        signal("c", { tags: [unnamed] });
+      });
+
+      expect(collector.payload().tags).toEqual({ todos: ["a", "b"] });
+    });
+
+    it("should reflect the latest values", () => {
+      const collector = collect();
+      const count = collector.run(() => signal(0, { name: "count" }));
+
+      count.set(3);
+
+      expect(collector.payload().signals.count).toBe(3);
+    });
+
+    it("should not serialize computed signals", () => {
+      const collector = collect();
+
+      collector.run(() => {
+        const count = signal(1, { name: "count" });
+        signal(() => count() * 2, { name: "doubled" });
+      });
+
+      expect(collector.payload().signals).toEqual({ count: 1 });
+    });
+
+    it("should escape the payload in the script tag", () => {
+      const collector = collect();
+      collector.run(() =>
+        signal("</script><script>alert(1)", { name: "text" })
+      );
+
+      const script = collector.script();
+
+      expect(script).toBe(
+        '<script>window.__RXBLOX_SSR__={"signals":{"text":"\\u003c/script>\\u003cscript>alert(1)"},"tags":{}}</script>'
+      );
+    });
+  });
+
+  describe("async signals", () => {
+    it("should include resolved results only", async () => {
+      const collector = collect();
+      const user = collector.run(() =>
+        asyncSignal(
+          async () => {
+            await delay(5);
+            return { name: "Ada" };
+          },
+          { name: "user" }
+        )
+      );
+
+      user();
+      expect(collector.payload().signals).toEqual({});
+
+      await collector.settled();
+
+      expect(collector.payload().signals).toEqual({ user: { name: "Ada" } });
+    });
+
+    it("should reuse results of earlier renders", async () => {
+      const collector = collect();
+      const fetchUser = vi.fn(
+        async ({ abortSignal }: { abortSignal: AbortSignal }) => {
+          if (abortSignal.aborted) throw new Error("aborted");
+          await delay(5);
+          return "Ada";
+        }
+      );
+      const App = () => {
+        const user = asyncSignal(fetchUser, { name: "user" });
+        const l = user();
+        return <span>{l.status === "success" ? l.value : "loading"}</span>;
+      };
+
+      expect(collector.run(() => renderToString(<App />))).toBe(
+        "<span>loading</span>"
+      );
+      await collector.settled();
+
+      expect(collector.run(() => renderToString(<App />))).toBe(
+        "<span>Ada</span>"
+      );
+      expect(fetchUser).toHaveBeenCalledTimes(2);
+      expect(fetchUser.mock.calls[1][0].abortSignal.aborted).toBe(true);
+      expect(collector.payload().signals).toEqual({ user: "Ada" });
+    });
+
+    it("should wait for async signals started by resolved ones", async () => {
+      const collector = collect();
+      const first = collector.run(() =>
+        asyncSignal(async () => delay(5).then(() => 1), { name: "first" })
+      );
+      first();
+      first.on(() => {
+        collector.run(() =>
+          asyncSignal(async () => delay(5).then(() => 2), { name: "second" })
+        )();
+      });
+
+      await collector.settled();
+
+      expect(collector.payload().signals).toEqual({ first: 1, second: 2 });
+    });
+  });
+
+  describe("rendering", () => {
+    it("should render blox and rx without warnings", () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+      const Counter = blox(() => {
+        const count = signal(2, { name: "count" });
+        return <div>{rx(() => count() * 10)}</div>;
+      });
+      const collector = collect();
+
+      const html = collector.run(() => renderToString(<Counter />));
+
+      expect(html).toBe("<div>20</div>");
+      expect(error).not.toHaveBeenCalled();
+      expect(collector.payload().signals).toEqual({ count: 2 });
+      error.mockRestore();
+    });
+
+    it("should render the markup hydrated by the client", () => {
+      // Hydrated by ssr.hydrate.test.tsx
+      const Counter = blox(() => {
+        const count = signal(0, { name: "count" });
+        count.set(5);
+        return <span>{rx(() => `count: ${count()}`)}</span>;
+      });
+      const collector = collect();
+
+      const html = collector.run(() => renderToString(<Counter />));
+      collector.dispose();
+
+      expect(html).toBe("<span>count: 5</span>");
+      expect(collector.payload()).toEqual({ signals: { count: 5 }, tags: {} });
+    });
+
+    it("should dispose rendered components", () => {
+      const cleanup = vi.fn();
+      const Component = blox(() => {
+        effect(() => cleanup);
+        return null;
+      });
+      const collector = collect();
+      collector.run(() => renderToString(<Component />));
+      expect(cleanup).not.toHaveBeenCalled();
+
+      collector.dispose();
+
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+  });
+});
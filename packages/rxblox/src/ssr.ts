@@ -0,0 +1,328 @@
+import { isLoadable, type Loadable } from "./loadable";
+import type { Tag } from "./tag";
+import type { Signal } from "./types";
+
+/**
+ * Signal state of a server render, sent to the client to hydrate its signals.
+ *
+ * Values must be JSON serializable to be embedded with `collector.script()`.
+ */
+export type SSRPayload = {
+  /** Values of named signals (and resolved data of named async signals) */
+  signals: Record<string, unknown>;
+  /** Values of the signals of each named tag, in creation order */
+  tags: Record<string, unknown[]>;
+};
+
+/**
+ * Collects the state of signals created during server renders.
+ * Returned by `ssr.collect()`.
+ */
+export type SSRCollector = {
+  /**
+   * Runs a render (e.g. `renderToString`) and collects:
+   * - Signals created with a `name`
+   * - Signals of tags created with a `name`
+   * - Async signals created with a `name`
+   *
+   * Can be called several times: async signals of later renders start
+   * with the results that earlier renders resolved.
+   *
+   * @param render - Synchronous render function
+   * @returns The result of the render function
+   */
+  run<T>(render: () => T): T;
+
+  /**
+   * Waits until the collected async signals are no longer loading.
+   */
+  settled(): Promise<void>;
+
+  /**
+   * Returns the current state of the collected signals.
+   * Async signals are only included once they have resolved.
+   */
+  payload(): SSRPayload;
+
+  /**
+   * Returns a `<script>` tag that hands the payload to the client.
+   * Render it before the client bundle so signals created while the
+   * bundle loads hydrate too.
+   */
+  script(): string;
+
+  /**
+   * Disposes the blox components rendered on the server
+   * (runs their effect cleanups and unmount callbacks).
+   */
+  dispose(): void;
+};
+
+/**
+ * Global variable holding the payload written by `collector.script()`.
+ */
+export const SSR_PAYLOAD_KEY = "__RXBLOX_SSR__";
+
+type CollectorState = {
+  named: Map<string, { signal: Signal<unknown>; async: boolean }>;
+  tagged: Map<string, Signal<unknown>[]>;
+  cleanups: VoidFunction[];
+};
+
+/**
+ * Collector of the render being run on the server.
+ */
+let collecting: CollectorState | undefined;
+
+/**
+ * Server state not yet consumed by client signals, until the first client
+ * commit.
+ */
+let pending:
+  { signals: Map<string, unknown>; tags: Map<string, unknown[]> } | undefined;
+
+let readGlobalPayload = false;
+
+/**
+ * Escapes characters that would end an inline script or break JavaScript.
+ */
+const escapeScript = (json: string) =>
+  json
+    .replace(/</g, "\\u003c")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
+
+/**
+ * Serializes a payload to JSON that is safe to embed in an inline script.
+ *
+ * @param payload - The payload to serialize
+ * @returns JSON text
+ */
+export function serializePayload(payload: SSRPayload): string {
+  return escapeScript(JSON.stringify(payload));
+}
+
+/**
+ * Creates a collector for the signal state of server renders.
+ *
+ * @returns A collector
+ *
+ * @example
+ * ```tsx
+ * // server
+ * const collector = ssr.collect();
+ * collector.run(() => renderToString(<App />)); // starts async signals
+ * await collector.settled();
+ * const html = collector.run(() => renderToString(<App />));
+ * collector.dispose();
+ *
+ * res.send(`
+ *   <div id="root">${html}</div>
+ *   ${collector.script()}
+ *   <script src="/client.js"></script>
+ * `);
+ *
+ * // client: named signals pick their server values up when created
+ * hydrateRoot(document.getElementById("root")!, <App />);
+ * ```
+ */
+export function collect(): SSRCollector {
+  const state: CollectorState = {
+    named: new Map(),
+    tagged: new Map(),
+    cleanups: [],
+  };
+
+  const payload = (): SSRPayload => {
+    const result: SSRPayload = { signals: {}, tags: {} };
+
+    state.named.forEach(({ signal, async }, name) => {
+      if (!async) {
+        result.signals[name] = signal.peek();
+        return;
+      }
+      const loadable = signal.peek() as Loadable<unknown>;
+      if (isLoadable(loadable) && loadable.status === "success") {
+        result.signals[name] = loadable.value;
+      }
+    });
+
+    state.tagged.forEach((signals, name) => {
+      result.tags[name] = signals.map((signal) => signal.peek());
+    });
+
+    return result;
+  };
+
+  return {
+    run(render) {
+      const prev = collecting;
+      collecting = state;
+      // Tag positions are per render
+      state.tagged = new Map();
+      try {
+        return render();
+      } finally {
+        collecting = prev;
+      }
+    },
+    async settled() {
+      for (;;) {
+        const loading: PromiseLike<unknown>[] = [];
+        state.named.forEach(({ signal, async }) => {
+          const loadable = async
+            ? (signal.peek() as Loadable<unknown>)
+            : undefined;
+          if (loadable?.status === "loading") {
+            loading.push(loadable.promise);
+          }
+        });
+        if (!loading.length) return;
+        await Promise.allSettled(loading);
+      }
+    },
+    payload,
+    script() {
+      return `<script>window.${SSR_PAYLOAD_KEY}=${serializePayload(
+        payload()
+      )}</script>`;
+    },
+    dispose() {
+      state.cleanups.splice(0).forEach((cleanup) => cleanup());
+    },
+  };
+}
+
+/**
+ * Provides server state to the signals created from now on.
+ *
+ * Payloads written by `collector.script()` are picked up automatically;
+ * call this for payloads transferred another way, before creating the
+ * signals (before the first render). Values not used by the first commit
+ * are dropped.
+ *
+ * Each value is used once: a named signal takes the value of its name,
+ * the n-th signal of a named tag takes the n-th value of the tag.
+ *
+ * @param payload - Payload of the server render
+ */
+export function hydrate(payload: SSRPayload): void {
+  readGlobalPayload = true;
+  pending = {
+    signals: new Map(Object.entries(payload.signals ?? {})),
+    tags: new Map(
+      Object.entries(payload.tags ?? {}).map(([name, values]) => [
+        name,
+        [...values],
+      ])
+    ),
+  };
+}
+
+/**
+ * Drops the server state once the first client commit hydrated (called by
+ * the layout effects of `blox` components and `rx()`): signals created
+ * later, e.g. by components mounted after navigating, start with their own
+ * initial value rather than a stale server value.
+ */
+export function completeHydration(): void {
+  readGlobalPayload = true;
+  pending = undefined;
+}
+
+/**
+ * Takes the server value of a signal being created.
+ *
+ * On the client, returns the value from the hydrated payload.
+ * During server renders, returns async results resolved by earlier renders.
+ *
+ * @param name - Signal name
+ * @param tags - Signal tags
+ * @param async - Whether the signal is an async signal
+ * @returns The value, or undefined if there is none
+ */
+export function takeServerValue(
+  name: string | undefined,
+  tags: readonly Tag<any>[] | undefined,
+  async = false
+): { value: unknown } | undefined {
+  if (collecting) {
+    const previous = async && name ? collecting.named.get(name) : undefined;
+    const loadable = previous?.signal.peek();
+    return isLoadable(loadable) && loadable.status === "success"
+      ? { value: loadable.value }
+      : undefined;
+  }
+
+  if (!readGlobalPayload) {
+    readGlobalPayload = true;
+    const globalPayload = (globalThis as any)[SSR_PAYLOAD_KEY];
+    if (globalPayload) {
+      delete (globalThis as any)[SSR_PAYLOAD_KEY];
+      hydrate(globalPayload);
+    }
+  }
+
+  if (!pending) return undefined;
+
+  let result: { value: unknown } | undefined;
+
+  // Tag positions advance even when the name provides the value
+  if (!async) {
+    tags?.forEach((tag) => {
+      const values = tag.name ? pending!.tags.get(tag.name) : undefined;
+      if (values?.length) {
+        const value = values.shift();
+        result ??= { value };
+      }
+    });
+  }
+
+  if (name && pending.signals.has(name)) {
+    result = { value: pending.signals.get(name) };
+    pending.signals.delete(name);
+  }
+
+  return result;
+}
+
+/**
+ * Registers a signal with the collector of the current server render.
+ *
+ * @param signal - The created signal
+ * @param name - Signal name
+ * @param tags - Signal tags
+ * @param async - Whether the signal is an async signal (its value is a loadable)
+ */
+export function collectSignal(
+  signal: Signal<unknown>,
+  name: string | undefined,
+  tags: readonly Tag<any>[] | undefined,
+  async = false
+): void {
+  if (!collecting) return;
+
+  if (name) {
+    collecting.named.set(name, { signal, async });
+  }
+
+  // Async values are only serialized by name: a loading value has no place in a list
+  if (!async) {
+    tags?.forEach((tag) => {
+      if (!tag.name) return;
+      const signals = collecting!.tagged.get(tag.name) ?? [];
+      signals.push(signal);
+      collecting!.tagged.set(tag.name, signals);
+    });
+  }
+}
+
+/**
+ * Registers a cleanup to run by `collector.dispose()`.
+ * Used by blox components, which never unmount on the server.
+ *
+ * @param cleanup - The cleanup function
+ */
+export function onServerDispose(cleanup: VoidFunction): void {
+  collecting?.cleanups.push(cleanup);
+}
@@ -0,0 +1,295 @@
+import { describe, it, expect, vi } from "vitest";
+import { store } from "./store";
+import { signal } from "./signal";
+import { effect } from "./effect";
+import { batch } from "./batch";
+import { inspect } from "./inspect";
+import type { Persistor } from "./types";
+
+type State = {
+  user: { name: string; address?: { city: string; zip: string } };
+  todos: { text: string; done: boolean }[];
+  tags: Record<string, boolean>;
+};
+
+const initial = (): State => ({
+  user: { name: "Ada", address: { city: "London", zip: "N1" } },
+  todos: [
+    { text: "a", done: false },
+    { text: "b", done: false },
+  ],
+  tags: {},
+});
+
+describe("signal.store", () => {
+  describe("reading and writing", () => {
+    it("should read and write nested properties", () => {
+      const state = store(initial());
+
+      state.user.address!.city = "Paris";
+      state.user.name = "Grace";
+
+      expect(state.user.address!.city).toBe("Paris");
+      expect(state.user.name).toBe("Grace");
+      expect(state.todos.length).toBe(2);
+    });
+
+    it("should support array methods", () => {
+      const state = store(initial());
+
+      state.todos.push({ text: "c", done: false });
+      state.todos[0].done = true;
+
+      expect(state.todos.map((todo) => todo.text)).toEqual(["a", "b", "c"]);
+      expect([...state.todos].filter((todo) => todo.done)).toHaveLength(1);
+    });
+
+    it("should enumerate keys and delete properties", () => {
+      const state = store(initial());
+
+      state.tags.urgent = true;
+      state.tags.later = false;
+      delete state.tags.later;
+      delete state.user.address;
+
+      expect(Object.keys(state.tags)).toEqual(["urgent"]);
+      expect({ ...state.tags }).toEqual({ urgent: true });
+      expect("address" in state.user).toBe(false);
+      expect(state.user.address).toBeUndefined();
+    });
+
+    it("should store snapshots of assigned stores", () => {
+      const state = store(initial());
+
+      state.todos[1] = state.todos[0];
+      state.todos[0].text = "changed";
+
+      expect(state.todos[1].text).toBe("a");
+    });
+
+    it("should reverse and sort arrays of objects", () => {
+      const state = store({ items: [{ id: 1 }, { id: 2 }, { id: 3 }] });
+
+      expect(state.items.reverse()).toBe(state.items);
+      expect(state.toJSON().items).toEqual([{ id: 3 }, { id: 2 }, { id: 1 }]);
+
+      state.items.sort((a, b) => a.id - b.id);
+      expect(state.toJSON().items).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    });
+
+    it("should swap nested objects", () => {
+      const state = store({ a: { x: 1 }, b: { x: 2 } });
+
+      [state.a, state.b] = [state.b, state.a];
+
+      expect(state.toJSON()).toEqual({ a: { x: 2 }, b: { x: 1 } });
+    });
+
+    it("should run array methods as a single write", () => {
+      const state = store({ items: [0, 1, 2, 3, 4] });
+      const values: number[][] = [];
+      effect(() => {
+        values.push(state.toJSON().items);
+      });
+
+      const removed = state.items.splice(0, 1);
+
+      expect(removed).toEqual([0]);
+      expect(values).toEqual([
+        [0, 1, 2, 3, 4],
+        [1, 2, 3, 4],
+      ]);
+    });
+
+    it("should return the removed items", () => {
+      const state = store(initial());
+
+      const last = state.todos.pop();
+
+      expect(last).toEqual({ text: "b", done: false });
+      expect(state.todos.length).toBe(1);
+    });
+
+    it("should throw when writing to a missing object", () => {
+      const state = store(initial());
+      const address = state.user.address!;
+      delete state.user.address;
+
+      expect(() => {
+        address.city = "Paris";
+      }).toThrow('cannot write to undefined at "user.address"');
+    });
+  });
+
+  describe("snapshots", () => {
+    it("should produce immutable snapshots sharing unchanged branches", () => {
+      const state = store(initial());
+      const before = state.toJSON();
+
+      state.user.address!.city = "Paris";
+      const after = state.toJSON();
+
+      expect(before.user.address!.city).toBe("London");
+      expect(after.user.address!.city).toBe("Paris");
+      expect(after.todos).toBe(before.todos);
+      expect(Object.isFrozen(after.user)).toBe(true);
+      expect(JSON.stringify(state.user)).toBe(
+        '{"name":"Ada","address":{"city":"Paris","zip":"N1"}}'
+      );
+    });
+
+    it("should persist snapshots", () => {
+      const set = vi.fn();
+      const persist: Persistor<State> = {
+        get: () => ({ value: { ...initial(), tags: { saved: true } } }),
+        set,
+      };
+      const state = store(initial(), { persist });
+
+      expect(state.tags.saved).toBe(true);
+
+      state.user.name = "Grace";
+
+      expect(set).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          user: expect.objectContaining({ name: "Grace" }),
+        })
+      );
+    });
+  });
+
+  describe("path-level subscriptions", () => {
+    it("should only notify readers of the written path", () => {
+      const state = store(initial());
+      const city = vi.fn(() => {
+        state.user.address?.city;
+      });
+      const name = vi.fn(() => {
+        state.user.name;
+      });
+      effect(city);
+      effect(name);
+
+      state.user.address!.city = "Paris";
+      expect(city).toHaveBeenCalledTimes(2);
+      expect(name).toHaveBeenCalledTimes(1);
+
+      state.user.name = "Grace";
+      state.todos[0].done = true;
+      expect(city).toHaveBeenCalledTimes(2);
+      expect(name).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not notify when an object is replaced with equal leaves", () => {
+      const state = store(initial());
+      const values: string[] = [];
+      effect(() => {
+        values.push(state.user.address!.city);
+      });
+
+      state.user.address = { city: "London", zip: "E1" };
+      state.user = { name: "Ada", address: { city: "Rome", zip: "E1" } };
+
+      expect(values).toEqual(["London", "Rome"]);
+    });
+
+    it("should notify readers of an object when it is removed", () => {
+      const state = store(initial());
+      const values: boolean[] = [];
+      effect(() => {
+        values.push(!!state.user.address);
+      });
+
+      state.user.address!.zip = "N2";
+      delete state.user.address;
+
+      expect(values).toEqual([true, false]);
+    });
+
+    it("should notify readers of keys and snapshots on any change below", () => {
+      const state = store(initial());
+      const keys = vi.fn(() => {
+        Object.keys(state.tags);
+      });
+      const snapshots: State["todos"][] = [];
+      effect(keys);
+      effect(() => {
+        snapshots.push(state.toJSON().todos);
+      });
+
+      state.tags.urgent = true;
+      state.todos[0].done = true;
+
+      expect(keys).toHaveBeenCalledTimes(2);
+      expect(snapshots).toHaveLength(3);
+    });
+
+    it("should work with computed signals and batches", () => {
+      const state = store(initial());
+      const remaining = signal(
+        () => state.todos.filter((todo) => !todo.done).length
+      );
+      const values: number[] = [];
+      effect(() => {
+        values.push(remaining());
+      });
+
+      batch(() => {
+        state.todos[0].done = true;
+        state.todos[1].done = true;
+      });
+
+      expect(values).toEqual([2, 0]);
+    });
+  });
+
+  describe("path nodes", () => {
+    /** Path signals read by a computed signal */
+    const pathSignals = (read: () => unknown) => {
+      const computed = signal(read, { lazy: true });
+      const unsubscribe = computed.on(() => {});
+      computed();
+      const { dependencies } = inspect(computed);
+      unsubscribe();
+      return dependencies;
+    };
+
+    it("should drop the signals of paths nothing reads anymore", async () => {
+      const state = store(initial());
+      const [city] = pathSignals(() => state.user.address?.city);
+
+      expect(pathSignals(() => state.user.address?.city)).toContain(city);
+
+      // Released on a microtask, then dropped on the next one
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(pathSignals(() => state.user.address?.city)).not.toContain(city);
+    });
+
+    it("should drop the nodes of deleted paths", () => {
+      const state = store(initial());
+      const address = state.user.address;
+
+      delete state.user.address;
+      state.user.address = { city: "Paris", zip: "75001" };
+
+      expect(state.user.address).not.toBe(address);
+      expect(address!.city).toBe("Paris");
+    });
+
+    it("should drop the nodes of removed items and replaced objects", () => {
+      const state = store(initial());
+      const second = state.todos[1];
+      const address = state.user.address;
+
+      state.todos.length = 1;
+      state.todos.push({ text: "c", done: false });
+      state.user = { name: "Grace" };
+      state.user.address = { city: "Paris", zip: "75001" };
+
+      expect(state.todos[1]).not.toBe(second);
+      expect(state.user.address).not.toBe(address);
+    });
+  });
+});
@@ -0,0 +1,415 @@
+import { current as currentOf, isDraft } from "immer";
+import { signal as createSignal, type SignalOptions } from "./signal";
+import { getDispatcher, withContextType } from "./dispatcher";
+import { disposableToken } from "./disposableDispatcher";
+import { trackingToken } from "./trackingDispatcher";
+import { createProxy } from "./utils/proxy/createProxy";
+import { intercepted } from "./middleware";
+import type { Signal } from "./types";
+
+/**
+ * Options of `signal.store()`.
+ *
+ * @template T - The type of the state
+ */
+export type StoreOptions<T> = {
+  name?: string;
+  /** Persists the snapshots (see `SignalOptions.persist`) */
+  persist?: SignalOptions<T>["persist"];
+};
+
+/**
+ * Deep reactive store returned by `signal.store()`.
+ *
+ * Reads and writes look like plain object access. Every nested object
+ * and array is a store too, and `toJSON()` returns its immutable snapshot.
+ *
+ * @template T - The type of the state
+ */
+export type Store<T extends object> = T & {
+  /** Immutable snapshot of the state (tracks the whole state) */
+  toJSON(): T;
+};
+
+type Path = readonly string[];
+
+/** What a path signal selects from the value at its path */
+type Select = "kind" | "value";
+
+type PathNode = {
+  path: Path;
+  parent: PathNode | undefined;
+  /** Nodes of the paths one key below */
+  children: Map<string, PathNode>;
+  kind?: Signal<unknown>;
+  value?: Signal<unknown>;
+  proxy?: any;
+  /**
+   * Value of the proxy before its path was overwritten: a proxy assigned
+   * elsewhere after that (like in a swap) still stands for that value
+   */
+  detached?: { value: unknown };
+};
+
+/** Array methods changing the array, run on a draft in a single write */
+const ARRAY_MUTATORS = new Set([
+  "copyWithin",
+  "fill",
+  "pop",
+  "push",
+  "reverse",
+  "shift",
+  "sort",
+  "splice",
+  "unshift",
+]);
+
+/** Reading a nested object or array only tracks that it stays one */
+const OBJECT = Symbol("object");
+const ARRAY = Symbol("array");
+
+/** Returns the snapshot behind a store proxy */
+const SNAPSHOT = Symbol("rxblox.store.snapshot");
+
+const isNode = (value: unknown): value is object => {
+  if (Array.isArray(value)) return true;
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+const kindOf = (value: unknown) =>
+  isNode(value) ? (Array.isArray(value) ? ARRAY : OBJECT) : value;
+
+const pickerOf = (select: Select) =>
+  select === "kind" ? kindOf : (value: unknown) => value;
+
+const getIn = (value: any, path: Path) => {
+  for (const key of path) {
+    if (value === null || value === undefined) return undefined;
+    value = value[key];
+  }
+  return value;
+};
+
+const hasIn = (value: any, path: Path) => {
+  for (const key of path) {
+    if (!isNode(value) || !Object.prototype.hasOwnProperty.call(value, key)) {
+      return false;
+    }
+    value = (value as any)[key];
+  }
+  return true;
+};
+
+const unwrap = (value: any) =>
+  (typeof value === "function" && value[SNAPSHOT]) || value;
+
+/** Values returned by array methods must outlive the draft */
+const finalize = (value: unknown) =>
+  isDraft(value) ? currentOf(value) : value;
+
+/**
+ * Creates a deep reactive store: nested property reads are tracked per
+ * path, and writes like `state.user.address.city = "x"` only notify the
+ * readers of that path.
+ *
+ * The state is kept as immutable snapshots: every write produces a new
+ * snapshot (with immer, sharing unchanged branches), which is what
+ * `toJSON()` returns and what is persisted.
+ *
+ * - Reading a primitive (`state.user.name`) tracks that path only
+ * - Reading a nested object or array (`state.user`) returns its store and
+ *   only tracks that it is still an object or array
+ * - Enumerating keys, `in` and `toJSON()` track the whole object
+ *
+ * @param initial - Initial state (plain objects and arrays are reactive,
+ * other values are stored as they are)
+ * @param options - Configuration options
+ * @returns The store
+ *
+ * @example
+ * ```ts
+ * const state = signal.store({
+ *   user: { name: "Ada", address: { city: "London" } },
+ *   todos: [{ text: "Write docs", done: false }],
+ * });
+ *
+ * // Re-runs when the city changes, not when the name changes
+ * effect(() => console.log(state.user.address.city));
+ *
+ * state.user.address.city = "Paris";
+ * state.user.name = "Ada L."; // does not re-run the effect
+ * state.todos.push({ text: "Ship", done: false });
+ * delete state.user.address;
+ *
+ * state.toJSON(); // immutable snapshot
+ * ```
+ */
+export function store<T extends object>(
+  initial: T,
+  options: StoreOptions<T> = {}
+): Store<T> {
+  const root = intercepted(() =>
+    createSignal<T>(initial, {
+      name: options.name,
+      persist: options.persist,
+    })
+  );
+  const rootNode: PathNode = {
+    path: [],
+    parent: undefined,
+    children: new Map(),
+  };
+
+  const nodeOf = (path: Path) => {
+    let node = rootNode;
+    for (const key of path) {
+      let child = node.children.get(key);
+      if (!child) {
+        child = {
+          path: [...node.path, key],
+          parent: node,
+          children: new Map(),
+        };
+        node.children.set(key, child);
+      }
+      node = child;
+    }
+    return node;
+  };
+
+  const findNode = (path: Path) => {
+    let node: PathNode | undefined = rootNode;
+    for (const key of path) {
+      node = node?.children.get(key);
+    }
+    return node;
+  };
+
+  /** Removes a node from the tree (readers keep the signals they have) */
+  const removeNode = (node: PathNode) => {
+    const key = node.path[node.path.length - 1];
+    if (node.parent?.children.get(key) === node) {
+      node.parent.children.delete(key);
+    }
+  };
+
+  /** Removes nodes left with nothing in them, up the tree */
+  const removeIfEmpty = (node: PathNode) => {
+    let current: PathNode | undefined = node;
+    while (
+      current?.parent &&
+      !current.kind &&
+      !current.value &&
+      !current.proxy &&
+      !current.children.size
+    ) {
+      removeNode(current);
+      current = current.parent;
+    }
+  };
+
+  /** Calls `fn` for the nodes below a node */
+  const forEachBelow = (node: PathNode, fn: (node: PathNode) => void) => {
+    node.children.forEach((child) => {
+      fn(child);
+      forEachBelow(child, fn);
+    });
+  };
+
+  /**
+   * Keeps the current value of the proxies at a path, or below it, before
+   * a write replaces them.
+   */
+  const detach = (path: Path, self: boolean) => {
+    const node = findNode(path);
+    if (!node) return;
+    const snapshot = root.peek();
+    const keep = (target: PathNode) => {
+      if (target.proxy && !target.detached) {
+        target.detached = { value: getIn(snapshot, target.path) };
+      }
+    };
+    if (self) keep(node);
+    forEachBelow(node, keep);
+  };
+
+  /** Removes the nodes below a written path that no longer exist */
+  const prune = (path: Path) => {
+    const node = findNode(path);
+    if (!node) return;
+    const snapshot = root.peek();
+    const visit = (target: PathNode) => {
+      target.children.forEach((child) => {
+        if (hasIn(snapshot, child.path)) {
+          visit(child);
+        } else {
+          removeNode(child);
+        }
+      });
+    };
+    visit(node);
+  };
+
+  /**
+   * Creates the lazy signal of a path. Once released (nothing reads it
+   * anymore), it is dropped from its node, and the node too if nothing
+   * else is left in it.
+   */
+  const pathSignal = (node: PathNode, select: Select) => {
+    const { path } = node;
+    const pick = pickerOf(select);
+    let runs = 0;
+
+    const output = createSignal(
+      () => {
+        const run = ++runs;
+        // Runs before each recomputation and when the signal is released
+        getDispatcher(disposableToken)?.on(() => {
+          Promise.resolve().then(() => {
+            // Computed again since: not released
+            if (run !== runs || node[select] !== output) return;
+            delete node[select];
+            removeIfEmpty(node);
+          });
+        });
+        return pick(getIn(root(), path));
+      },
+      { lazy: true }
+    );
+
+    return output;
+  };
+
+  /**
+   * Reads the value at a path. Within a tracking context, the read goes
+   * through a lazy computed signal of the path, so that only changes at
+   * that path notify the reader.
+   */
+  const read = (path: Path, select: Select) => {
+    if (!getDispatcher(trackingToken)) {
+      return pickerOf(select)(getIn(root.peek(), path));
+    }
+
+    const node = nodeOf(path);
+    // Path signals are owned by the store, not by the reader
+    node[select] ??= withContextType(undefined, () =>
+      disposableToken.without(() => pathSignal(node, select))
+    );
+    return node[select]!();
+  };
+
+  const write = (path: Path, recipe: (parent: any) => void) => {
+    root.set((draft) => {
+      const parent = getIn(draft, path);
+      if (!isNode(parent)) {
+        throw new TypeError(
+          `signal.store(): cannot write to ${String(parent)} at "${path.join(
+            "."
+          )}"`
+        );
+      }
+      recipe(parent);
+    });
+    prune(path);
+  };
+
+  /**
+   * Runs an array method changing the array at a path on a draft, as a
+   * single write.
+   */
+  const mutateArray = (path: Path, method: string, args: unknown[]) => {
+    const values = args.map(unwrap);
+    // The items move: proxies of the items keep their values
+    detach(path, false);
+    let result: unknown;
+    write(path, (parent) => {
+      const value = parent[method](...values);
+      result =
+        value === parent
+          ? proxyOf(path)
+          : Array.isArray(value)
+            ? value.map(finalize)
+            : finalize(value);
+    });
+    return result;
+  };
+
+  const proxyOf = (path: Path): any => {
+    const node = nodeOf(path);
+
+    node.proxy ??= createProxy<any>({
+      get: () => getIn(root.peek(), path),
+      traps: {
+        get(current, prop) {
+          if (prop === SNAPSHOT) {
+            return node.detached ? node.detached.value : current;
+          }
+          if (prop === "toJSON") return () => read(path, "value");
+          if (
+            Array.isArray(current) &&
+            typeof prop === "string" &&
+            ARRAY_MUTATORS.has(prop)
+          ) {
+            return (...args: unknown[]) => mutateArray(path, prop, args);
+          }
+          // Symbols and inherited members (like array methods) are not
+          // state; methods are called with the store as `this`
+          if (
+            typeof prop === "symbol" ||
+            (isNode(current) &&
+              !Object.prototype.hasOwnProperty.call(current, prop) &&
+              prop in current)
+          ) {
+            return current?.[prop];
+          }
+
+          const childPath = [...path, prop];
+          const kind = read(childPath, "kind");
+          if (kind !== OBJECT && kind !== ARRAY) return kind;
+          // Read again: stands for the value at its path
+          const child = proxyOf(childPath);
+          delete nodeOf(childPath).detached;
+          return child;
+        },
+        set(_, prop, value) {
+          const next = unwrap(value);
+          if (typeof prop === "string") detach([...path, prop], true);
+          write(path, (parent) => {
+            parent[prop] = next;
+          });
+          return true;
+        },
+        deleteProperty(_, prop) {
+          if (typeof prop === "string") detach([...path, prop], true);
+          write(path, (parent) => {
+            delete parent[prop];
+          });
+          return true;
+        },
+        has(_, prop) {
+          const current = read(path, "value");
+          return isNode(current) && prop in current;
+        },
+        ownKeys() {
+          const current = read(path, "value");
+          return isNode(current) ? Reflect.ownKeys(current) : [];
+        },
+        getOwnPropertyDescriptor(current, prop) {
+          const descriptor = isNode(current)
+            ? Reflect.getOwnPropertyDescriptor(current, prop)
+            : undefined;
+          // Snapshots are frozen, the store is not
+          return (
+            descriptor && { ...descriptor, configurable: true, writable: true }
+          );
+        },
+      },
+    });
+
+    return node.proxy;
+  };
+
+  return proxyOf([]);
+}
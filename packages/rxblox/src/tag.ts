@@ -20,6 +20,12 @@ import { isMutableSignal } from "./signal";
  * ```
  */
 export type Tag<T> = {
+  /**
+   * The name of the tag (if provided via options.name).
+   * Named tags group the state of their signals in server rendering payloads.
+   */
+  readonly name?: string;
+
   /**
    * Iterates over all signals in this tag.
    *
@@ -111,6 +117,17 @@ export type Tag<T> = {
   _remove(signal: MutableSignal<T>): void;
 };
 
+/**
+ * Options for creating a tag.
+ */
+export type TagOptions = {
+  /**
+   * Name of the tag, used as the group key of its signals in
+   * server rendering payloads (see `ssr.collect()`).
+   */
+  name?: string;
+};
+
 /**
  * Type helper to extract the union of value types from an array of tags.
  *
@@ -129,6 +146,7 @@ export type UnionOfTagTypes<T extends readonly Tag<any>[]> =
  * - Batch updates
  *
  * @template T - The type of values held by signals in this tag
+ * @param options - Tag options (name)
  * @returns A new tag instance
  *
  * @example
@@ -172,10 +190,12 @@ export type UnionOfTagTypes<T extends readonly Tag<any>[]> =
  * });
  * ```
  */
-export function tag<T>(): Tag<T> {
+export function tag<T>(options: TagOptions = {}): Tag<T> {
   const signals = new Set<MutableSignal<T>>();
 
   return {
+    name: options.name,
+
     forEach(fn: (signal: MutableSignal<T>) => void): void {
       signals.forEach(fn);
     },
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { debounced, throttled, delayed, sampled, interval } from "./time";
+import { signal } from "./signal";
+import { effect } from "./effect";
+import { emitter } from "./emitter";
+import { disposableToken } from "./disposableDispatcher";
+
+describe("time operators", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("signal.debounced", () => {
+    it("should update once the source stops changing", () => {
+      const query = signal("");
+      const debouncedQuery = debounced(query, 100);
+      const values: string[] = [];
+      effect(() => {
+        values.push(debouncedQuery());
+      });
+
+      query.set("a");
+      vi.advanceTimersByTime(50);
+      query.set("ab");
+      vi.advanceTimersByTime(50);
+      query.set("abc");
+
+      expect(debouncedQuery()).toBe("");
+
+      vi.advanceTimersByTime(100);
+
+      expect(values).toEqual(["", "abc"]);
+    });
+
+    it("should support leading and maxWait", () => {
+      const count = signal(0);
+      const value = debounced(count, 100, { leading: true, maxWait: 250 });
+
+      count.set(1);
+      expect(value()).toBe(1);
+
+      for (let i = 2; i <= 6; i++) {
+        vi.advanceTimersByTime(60);
+        count.set(i);
+      }
+
+      // Updated after 250ms despite the changes
+      expect(value()).toBe(5);
+    });
+  });
+
+  describe("signal.throttled", () => {
+    it("should update at most once per period", () => {
+      const position = signal(0);
+      const value = throttled(position, 100);
+      const values: number[] = [];
+      effect(() => {
+        values.push(value());
+      });
+
+      position.set(1);
+      position.set(2);
+      position.set(3);
+
+      expect(values).toEqual([0, 1]);
+
+      vi.advanceTimersByTime(100);
+
+      expect(values).toEqual([0, 1, 3]);
+    });
+
+    it("should support disabling the trailing update", () => {
+      const position = signal(0);
+      const value = throttled(position, 100, { trailing: false });
+
+      position.set(1);
+      position.set(2);
+      vi.advanceTimersByTime(200);
+
+      expect(value()).toBe(1);
+    });
+  });
+
+  describe("signal.delayed", () => {
+    it("should replay every change after the delay", () => {
+      const hovered = signal(false);
+      const value = delayed(hovered, 100);
+      const values: boolean[] = [];
+      value.on(() => values.push(value()));
+
+      hovered.set(true);
+      vi.advanceTimersByTime(50);
+      hovered.set(false);
+
+      expect(value()).toBe(false);
+      expect(values).toEqual([]);
+
+      vi.advanceTimersByTime(50);
+      expect(value()).toBe(true);
+
+      vi.advanceTimersByTime(50);
+      expect(values).toEqual([true, false]);
+    });
+  });
+
+  describe("signal.sampled", () => {
+    it("should take the source value when the ticker changes", () => {
+      const position = signal(0);
+      const tick = signal(0);
+      const value = sampled(position, tick);
+
+      position.set(1);
+      position.set(2);
+      expect(value()).toBe(0);
+
+      tick.set(1);
+      expect(value()).toBe(2);
+    });
+
+    it("should sample every period", () => {
+      const position = signal(0);
+      const value = sampled(position, 100);
+
+      position.set(1);
+      vi.advanceTimersByTime(99);
+      expect(value()).toBe(0);
+
+      vi.advanceTimersByTime(1);
+      expect(value()).toBe(1);
+    });
+
+    it("should skip errors of computed sources", () => {
+      const count = signal(1);
+      const checked = signal(() => {
+        if (count() < 0) throw new Error("negative");
+        return count();
+      });
+      const value = sampled(checked, 100);
+
+      count.set(-1);
+      vi.advanceTimersByTime(100);
+
+      expect(value()).toBe(1);
+    });
+  });
+
+  describe("signal.interval", () => {
+    it("should count the elapsed periods", () => {
+      const tick = interval(1000);
+
+      expect(tick()).toBe(0);
+
+      vi.advanceTimersByTime(3000);
+
+      expect(tick()).toBe(3);
+    });
+  });
+
+  describe("disposal", () => {
+    it("should stop with dispose()", () => {
+      const tick = interval(100);
+      const query = signal("");
+      const value = debounced(query, 100);
+
+      tick.dispose();
+      value.dispose();
+      query.set("a");
+      vi.advanceTimersByTime(200);
+
+      expect(tick()).toBe(0);
+      expect(value()).toBe("");
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("should stop when the owning scope is disposed", () => {
+      const onDispose = emitter<void>();
+      const source = signal(0);
+      const value = disposableToken.with(onDispose, () => delayed(source, 100));
+
+      source.set(1);
+      onDispose.emit();
+      vi.advanceTimersByTime(100);
+
+      expect(value()).toBe(0);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import debounce from "lodash/debounce";
+import throttle from "lodash/throttle";
+import { signal as createSignal } from "./signal";
+import { getDispatcher } from "./dispatcher";
+import { disposableToken } from "./disposableDispatcher";
+import type { Signal } from "./types";
+
+/**
+ * Read-only signal returned by the time operators (`signal.debounced()`,
+ * `signal.throttled()`, `signal.delayed()`, `signal.sampled()`,
+ * `signal.interval()`).
+ *
+ * @template T - The type of the value
+ */
+export type TimedSignal<T> = Signal<T> & {
+  /**
+   * Stops following the source and cancels the pending updates. Called
+   * automatically when the owning scope (e.g. a component) is disposed.
+   */
+  dispose(): void;
+};
+
+/**
+ * Options of `signal.debounced()`.
+ */
+export type DebouncedOptions = {
+  name?: string;
+  /**
+   * Also updates on the first change of a burst.
+   * @default false
+   */
+  leading?: boolean;
+  /** Maximum time (ms) an update can be delayed by a burst of changes */
+  maxWait?: number;
+};
+
+/**
+ * Options of `signal.throttled()`.
+ */
+export type ThrottledOptions = {
+  name?: string;
+  /**
+   * Updates on the first change of a period.
+   * @default true
+   */
+  leading?: boolean;
+  /**
+   * Updates with the latest change at the end of a period.
+   * @default true
+   */
+  trailing?: boolean;
+};
+
+/**
+ * Options of `signal.delayed()`, `signal.sampled()` and `signal.interval()`.
+ */
+export type TimedOptions = {
+  name?: string;
+};
+
+/**
+ * Creates the output signal of an operator.
+ *
+ * @param initial - Initial value
+ * @param name - Name of the signal
+ * @param start - Starts the operator with a setter of the output, returns
+ * its cleanup
+ * @returns The read-only output, disposed with the owning scope
+ */
+function operator<T>(
+  initial: T,
+  name: string | undefined,
+  start: (set: (value: T) => void) => VoidFunction
+): TimedSignal<T> {
+  const output = createSignal(initial, { name });
+  let disposed = false;
+  const stop = start((value) => {
+    if (!disposed) output.set(value);
+  });
+
+  const dispose = () => {
+    if (disposed) return;
+    disposed = true;
+    stop();
+  };
+
+  getDispatcher(disposableToken)?.on(dispose);
+
+  return Object.assign(output.readonly, { dispose }) as TimedSignal<T>;
+}
+
+/**
+ * Listens to the values of a source signal. Errors of a computed source
+ * are skipped: the output keeps its value.
+ */
+function follow<T>(source: Signal<T>, listener: (value: T) => void) {
+  return source.on(() => {
+    let value: T;
+    try {
+      value = source.peek();
+    } catch {
+      return;
+    }
+    listener(value);
+  });
+}
+
+/**
+ * Creates a signal following a source signal once it stops changing for
+ * `ms` milliseconds.
+ *
+ * @param source - The source signal
+ * @param ms - Quiet period (ms)
+ * @param options - Configuration options
+ * @returns A read-only signal
+ *
+ * @example
+ * ```ts
+ * const query = signal("");
+ * const debouncedQuery = signal.debounced(query, 300);
+ *
+ * // Searches when the user stops typing
+ * const results = signal.async(() => search(debouncedQuery()));
+ * ```
+ */
+export function debounced<T>(
+  source: Signal<T>,
+  ms: number,
+  options: DebouncedOptions = {}
+): TimedSignal<T> {
+  const { name, ...debounceOptions } = options;
+
+  return operator(source.peek(), name, (set) => {
+    const update = debounce(set, ms, debounceOptions);
+    const unsubscribe = follow(source, update);
+    return () => {
+      unsubscribe();
+      update.cancel();
+    };
+  });
+}
+
+/**
+ * Creates a signal following a source signal at most once every `ms`
+ * milliseconds.
+ *
+ * @param source - The source signal
+ * @param ms - Period (ms)
+ * @param options - Configuration options
+ * @returns A read-only signal
+ *
+ * @example
+ * ```ts
+ * const scrollY = signal(0);
+ * window.addEventListener("scroll", () => scrollY.set(window.scrollY));
+ *
+ * const position = signal.throttled(scrollY, 100);
+ * ```
+ */
+export function throttled<T>(
+  source: Signal<T>,
+  ms: number,
+  options: ThrottledOptions = {}
+): TimedSignal<T> {
+  const { name, ...throttleOptions } = options;
+
+  return operator(source.peek(), name, (set) => {
+    const update = throttle(set, ms, throttleOptions);
+    const unsubscribe = follow(source, update);
+    return () => {
+      unsubscribe();
+      update.cancel();
+    };
+  });
+}
+
+/**
+ * Creates a signal replaying every change of a source signal `ms`
+ * milliseconds later.
+ *
+ * @param source - The source signal
+ * @param ms - Delay (ms)
+ * @param options - Configuration options
+ * @returns A read-only signal
+ *
+ * @example
+ * ```ts
+ * const hovered = signal(false);
+ * // Shows and hides the tooltip 500ms after the pointer
+ * const showTooltip = signal.delayed(hovered, 500);
+ * ```
+ */
+export function delayed<T>(
+  source: Signal<T>,
+  ms: number,
+  options: TimedOptions = {}
+): TimedSignal<T> {
+  return operator(source.peek(), options.name, (set) => {
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    const unsubscribe = follow(source, (value) => {
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        set(value);
+      }, ms);
+      timers.add(timer);
+    });
+    return () => {
+      unsubscribe();
+      timers.forEach(clearTimeout);
+      timers.clear();
+    };
+  });
+}
+
+/**
+ * Creates a signal taking the value of a source signal each time a ticker
+ * signal changes, or every `ms` milliseconds.
+ *
+ * @param source - The source signal
+ * @param ticker - Signal triggering the samples, or sampling period (ms)
+ * @param options - Configuration options
+ * @returns A read-only signal
+ *
+ * @example
+ * ```ts
+ * const position = signal({ x: 0, y: 0 });
+ *
+ * // Refreshed on each animation frame tick
+ * const frame = signal.sampled(position, signal.interval(16));
+ * // Or every second
+ * const slow = signal.sampled(position, 1000);
+ * ```
+ */
+export function sampled<T>(
+  source: Signal<T>,
+  ticker: Signal<unknown> | number,
+  options: TimedOptions = {}
+): TimedSignal<T> {
+  return operator(source.peek(), options.name, (set) => {
+    const sample = () => {
+      try {
+        set(source.peek());
+      } catch {
+        // Errors of a computed source are skipped
+      }
+    };
+
+    if (typeof ticker === "number") {
+      const timer = setInterval(sample, ticker);
+      return () => clearInterval(timer);
+    }
+    return ticker.on(sample);
+  });
+}
+
+/**
+ * Creates a signal counting the periods of `ms` milliseconds elapsed since
+ * its creation: 0, then 1 after `ms`, 2 after `2 * ms`...
+ *
+ * @param ms - Period (ms)
+ * @param options - Configuration options
+ * @returns A read-only signal of the count
+ *
+ * @example
+ * ```tsx
+ * const Clock = blox(() => {
+ *   const tick = signal.interval(1000);
+ *   return rx(() => <span>{(tick(), new Date().toLocaleTimeString())}</span>);
+ * });
+ * ```
+ */
+export function interval(
+  ms: number,
+  options: TimedOptions = {}
+): TimedSignal<number> {
+  let count = 0;
+
+  return operator(count, options.name, (set) => {
+    const timer = setInterval(() => set(++count), ms);
+    return () => clearInterval(timer);
+  });
+}
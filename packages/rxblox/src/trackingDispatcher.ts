@@ -9,6 +9,8 @@ import { emitter, Emitter } from "./emitter";
 import { disposableToken } from "./disposableDispatcher";
 import { signal } from "./signal";
 import { createProxy } from "./utils/proxy/createProxy";
+import { devtoolsDependency, devtoolsTrack } from "./devtools";
+import { addDependent } from "./inspect";
 
 /**
  * Dispatcher token for dependency tracking.
@@ -37,6 +39,9 @@ export const trackingToken =
  *
  * @param onUpdate - Optional callback invoked when tracked subscribables change
  * @param onCleanup - Optional emitter for cleanup functions
+ * @param owner - Optional computed signal or effect the dependencies belong to
+ * (recorded as dependent of each subscribable for `signal.inspect()` and
+ * reported to the devtools as dependency edges)
  * @returns A new tracking dispatcher instance
  *
  * @example
@@ -62,9 +67,15 @@ export const trackingToken =
  */
 export function trackingDispatcher(
   onUpdate?: VoidFunction,
-  onCleanup?: Emitter
+  onCleanup?: Emitter,
+  owner?: object
 ): TrackingDispatcher {
   const onCleanupDynamicTracking = emitter<void>();
+
+  if (owner) {
+    devtoolsTrack(owner);
+  }
+
   /**
    * Adds a subscribable to the dispatcher's tracking set.
    *
@@ -77,6 +88,11 @@ export function trackingDispatcher(
     }
     subscribables.add(subscribable);
 
+    if (owner) {
+      onCleanup?.on(addDependent(subscribable, owner));
+      devtoolsDependency(owner, subscribable);
+    }
+
     if (onUpdate) {
       onCleanup?.on(subscribable.on(onUpdate));
     }
@@ -1,4 +1,7 @@
 import { FC, ReactNode } from "react";
+import type { Draft, Patch } from "immer";
+import type { ValidationResult } from "./validation";
+import type { SignalMiddleware } from "./middleware";
 
 /**
  * Function type for explicit dependency tracking in async contexts.
@@ -385,6 +388,47 @@ export type Signal<T> = {
   select: SelectFn<T>;
 
   persistInfo: PersistInfo;
+
+  /**
+   * Reactive validation result of the current value
+   * (see `SignalOptions.validate`). Always valid without validator.
+   *
+   * @example
+   * ```ts
+   * rx(() => {
+   *   const { status, errors } = email.validation();
+   *   return status === "invalid" ? <span>{errors[""][0]}</span> : null;
+   * });
+   * ```
+   */
+  readonly validation: Signal<ValidationResult>;
+
+  /**
+   * Returns the signal as a standard observable (RxJS, TC39 Observable):
+   * it emits the current value on subscription, then every change, errors
+   * with the computation error, and completes when the signal is disposed.
+   *
+   * @example
+   * ```ts
+   * import { from } from "rxjs";
+   *
+   * from(count).pipe(debounceTime(100)).subscribe(console.log);
+   * ```
+   */
+  [Symbol.observable](): InteropObservable<T>;
+
+  /**
+   * Iterates over the current value, then every change. Slow consumers
+   * receive the latest value and skip intermediate ones.
+   *
+   * @example
+   * ```ts
+   * for await (const value of count) {
+   *   console.log(value);
+   * }
+   * ```
+   */
+  [Symbol.asyncIterator](): AsyncIterableIterator<T>;
 };
 
 /**
@@ -396,15 +440,82 @@ export type Signal<T> = {
  */
 export type Listener<T> = (value: T) => void;
 
+/**
+ * Patches of a signal change, in the immer format.
+ */
+export type SignalPatches = {
+  /** Turn the previous value into the new value */
+  patches: Patch[];
+  /** Turn the new value back into the previous value */
+  inversePatches: Patch[];
+};
+
 /**
  * A mutable signal extends Signal with the ability to set/update its value.
  */
+
 export type MutableSignal<T> = Signal<T> & {
   /**
    * Sets the current signal value or updates it using a function.
    * @param value - The new value or a function that receives the previous value
    */
   set(value: T | ((prev: T) => T | void)): void;
+  /**
+   * Updates the signal value by mutating an immer draft, and returns the
+   * patches of the update: `patches` turn the previous value into the new
+   * one, `inversePatches` turn it back (for undo).
+   *
+   * Unchanged parts of the value are shared with the previous value.
+   *
+   * @param recipe - Mutates the draft (or returns a new value)
+   * @returns The patches, empty if nothing changed
+   *
+   * @example
+   * ```ts
+   * const todos = signal([{ text: "a", done: false }]);
+   *
+   * const { inversePatches } = todos.mutate((draft) => {
+   *   draft[0].done = true;
+   * });
+   * // patches: [{ op: "replace", path: [0, "done"], value: true }]
+   *
+   * todos.patch(inversePatches); // undo
+   * ```
+   */
+  mutate(recipe: (draft: Draft<T>) => T | void): SignalPatches;
+  /**
+   * Applies patches (from `mutate()` or `onPatch()`) to the signal value.
+   *
+   * @param patches - Patches to apply, in order
+   * @returns The patches of the change, with the inverse patches
+   */
+  patch(patches: readonly Patch[]): SignalPatches;
+  /**
+   * Listens to the patches of every change of the signal value.
+   *
+   * Updates made with a draft (`set(fn)`, `mutate()`, `patch()`) report
+   * the changed paths; other changes report a replacement of the whole
+   * value (`{ op: "replace", path: [] }`).
+   *
+   * @param listener - Called with the patches of each change
+   * @returns An unsubscribe function
+   */
+  onPatch(listener: (patches: SignalPatches) => void): VoidFunction;
+  /**
+   * Adds a middleware intercepting the writes of the signal, after the
+   * global middleware (`signal.use()`) and the `use` option.
+   *
+   * @param middleware - The middleware
+   * @returns A function removing the middleware
+   *
+   * @example
+   * ```ts
+   * const count = signal(0);
+   * // Clamps the written values
+   * count.use((write, next) => next(Math.max(0, Math.min(100, write.value))));
+   * ```
+   */
+  use(middleware: SignalMiddleware<T>): VoidFunction;
   /**
    * Resets the current signal value to the initial value.
    */
@@ -601,6 +712,38 @@ export type Subscribable = {
   on(listener: VoidFunction): VoidFunction;
 };
 
+declare global {
+  interface SymbolConstructor {
+    /** Interop key of observables (polyfilled by RxJS and others) */
+    readonly observable: symbol;
+  }
+}
+
+/**
+ * Receives the notifications of an observable.
+ */
+export type Observer<T> = {
+  next?(value: T): void;
+  error?(error: unknown): void;
+  complete?(): void;
+};
+
+/**
+ * Subscription to an observable.
+ */
+export type Subscription = {
+  unsubscribe(): void;
+  readonly closed: boolean;
+};
+
+/**
+ * Observable in the TC39 / RxJS format, for interop.
+ */
+export type InteropObservable<T> = {
+  subscribe(observer?: Observer<T> | ((value: T) => void)): Subscription;
+  [Symbol.observable](): InteropObservable<T>;
+};
+
 export type Observable<T> = Subscribable & {
   (): T;
 };
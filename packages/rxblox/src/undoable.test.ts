@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { signal } from "./signal";
+import { batch } from "./batch";
+import { effect } from "./effect";
+import { undoable } from "./undoable";
+
+describe("signal.undoable", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("basic undo/redo", () => {
+    it("should record the initial value as the first step", () => {
+      const count = signal(0);
+      const u = undoable(count);
+
+      expect(u.entries().map((e) => e.value)).toEqual([0]);
+      expect(u.index()).toBe(0);
+      expect(u.canUndo()).toBe(false);
+      expect(u.canRedo()).toBe(false);
+    });
+
+    it("should undo and redo each change", () => {
+      const count = signal(0);
+      const u = undoable(count);
+
+      count.set(1);
+      count.set(2);
+
+      expect(u.undo()).toBe(true);
+      expect(count()).toBe(1);
+      expect(u.undo()).toBe(true);
+      expect(count()).toBe(0);
+      expect(u.undo()).toBe(false);
+      expect(count()).toBe(0);
+
+      expect(u.redo()).toBe(true);
+      expect(count()).toBe(1);
+      expect(u.redo()).toBe(true);
+      expect(count()).toBe(2);
+      expect(u.redo()).toBe(false);
+    });
+
+    it("should not record restored values as new steps", () => {
+      const count = signal(0);
+      const u = undoable(count);
+
+      count.set(1);
+      u.undo();
+      vi.runAllTimers();
+
+      expect(u.entries().map((e) => e.value)).toEqual([0, 1]);
+      expect(u.index()).toBe(0);
+    });
+
+    it("should drop the redo branch on a new change", () => {
+      const count = signal(0);
+      const u = undoable(count);
+
+      count.set(1);
+      count.set(2);
+      u.undo();
+      u.undo();
+
+      count.set(10);
+      vi.runAllTimers();
+
+      expect(u.entries().map((e) => e.value)).toEqual([0, 10]);
+      expect(u.canRedo()).toBe(false);
+      expect(u.redo()).toBe(false);
+    });
+
+    it("should not create a step when the value equals the current step", () => {
+      const user = signal({ name: "John" });
+      const u = undoable(user);
+
+      user.set({ name: "John" });
+      vi.runAllTimers();
+
+      expect(u.entries()).toHaveLength(1);
+    });
+
+    it("should use custom equals", () => {
+      const user = signal({ id: 1, visits: 0 });
+      const u = undoable(user, { equals: (a, b) => a.id === b.id });
+
+      user.set({ id: 1, visits: 1 });
+      vi.runAllTimers();
+      expect(u.entries()).toHaveLength(1);
+
+      user.set({ id: 2, visits: 1 });
+      vi.runAllTimers();
+      expect(u.entries()).toHaveLength(2);
+    });
+  });
+
+  describe("reactive state", () => {
+    it("should report pending changes through canUndo", () => {
+      const count = signal(0);
+      const u = undoable(count);
+
+      count.set(1);
+      expect(u.canUndo()).toBe(true);
+    });
+
+    it("should notify canUndo/canRedo subscribers", () => {
+      const count = signal(0);
+      const u = undoable(count);
+      const states: [boolean, boolean][] = [];
+
+      effect(() => {
+        states.push([u.canUndo(), u.canRedo()]);
+      });
+
+      count.set(1);
+      vi.runAllTimers();
+      u.undo();
+      u.redo();
+
+      expect(states[0]).toEqual([false, false]);
+      expect(states[states.length - 1]).toEqual([true, false]);
+      expect(states).toContainEqual([false, true]);
+    });
+  });
+
+  describe("jump", () => {
+    it("should restore any step", () => {
+      const count = signal(0);
+      const u = undoable(count);
+
+      count.set(1);
+      count.set(2);
+      count.set(3);
+
+      expect(u.jump(1)).toBe(true);
+      expect(count()).toBe(1);
+      expect(u.index()).toBe(1);
+
+      expect(u.jump(-1)).toBe(true);
+      expect(count()).toBe(3);
+    });
+
+    it("should return false for out of range indices", () => {
+      const count = signal(0);
+      const u = undoable(count);
+
+      expect(u.jump(5)).toBe(false);
+      expect(u.jump(-5)).toBe(false);
+      expect(count()).toBe(0);
+    });
+  });
+
+  describe("transactions", () => {
+    it("should record a batch as one step", () => {
+      const x = signal(0);
+      const y = signal(0);
+      const u = undoable([x, y]);
+
+      batch(() => {
+        x.set(10);
+        y.set(20);
+      });
+      x.set(11);
+
+      expect(u.undo()).toBe(true);
+      expect([x(), y()]).toEqual([10, 20]);
+
+      expect(u.undo()).toBe(true);
+      expect([x(), y()]).toEqual([0, 0]);
+      expect(u.entries()).toHaveLength(3);
+    });
+
+    it("should restore all signals together", () => {
+      const x = signal(0);
+      const y = signal("a");
+      const u = undoable([x, y]);
+      const seen: [number, string][] = [];
+
+      x.set(1);
+      y.set("b");
+      vi.runAllTimers();
+
+      effect(() => {
+        seen.push([x(), y()]);
+      });
+      seen.length = 0;
+
+      u.jump(0);
+
+      // Never observes a half-restored state
+      expect(seen.length).toBeGreaterThan(0);
+      expect(seen.every(([a, b]) => a === 0 && b === "a")).toBe(true);
+    });
+  });
+
+  describe("options", () => {
+    it("should respect maxLength", () => {
+      const count = signal(0);
+      const u = undoable(count, { maxLength: 3 });
+
+      for (let i = 1; i <= 5; i++) {
+        count.set(i);
+      }
+      vi.runAllTimers();
+
+      expect(u.entries().map((e) => e.value)).toEqual([3, 4, 5]);
+      expect(u.index()).toBe(2);
+
+      u.undo();
+      u.undo();
+      expect(u.undo()).toBe(false);
+      expect(count()).toBe(3);
+    });
+
+    it("should group rapid changes with debounce", () => {
+      const text = signal("");
+      const u = undoable(text, { debounce: 300 });
+
+      text.set("H");
+      text.set("He");
+      text.set("Hel");
+      vi.advanceTimersByTime(300);
+
+      text.set("Hello");
+      vi.advanceTimersByTime(300);
+
+      expect(u.entries().map((e) => e.value)).toEqual(["", "Hel", "Hello"]);
+    });
+
+    it("should commit debounced changes before undo", () => {
+      const text = signal("");
+      const u = undoable(text, { debounce: 300 });
+
+      text.set("Hello");
+      expect(u.undo()).toBe(true);
+      expect(text()).toBe("");
+
+      expect(u.redo()).toBe(true);
+      expect(text()).toBe("Hello");
+    });
+  });
+
+  it("should clear all steps but the current one", () => {
+    const count = signal(0);
+    const u = undoable(count);
+
+    count.set(1);
+    count.set(2);
+    u.undo();
+    u.clear();
+
+    expect(u.entries().map((e) => e.value)).toEqual([1]);
+    expect(u.index()).toBe(0);
+    expect(u.canUndo()).toBe(false);
+    expect(u.canRedo()).toBe(false);
+  });
+});
@@ -0,0 +1,271 @@
+import isEqual from "lodash/isEqual";
+import { signal as createSignal } from "./signal";
+import { history, type HistoryEntry, type HistoryOptions } from "./history";
+import { batch, type InferSignalValues } from "./batch";
+import type { MutableSignal, Signal } from "./types";
+import { trackingToken } from "./trackingDispatcher";
+
+/**
+ * Options for configuring an undo/redo manager.
+ */
+export type UndoableOptions<T> = Pick<
+  HistoryOptions<T>,
+  "debounce" | "maxLength"
+> & {
+  /**
+   * Determines whether a recorded value is the same as the current step.
+   * Equal values do not create a new step.
+   * @default lodash isEqual (deep equality)
+   */
+  equals?: (a: T, b: T) => boolean;
+};
+
+/**
+ * Undo/redo manager returned by `signal.undoable()`.
+ *
+ * Every step is a `HistoryEntry` holding a snapshot of the tracked value(s).
+ * `index` points at the step that matches the current value; undoing moves
+ * it back, redoing moves it forward, and any new change drops the steps
+ * after it (the redo branch).
+ */
+export type Undoable<T> = {
+  /** Recorded steps, oldest first */
+  readonly entries: Signal<HistoryEntry<T>[]>;
+  /** Position of the current step in `entries` */
+  readonly index: Signal<number>;
+  /** True if there is a step to go back to */
+  readonly canUndo: Signal<boolean>;
+  /** True if there is a step to go forward to */
+  readonly canRedo: Signal<boolean>;
+  /**
+   * Restores the previous step.
+   * @returns false if there is nothing to undo
+   */
+  undo(): boolean;
+  /**
+   * Restores the next step.
+   * @returns false if there is nothing to redo
+   */
+  redo(): boolean;
+  /**
+   * Restores the step at the given position in `entries`.
+   * @param index - Step position (negative values count from the end)
+   * @returns false if the index is out of range
+   */
+  jump(index: number): boolean;
+  /** Forgets all steps, keeping the current value as the only step */
+  clear(): void;
+};
+
+/**
+ * Creates an undo/redo manager for a mutable signal.
+ *
+ * @param target - The signal to manage
+ * @param options - Configuration options
+ * @returns An undo/redo manager
+ */
+export function undoable<T>(
+  target: MutableSignal<T>,
+  options?: UndoableOptions<T>
+): Undoable<T>;
+
+/**
+ * Creates an undo/redo manager for several mutable signals.
+ * Each step captures the values of all signals, and undo/redo restores
+ * them together.
+ *
+ * @param targets - The signals to manage
+ * @param options - Configuration options
+ * @returns An undo/redo manager whose steps are tuples of signal values
+ */
+export function undoable<const TSignals extends readonly MutableSignal<any>[]>(
+  targets: TSignals,
+  options?: UndoableOptions<InferSignalValues<TSignals>>
+): Undoable<InferSignalValues<TSignals>>;
+
+/**
+ * Creates an undo/redo manager on top of `signal.history()`.
+ *
+ * Changes are recorded as steps the same way history entries are recorded:
+ * - With `debounce`, rapid changes within the debounce window become one step
+ * - Without `debounce`, every change is its own step, except that all
+ *   changes made inside a single `batch()` form one step (a transaction)
+ * - `maxLength` limits the number of steps kept (oldest are dropped)
+ *
+ * Pending (debounced) changes are committed before undo/redo/jump, so
+ * undoing right after a change always returns to the value before it.
+ *
+ * @example
+ * ```ts
+ * const text = signal("");
+ * const editor = signal.undoable(text);
+ *
+ * text.set("Hello");
+ * text.set("Hello world");
+ *
+ * editor.undo(); // text() === "Hello"
+ * editor.redo(); // text() === "Hello world"
+ * editor.canRedo(); // false
+ * ```
+ *
+ * @example
+ * ```ts
+ * // Several signals, one transaction per batch
+ * const x = signal(0);
+ * const y = signal(0);
+ * const moves = signal.undoable([x, y]);
+ *
+ * batch(() => {
+ *   x.set(10);
+ *   y.set(20);
+ * });
+ *
+ * moves.undo(); // x() === 0 && y() === 0
+ * ```
+ */
+export function undoable(
+  targetOrTargets: MutableSignal<any> | readonly MutableSignal<any>[],
+  options: UndoableOptions<any> = {}
+): Undoable<any> {
+  const { debounce = 0, maxLength = Infinity, equals = isEqual } = options;
+  const targets = Array.isArray(targetOrTargets) ? targetOrTargets : undefined;
+  const target = targetOrTargets as MutableSignal<any>;
+
+  const entries = createSignal<HistoryEntry<any>[]>([]);
+  const index = createSignal(0);
+  // Flags are plain signals (not computed) so they are up to date right
+  // after a batch instead of a microtask later
+  const canUndo = createSignal(false);
+  const canRedo = createSignal(false);
+  // True while a change is waiting to be recorded by the (debounced) recorder
+  let pending = false;
+  let restoring = false;
+  let initialized = false;
+
+  const updateFlags = () => {
+    const length = entries.peek().length;
+    const position = index.peek();
+
+    canUndo.set(position > 0 || (pending && length > 0));
+    canRedo.set(!pending && position < length - 1);
+  };
+
+  const read = () => {
+    const value = targets ? targets.map((s) => s()) : target();
+
+    if (initialized && !restoring) {
+      // Writes made inside the recorder's effect must not become its dependencies
+      trackingToken.without(() => {
+        // Without debounce, commit the previous change before queuing this one,
+        // so each change (or batch) becomes a separate step
+        if (!debounce) {
+          recorder.flush();
+        }
+        pending = true;
+        updateFlags();
+      });
+    }
+
+    return value;
+  };
+
+  const record = (entry: HistoryEntry<any> | undefined) => {
+    pending = false;
+
+    const steps = entries.peek();
+    const current = steps[index.peek()];
+
+    if (!entry || restoring || (current && equals(current.value, entry.value))) {
+      updateFlags();
+      return;
+    }
+
+    // A new change discards the redo branch
+    const nextSteps = [...steps.slice(0, index.peek() + 1), entry];
+
+    if (nextSteps.length > maxLength) {
+      nextSteps.splice(0, nextSteps.length - maxLength);
+    }
+
+    batch(() => {
+      entries.set(nextSteps);
+      index.set(nextSteps.length - 1);
+      updateFlags();
+    });
+  };
+
+  // History keeps only the latest recorded value; steps are managed here
+  const recorder = history(read, { debounce, maxLength: 1 });
+
+  recorder.on(() => {
+    const [entry] = recorder.peek();
+    record(entry);
+  });
+
+  // Record the initial value as the first step right away
+  recorder.flush();
+  initialized = true;
+
+  const restore = (value: any) => {
+    restoring = true;
+    try {
+      batch(() => {
+        if (targets) {
+          targets.forEach((s, i) => s.set(value[i]));
+        } else {
+          target.set(value);
+        }
+      });
+      // Drop the entry produced by our own writes
+      recorder.flush();
+    } finally {
+      restoring = false;
+    }
+  };
+
+  const jump = (to: number) => {
+    // Commit pending changes first so they can be redone later
+    recorder.flush();
+
+    const steps = entries.peek();
+    const position = to < 0 ? steps.length + to : to;
+
+    if (position < 0 || position >= steps.length) {
+      return false;
+    }
+
+    if (position !== index.peek()) {
+      restore(steps[position].value);
+      index.set(position);
+      updateFlags();
+    }
+
+    return true;
+  };
+
+  return {
+    entries: entries.readonly,
+    index: index.readonly,
+    canUndo: canUndo.readonly,
+    canRedo: canRedo.readonly,
+    undo() {
+      recorder.flush();
+      return index.peek() > 0 && jump(index.peek() - 1);
+    },
+    redo() {
+      recorder.flush();
+      return jump(index.peek() + 1);
+    },
+    jump,
+    clear() {
+      recorder.flush();
+      const current = entries.peek()[index.peek()];
+
+      batch(() => {
+        entries.set(current ? [current] : []);
+        index.set(0);
+        updateFlags();
+      });
+    },
+  };
+}
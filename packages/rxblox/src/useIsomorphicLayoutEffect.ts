@@ -0,0 +1,12 @@
+import { useEffect, useLayoutEffect } from "react";
+
+/**
+ * `useLayoutEffect` in the browser, `useEffect` on the server.
+ *
+ * Layout effects never run during server rendering, and React warns about
+ * every component that uses them. Subscriptions of `blox` and `rx` are made
+ * in layout effects, so they use this hook to render on the server without
+ * warnings.
+ */
+export const useIsomorphicLayoutEffect =
+  typeof window === "undefined" ? useEffect : useLayoutEffect;
@@ -1,5 +1,6 @@
 import debounce from "lodash/debounce";
-import { useCallback, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useMemo, useRef, useState } from "react";
+import { useIsomorphicLayoutEffect } from "./useIsomorphicLayoutEffect";
 
 export type RerenderOptions = {
   debounce?: number | "microtask";
@@ -94,7 +95,7 @@ export function useRerender<TData = void>(
   }, [rerenderWrapper]);
 
   // Track rendering state: set to true during render, false after paint
-  useLayoutEffect(() => {
+  useIsomorphicLayoutEffect(() => {
     isRenderingRef.current = false;
     return () => {
       isRenderingRef.current = false;
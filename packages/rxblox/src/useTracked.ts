@@ -1,4 +1,5 @@
-import { useLayoutEffect, useRef, useState } from "react";
+import { useRef, useState } from "react";
+import { useIsomorphicLayoutEffect } from "./useIsomorphicLayoutEffect";
 import { useRerender } from "./useRerender";
 import { trackingDispatcher, trackingToken } from "./trackingDispatcher";
 import { emitter } from "./emitter";
@@ -221,7 +222,7 @@ export function useTracked<T extends Record<string, () => unknown>>(
    * 3. Signal changes: trigger rerender
    * 4. Cleanup: unsubscribe from all signals (on unmount or re-run)
    */
-  useLayoutEffect(() => {
+  useIsomorphicLayoutEffect(() => {
     const onCleanup = emitter();
 
     // Subscribe to each signal that was accessed during render
@@ -1,4 +1,5 @@
-import { useLayoutEffect, useRef } from "react";
+import { useRef } from "react";
+import { useIsomorphicLayoutEffect } from "./useIsomorphicLayoutEffect";
 
 /**
  * Hook that executes a callback when the component unmounts.
@@ -57,7 +58,7 @@ export function useUnmount(callback: VoidFunction) {
    * Runs once on mount (empty dependency array) and returns a cleanup
    * function that will be called when the component unmounts.
    */
-  useLayoutEffect(() => {
+  useIsomorphicLayoutEffect(() => {
     // Reset flag when effect runs (component is mounting/re-mounting)
     isUnmountRef.current = false;
 
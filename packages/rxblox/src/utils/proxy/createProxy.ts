@@ -260,6 +260,14 @@ export function createProxy<T>(options: ProxyOptions<T>): T {
       return prop in (current as any);
     },
 
+    deleteProperty(proxyTarget, prop) {
+      if (traps.deleteProperty) {
+        return traps.deleteProperty(get(), prop);
+      }
+
+      return Reflect.deleteProperty(proxyTarget, prop);
+    },
+
     ownKeys(proxyTarget) {
       const current = get();
 
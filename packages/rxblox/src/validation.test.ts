@@ -0,0 +1,382 @@
+import { describe, it, expect, vi } from "vitest";
+import { signal } from "./signal";
+import { effect } from "./effect";
+import { batch } from "./batch";
+import { delay } from "./delay";
+import {
+  ValidationError,
+  runValidator,
+  type StandardSchemaLike,
+} from "./validation";
+
+/**
+ * Minimal Standard Schema implementation, like the ones of zod or valibot.
+ */
+const schema = <T>(
+  validate: (value: unknown) => { message: string; path?: any[] }[],
+  async = false
+): StandardSchemaLike<T> => ({
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => {
+      const issues = validate(value);
+      const result = issues.length ? { issues } : { value: value as T };
+      return async ? Promise.resolve(result) : result;
+    },
+  },
+});
+
+describe("signal validation", () => {
+  describe("validation result", () => {
+    it("should be valid for signals without validator", () => {
+      const count = signal(0);
+
+      expect(count.validation()).toEqual({
+        status: "valid",
+        issues: [],
+        errors: {},
+      });
+    });
+
+    it("should validate the current value", () => {
+      const email = signal("", {
+        validate: (value) => value.includes("@") || "Invalid email",
+      });
+
+      expect(email.validation()).toMatchObject({
+        status: "invalid",
+        errors: { "": ["Invalid email"] },
+      });
+
+      email.set("a@b.c");
+      expect(email.validation().status).toBe("valid");
+    });
+
+    it("should apply invalid values by default", () => {
+      const age = signal(20, { validate: (value) => value >= 18 });
+
+      age.set(10);
+
+      expect(age()).toBe(10);
+      expect(age.validation().issues).toEqual([
+        { message: "Invalid value", path: [] },
+      ]);
+    });
+
+    it("should group messages by field path", () => {
+      const address = signal(
+        { street: "", zip: "1", lines: ["", "b"] },
+        {
+          validate: (value) => [
+            ...(value.street ? [] : [{ path: ["street"], message: "Required" }]),
+            ...(value.zip.length === 5
+              ? []
+              : [{ path: ["zip"], message: "5 digits" }]),
+            ...value.lines.flatMap((line, i) =>
+              line ? [] : [{ path: ["lines", i], message: "Empty line" }]
+            ),
+            "Incomplete address",
+          ],
+        }
+      );
+
+      expect(address.validation().errors).toEqual({
+        street: ["Required"],
+        zip: ["5 digits"],
+        "lines.0": ["Empty line"],
+        "": ["Incomplete address"],
+      });
+    });
+
+    it("should be reactive", () => {
+      const name = signal("", { validate: (value) => !!value || "Required" });
+      const statuses: string[] = [];
+
+      effect(() => {
+        statuses.push(name.validation().status);
+      });
+      name.set("Ada");
+      name.set("Ada Lovelace");
+
+      expect(statuses).toEqual(["invalid", "valid"]);
+    });
+
+    it("should not validate until the result is read", () => {
+      const validate = vi.fn(() => true);
+      const name = signal("", { validate });
+
+      name.set("a");
+      expect(validate).not.toHaveBeenCalled();
+
+      name.validation();
+      expect(validate).toHaveBeenCalledWith("a");
+    });
+
+    it("should validate once per batch", () => {
+      const validate = vi.fn(() => true);
+      const count = signal(0, { validate });
+      count.validation();
+      validate.mockClear();
+
+      batch(() => {
+        count.set(1);
+        count.set(2);
+      });
+
+      expect(validate).toHaveBeenCalledTimes(1);
+      expect(validate).toHaveBeenCalledWith(2);
+    });
+
+    it("should validate computed signals", () => {
+      const count = signal(1);
+      const doubled = signal(() => count() * 2, {
+        validate: (value) => value < 10 || "Too big",
+      });
+
+      expect(doubled.validation().status).toBe("valid");
+
+      count.set(5);
+      doubled();
+
+      expect(doubled.validation().status).toBe("invalid");
+    });
+
+    it("should treat validator errors as issues", () => {
+      const value = signal(0, {
+        validate: () => {
+          throw new Error("validator crashed");
+        },
+      });
+
+      expect(value.validation().errors[""]).toEqual(["validator crashed"]);
+    });
+
+    it("should revalidate on reset", () => {
+      const name = signal("", { validate: (value) => !!value || "Required" });
+      name.set("Ada");
+      expect(name.validation().status).toBe("valid");
+
+      name.reset();
+
+      expect(name.validation().status).toBe("invalid");
+    });
+  });
+
+  describe("async validators", () => {
+    it("should report validating until the validator settles", async () => {
+      const username = signal("ada", {
+        validate: async (value) => {
+          await delay(10);
+          return value !== "taken" || "Username taken";
+        },
+      });
+
+      expect(username.validation().status).toBe("validating");
+      await delay(20);
+      expect(username.validation().status).toBe("valid");
+
+      username.set("taken");
+      expect(username.validation().status).toBe("validating");
+      await delay(20);
+      expect(username.validation().errors[""]).toEqual(["Username taken"]);
+    });
+
+    it("should ignore results of outdated values", async () => {
+      const username = signal("", {
+        validate: async (value) => {
+          await delay(value === "slow" ? 30 : 5);
+          return value !== "slow" || "Slow result";
+        },
+      });
+      username.validation();
+
+      username.set("slow");
+      username.set("fast");
+      await delay(50);
+
+      expect(username.validation().status).toBe("valid");
+    });
+
+    it("should treat rejected validators as issues", async () => {
+      const value = signal(0, {
+        validate: async () => {
+          throw new Error("network error");
+        },
+      });
+      value.validation();
+      await delay(0);
+
+      expect(value.validation().errors[""]).toEqual(["network error"]);
+    });
+  });
+
+  describe("Standard Schema", () => {
+    it("should map issues and their paths", () => {
+      const user = signal(
+        { name: "" },
+        {
+          validate: schema<{ name: string }>((value: any) =>
+            value.name
+              ? []
+              : [{ message: "Required", path: [{ key: "name" }] }]
+          ),
+        }
+      );
+
+      expect(user.validation().issues).toEqual([
+        { message: "Required", path: ["name"] },
+      ]);
+    });
+
+    it("should support async schemas", async () => {
+      const age = signal(10, {
+        validate: schema<number>(
+          (value) => ((value as number) >= 18 ? [] : [{ message: "Too young" }]),
+          true
+        ),
+      });
+
+      expect(age.validation().status).toBe("validating");
+      await delay(0);
+      expect(age.validation().errors[""]).toEqual(["Too young"]);
+    });
+  });
+
+  describe("rejectInvalid", () => {
+    it("should throw and keep the value for invalid values", () => {
+      const age = signal(20, {
+        name: "age",
+        validate: (value) => value >= 18 || "Must be an adult",
+        rejectInvalid: true,
+      });
+
+      expect(() => age.set(10)).toThrow(ValidationError);
+      expect(age()).toBe(20);
+
+      try {
+        age.set(10);
+      } catch (error) {
+        expect((error as ValidationError).issues).toEqual([
+          { message: "Must be an adult", path: [] },
+        ]);
+        expect((error as ValidationError).message).toBe(
+          "Invalid value for signal 'age': Must be an adult"
+        );
+      }
+    });
+
+    it("should keep the validation result of the current value", () => {
+      const age = signal(20, {
+        validate: (value) => value >= 18 || "Must be an adult",
+        rejectInvalid: true,
+      });
+
+      expect(() => age.set(10)).toThrow();
+
+      expect(age()).toBe(20);
+      expect(age.validation()).toEqual({
+        status: "valid",
+        issues: [],
+        errors: {},
+      });
+
+      age.set(30);
+      expect(age.validation().status).toBe("valid");
+    });
+
+    it("should apply valid values", () => {
+      const age = signal(20, {
+        validate: (value) => value >= 18,
+        rejectInvalid: true,
+      });
+
+      age.set(30);
+
+      expect(age()).toBe(30);
+    });
+
+    it("should apply values once async validation passes", async () => {
+      const username = signal("", {
+        validate: async (value) => {
+          await delay(5);
+          return value !== "taken" || "Username taken";
+        },
+        rejectInvalid: true,
+      });
+
+      username.set("ada");
+      expect(username()).toBe("");
+
+      await delay(10);
+      expect(username()).toBe("ada");
+
+      username.set("taken");
+      await delay(10);
+      expect(username()).toBe("ada");
+    });
+
+    it("should report the validation of async candidate values", async () => {
+      const username = signal("abc", {
+        validate: async (value) => {
+          await delay(5);
+          return value.length >= 3 || "Too short";
+        },
+        rejectInvalid: true,
+      });
+      // Validates the initial value
+      username.validation();
+      await delay(10);
+      expect(username.validation().status).toBe("valid");
+
+      username.set("ab");
+      expect(username.validation().status).toBe("validating");
+
+      await delay(10);
+      expect(username()).toBe("abc");
+      expect(username.validation()).toEqual({
+        status: "invalid",
+        issues: [{ message: "Too short", path: [] }],
+        errors: { "": ["Too short"] },
+      });
+
+      username.set("abcd");
+      await delay(10);
+      expect(username()).toBe("abcd");
+      expect(username.validation().status).toBe("valid");
+    });
+
+    it("should drop values superseded while being validated", async () => {
+      const username = signal("", {
+        validate: async (value) => {
+          await delay(value === "slow" ? 20 : 5);
+          return true;
+        },
+        rejectInvalid: true,
+      });
+
+      username.set("slow");
+      username.set("fast");
+      await delay(30);
+
+      expect(username()).toBe("fast");
+    });
+  });
+
+  describe("runValidator", () => {
+    it("should normalize validator outputs", () => {
+      expect(runValidator(() => true, 0)).toEqual([]);
+      expect(runValidator(() => undefined, 0)).toEqual([]);
+      expect(runValidator(() => [], 0)).toEqual([]);
+      expect(runValidator(() => false, 0)).toEqual([
+        { message: "Invalid value", path: [] },
+      ]);
+      expect(runValidator(() => ["a", { message: "b", path: ["x"] }], 0)).toEqual(
+        [
+          { message: "a", path: [] },
+          { message: "b", path: ["x"] },
+        ]
+      );
+    });
+  });
+});
@@ -0,0 +1,321 @@
+import { isPromiseLike } from "./isPromiseLike";
+import { disposableToken } from "./disposableDispatcher";
+import { signal } from "./signal";
+import { trackingToken } from "./trackingDispatcher";
+import type { MutableSignal, Signal } from "./types";
+
+/**
+ * A validation problem, located by the path of the invalid field.
+ */
+export type ValidationIssue = {
+  /** Human readable message */
+  message: string;
+  /** Path of the invalid field (`[]` for the value itself) */
+  path: readonly PropertyKey[];
+};
+
+/**
+ * Reactive validation state of a signal.
+ */
+export type ValidationResult = {
+  /**
+   * - `"valid"`: The current value passed validation
+   * - `"invalid"`: The current value has issues
+   * - `"validating"`: An async validator is running (`issues` keeps the previous issues)
+   */
+  status: "valid" | "invalid" | "validating";
+  /** All issues of the current value */
+  issues: readonly ValidationIssue[];
+  /**
+   * Messages by dotted field path (`"address.zip"`, `"items.0.name"`).
+   * Issues of the value itself are under `""`.
+   */
+  errors: Readonly<Record<string, readonly string[]>>;
+};
+
+/**
+ * Minimal shape of a Standard Schema validator (zod, valibot, arktype, ...).
+ * @see https://standardschema.dev
+ */
+export type StandardSchemaLike<T = unknown> = {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<T> | Promise<StandardSchemaResult<T>>;
+  };
+};
+
+/**
+ * Result of a Standard Schema validation.
+ */
+export type StandardSchemaResult<T = unknown> =
+  | { readonly value: T; readonly issues?: undefined }
+  | {
+      readonly issues: readonly {
+        readonly message: string;
+        readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[];
+      }[];
+    };
+
+/**
+ * What a validation function can return:
+ * - `true`, `undefined`, `null`, or an empty array: valid
+ * - `false`: invalid (generic message)
+ * - A string: invalid, with this message
+ * - An array of messages and/or `{ message, path }` issues
+ */
+export type ValidatorOutput =
+  | boolean
+  | string
+  | void
+  | null
+  | undefined
+  | readonly (string | { message: string; path?: readonly PropertyKey[] })[];
+
+/**
+ * Validator for `SignalOptions.validate`: a sync or async function, or a
+ * Standard Schema compatible object.
+ *
+ * @template T - The type of the validated value
+ */
+export type SignalValidator<T> =
+  | ((value: T) => ValidatorOutput | Promise<ValidatorOutput>)
+  | StandardSchemaLike<T>;
+
+/**
+ * Error thrown by `set()` when a signal created with `rejectInvalid`
+ * receives a value that fails synchronous validation.
+ */
+export class ValidationError extends Error {
+  /** Issues of the rejected value */
+  readonly issues: readonly ValidationIssue[];
+
+  /** The name of the signal (if provided via options.name) */
+  readonly signalName?: string;
+
+  constructor(issues: readonly ValidationIssue[], signalName?: string) {
+    const signalContext = signalName ? ` for signal '${signalName}'` : "";
+    super(
+      `Invalid value${signalContext}: ${issues
+        .map((issue) =>
+          issue.path.length
+            ? `${issue.path.map(String).join(".")}: ${issue.message}`
+            : issue.message
+        )
+        .join("; ")}`
+    );
+    this.name = "ValidationError";
+    this.issues = issues;
+    this.signalName = signalName;
+
+    // Maintain proper prototype chain for instanceof checks
+    Object.setPrototypeOf(this, ValidationError.prototype);
+  }
+}
+
+const createResult = (issues: readonly ValidationIssue[]): ValidationResult => {
+  const errors: Record<string, string[]> = {};
+  issues.forEach((issue) => {
+    const key = issue.path.map(String).join(".");
+    (errors[key] ??= []).push(issue.message);
+  });
+
+  return { status: issues.length ? "invalid" : "valid", issues, errors };
+};
+
+const VALID = createResult([]);
+
+/**
+ * Converts what a validator returned into issues.
+ */
+const toIssues = (output: ValidatorOutput): ValidationIssue[] => {
+  if (output === true || output === undefined || output === null) return [];
+  if (output === false) return [{ message: "Invalid value", path: [] }];
+  if (typeof output === "string") return [{ message: output, path: [] }];
+
+  return output.map((item) =>
+    typeof item === "string"
+      ? { message: item, path: [] }
+      : { message: item.message, path: item.path ?? [] }
+  );
+};
+
+const fromStandardResult = (result: StandardSchemaResult): ValidationIssue[] =>
+  (result.issues ?? []).map((issue) => ({
+    message: issue.message,
+    path: (issue.path ?? []).map((segment) =>
+      typeof segment === "object" && segment !== null ? segment.key : segment
+    ),
+  }));
+
+/**
+ * A thrown validator counts as a failed validation.
+ */
+const fromError = (error: unknown): ValidationIssue[] => [
+  {
+    message: error instanceof Error ? error.message : String(error),
+    path: [],
+  },
+];
+
+/**
+ * Checks whether a validator is a Standard Schema object.
+ */
+export function isStandardSchema(value: unknown): value is StandardSchemaLike {
+  return (
+    (typeof value === "object" || typeof value === "function") &&
+    value !== null &&
+    "~standard" in value
+  );
+}
+
+/**
+ * Runs a validator against a value.
+ *
+ * @param validator - Validation function or Standard Schema object
+ * @param value - The value to validate
+ * @returns Issues of the value, or a promise of them for async validators
+ */
+export function runValidator<T>(
+  validator: SignalValidator<T>,
+  value: T
+): ValidationIssue[] | Promise<ValidationIssue[]> {
+  try {
+    if (isStandardSchema(validator)) {
+      const result = validator["~standard"].validate(value);
+      return isPromiseLike(result)
+        ? Promise.resolve(result).then(fromStandardResult, fromError)
+        : fromStandardResult(result);
+    }
+
+    const output = (validator as (value: T) => ValidatorOutput)(value);
+    return isPromiseLike<ValidatorOutput>(output)
+      ? Promise.resolve(output).then(toIssues, fromError)
+      : toIssues(output);
+  } catch (error) {
+    return fromError(error);
+  }
+}
+
+/**
+ * Signal shared by all signals without validator.
+ */
+let alwaysValid: Signal<ValidationResult> | undefined;
+
+/**
+ * Returns the validation result signal of signals without validator.
+ */
+export function validResult(): Signal<ValidationResult> {
+  // Shared by every signal, so it must not belong to the current context
+  return (alwaysValid ??= disposableToken.without(() => signal(VALID).readonly));
+}
+
+/**
+ * Validation state of a signal.
+ */
+export type Validation<T> = {
+  /** Reactive validation result */
+  result: Signal<ValidationResult>;
+  /**
+   * Validates a value and publishes the result.
+   * Validating the last validated value again reuses its result.
+   * @returns The result, or a promise of it for async validators
+   */
+  run(value: T): ValidationResult | Promise<ValidationResult>;
+  /**
+   * Validates a candidate value without publishing the result.
+   * @returns The result, or a promise of it for async validators
+   */
+  check(value: T): ValidationResult | Promise<ValidationResult>;
+  /**
+   * Publishes the result of a checked value once it is applied, so that
+   * validating it again reuses the result.
+   */
+  accept(value: T, outcome: ValidationResult): void;
+  /**
+   * Publishes the status of a candidate value being validated, or the
+   * issues it was rejected for, without making it the result of the
+   * current value.
+   */
+  report(outcome: ValidationResult): void;
+};
+
+/**
+ * Creates the validation state of a signal.
+ *
+ * Async results are only published if no other value was validated since.
+ *
+ * @param validator - Validation function or Standard Schema object
+ * @returns The validation state
+ */
+export function createValidation<T>(
+  validator: SignalValidator<T>
+): Validation<T> {
+  const result: MutableSignal<ValidationResult> = signal(VALID, {
+    equals: (a, b) =>
+      a.status === b.status &&
+      a.issues.length === b.issues.length &&
+      a.issues.every(
+        (issue, i) =>
+          issue.message === b.issues[i].message &&
+          issue.path.join(".") === b.issues[i].path.join(".")
+      ),
+  });
+  let last: { value: T; outcome: ValidationResult | Promise<ValidationResult> } | undefined;
+
+  const publish = (next: ValidationResult) => {
+    // Validation runs inside set()/effects; its writes must not become dependencies
+    trackingToken.without(() => result.set(next));
+  };
+
+  return {
+    result: result.readonly,
+    run(value) {
+      if (last && Object.is(last.value, value)) {
+        return last.outcome;
+      }
+
+      const issues = runValidator(validator, value);
+
+      if (isPromiseLike(issues)) {
+        const current: NonNullable<typeof last> = {
+          value,
+          outcome: issues.then((resolved) => {
+            const next = createResult(resolved);
+            if (last === current) {
+              publish(next);
+            }
+            return next;
+          }),
+        };
+        last = current;
+        publish({ ...result.peek(), status: "validating" });
+        return current.outcome;
+      }
+
+      const next = createResult(issues);
+      last = { value, outcome: next };
+      publish(next);
+      return next;
+    },
+    check(value) {
+      if (last && Object.is(last.value, value)) {
+        return last.outcome;
+      }
+
+      const issues = runValidator(validator, value);
+      return isPromiseLike(issues)
+        ? issues.then(createResult)
+        : createResult(issues);
+    },
+    accept(value, outcome) {
+      last = { value, outcome };
+      publish(outcome);
+    },
+    report(outcome) {
+      publish(outcome);
+    },
+  };
+}
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi } from "vitest";
+import { signal } from "./signal";
+import { memoryPersistor } from "./persistor";
+import {
+  MigrationError,
+  migratePersisted,
+  isPersistEnvelope,
+} from "./versionedPersistor";
+import type { Persistor } from "./types";
+
+describe("versioned persistence", () => {
+  const setup = (stored?: unknown) => {
+    const storage = new Map<string, unknown>();
+    if (stored !== undefined) {
+      storage.set("user", stored);
+    }
+    return { storage, persistor: memoryPersistor<any>("user", { storage }) };
+  };
+
+  const migrate = [
+    (name: string) => ({ name }),
+    ({ name }: { name: string }) => {
+      const [firstName, lastName = ""] = name.split(" ");
+      return { firstName, lastName };
+    },
+  ];
+
+  describe("envelopes", () => {
+    it("should write values with the current version", () => {
+      const { storage, persistor } = setup();
+      const count = signal(0, { persist: { persistor, version: 3 } });
+
+      count.set(1);
+
+      expect(storage.get("user")).toEqual({ version: 3, value: 1 });
+    });
+
+    it("should default the version to the number of migrations", () => {
+      const { storage, persistor } = setup();
+      const user = signal(
+        { firstName: "", lastName: "" },
+        { persist: { persistor, migrate } }
+      );
+
+      user.set({ firstName: "Ada", lastName: "Lovelace" });
+
+      expect(storage.get("user")).toMatchObject({ version: 2 });
+    });
+
+    it("should hydrate current envelopes without migrating", () => {
+      const { persistor } = setup({ version: 1, value: 42 });
+      const migration = vi.fn();
+
+      const count = signal(0, {
+        persist: { persistor, version: 1, migrate: [migration] },
+      });
+
+      expect(count()).toBe(42);
+      expect(migration).not.toHaveBeenCalled();
+    });
+
+    it("should keep removing the key for undefined values", () => {
+      const { storage, persistor } = setup();
+      const token = signal<string | undefined>("abc", {
+        persist: { persistor, version: 1 },
+      });
+
+      token.set("abc");
+      token.set(undefined);
+
+      expect(storage.has("user")).toBe(false);
+    });
+  });
+
+  describe("migrations", () => {
+    it("should run migrations in order from the stored version", () => {
+      const { persistor } = setup({ version: 1, value: { name: "Ada Lovelace" } });
+
+      const user = signal(
+        { firstName: "", lastName: "" },
+        { persist: { persistor, migrate } }
+      );
+
+      expect(user()).toEqual({ firstName: "Ada", lastName: "Lovelace" });
+      expect(user.persistInfo.status).toBe("synced");
+    });
+
+    it("should treat values without envelope as version 0", () => {
+      const { persistor } = setup("Ada Lovelace");
+
+      const user = signal(
+        { firstName: "", lastName: "" },
+        { persist: { persistor, migrate } }
+      );
+
+      expect(user()).toEqual({ firstName: "Ada", lastName: "Lovelace" });
+    });
+
+    it("should migrate values of async persistors", async () => {
+      const persistor: Persistor<any> = {
+        get: async () => ({ value: { version: 0, value: "Ada" } }),
+        set: vi.fn(),
+      };
+
+      const user = signal(
+        { firstName: "", lastName: "" },
+        { persist: { persistor, migrate } }
+      );
+      await vi.waitFor(() => expect(user.persistInfo.status).toBe("synced"));
+
+      expect(user()).toEqual({ firstName: "Ada", lastName: "" });
+    });
+
+    it("should report failed migrations as read-failed", () => {
+      const { persistor } = setup({ version: 0, value: "Ada" });
+      const cause = new Error("bad data");
+
+      const user = signal("initial", {
+        persist: {
+          persistor,
+          migrate: [
+            () => {
+              throw cause;
+            },
+          ],
+        },
+      });
+
+      expect(user()).toBe("initial");
+      expect(user.persistInfo.status).toBe("read-failed");
+      expect(user.persistInfo.error).toBeInstanceOf(MigrationError);
+      expect(user.persistInfo.error).toMatchObject({
+        fromVersion: 0,
+        toVersion: 1,
+        cause,
+      });
+    });
+
+    it("should report missing migrations", () => {
+      const { persistor } = setup({ version: 0, value: 1 });
+
+      const count = signal(0, { persist: { persistor, version: 2 } });
+
+      expect(count.persistInfo.status).toBe("read-failed");
+      expect((count.persistInfo.error as Error).message).toBe(
+        "No migration from version 0 to 1"
+      );
+    });
+
+    it("should report values from newer versions", () => {
+      const { persistor } = setup({ version: 5, value: 1 });
+
+      const count = signal(0, { persist: { persistor, version: 2 } });
+
+      expect(count()).toBe(0);
+      expect(count.persistInfo.error).toBeInstanceOf(MigrationError);
+    });
+
+    it("should fall back to the initial value when discard is enabled", () => {
+      const { storage, persistor } = setup({ version: 0, value: "Ada" });
+
+      const user = signal("initial", {
+        persist: {
+          persistor,
+          discard: true,
+          migrate: [
+            () => {
+              throw new Error("bad data");
+            },
+          ],
+        },
+      });
+
+      expect(user()).toBe("initial");
+      expect(user.persistInfo.status).toBe("synced");
+
+      // The unreadable value is replaced on the next write
+      user.set("next");
+      expect(storage.get("user")).toEqual({ version: 1, value: "next" });
+    });
+  });
+
+  describe("migratePersisted", () => {
+    it("should return the value of current envelopes", () => {
+      expect(migratePersisted({ version: 2, value: "x" }, 2)).toBe("x");
+    });
+
+    it("should apply each step once", () => {
+      expect(
+        migratePersisted({ version: 1, value: 1 }, 3, [
+          (v) => v + 1,
+          (v) => v * 10,
+          (v) => v + 5,
+        ])
+      ).toBe(15);
+    });
+  });
+
+  describe("isPersistEnvelope", () => {
+    it("should only accept { version, value } objects", () => {
+      expect(isPersistEnvelope({ version: 1, value: null })).toBe(true);
+      expect(isPersistEnvelope({ version: "1", value: null })).toBe(false);
+      expect(isPersistEnvelope({ version: 1 })).toBe(false);
+      expect(isPersistEnvelope({ version: 1, value: 1, other: 1 })).toBe(false);
+      expect(isPersistEnvelope("text")).toBe(false);
+    });
+  });
+});
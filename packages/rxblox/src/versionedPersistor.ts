@@ -0,0 +1,220 @@
+import { isPromiseLike } from "./isPromiseLike";
+import type { Persistor } from "./types";
+
+/**
+ * Shape of a versioned value in storage.
+ *
+ * @template T - The type of the persisted value
+ */
+export type PersistEnvelope<T = unknown> = {
+  version: number;
+  value: T;
+};
+
+/**
+ * Upgrades a persisted value by one version.
+ */
+export type PersistMigration = (value: any) => unknown;
+
+/**
+ * Versioned persistence for `SignalOptions.persist`.
+ *
+ * Values are stored as `{ version, value }` envelopes. When the stored
+ * version is older than the current one, the value goes through the
+ * `migrate` pipeline before it hydrates the signal.
+ *
+ * @template T - The type of the signal value
+ *
+ * @example
+ * ```ts
+ * // v0: string, v1: { name }, v2: { firstName, lastName }
+ * const user = signal({ firstName: "", lastName: "" }, {
+ *   persist: {
+ *     persistor: persistor.local("user"),
+ *     migrate: [
+ *       (name: string) => ({ name }),
+ *       ({ name }) => {
+ *         const [firstName, lastName = ""] = name.split(" ");
+ *         return { firstName, lastName };
+ *       },
+ *     ],
+ *   },
+ * });
+ * ```
+ */
+export type VersionedPersistOptions<T> = {
+  /** Storage for the envelopes */
+  persistor: Persistor<PersistEnvelope<T>>;
+
+  /**
+   * Ordered migrations: `migrate[n]` upgrades a value from version `n`
+   * to version `n + 1`. Values stored without an envelope (before
+   * versioning was enabled) are version 0.
+   */
+  migrate?: readonly PersistMigration[];
+
+  /**
+   * Current version of the value shape.
+   * @default migrate.length
+   */
+  version?: number;
+
+  /**
+   * What to do when the stored value can't be migrated (a migration throws,
+   * a migration is missing, or the stored version is newer):
+   * - `false`: Keep the initial value and report `"read-failed"` with a `MigrationError`
+   * - `true`: Ignore the stored value and keep the initial value (`"synced"`);
+   *   the stored value is overwritten on the next write
+   * @default false
+   */
+  discard?: boolean;
+};
+
+/**
+ * Error reported when a persisted value can't be migrated.
+ */
+export class MigrationError extends Error {
+  /** Version of the stored value */
+  readonly fromVersion: number;
+
+  /** Version the value had to be migrated to */
+  readonly toVersion: number;
+
+  /** Error thrown by the failed migration (if any) */
+  readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    fromVersion: number,
+    toVersion: number,
+    cause?: unknown
+  ) {
+    super(message);
+    this.name = "MigrationError";
+    this.fromVersion = fromVersion;
+    this.toVersion = toVersion;
+    this.cause = cause;
+
+    // Maintain proper prototype chain for instanceof checks
+    Object.setPrototypeOf(this, MigrationError.prototype);
+  }
+}
+
+/**
+ * Checks whether stored data is a `{ version, value }` envelope.
+ */
+export function isPersistEnvelope(data: unknown): data is PersistEnvelope {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    typeof (data as PersistEnvelope).version === "number" &&
+    "value" in data &&
+    Object.keys(data).length === 2
+  );
+}
+
+/**
+ * Brings stored data to the current version.
+ *
+ * @param data - Stored envelope, or a bare value (version 0)
+ * @param version - The current version
+ * @param migrations - Ordered migrations (`migrations[n]`: version n to n + 1)
+ * @returns The migrated value
+ * @throws MigrationError if the data can't be migrated
+ */
+export function migratePersisted(
+  data: unknown,
+  version: number,
+  migrations: readonly PersistMigration[] = []
+): unknown {
+  const envelope = isPersistEnvelope(data) ? data : { version: 0, value: data };
+  let value = envelope.value;
+
+  if (envelope.version > version) {
+    throw new MigrationError(
+      `Persisted version ${envelope.version} is newer than version ${version}`,
+      envelope.version,
+      version
+    );
+  }
+
+  for (let from = envelope.version; from < version; from++) {
+    const migration = migrations[from];
+    if (!migration) {
+      throw new MigrationError(
+        `No migration from version ${from} to ${from + 1}`,
+        envelope.version,
+        version
+      );
+    }
+
+    try {
+      value = migration(value);
+    } catch (error) {
+      throw new MigrationError(
+        `Migration from version ${from} to ${from + 1} failed`,
+        envelope.version,
+        version,
+        error
+      );
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Checks whether `SignalOptions.persist` is a versioned configuration.
+ */
+export function isVersionedPersistOptions<T>(
+  persist: Persistor<T> | VersionedPersistOptions<T>
+): persist is VersionedPersistOptions<T> {
+  return "persistor" in persist;
+}
+
+/**
+ * Wraps a persistor so it reads and writes versioned envelopes.
+ *
+ * @param options - Versioned persistence configuration
+ * @returns A persistor of plain values
+ */
+export function versionedPersistor<T>(
+  options: VersionedPersistOptions<T>
+): Persistor<T> {
+  const {
+    persistor,
+    migrate,
+    version = migrate?.length ?? 0,
+    discard = false,
+  } = options;
+
+  const unwrap = (stored: { value: unknown } | null) => {
+    if (!stored) return null;
+
+    try {
+      return { value: migratePersisted(stored.value, version, migrate) as T };
+    } catch (error) {
+      if (discard) return null;
+      throw error;
+    }
+  };
+
+  return {
+    get: persistor.get
+      ? () => {
+          const stored = persistor.get!();
+          return isPromiseLike(stored) ? stored.then(unwrap) : unwrap(stored);
+        }
+      : undefined,
+    set: persistor.set
+      ? (value) =>
+          // Keep "no value" as is (built-in persistors remove the key)
+          persistor.set!(
+            value === undefined
+              ? (undefined as unknown as PersistEnvelope<T>)
+              : { version, value }
+          )
+      : undefined,
+    on: persistor.on ? (callback) => persistor.on!(callback) : undefined,
+  };
+}
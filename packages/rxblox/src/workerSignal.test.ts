@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  workerSignal,
+  webWorkerRunner,
+  inlineWorkerRunner,
+  type WorkerRunner,
+} from "./workerSignal";
+import { signal } from "./signal";
+import { delay } from "./delay";
+
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror = null;
+  messages: any[] = [];
+  terminated = false;
+  constructor(public url: string) {
+    FakeWorker.instances.push(this);
+  }
+  postMessage(message: unknown) {
+    this.messages.push(message);
+  }
+  terminate() {
+    this.terminated = true;
+  }
+  reply(data: unknown) {
+    this.onmessage?.({ data });
+  }
+}
+
+const stubWorkers = () => {
+  FakeWorker.instances = [];
+  let nextUrl = 0;
+  const createObjectURL = vi.fn(() => `blob:worker${nextUrl++}`);
+  vi.stubGlobal("Worker", FakeWorker);
+  vi.stubGlobal("URL", { createObjectURL, revokeObjectURL: vi.fn() });
+  return { workers: FakeWorker.instances, createObjectURL };
+};
+
+describe("signal.worker", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("computation", () => {
+    it("should compute a loadable from the input signals", async () => {
+      const a = signal(2);
+      const b = signal(3);
+      const product = workerSignal({ a, b }, ({ a, b }) => a * b);
+
+      expect(product().status).toBe("loading");
+      await delay(0);
+
+      expect(product().value).toBe(6);
+    });
+
+    it("should recompute when an input changes", async () => {
+      const items = signal([1, 2, 3]);
+      const sum = workerSignal({ items }, ({ items }) =>
+        items.reduce((total, item) => total + item, 0)
+      );
+      sum();
+      await delay(0);
+
+      items.set([10, 20]);
+      expect(sum().status).toBe("loading");
+      await delay(0);
+
+      expect(sum().value).toBe(30);
+    });
+
+    it("should report errors of the computation", async () => {
+      const input = signal(0);
+      const failing = workerSignal({ input }, () => {
+        throw new Error("failed");
+      });
+      failing();
+      await delay(0);
+
+      expect(failing().status).toBe("error");
+      expect((failing().error as Error).message).toBe("failed");
+    });
+
+    it("should fail on inputs a worker cannot receive", async () => {
+      const input = signal({ callback: () => {} });
+      const result = workerSignal({ input }, () => 1);
+      result();
+      await delay(0);
+
+      expect(result().status).toBe("error");
+    });
+  });
+
+  describe("runners", () => {
+    it("should abort stale computations", async () => {
+      const signals: AbortSignal[] = [];
+      const inline = inlineWorkerRunner();
+      const runner: WorkerRunner = {
+        run(compute, input, abortSignal) {
+          signals.push(abortSignal);
+          return inline.run(compute, input, abortSignal);
+        },
+      };
+      const count = signal(1);
+      const doubled = workerSignal({ count }, ({ count }) => count * 2, {
+        runner,
+      });
+      doubled();
+
+      count.set(2);
+      doubled();
+      await delay(0);
+
+      expect(signals.map((s) => s.aborted)).toEqual([true, false]);
+      expect(doubled().value).toBe(4);
+    });
+
+    it("should run computations in a Web Worker", async () => {
+      const { workers, createObjectURL } = stubWorkers();
+
+      const runner = webWorkerRunner();
+      const controller = new AbortController();
+      const first = runner.run((n: number) => n + 1, 1, controller.signal);
+      const worker = workers[0];
+
+      expect(worker.url).toBe("blob:worker0");
+      expect(worker.messages).toEqual([{ id: 0, input: 1 }]);
+      worker.reply({ id: 0, value: 2 });
+      await expect(first).resolves.toBe(2);
+
+      const second = runner.run((n: number) => n + 1, 5, controller.signal);
+      worker.reply({ id: 1, error: { name: "TypeError", message: "bad" } });
+      await expect(second).rejects.toThrow("bad");
+
+      const third = runner.run((n: number) => n + 1, 7, controller.signal);
+      controller.abort();
+      await expect(third).rejects.toBeDefined();
+      expect(worker.terminated).toBe(true);
+
+      runner.run((n: number) => n + 1, 9, new AbortController().signal);
+      expect(workers).toHaveLength(2);
+      expect(createObjectURL).toHaveBeenCalledTimes(1);
+    });
+
+    it("should run different computations on a shared runner", async () => {
+      const { workers } = stubWorkers();
+      const runner = webWorkerRunner();
+      const live = new AbortController();
+      const stale = new AbortController();
+
+      const doubled = runner.run((n: number) => n * 2, 2, live.signal);
+      const squared = runner.run((n: number) => n * n, 3, live.signal);
+      const staleSquared = runner.run((n: number) => n * n, 4, stale.signal);
+      const [doubleWorker, squareWorker] = workers;
+
+      expect(workers).toHaveLength(2);
+      expect(doubleWorker.url).not.toBe(squareWorker.url);
+      expect(squareWorker.messages).toEqual([
+        { id: 1, input: 3 },
+        { id: 2, input: 4 },
+      ]);
+
+      // Only the aborted computation is cancelled
+      stale.abort();
+      await expect(staleSquared).rejects.toBeDefined();
+      expect(squareWorker.terminated).toBe(true);
+      expect(doubleWorker.terminated).toBe(false);
+
+      const restarted = workers[2];
+      expect(restarted.url).toBe(squareWorker.url);
+      expect(restarted.messages).toEqual([{ id: 1, input: 3 }]);
+
+      doubleWorker.reply({ id: 0, value: 4 });
+      restarted.reply({ id: 1, value: 9 });
+      await expect(doubled).resolves.toBe(4);
+      await expect(squared).resolves.toBe(9);
+    });
+
+    it("should reject computations without standalone source", async () => {
+      stubWorkers();
+      const methods = {
+        double(n: number) {
+          return n * 2;
+        },
+      };
+      const abortSignal = new AbortController().signal;
+
+      for (const runner of [webWorkerRunner(), inlineWorkerRunner()]) {
+        await expect(
+          runner.run(methods.double, 1, abortSignal)
+        ).rejects.toThrow("must be an arrow function or a function expression");
+        await expect(
+          runner.run(((n: number) => n).bind(null), 1, abortSignal)
+        ).rejects.toThrow("Methods and bound functions can't be sent");
+      }
+    });
+
+    it("should stop listening to the abort signal once settled", async () => {
+      const { workers } = stubWorkers();
+      const runner = webWorkerRunner();
+      const controller = new AbortController();
+      const remove = vi.spyOn(controller.signal, "removeEventListener");
+
+      const result = runner.run((n: number) => n + 1, 1, controller.signal);
+      workers[0].reply({ id: 0, value: 2 });
+      await result;
+
+      expect(remove).toHaveBeenCalledWith("abort", expect.any(Function));
+    });
+
+    it("should default to the inline runner without Web Workers", async () => {
+      vi.stubGlobal("Worker", undefined);
+      const input = signal("worker");
+      const upper = workerSignal({ input }, ({ input }) => input.toUpperCase());
+      upper();
+      await delay(0);
+
+      expect(upper().value).toBe("WORKER");
+    });
+  });
+});
@@ -0,0 +1,324 @@
+import {
+  asyncSignal,
+  type AsyncSignal,
+  type AsyncSignalOptions,
+} from "./asyncSignal";
+import { getDispatcher } from "./dispatcher";
+import { disposableToken } from "./disposableDispatcher";
+import type { Signal } from "./types";
+
+/**
+ * Signals whose values are the inputs of a worker computation.
+ */
+export type WorkerInputs = Record<string, Signal<unknown>>;
+
+/**
+ * Values of the input signals, as received by the worker computation.
+ */
+export type WorkerInputValues<TInputs extends WorkerInputs> = {
+  [K in keyof TInputs]: TInputs[K] extends Signal<infer V> ? V : never;
+};
+
+/**
+ * Computation running in a worker.
+ *
+ * It is sent to the worker as source code: it must be self-contained (no
+ * variables from the enclosing scope, no imports), and an arrow function or
+ * a function expression (methods like `{ compute() {} }.compute` and bound
+ * functions have no standalone source).
+ *
+ * @param input - Values of the input signals
+ * @returns The result (structured-cloneable), or a promise of it
+ */
+export type WorkerFunction<TInput, TResult> = (
+  input: TInput
+) => TResult | PromiseLike<TResult>;
+
+/**
+ * Runs worker computations, returned by `signal.worker.web()` and
+ * `signal.worker.inline()`.
+ */
+export type WorkerRunner = {
+  /**
+   * Runs a computation.
+   *
+   * @param compute - The computation
+   * @param input - Its input
+   * @param abortSignal - Aborts the computation when it is stale
+   * @returns The result, rejected with the abort reason when aborted
+   */
+  run<TInput, TResult>(
+    compute: WorkerFunction<TInput, TResult>,
+    input: TInput,
+    abortSignal: AbortSignal
+  ): Promise<TResult>;
+  /** Releases the resources of the runner (the worker) */
+  dispose?(): void;
+};
+
+/**
+ * Options of `signal.worker()`.
+ *
+ * @template T - The type of the result
+ */
+export type WorkerSignalOptions<T> = AsyncSignalOptions<T> & {
+  /**
+   * Runs the computations.
+   * @default a Web Worker (`signal.worker.web()`), or the current thread
+   * (`signal.worker.inline()`) where Web Workers are not available
+   */
+  runner?: WorkerRunner;
+};
+
+/** Source of the worker script: answers a message per computation */
+const workerScript = (source: string) => `const compute = (${source});
+self.onmessage = async ({ data }) => {
+  try {
+    self.postMessage({ id: data.id, value: await compute(data.input) });
+  } catch (error) {
+    self.postMessage({
+      id: data.id,
+      error: error instanceof Error
+        ? { name: error.name, message: error.message, stack: error.stack }
+        : { message: String(error) },
+    });
+  }
+};`;
+
+const toError = (error: { name?: string; message: string; stack?: string }) =>
+  Object.assign(new Error(error.message), error);
+
+/** Sources that evaluate to the function: arrow functions and function expressions */
+const FUNCTION_SOURCE = /^(async\s*)?(function\b|\(|[\w$]+\s*=>)/;
+
+/**
+ * Returns the source code of a computation, sent to the worker.
+ *
+ * @param compute - The computation
+ * @returns Its source code
+ * @throws If the source does not evaluate to the function (methods, native
+ * or bound functions)
+ */
+const sourceOf = (compute: WorkerFunction<any, unknown>) => {
+  const source = compute.toString();
+  if (!FUNCTION_SOURCE.test(source) || source.includes("[native code]")) {
+    throw new Error(
+      "signal.worker(): the computation must be an arrow function or a " +
+        "function expression, sent to the worker as source code. " +
+        `Methods and bound functions can't be sent: ${source.slice(0, 50)}`
+    );
+  }
+  return source;
+};
+
+/**
+ * Creates a runner executing computations in Web Workers: a dedicated
+ * worker per computation, so that signals sharing the runner can run
+ * different computations.
+ *
+ * A worker is started on the first run of its computation. Aborting a
+ * computation terminates its worker; the other computations the worker
+ * was running are sent to a new worker.
+ *
+ * @returns The runner
+ */
+export function webWorkerRunner(): WorkerRunner {
+  type Job = {
+    input: unknown;
+    resolve: (value: any) => void;
+    reject: (reason: unknown) => void;
+  };
+  type Slot = { url: string; worker?: Worker; jobs: Map<number, Job> };
+
+  // Workers by computation source
+  const slots = new Map<string, Slot>();
+  let nextId = 0;
+
+  const fail = (slot: Slot, reason: unknown) => {
+    slot.worker?.terminate();
+    slot.worker = undefined;
+    slot.jobs.forEach(({ reject }) => reject(reason));
+    slot.jobs.clear();
+  };
+
+  const start = (slot: Slot) => {
+    const worker = new Worker(slot.url);
+    worker.onmessage = ({ data }: MessageEvent) => {
+      const job = slot.jobs.get(data.id);
+      if (!job) return;
+
+      slot.jobs.delete(data.id);
+      if ("error" in data) {
+        job.reject(toError(data.error));
+      } else {
+        job.resolve(data.value);
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      fail(slot, new Error(event.message));
+    };
+    slot.worker = worker;
+    return worker;
+  };
+
+  const cancel = (slot: Slot, id: number, reason: unknown) => {
+    const job = slot.jobs.get(id);
+    if (!job) return;
+
+    slot.jobs.delete(id);
+    job.reject(reason);
+    // The worker is busy with a stale computation
+    slot.worker?.terminate();
+    slot.worker = undefined;
+    if (slot.jobs.size) {
+      const worker = start(slot);
+      slot.jobs.forEach((other, otherId) =>
+        worker.postMessage({ id: otherId, input: other.input })
+      );
+    }
+  };
+
+  return {
+    run(compute, input, abortSignal) {
+      return new Promise((resolve, reject) => {
+        if (abortSignal.aborted) {
+          reject(abortSignal.reason);
+          return;
+        }
+
+        const source = sourceOf(compute);
+        let slot = slots.get(source);
+        if (!slot) {
+          slot = {
+            url: URL.createObjectURL(
+              new Blob([workerScript(source)], { type: "text/javascript" })
+            ),
+            jobs: new Map(),
+          };
+          slots.set(source, slot);
+        }
+
+        const target = slot;
+        const id = nextId++;
+        const worker = target.worker ?? start(target);
+        const onAbort = () => cancel(target, id, abortSignal.reason);
+        // The abort signal may outlive the computation (e.g. shared by calls)
+        const settle = () => abortSignal.removeEventListener("abort", onAbort);
+        target.jobs.set(id, {
+          input,
+          resolve: (value) => {
+            settle();
+            resolve(value);
+          },
+          reject: (reason) => {
+            settle();
+            reject(reason);
+          },
+        });
+        abortSignal.addEventListener("abort", onAbort, { once: true });
+        worker.postMessage({ id, input });
+      });
+    },
+    dispose() {
+      slots.forEach((slot) => {
+        fail(slot, new Error("The worker runner was disposed"));
+        URL.revokeObjectURL(slot.url);
+      });
+      slots.clear();
+    },
+  };
+}
+
+/**
+ * Creates a runner executing computations on the current thread, in a
+ * microtask. Inputs are serialized like messages to a worker, and
+ * computations need a standalone source like in a worker, so that tests
+ * catch what a worker could not receive.
+ *
+ * Used where Web Workers are not available (Node tests, server renders).
+ *
+ * @returns The runner
+ */
+export function inlineWorkerRunner(): WorkerRunner {
+  return {
+    async run(compute, input, abortSignal) {
+      sourceOf(compute);
+      const message =
+        typeof structuredClone === "function" ? structuredClone(input) : input;
+      await Promise.resolve();
+      if (abortSignal.aborted) {
+        throw abortSignal.reason;
+      }
+      return compute(message);
+    },
+  };
+}
+
+/**
+ * Creates a computed signal whose computation runs in a Web Worker, off
+ * the main thread.
+ *
+ * The input signals are read (and tracked) on the main thread and their
+ * values are sent to the worker. Like `signal.async()`, the signal holds a
+ * `Loadable` of the result, and recomputes when an input changes: the
+ * stale computation is aborted (its worker is terminated).
+ *
+ * The computation is sent to the worker as source code: it must be
+ * self-contained. Inputs and results must be structured-cloneable.
+ *
+ * @param inputs - Signals whose values are the input of the computation
+ * @param compute - The computation
+ * @param options - Configuration options
+ * @returns A signal of the loadable result
+ *
+ * @example
+ * ```tsx
+ * const points = signal<Point[]>([]);
+ * const k = signal(8);
+ *
+ * const clusters = signal.worker({ points, k }, ({ points, k }) => {
+ *   // Heavy, self-contained computation: helpers are defined inside
+ *   const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+ *   // ...k-means clustering
+ *   return clusterPoints;
+ * });
+ *
+ * rx(() => {
+ *   const result = clusters();
+ *   return result.status === "success" ? <Chart clusters={result.value} /> : <Spinner />;
+ * });
+ * ```
+ *
+ * @example
+ * ```ts
+ * // Tests run the computation on the current thread
+ * const total = signal.worker(
+ *   { items },
+ *   ({ items }) => items.reduce((total, item) => total + item.price, 0),
+ *   { runner: signal.worker.inline() }
+ * );
+ * ```
+ */
+export function workerSignal<TInputs extends WorkerInputs, TResult>(
+  inputs: TInputs,
+  compute: WorkerFunction<WorkerInputValues<TInputs>, TResult>,
+  options: WorkerSignalOptions<TResult> = {}
+): AsyncSignal<TResult> {
+  const { runner: customRunner, ...asyncOptions } = options;
+  const runner =
+    customRunner ??
+    (typeof Worker === "undefined" ? inlineWorkerRunner() : webWorkerRunner());
+
+  if (!customRunner) {
+    getDispatcher(disposableToken)?.on(() => runner.dispose?.());
+  }
+
+  return asyncSignal<TResult>(({ abortSignal }) => {
+    const input = {} as WorkerInputValues<TInputs>;
+    for (const key of Object.keys(inputs) as (keyof TInputs)[]) {
+      input[key] = inputs[key]() as WorkerInputValues<TInputs>[typeof key];
+    }
+    return runner.run(compute, input, abortSignal);
+  }, asyncOptions);
+}